@@ -34,13 +34,12 @@ interface QuoteExtraction {
 interface GraphicTemplate {
   id: string;
   name: string;
-  width: number;
-  height: number;
-  backgroundColor: string;
-  textColor: string;
-  accentColor: string;
-  fontFamily: string;
-  layout: 'centered' | 'left-aligned' | 'split' | 'overlay';
+  kind: 'quote' | 'thumbnail';
+  builtIn: boolean;
+  definition: {
+    width: number;
+    height: number;
+  };
 }
 
 interface BrandingConfig {
@@ -69,13 +68,13 @@ export default function QuoteGraphicsGenerator({ segmentId, onGraphicsGenerated
 
   // Fetch available templates
   const { data: templates = [], isLoading: templatesLoading } = useQuery({
-    queryKey: ['/api/graphics/templates'],
+    queryKey: ['/api/graphics/templates?kind=quote'],
   });
 
   // Generate quote graphics mutation
   const generateGraphicsMutation = useMutation({
     mutationFn: async () => {
-      return apiRequest(`/api/graphics/quotes/${segmentId}`, 'POST', { branding });
+      return apiRequest(`/api/graphics/quotes/${segmentId}`, 'POST', { branding, templateId: selectedTemplate });
     },
     onSuccess: (data) => {
       toast({ title: "Quote graphics generated successfully" });
@@ -181,7 +180,7 @@ export default function QuoteGraphicsGenerator({ segmentId, onGraphicsGenerated
                 <SelectContent>
                   {templates.map((template: GraphicTemplate) => (
                     <SelectItem key={template.id} value={template.id}>
-                      {template.name}
+                      {template.name}{template.builtIn ? '' : ' (custom)'}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Calendar } from "@/components/ui/calendar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,12 +8,39 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { CalendarIcon, Clock, Plus, Edit, Send } from "lucide-react";
+import { CalendarIcon, Clock, Plus, Edit, Send, RotateCcw } from "lucide-react";
 import { format, addDays, startOfDay } from "date-fns";
 import { publishNow } from "@/lib/publishNow";
+import ThreadPreview from "@/components/ThreadPreview";
+
+interface PublishStep {
+  step: 'upload_media' | 'create_post';
+  status: 'running' | 'completed' | 'failed';
+  mediaIndex?: number;
+  partIndex?: number;
+  error?: string;
+}
+
+interface PostTarget {
+  id: string;
+  socialAccountId: string;
+  status: 'pending' | 'posting' | 'posted' | 'failed';
+  platformPostId: string | null;
+  error: string | null;
+  steps: PublishStep[] | null;
+}
+
+// Where a publish in progress or a failed one got to, e.g. "uploading media 2" or "posting tweet 3"
+const stepLabel = (target: PostTarget) => {
+  const step = [...(target.steps || [])].reverse().find(candidate => candidate.status !== 'completed');
+  if (!step || (target.status !== 'posting' && target.status !== 'failed')) return null;
+  if (step.step === 'upload_media') return `uploading media ${(step.mediaIndex ?? 0) + 1}`;
+  return step.partIndex !== undefined ? `posting tweet ${step.partIndex + 1}` : 'creating post';
+};
 
 interface ScheduledPost {
   id: string;
@@ -22,6 +49,14 @@ interface ScheduledPost {
   scheduledFor: string;
   status: string;
   segmentTitle?: string;
+  targets?: PostTarget[];
+}
+
+interface SocialAccount {
+  id: string;
+  platform: string;
+  accountId: string;
+  workspaceId: string | null;
 }
 
 interface SchedulingCalendarProps {
@@ -35,6 +70,7 @@ export default function SchedulingCalendar({ uploadId }: SchedulingCalendarProps
   const [scheduledTime, setScheduledTime] = useState("09:00");
   const [selectedPlatform, setSelectedPlatform] = useState("");
   const [postContent, setPostContent] = useState("");
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[]>([]);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -59,6 +95,35 @@ export default function SchedulingCalendar({ uploadId }: SchedulingCalendarProps
     },
   });
 
+  const { data: socialAccounts = [] } = useQuery<SocialAccount[]>({
+    queryKey: ['/api/social-accounts'],
+  });
+
+  // Accounts the selected post may publish to, with what was already published where
+  const { data: postTargets } = useQuery<{ targets: PostTarget[]; accounts: SocialAccount[] }>({
+    queryKey: [`/api/social-posts/${selectedPost?.id}/targets`],
+    enabled: isScheduleDialogOpen && !!selectedPost,
+  });
+
+  useEffect(() => {
+    if (postTargets) {
+      setSelectedAccountIds(postTargets.targets.map(target => target.socialAccountId));
+    }
+  }, [postTargets]);
+
+  const targetAccounts = selectedPost
+    ? postTargets?.accounts || []
+    : socialAccounts.filter(account => account.platform === selectedPlatform);
+
+  const accountLabel = (accountId: string) => {
+    const account = [...socialAccounts, ...(postTargets?.accounts || [])].find(candidate => candidate.id === accountId);
+    return account ? account.accountId : 'Removed account';
+  };
+
+  const toggleAccount = (accountId: string, checked: boolean) => {
+    setSelectedAccountIds(ids => checked ? [...ids, accountId] : ids.filter(id => id !== accountId));
+  };
+
   // Schedule post mutation
   const schedulePostMutation = useMutation({
     mutationFn: async (data: {
@@ -66,8 +131,12 @@ export default function SchedulingCalendar({ uploadId }: SchedulingCalendarProps
       content: string;
       platform: string;
       scheduledFor: string;
+      accountIds: string[];
     }) => {
       if (data.postId) {
+        if (data.accountIds.length > 0) {
+          await apiRequest(`/api/social-posts/${data.postId}/targets`, 'PUT', { accountIds: data.accountIds });
+        }
         return apiRequest(`/api/social-posts/${data.postId}/schedule`, 'PATCH', {
           scheduledFor: data.scheduledFor,
         });
@@ -79,6 +148,9 @@ export default function SchedulingCalendar({ uploadId }: SchedulingCalendarProps
       toast({ title: "Post scheduled successfully" });
       queryClient.invalidateQueries({ queryKey: ['/api/scheduled-posts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/social-posts'] });
+      if (selectedPost) {
+        queryClient.invalidateQueries({ queryKey: [`/api/social-posts/${selectedPost.id}/targets`] });
+      }
       setIsScheduleDialogOpen(false);
       resetForm();
     },
@@ -102,10 +174,22 @@ export default function SchedulingCalendar({ uploadId }: SchedulingCalendarProps
     },
   });
 
+  const retryMutation = useMutation({
+    mutationFn: async (postId: string) => apiRequest('POST', `/api/social-posts/${postId}/retry`),
+    onSuccess: () => {
+      toast({ title: 'Retrying post', description: 'Accounts that failed are published to again' });
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-posts'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to retry', description: error.message, variant: 'destructive' });
+    },
+  });
+
   const resetForm = () => {
     setSelectedPost(null);
     setPostContent("");
     setSelectedPlatform("");
+    setSelectedAccountIds([]);
     setScheduledTime("09:00");
   };
 
@@ -119,12 +203,14 @@ export default function SchedulingCalendar({ uploadId }: SchedulingCalendarProps
       content: postContent,
       platform: selectedPlatform,
       scheduledFor: scheduledDateTime.toISOString(),
+      accountIds: selectedAccountIds,
     });
   };
 
   const openScheduleDialog = (post?: any) => {
     if (post) {
       setSelectedPost(post);
+      setSelectedAccountIds(post.targets?.map((target: PostTarget) => target.socialAccountId) || []);
       setPostContent(post.content);
       setSelectedPlatform(post.platform);
     } else {
@@ -242,11 +328,35 @@ export default function SchedulingCalendar({ uploadId }: SchedulingCalendarProps
                         >
                           <Send className="h-3 w-3" />
                         </Button>
+                        {post.status === 'failed' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Retry now"
+                            onClick={() => retryMutation.mutate(post.id)}
+                            disabled={retryMutation.isPending}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                     <p className="text-sm text-muted-foreground line-clamp-2">
                       {post.content}
                     </p>
+                    {post.targets && post.targets.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {post.targets.map((target) => (
+                          <Badge
+                            key={target.id}
+                            variant={target.status === 'failed' ? 'destructive' : target.status === 'posted' ? 'default' : 'outline'}
+                            title={target.error || undefined}
+                          >
+                            {accountLabel(target.socialAccountId)} · {target.status}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                     {post.segmentTitle && (
                       <p className="text-xs text-muted-foreground mt-1">
                         From: {post.segmentTitle}
@@ -311,6 +421,50 @@ export default function SchedulingCalendar({ uploadId }: SchedulingCalendarProps
               </div>
             )}
 
+            <div>
+              <Label>Publish to</Label>
+              {targetAccounts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {selectedPost || selectedPlatform
+                    ? 'No connected accounts for this platform in the post\'s workspace'
+                    : 'Select a platform first'}
+                </p>
+              ) : (
+                <div className="space-y-2 mt-1">
+                  {targetAccounts.map((account) => {
+                    const target = postTargets?.targets.find(candidate => candidate.socialAccountId === account.id);
+                    return (
+                      <div key={account.id} className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            checked={selectedAccountIds.includes(account.id)}
+                            // Accounts already published to stay selected
+                            disabled={target?.status === 'posted'}
+                            onCheckedChange={(checked) => toggleAccount(account.id, checked === true)}
+                          />
+                          <span className="text-sm">{account.accountId}</span>
+                        </div>
+                        {target && (
+                          <Badge
+                            variant={target.status === 'failed' ? 'destructive' : 'outline'}
+                            title={target.error || undefined}
+                          >
+                            {target.status}
+                            {stepLabel(target) && ` · ${stepLabel(target)}`}
+                          </Badge>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {selectedAccountIds.length === 0 && targetAccounts.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Without a selection the post goes to the first connected account
+                </p>
+              )}
+            </div>
+
             <div>
               <Label htmlFor="date">Date</Label>
               <Input
@@ -341,6 +495,14 @@ export default function SchedulingCalendar({ uploadId }: SchedulingCalendarProps
               </div>
             )}
 
+            {/* X posts longer than a tweet go out as a thread */}
+            {(selectedPost?.platform ?? selectedPlatform) === 'twitter' && (
+              <div>
+                {selectedPost && <Label>Content</Label>}
+                <ThreadPreview content={selectedPost ? selectedPost.content : postContent} />
+              </div>
+            )}
+
             <div className="flex gap-2">
               <Button
                 onClick={handleSchedulePost}
@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Scissors, Merge, Undo2, History } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Segment {
+  id: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  transcript: string | null;
+  order: number;
+}
+
+interface SegmentRevision {
+  id: string;
+  operation: 'trim' | 'split' | 'merge';
+  details: Record<string, any> | null;
+  createdSegmentIds: string[];
+  undoneAt: string | null;
+  createdAt: string;
+}
+
+interface SegmentEditorProps {
+  uploadId: string;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(1);
+  return `${mins}:${secs.padStart(4, '0')}`;
+};
+
+export function SegmentEditor({ uploadId }: SegmentEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [keepManualEdits, setKeepManualEdits] = useState(true);
+  // Unsaved boundaries and split points, keyed by segment id
+  const [drafts, setDrafts] = useState<Record<string, { startTime: string; endTime: string; splitAt: string }>>({});
+
+  const { data: upload } = useQuery<{ duration: string | null; segments: Segment[] }>({
+    queryKey: [`/api/uploads/${uploadId}`],
+  });
+
+  const { data: history = [] } = useQuery<SegmentRevision[]>({
+    queryKey: [`/api/uploads/${uploadId}/segments/history`],
+  });
+
+  const segments = [...(upload?.segments || [])].sort((a, b) => a.order - b.order);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(segments.map(segment => {
+      const start = parseFloat(segment.startTime);
+      const end = parseFloat(segment.endTime);
+      return [segment.id, { startTime: start.toString(), endTime: end.toString(), splitAt: ((start + end) / 2).toFixed(1) }];
+    })));
+  }, [upload]);
+
+  const onEdited = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/uploads/${uploadId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/uploads/${uploadId}/segments/history`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/uploads', uploadId, 'social-posts'] });
+    toast({ title: message, description: "Clips and posts are being regenerated" });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Edit failed", description: error.message, variant: "destructive" });
+  };
+
+  const trimMutation = useMutation({
+    mutationFn: async ({ segmentId, startTime, endTime }: { segmentId: string; startTime: number; endTime: number }) => {
+      return apiRequest('PATCH', `/api/segments/${segmentId}`, { startTime, endTime, keepManualEdits });
+    },
+    onSuccess: () => onEdited("Segment trimmed"),
+    onError,
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: async ({ segmentId, at }: { segmentId: string; at: number }) => {
+      return apiRequest('POST', `/api/segments/${segmentId}/split`, { at, keepManualEdits });
+    },
+    onSuccess: () => onEdited("Segment split"),
+    onError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (segmentIds: [string, string]) => {
+      return apiRequest('POST', '/api/segments/merge', { segmentIds, keepManualEdits });
+    },
+    onSuccess: () => onEdited("Segments merged"),
+    onError,
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/uploads/${uploadId}/segments/undo`, { keepManualEdits });
+    },
+    onSuccess: () => onEdited("Edit undone"),
+    onError,
+  });
+
+  const isEditing = trimMutation.isPending || splitMutation.isPending || mergeMutation.isPending || undoMutation.isPending;
+  const canUndo = history.some(revision => !revision.undoneAt);
+  const duration = upload?.duration ? parseFloat(upload.duration) : null;
+
+  const updateDraft = (segmentId: string, updates: Partial<{ startTime: string; endTime: string; splitAt: string }>) => {
+    setDrafts(current => ({ ...current, [segmentId]: { ...current[segmentId], ...updates } }));
+  };
+
+  if (segments.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scissors className="h-5 w-5" />
+          Segment Editor
+        </CardTitle>
+        <CardDescription>
+          Trim, split or merge segments. Affected shorts are re-rendered and posts regenerated.
+          {duration !== null && ` Upload length: ${formatTime(duration)}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Switch checked={keepManualEdits} onCheckedChange={setKeepManualEdits} />
+            <span className="text-sm">Keep manual caption edits</span>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => undoMutation.mutate()}
+            disabled={!canUndo || isEditing}
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {segments.map((segment, index) => {
+            const draft = drafts[segment.id];
+            const next = segments[index + 1];
+            if (!draft) return null;
+
+            return (
+              <div key={segment.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">{segment.title}</h4>
+                  <Badge variant="outline">
+                    {formatTime(parseFloat(segment.startTime))} – {formatTime(parseFloat(segment.endTime))}
+                  </Badge>
+                </div>
+                {segment.transcript && (
+                  <p className="text-xs text-muted-foreground line-clamp-2">{segment.transcript}</p>
+                )}
+                <div className="flex flex-wrap items-end gap-2">
+                  <div>
+                    <label className="text-xs font-medium">Start (s)</label>
+                    <Input
+                      type="number"
+                      step="0.1"
+                      min={0}
+                      className="w-24"
+                      value={draft.startTime}
+                      onChange={(e) => updateDraft(segment.id, { startTime: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs font-medium">End (s)</label>
+                    <Input
+                      type="number"
+                      step="0.1"
+                      min={0}
+                      max={duration ?? undefined}
+                      className="w-24"
+                      value={draft.endTime}
+                      onChange={(e) => updateDraft(segment.id, { endTime: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => trimMutation.mutate({
+                      segmentId: segment.id,
+                      startTime: parseFloat(draft.startTime),
+                      endTime: parseFloat(draft.endTime),
+                    })}
+                    disabled={isEditing}
+                  >
+                    Save trim
+                  </Button>
+                  <div>
+                    <label className="text-xs font-medium">Split at (s)</label>
+                    <Input
+                      type="number"
+                      step="0.1"
+                      className="w-24"
+                      value={draft.splitAt}
+                      onChange={(e) => updateDraft(segment.id, { splitAt: e.target.value })}
+                    />
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => splitMutation.mutate({ segmentId: segment.id, at: parseFloat(draft.splitAt) })}
+                    disabled={isEditing}
+                  >
+                    <Scissors className="h-4 w-4 mr-1" />
+                    Split
+                  </Button>
+                  {next && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => mergeMutation.mutate([segment.id, next.id])}
+                      disabled={isEditing}
+                    >
+                      <Merge className="h-4 w-4 mr-1" />
+                      Merge with next
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Edit history
+            </h4>
+            {history.map(revision => (
+              <div key={revision.id} className="flex items-center justify-between text-sm">
+                <span className="capitalize">{revision.operation}</span>
+                <span className="text-muted-foreground">
+                  {new Date(revision.createdAt).toLocaleString()}
+                  {revision.undoneAt && ' (undone)'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
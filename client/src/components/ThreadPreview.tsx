@@ -0,0 +1,41 @@
+import { Badge } from "@/components/ui/badge";
+import { splitThread, tweetLength, TWEET_MAX_LENGTH } from "@shared/thread";
+
+interface ThreadPreviewProps {
+  content: string;
+}
+
+// How an X post will be split into a thread, counted the way X counts characters
+export default function ThreadPreview({ content }: ThreadPreviewProps) {
+  const parts = splitThread(content);
+  if (parts.length === 0) return null;
+
+  if (parts.length === 1) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">
+        {tweetLength(parts[0])}/{TWEET_MAX_LENGTH} characters
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Posts as a thread of {parts.length} tweets
+      </p>
+      <ol className="space-y-2 max-h-60 overflow-y-auto">
+        {parts.map((part, index) => (
+          <li key={index} className="rounded-md border p-2 text-sm">
+            <div className="flex items-center justify-between mb-1">
+              <Badge variant="outline">{index + 1}/{parts.length}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {tweetLength(part)}/{TWEET_MAX_LENGTH}
+              </span>
+            </div>
+            <p className="whitespace-pre-wrap break-words">{part}</p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
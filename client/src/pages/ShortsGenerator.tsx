@@ -1,22 +1,50 @@
 import { useState } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
 import { Navigation } from '@/components/Navigation';
+import { SegmentEditor } from '@/components/SegmentEditor';
 import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import { Video, Download, Clock, FileVideo, Settings } from 'lucide-react';
 
 interface ShortsResult {
   segmentId: string;
-  outputPath: string;
+  clipId: string;
   duration: number;
-  size: number;
   format: string;
   resolution: string;
+  status: string;
+}
+
+interface ShortStatus {
+  clipId: string;
+  segmentId: string;
+  status: string;
+  downloadUrl: string | null;
+  render: { size?: number; error?: string; edl?: EditDecisionList } | null;
+}
+
+interface EditDecisionList {
+  cuts: Array<{ start: number; end: number; reason: 'filler' | 'silence'; text?: string }>;
+  originalDuration: number;
+  editedDuration: number;
+}
+
+interface CaptionPreset {
+  name: string;
+  label: string;
+  fontFamily: string;
+  highlightColor: string;
+  position: string;
+  maxWordsPerLine: number;
+  emoji: boolean;
 }
 
 interface ShortsConfig {
@@ -26,10 +54,38 @@ interface ShortsConfig {
     fontsize: number;
     fontcolor: string;
     fontfamily: string;
+    preset: string;
+    platform: string;
   };
+  jumpCut: {
+    enabled: boolean;
+    fillerWords: string[];
+    minSilenceMs: number;
+  };
+}
+
+interface QueueMetrics {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
+// A post the scheduler gave up on
+interface DeadLetterEntry {
+  jobId: string;
+  postId: string;
+  platform: string;
+  errorCode: string | null;
+  error: string;
+  attempts: number;
+  failedAt: string | null;
 }
 
 export default function ShortsGenerator() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
   const [selectedUpload, setSelectedUpload] = useState<string>('');
   const [shortsConfig, setShortsConfig] = useState<ShortsConfig>({
     width: 1080,
@@ -37,19 +93,48 @@ export default function ShortsGenerator() {
     subtitleStyle: {
       fontsize: 48,
       fontcolor: 'white',
-      fontfamily: 'Arial'
+      fontfamily: 'Arial',
+      preset: 'classic',
+      platform: 'tiktok'
+    },
+    jumpCut: {
+      enabled: false,
+      fillerWords: ['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'mm'],
+      minSilenceMs: 700
     }
   });
 
+  const { data: captionOptions } = useQuery<{ presets: CaptionPreset[]; platforms: string[] }>({
+    queryKey: ['/api/shorts/caption-presets'],
+  });
+
   const { data: uploads } = useQuery({
     queryKey: ['/api/uploads'],
   });
 
-  const { data: queueMetrics } = useQuery({
+  const { data: queueMetrics } = useQuery<{ queues: Record<string, QueueMetrics>; deadLetter: DeadLetterEntry[] }>({
     queryKey: ['/api/queues/metrics'],
     refetchInterval: 5000,
   });
 
+  const retryPostMutation = useMutation({
+    mutationFn: async (postId: string) => {
+      return apiRequest('POST', `/api/social-posts/${postId}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/queues/metrics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scheduled-posts'] });
+      toast({ title: 'Retry queued', description: 'The post will be published again shortly.' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Retry failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   const { data: verticals } = useQuery({
     queryKey: ['/api/scheduling/verticals'],
   });
@@ -66,6 +151,22 @@ export default function ShortsGenerator() {
     },
   });
 
+  const { data: shortsStatus } = useQuery<{ status: string; progress: number; shorts: ShortStatus[] }>({
+    queryKey: [`/api/shorts/${selectedUpload}/status`],
+    enabled: !!selectedUpload && generateShortsMutation.isSuccess,
+    refetchInterval: (query) => (query.state.data?.status === 'processing' ? 3000 : false),
+  });
+
+  const updateSubtitleStyle = (updates: Partial<ShortsConfig['subtitleStyle']>) => {
+    setShortsConfig(config => ({ ...config, subtitleStyle: { ...config.subtitleStyle, ...updates } }));
+  };
+
+  const updateJumpCut = (updates: Partial<ShortsConfig['jumpCut']>) => {
+    setShortsConfig(config => ({ ...config, jumpCut: { ...config.jumpCut, ...updates } }));
+  };
+
+  const selectedPreset = captionOptions?.presets.find(preset => preset.name === shortsConfig.subtitleStyle.preset);
+
   const schedulePostMutation = useMutation({
     mutationFn: async (data: { platform: string; postId: string; scheduledTime?: string }) => {
       return apiRequest('/api/queues/schedule', {
@@ -146,6 +247,8 @@ export default function ShortsGenerator() {
         </CardContent>
       </Card>
 
+      {selectedUpload && <SegmentEditor uploadId={selectedUpload} />}
+
       {/* Shorts Configuration */}
       <Card>
         <CardHeader>
@@ -162,10 +265,88 @@ export default function ShortsGenerator() {
               <p className="text-xs text-muted-foreground">9:16 aspect ratio optimized</p>
             </div>
             <div>
-              <label className="text-sm font-medium">Subtitle Font Size</label>
-              <p className="text-lg">{shortsConfig.subtitleStyle.fontsize}px</p>
+              <label className="text-sm font-medium">Caption Preset</label>
+              <Select
+                value={shortsConfig.subtitleStyle.preset}
+                onValueChange={(preset) => updateSubtitleStyle({ preset })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a preset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {captionOptions?.presets.map((preset) => (
+                    <SelectItem key={preset.name} value={preset.name}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedPreset && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {selectedPreset.fontFamily} • {selectedPreset.maxWordsPerLine} words per line • {selectedPreset.position}
+                  {selectedPreset.emoji ? ' • emoji' : ''}
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="text-sm font-medium">Safe Area</label>
+              <Select
+                value={shortsConfig.subtitleStyle.platform}
+                onValueChange={(platform) => updateSubtitleStyle({ platform })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a platform" />
+                </SelectTrigger>
+                <SelectContent>
+                  {captionOptions?.platforms.map((platform) => (
+                    <SelectItem key={platform} value={platform} className="capitalize">
+                      {platform}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">Keeps captions clear of the platform's on-screen UI</p>
             </div>
           </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="text-sm font-medium">Jump Cuts</label>
+                <p className="text-xs text-muted-foreground">Remove filler words and long pauses; captions follow the edit</p>
+              </div>
+              <Switch
+                checked={shortsConfig.jumpCut.enabled}
+                onCheckedChange={(enabled) => updateJumpCut({ enabled })}
+              />
+            </div>
+            {shortsConfig.jumpCut.enabled && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium">Filler Words</label>
+                  <Input
+                    value={shortsConfig.jumpCut.fillerWords.join(', ')}
+                    onChange={(e) => updateJumpCut({
+                      fillerWords: e.target.value.split(',').map(word => word.trim()).filter(Boolean)
+                    })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Comma separated; phrases like "you know" work too</p>
+                </div>
+                <div>
+                  <label className="text-sm font-medium">Cut Pauses Longer Than (ms)</label>
+                  <Input
+                    type="number"
+                    min={200}
+                    step={100}
+                    value={shortsConfig.jumpCut.minSilenceMs}
+                    onChange={(e) => updateJumpCut({ minSilenceMs: Number(e.target.value) || 700 })}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -177,7 +358,7 @@ export default function ShortsGenerator() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
-            {queueMetrics && Object.entries(queueMetrics).map(([platform, metrics]: [string, any]) => (
+            {queueMetrics && Object.entries(queueMetrics.queues).map(([platform, metrics]) => (
               <div key={platform} className="p-4 border rounded-lg">
                 <div className="flex items-center justify-between mb-2">
                   <h3 className="font-medium capitalize">{platform}</h3>
@@ -212,6 +393,35 @@ export default function ShortsGenerator() {
               </div>
             ))}
           </div>
+
+          {queueMetrics && queueMetrics.deadLetter.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h3 className="font-medium">Failed posts</h3>
+              {queueMetrics.deadLetter.map((entry) => (
+                <div key={entry.jobId} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium capitalize">{entry.platform.replace(/_graphic$/, '')}</span>
+                      {entry.errorCode && <Badge variant="destructive">{entry.errorCode}</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate" title={entry.error}>{entry.error}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {entry.attempts} attempt{entry.attempts === 1 ? '' : 's'}
+                      {entry.failedAt && ` · failed ${new Date(entry.failedAt).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => retryPostMutation.mutate(entry.postId)}
+                    disabled={retryPostMutation.isPending}
+                  >
+                    Retry now
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -274,7 +484,7 @@ export default function ShortsGenerator() {
         </Card>
       )}
 
-      {/* Demo Results */}
+      {/* Render Results */}
       {generateShortsMutation.isSuccess && (
         <Card>
           <CardHeader>
@@ -286,18 +496,28 @@ export default function ShortsGenerator() {
           <CardContent>
             <div className="space-y-4">
               <div className="flex items-center gap-4">
-                <Badge variant="default">Completed</Badge>
+                <Badge variant={shortsStatus?.status === 'processing' ? 'secondary' : 'default'} className="capitalize">
+                  {shortsStatus?.status || 'processing'}
+                </Badge>
                 <span className="text-sm text-muted-foreground">
-                  {generateShortsMutation.data?.totalShorts || 0} shorts generated
+                  {generateShortsMutation.data?.totalShorts || 0} shorts rendering
                 </span>
               </div>
+              {shortsStatus?.status === 'processing' && <Progress value={shortsStatus.progress} />}
               
               <div className="grid gap-3">
-                {generateShortsMutation.data?.results?.map((result: ShortsResult, index: number) => (
+                {generateShortsMutation.data?.results?.map((result: ShortsResult, index: number) => {
+                  const status = shortsStatus?.shorts.find(short => short.clipId === result.clipId);
+                  return (
                   <div key={result.segmentId} className="p-4 border rounded-lg">
                     <div className="flex items-center justify-between mb-2">
                       <h4 className="font-medium">Short #{index + 1}</h4>
-                      <Badge variant="outline">{result.resolution}</Badge>
+                      <div className="flex gap-2">
+                        <Badge variant={status?.status === 'failed' ? 'destructive' : 'secondary'} className="capitalize">
+                          {status?.status || result.status}
+                        </Badge>
+                        <Badge variant="outline">{result.resolution}</Badge>
+                      </div>
                     </div>
                     <div className="grid grid-cols-3 gap-4 text-sm">
                       <div>
@@ -306,14 +526,39 @@ export default function ShortsGenerator() {
                       </div>
                       <div>
                         <span className="text-muted-foreground">Size:</span>
-                        <p className="font-mono">{formatFileSize(result.size)}</p>
+                        <p className="font-mono">{status?.render?.size ? formatFileSize(status.render.size) : '—'}</p>
                       </div>
                       <div>
                         <span className="text-muted-foreground">Format:</span>
                         <p className="font-mono uppercase">{result.format}</p>
                       </div>
                     </div>
+                    {status?.render?.edl && status.render.edl.cuts.length > 0 && (
+                      <details className="mt-2 text-xs">
+                        <summary className="cursor-pointer text-muted-foreground">
+                          {status.render.edl.cuts.length} cuts • {formatDuration(status.render.edl.originalDuration)} → {formatDuration(status.render.edl.editedDuration)}
+                        </summary>
+                        <ul className="mt-1 space-y-0.5 font-mono">
+                          {status.render.edl.cuts.map((cut, cutIndex) => (
+                            <li key={cutIndex}>
+                              {cut.start.toFixed(2)}s–{cut.end.toFixed(2)}s {cut.reason === 'filler' ? `filler "${cut.text}"` : 'silence'}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                    {status?.render?.error && (
+                      <p className="mt-2 text-xs text-red-600">{status.render.error}</p>
+                    )}
                     <div className="mt-3 flex gap-2">
+                      {status?.downloadUrl && (
+                        <Button size="sm" variant="outline" asChild>
+                          <a href={status.downloadUrl} download>
+                            <Download className="h-4 w-4 mr-1" />
+                            Download
+                          </a>
+                        </Button>
+                      )}
                       <Button 
                         size="sm" 
                         onClick={() => schedulePostMutation.mutate({
@@ -337,7 +582,8 @@ export default function ShortsGenerator() {
                       </Button>
                     </div>
                   </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           </CardContent>
@@ -0,0 +1,20 @@
+-- Migration: Add processing checkpoints
+-- Description: Persists the outcome of each pipeline stage per upload so failed uploads resume instead of restarting
+
+CREATE TABLE IF NOT EXISTS processing_checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  upload_id UUID NOT NULL REFERENCES uploads(id) ON DELETE CASCADE,
+  stage VARCHAR NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  output JSONB,
+  error TEXT,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_checkpoint_upload_stage" ON processing_checkpoints(upload_id, stage);
+
+COMMENT ON TABLE processing_checkpoints IS 'Per-stage processing state used to resume or re-run upload processing';
+COMMENT ON COLUMN processing_checkpoints.output IS 'JSON summary of what the stage produced (ids, counts)';
@@ -0,0 +1,11 @@
+-- Migration: Add transcription provider selection
+-- Description: Links uploads to a workspace so its transcription settings apply, and records which provider produced each transcript
+
+ALTER TABLE uploads ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL;
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS provider VARCHAR;
+
+CREATE INDEX IF NOT EXISTS idx_uploads_workspace_id ON uploads(workspace_id);
+
+COMMENT ON COLUMN uploads.workspace_id IS 'Workspace whose settings (e.g. transcription provider) apply to this upload';
+COMMENT ON COLUMN transcripts.provider IS 'Transcription provider used: openai, assemblyai or local';
+COMMENT ON COLUMN transcripts.word_timestamps IS 'JSON array of { word, start, end, confidence } in seconds';
@@ -0,0 +1,21 @@
+-- Migration: Add speaker diarization
+-- Description: Stores the speakers detected in each upload and the dominant speaker of each segment
+
+CREATE TABLE IF NOT EXISTS speakers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  upload_id UUID NOT NULL REFERENCES uploads(id) ON DELETE CASCADE,
+  label VARCHAR NOT NULL,
+  name VARCHAR NOT NULL,
+  word_count INTEGER NOT NULL DEFAULT 0,
+  speaking_time NUMERIC,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_speaker_upload_label" ON speakers(upload_id, label);
+
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS speaker_id UUID REFERENCES speakers(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE speakers IS 'Speakers detected by diarization, renameable per upload';
+COMMENT ON COLUMN speakers.label IS 'Label assigned by the transcription provider (e.g. A, B)';
+COMMENT ON COLUMN segments.speaker_id IS 'Speaker with the most speaking time within the segment';
@@ -0,0 +1,6 @@
+-- Migration: Add segment alignment confidence
+-- Description: Segment boundaries are realigned to word timestamps; store how confident that alignment was
+
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS alignment_confidence NUMERIC;
+
+COMMENT ON COLUMN segments.alignment_confidence IS '0-1 fuzzy match score of the segment text against transcript word timestamps (NULL when no word timestamps were available)';
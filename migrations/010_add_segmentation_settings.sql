@@ -0,0 +1,6 @@
+-- Migration: Add per-upload segmentation settings
+-- Description: Lets each upload choose single-prompt or chunked segmentation, the segment limit and how segments are ordered
+
+ALTER TABLE uploads ADD COLUMN IF NOT EXISTS segmentation_settings JSONB;
+
+COMMENT ON COLUMN uploads.segmentation_settings IS 'JSON { mode: auto|single|chunked, maxSegments, order: chronological|score }';
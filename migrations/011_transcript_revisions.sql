@@ -0,0 +1,21 @@
+-- Migration: Add transcript editing history
+-- Description: Records every manual transcript correction with the transcript as it was before, so edits can be reviewed and reverted
+
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT NOW();
+
+CREATE TABLE IF NOT EXISTS transcript_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  user_id VARCHAR REFERENCES users(id),
+  operation VARCHAR NOT NULL,
+  details JSONB,
+  previous_text TEXT NOT NULL,
+  previous_words JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_revisions_transcript_id ON transcript_revisions(transcript_id, created_at);
+
+COMMENT ON TABLE transcript_revisions IS 'History of manual transcript corrections';
+COMMENT ON COLUMN transcript_revisions.operation IS 'replace_word, find_replace, vocabulary or revert';
+COMMENT ON COLUMN transcript_revisions.previous_words IS 'Word timestamps before the edit, restored on revert';
@@ -0,0 +1,18 @@
+-- Migration: Add graphic templates
+-- Description: Persists user-defined quote graphic and thumbnail templates as JSON layer definitions
+
+CREATE TABLE IF NOT EXISTS graphic_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR NOT NULL,
+  kind VARCHAR NOT NULL,
+  definition JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_graphic_templates_user_id ON graphic_templates(user_id, kind);
+
+COMMENT ON TABLE graphic_templates IS 'User-defined graphic templates; built-in templates are defined in code';
+COMMENT ON COLUMN graphic_templates.kind IS 'quote or thumbnail';
+COMMENT ON COLUMN graphic_templates.definition IS 'Canvas size, background, variables, layers and per-platform size variants';
@@ -0,0 +1,8 @@
+-- Migration: Add audio clean-up results to uploads
+-- Description: Stores the cleaned-up audio path and loudness/SNR metrics from the audio clean-up stage
+
+ALTER TABLE uploads ADD COLUMN IF NOT EXISTS processed_file_path VARCHAR;
+ALTER TABLE uploads ADD COLUMN IF NOT EXISTS audio_metrics JSONB;
+
+COMMENT ON COLUMN uploads.processed_file_path IS 'Noise-reduced, loudness-normalised audio used for transcription';
+COMMENT ON COLUMN uploads.audio_metrics IS 'Loudness, true peak, noise floor and SNR of the original and processed audio, plus the quality gate result';
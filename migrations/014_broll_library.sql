@@ -0,0 +1,23 @@
+-- Migration: Add B-roll library
+-- Description: Tagged workspace clips and images inserted into shorts where transcript keywords match
+
+CREATE TABLE IF NOT EXISTS broll_assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  name VARCHAR NOT NULL,
+  media_type VARCHAR NOT NULL,
+  mime_type VARCHAR NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size INTEGER NOT NULL,
+  duration NUMERIC,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_broll_assets_workspace" ON broll_assets(workspace_id);
+
+COMMENT ON TABLE broll_assets IS 'Workspace B-roll library; placements on a short are kept in clips.metadata.broll';
+COMMENT ON COLUMN broll_assets.media_type IS 'video or image';
+COMMENT ON COLUMN broll_assets.tags IS 'Lower-case keywords matched against segment transcripts';
@@ -0,0 +1,8 @@
+-- Migration: Add segment virality scores
+-- Description: Segments are scored before rendering so only the strongest get clips and posts
+
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS virality_score NUMERIC;
+ALTER TABLE segments ADD COLUMN IF NOT EXISTS virality_breakdown JSONB;
+
+COMMENT ON COLUMN segments.virality_score IS '0-100 weighted score of hook, emotion, coherence, length fit and similarity to breakout posts';
+COMMENT ON COLUMN segments.virality_breakdown IS 'Per-factor scores, per-platform length fit, similar breakout posts, signals and rank within the upload';
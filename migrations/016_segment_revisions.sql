@@ -0,0 +1,23 @@
+-- Migration: Add manual segment editing
+-- Description: Undo history for trimmed, split and merged segments, and a marker for hand-edited post captions
+
+CREATE TABLE IF NOT EXISTS segment_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  upload_id UUID NOT NULL REFERENCES uploads(id) ON DELETE CASCADE,
+  user_id VARCHAR REFERENCES users(id),
+  operation VARCHAR NOT NULL,
+  details JSONB,
+  previous_segments JSONB NOT NULL,
+  created_segment_ids TEXT[] NOT NULL DEFAULT '{}',
+  undone_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_segment_revisions_upload" ON segment_revisions(upload_id);
+
+ALTER TABLE social_posts ADD COLUMN IF NOT EXISTS content_edited_at TIMESTAMP;
+
+COMMENT ON TABLE segment_revisions IS 'Manual trim/split/merge edits; the latest edit that is not undone can be undone';
+COMMENT ON COLUMN segment_revisions.previous_segments IS 'Affected segment rows as they were before the edit';
+COMMENT ON COLUMN segment_revisions.created_segment_ids IS 'Segments the edit created, deleted again on undo';
+COMMENT ON COLUMN social_posts.content_edited_at IS 'When a user last rewrote the caption; kept when posts are regenerated with keep-manual-edits';
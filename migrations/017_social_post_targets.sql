@@ -0,0 +1,21 @@
+-- Migration: Add per-post target accounts
+-- Description: Fans a social post out to chosen accounts with a status per account, and scopes accounts to workspaces
+
+ALTER TABLE social_accounts ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS social_post_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES social_posts(id) ON DELETE CASCADE,
+  social_account_id UUID NOT NULL REFERENCES social_accounts(id) ON DELETE CASCADE,
+  status VARCHAR NOT NULL DEFAULT 'pending',
+  platform_post_id VARCHAR,
+  error TEXT,
+  posted_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "IDX_social_post_targets_post_account" ON social_post_targets(post_id, social_account_id);
+
+COMMENT ON COLUMN social_accounts.workspace_id IS 'Workspace whose posts may publish to this account; NULL means any of the owner''s uploads';
+COMMENT ON TABLE social_post_targets IS 'Accounts a social post is published to, each with its own status, platform post ID and error';
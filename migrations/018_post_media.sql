@@ -0,0 +1,11 @@
+-- Migration: Add media to social posts
+-- Description: Clips and graphics attached to posts, and per-step publishing status per target account
+
+ALTER TABLE social_posts ADD COLUMN IF NOT EXISTS media JSONB;
+
+ALTER TABLE social_post_targets ADD COLUMN IF NOT EXISTS steps JSONB;
+ALTER TABLE social_post_targets ADD COLUMN IF NOT EXISTS media_ids TEXT[];
+
+COMMENT ON COLUMN social_posts.media IS 'Ordered clip files and graphics uploaded with the post; several images publish as a carousel';
+COMMENT ON COLUMN social_post_targets.steps IS 'Media upload and post creation steps with their status, media ID and error';
+COMMENT ON COLUMN social_post_targets.media_ids IS 'Platform media IDs from the upload steps, reused when a retry only needs to create the post';
@@ -0,0 +1,9 @@
+-- Migration: Add X thread parts to social posts
+-- Description: Threads are stored as ordered tweets and published as a reply chain that a retry can continue
+
+ALTER TABLE social_posts ADD COLUMN IF NOT EXISTS thread_parts TEXT[];
+
+ALTER TABLE social_post_targets ADD COLUMN IF NOT EXISTS thread_post_ids TEXT[];
+
+COMMENT ON COLUMN social_posts.thread_parts IS 'Tweets of an X thread in order, split from the content; NULL when the post fits in one tweet';
+COMMENT ON COLUMN social_post_targets.thread_post_ids IS 'Tweet IDs of the thread parts published so far, in order; a retry replies to the last one';
@@ -0,0 +1,290 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import path from 'path';
+import fs from 'fs/promises';
+import { Segment, TranscriptWord } from '@shared/schema';
+import {
+  buildAssSubtitles,
+  escapeAss,
+  formatAssTime,
+  resolveCaptionStyle,
+  sliceWordsForClip,
+  toAssColor,
+  type CaptionPresetName,
+} from './captionGenerator';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+export type AudiogramAspect = '9:16' | '1:1' | '16:9';
+// waves: oscilloscope-style line (showwaves); spectrum: frequency bars (showfreqs)
+export type AudiogramStyle = 'waves' | 'spectrum';
+
+export const AUDIOGRAM_ASPECTS: AudiogramAspect[] = ['9:16', '1:1', '16:9'];
+
+export interface AudiogramConfig {
+  aspect: AudiogramAspect;
+  style: AudiogramStyle;
+  waveColor: string;
+  backgroundColor: string;
+  // Local image file, resolved from the workspace's asset library; embedded
+  // artwork in the audio file is used when unset
+  coverArt?: string;
+  title?: string;
+  titleColor: string;
+  captionPreset?: CaptionPresetName;
+  captions: boolean;
+}
+
+export type AudiogramConfigInput = Partial<AudiogramConfig>;
+
+interface AudiogramResult {
+  outputPath: string;
+  duration: number;
+  size: number;
+  format: string;
+  resolution: string;
+  aspect: AudiogramAspect;
+  coverArt: 'custom' | 'embedded' | 'none';
+}
+
+// Positions are fractions of the frame; the art square is sized against the shorter side
+interface AudiogramLayout {
+  width: number;
+  height: number;
+  title: { y: number; fontSize: number };
+  art: { x: number; y: number; size: number };
+  wave: { x: number; y: number; width: number; height: number };
+}
+
+const LAYOUTS: Record<AudiogramAspect, AudiogramLayout> = {
+  '9:16': {
+    width: 1080,
+    height: 1920,
+    title: { y: 0.1, fontSize: 64 },
+    art: { x: 0.19, y: 0.2, size: 0.62 },
+    wave: { x: 0.08, y: 0.58, width: 0.84, height: 0.1 },
+  },
+  '1:1': {
+    width: 1080,
+    height: 1080,
+    title: { y: 0.05, fontSize: 52 },
+    art: { x: 0.29, y: 0.15, size: 0.42 },
+    wave: { x: 0.08, y: 0.6, width: 0.84, height: 0.14 },
+  },
+  '16:9': {
+    width: 1920,
+    height: 1080,
+    title: { y: 0.06, fontSize: 60 },
+    art: { x: 0.06, y: 0.2, size: 0.5 },
+    wave: { x: 0.42, y: 0.32, width: 0.52, height: 0.26 },
+  },
+};
+
+const FPS = 30;
+
+export class AudiogramGenerator {
+  private defaultConfig: AudiogramConfig = {
+    aspect: '9:16',
+    style: 'waves',
+    waveColor: '#FFFFFF',
+    backgroundColor: '#111827',
+    titleColor: '#FFFFFF',
+    captions: true,
+  };
+
+  /**
+   * Renders an audiogram MP4 for the segment's audio range: background (cover
+   * art blurred behind a sharp copy, or a solid colour), animated waveform or
+   * spectrum, the title, and word-timed captions when `words` (absolute
+   * seconds) are given.
+   */
+  async generateAudiogram(
+    audioPath: string,
+    segment: Segment,
+    outputDir: string,
+    config?: AudiogramConfigInput,
+    words?: TranscriptWord[]
+  ): Promise<AudiogramResult> {
+    // Unset overrides keep the defaults
+    const overrides = Object.fromEntries(Object.entries(config || {}).filter(([, value]) => value !== undefined));
+    const finalConfig: AudiogramConfig = { ...this.defaultConfig, ...overrides };
+    const layout = LAYOUTS[finalConfig.aspect] || LAYOUTS['9:16'];
+    const { width, height } = layout;
+    const suffix = finalConfig.aspect.replace(':', 'x');
+    const outputPath = path.join(outputDir, `audiogram_${segment.id}_${suffix}.mp4`);
+
+    try {
+      await fs.mkdir(outputDir, { recursive: true });
+
+      const startTime = parseFloat(segment.startTime);
+      const endTime = parseFloat(segment.endTime);
+      const duration = endTime - startTime;
+
+      const tempFiles: string[] = [];
+      const overlays: string[] = [];
+
+      const title = finalConfig.title ?? segment.title;
+      if (title) {
+        const titlePath = path.join(outputDir, `audiogram_title_${segment.id}_${suffix}.ass`);
+        await fs.writeFile(titlePath, this.buildTitleAss(title, duration, layout, finalConfig.titleColor), 'utf-8');
+        tempFiles.push(titlePath);
+        overlays.push(`ass=${titlePath}`);
+      }
+
+      const clipWords = finalConfig.captions && words ? sliceWordsForClip(words, startTime, endTime) : [];
+      if (clipWords.length > 0) {
+        const captionPath = path.join(outputDir, `audiogram_captions_${segment.id}_${suffix}.ass`);
+        const style = resolveCaptionStyle(finalConfig.captionPreset, {
+          position: 'bottom',
+          // Landscape frames have less height, keep captions to one short line
+          ...(finalConfig.aspect === '16:9' ? { maxWordsPerLine: 6 } : {}),
+        });
+        await fs.writeFile(captionPath, buildAssSubtitles(clipWords, style, { width, height }), 'utf-8');
+        tempFiles.push(captionPath);
+        overlays.push(`ass=${captionPath}`);
+      }
+
+      const embeddedArt = !finalConfig.coverArt && await this.hasEmbeddedArt(audioPath);
+      const coverArt: AudiogramResult['coverArt'] = finalConfig.coverArt ? 'custom' : embeddedArt ? 'embedded' : 'none';
+      const artInput = finalConfig.coverArt ? '1:v' : embeddedArt ? '0:v' : null;
+
+      const filters = this.buildFilterGraph(layout, finalConfig, duration, artInput, overlays);
+
+      await new Promise<void>((resolve, reject) => {
+        const command = ffmpeg(audioPath)
+          .seekInput(startTime)
+          .duration(duration);
+
+        if (finalConfig.coverArt) {
+          command.input(finalConfig.coverArt);
+        }
+
+        command
+          .complexFilter(filters)
+          .outputOptions(['-map', '[v]', '-map', '0:a'])
+          .videoCodec('libx264')
+          .audioCodec('aac')
+          .audioBitrate('128k')
+          .fps(FPS)
+          .format('mp4')
+          .outputOptions(['-preset fast', '-crf 23', '-shortest', '-movflags +faststart'])
+          .output(outputPath)
+          .on('end', () => resolve())
+          .on('error', err => reject(err))
+          .run();
+      });
+
+      await Promise.all(tempFiles.map(file => fs.unlink(file).catch(() => {})));
+
+      const stats = await fs.stat(outputPath);
+      return {
+        outputPath,
+        duration,
+        size: stats.size,
+        format: 'mp4',
+        resolution: `${width}x${height}`,
+        aspect: finalConfig.aspect,
+        coverArt,
+      };
+    } catch (error) {
+      console.error('[AudiogramGenerator] Error generating audiogram:', error);
+      throw error;
+    }
+  }
+
+  private buildFilterGraph(
+    layout: AudiogramLayout,
+    config: AudiogramConfig,
+    duration: number,
+    artInput: string | null,
+    overlays: string[]
+  ): string[] {
+    const { width, height } = layout;
+    const artSize = even(Math.min(width, height) * layout.art.size);
+    const artX = Math.round(width * layout.art.x);
+    const artY = Math.round(height * layout.art.y);
+    const waveWidth = even(width * layout.wave.width);
+    const waveHeight = even(height * layout.wave.height);
+    const waveX = Math.round(width * layout.wave.x);
+    const waveY = Math.round(height * layout.wave.y);
+    const waveColor = toFfmpegColor(config.waveColor);
+
+    const filters = [
+      `color=c=${toFfmpegColor(config.backgroundColor)}:s=${width}x${height}:r=${FPS}:d=${duration.toFixed(3)}[base]`,
+    ];
+
+    let background = 'base';
+    if (artInput) {
+      filters.push(
+        `[${artInput}]split=2[artbg][artfg]`,
+        `[artbg]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=30:2,eq=brightness=-0.25,setsar=1[blur]`,
+        `[artfg]scale=${artSize}:${artSize}:force_original_aspect_ratio=decrease,setsar=1[art]`,
+        `[base][blur]overlay=0:0[bgblur]`,
+        `[bgblur][art]overlay=x=${artX}+(${artSize}-w)/2:y=${artY}+(${artSize}-h)/2[bg]`
+      );
+      background = 'bg';
+    }
+
+    filters.push(config.style === 'spectrum'
+      ? `[0:a]showfreqs=s=${waveWidth}x${waveHeight}:mode=bar:ascale=log:fscale=log:colors=${waveColor},fps=${FPS}[wave]`
+      : `[0:a]showwaves=s=${waveWidth}x${waveHeight}:mode=cline:scale=sqrt:draw=full:rate=${FPS}:colors=${waveColor}[wave]`);
+
+    const finish = [...overlays, 'format=yuv420p'].join(',');
+    filters.push(`[${background}][wave]overlay=x=${waveX}:y=${waveY}:shortest=1,${finish}[v]`);
+    return filters;
+  }
+
+  private buildTitleAss(title: string, duration: number, layout: AudiogramLayout, color: string): string {
+    const marginX = Math.round(layout.width * 0.06);
+    const marginV = Math.round(layout.height * layout.title.y);
+    return [
+      '[Script Info]',
+      'ScriptType: v4.00+',
+      `PlayResX: ${layout.width}`,
+      `PlayResY: ${layout.height}`,
+      'WrapStyle: 0',
+      'ScaledBorderAndShadow: yes',
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      `Style: Title,Arial,${layout.title.fontSize},${toAssColor(color)},${toAssColor(color)},${toAssColor('#000000', 0.6)},` +
+        `${toAssColor('#000000', 0)},-1,0,0,0,100,100,0,0,1,2,0,8,${marginX},${marginX},${marginV},1`,
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      `Dialogue: 0,${formatAssTime(0)},${formatAssTime(duration)},Title,,0,0,0,,${escapeAss(title)}`,
+      '',
+    ].join('\n');
+  }
+
+  // MP3/M4A files often carry the podcast artwork as an attached picture stream
+  private hasEmbeddedArt(audioPath: string): Promise<boolean> {
+    return new Promise(resolve => {
+      ffmpeg.ffprobe(audioPath, (err: any, metadata: any) => {
+        if (err) {
+          resolve(false);
+          return;
+        }
+        resolve(metadata.streams.some((stream: any) => stream.codec_type === 'video'));
+      });
+    });
+  }
+}
+
+function even(value: number): number {
+  return Math.round(value / 2) * 2;
+}
+
+// '#RRGGBB' → '0xRRGGBB'; '#' is not safe inside filter graph option values
+function toFfmpegColor(color: string): string {
+  const hex = color.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return `0x${hex.split('').map(c => c + c).join('')}`;
+  }
+  if (/^[0-9a-f]{6}$/i.test(hex)) {
+    return `0x${hex}`;
+  }
+  return /^[a-z]+$/i.test(color.trim()) ? color.trim() : 'white';
+}
+
+export const audiogramGenerator = new AudiogramGenerator();
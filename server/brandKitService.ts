@@ -0,0 +1,284 @@
+import { z } from 'zod';
+import path from 'path';
+import fs from 'fs/promises';
+import { storage } from './storage';
+import { escapeAss, formatAssTime, toAssColor } from './captionGenerator';
+import { brollService } from './brollService';
+import type { BrandingConfig } from './graphicsService';
+
+/**
+ * Brand Kit
+ *
+ * One brand definition per workspace (`settings.brandKit`) shared by graphics
+ * and video. The base fields are the `BrandingConfig` used for quote graphics
+ * and thumbnails; video adds intro/outro clips, a logo watermark and a speaker
+ * lower-third. Shorts and previews apply the kit automatically.
+ *
+ * The logo, intro/outro and watermark are IDs of assets in the workspace's
+ * library, as saved; `getRenderBrandKit` swaps them for the asset files, so
+ * renders only read files the workspace uploaded.
+ */
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+export type LowerThirdTemplate = 'bar' | 'boxed' | 'minimal';
+
+export interface BrandKit extends BrandingConfig {
+  headingFontFamily?: string;
+  // Videos joined before and after each short
+  introVideo?: string;
+  outroVideo?: string;
+  watermark: {
+    enabled: boolean;
+    // Defaults to the logo
+    image?: string;
+    position: WatermarkPosition;
+    opacity: number;
+    // Watermark width as a fraction of the frame width
+    scale: number;
+  };
+  lowerThird: {
+    enabled: boolean;
+    template: LowerThirdTemplate;
+    // Seconds from the start of the short
+    start: number;
+    duration: number;
+    // Second line under the speaker's name; defaults to the brand name
+    subtitle?: string;
+  };
+}
+
+const colorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Colours must be #RRGGBB');
+const assetIdSchema = z.string().uuid('Must be the ID of an asset in the library');
+
+export const brandKitSchema: z.ZodType<BrandKit, z.ZodTypeDef, unknown> = z.object({
+  brandName: z.string().min(1).max(100),
+  logo: assetIdSchema.optional(),
+  primaryColor: colorSchema,
+  secondaryColor: colorSchema,
+  fontFamily: z.string().min(1).max(100).default('Inter'),
+  headingFontFamily: z.string().max(100).optional(),
+  introVideo: assetIdSchema.optional(),
+  outroVideo: assetIdSchema.optional(),
+  watermark: z.object({
+    enabled: z.boolean().default(false),
+    image: assetIdSchema.optional(),
+    position: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']).default('top-right'),
+    opacity: z.number().min(0.05).max(1).default(0.8),
+    scale: z.number().min(0.05).max(0.5).default(0.15),
+  }).default({}),
+  lowerThird: z.object({
+    enabled: z.boolean().default(false),
+    template: z.enum(['bar', 'boxed', 'minimal']).default('bar'),
+    start: z.number().min(0).default(1),
+    duration: z.number().min(1).max(30).default(4),
+    subtitle: z.string().max(100).optional(),
+  }).default({}),
+});
+
+// Kit fields holding library assets, with the media type each must be
+const ASSET_FIELDS: Array<{ field: string; mediaType: 'video' | 'image'; get: (kit: BrandKit) => string | undefined }> = [
+  { field: 'logo', mediaType: 'image', get: kit => kit.logo },
+  { field: 'introVideo', mediaType: 'video', get: kit => kit.introVideo },
+  { field: 'outroVideo', mediaType: 'video', get: kit => kit.outroVideo },
+  { field: 'watermark.image', mediaType: 'image', get: kit => kit.watermark.image },
+];
+
+// Gap between the watermark and the frame edge, as a fraction of the frame width
+const WATERMARK_MARGIN = 0.04;
+// Vertical centre of the lower-third, as a fraction of the frame height
+const LOWER_THIRD_Y = 0.66;
+
+export class BrandKitService {
+  /** The workspace's brand kit, or null when none is set up (or it no longer validates) */
+  async getBrandKit(workspaceId: string | null): Promise<BrandKit | null> {
+    if (!workspaceId) return null;
+    const workspace = await storage.getWorkspace(workspaceId);
+    if (!workspace?.settings?.brandKit) return null;
+
+    const parsed = brandKitSchema.safeParse(workspace.settings.brandKit);
+    if (!parsed.success) {
+      console.warn(`[BrandKit] Ignoring invalid brand kit for workspace ${workspaceId}`);
+      return null;
+    }
+    return parsed.data;
+  }
+
+  /**
+   * The brand kit with its library assets resolved to their files, for
+   * rendering. Assets that have since been deleted are left out.
+   */
+  async getRenderBrandKit(workspaceId: string | null): Promise<BrandKit | null> {
+    const kit = await this.getBrandKit(workspaceId);
+    if (!kit) return null;
+
+    const resolve = async (assetId: string | undefined, mediaType: 'video' | 'image') =>
+      assetId ? (await brollService.resolveAssetFile(assetId, workspaceId, mediaType)) ?? undefined : undefined;
+
+    return {
+      ...kit,
+      logo: await resolve(kit.logo, 'image'),
+      introVideo: await resolve(kit.introVideo, 'video'),
+      outroVideo: await resolve(kit.outroVideo, 'video'),
+      watermark: { ...kit.watermark, image: await resolve(kit.watermark.image, 'image') },
+    };
+  }
+
+  /**
+   * Branding for graphics from a render kit. Templates only load `data:` and
+   * https images, so the logo file is inlined.
+   */
+  async getGraphicsBranding(kit: BrandKit): Promise<BrandingConfig> {
+    if (!kit.logo) return kit;
+
+    const logo = await fs.readFile(kit.logo).catch(() => null);
+    const type = path.extname(kit.logo).slice(1).toLowerCase().replace('jpg', 'jpeg').replace('svg', 'svg+xml');
+    return { ...kit, logo: logo ? `data:image/${type};base64,${logo.toString('base64')}` : undefined };
+  }
+
+  /** Fields of the kit naming an asset that isn't a right-typed asset in the workspace's library */
+  async findInvalidAssets(workspaceId: string, kit: BrandKit): Promise<string[]> {
+    const invalid: string[] = [];
+    for (const { field, mediaType, get } of ASSET_FIELDS) {
+      const assetId = get(kit);
+      if (assetId && !await brollService.resolveAssetFile(assetId, workspaceId, mediaType)) {
+        invalid.push(field);
+      }
+    }
+    return invalid;
+  }
+
+  async saveBrandKit(workspaceId: string, brandKit: BrandKit): Promise<BrandKit> {
+    const workspace = await storage.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+
+    await storage.updateWorkspace(workspaceId, { settings: { ...workspace.settings, brandKit } });
+    console.log(`[BrandKit] Saved brand kit for workspace ${workspaceId}`);
+    return brandKit;
+  }
+
+  async deleteBrandKit(workspaceId: string): Promise<void> {
+    const workspace = await storage.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+
+    const { brandKit, ...settings } = workspace.settings || {};
+    await storage.updateWorkspace(workspaceId, { settings });
+  }
+
+  /** Image used as the watermark, or null when the watermark is off or there is no image */
+  getWatermarkImage(kit: BrandKit | null | undefined): string | null {
+    if (!kit?.watermark.enabled) return null;
+    return kit.watermark.image || kit.logo || null;
+  }
+
+  /**
+   * Filter graph overlaying the watermark (FFmpeg input `imageInput`) on
+   * `[videoLabel]`, producing `[outputLabel]`. `frameWidth` is the width of
+   * the video being overlaid, in pixels.
+   */
+  buildWatermarkFilter(
+    kit: BrandKit,
+    frameWidth: number,
+    videoLabel: string,
+    imageInput: number,
+    outputLabel: string
+  ): string {
+    const { position, opacity, scale } = kit.watermark;
+    const width = Math.max(2, Math.round((frameWidth * scale) / 2) * 2);
+    const margin = Math.round(frameWidth * WATERMARK_MARGIN);
+    const x = position.endsWith('left') ? `${margin}` : `W-w-${margin}`;
+    const y = position.startsWith('top') ? `${margin}` : `H-h-${margin}`;
+
+    return `[${imageInput}:v]scale=${width}:-1,format=rgba,colorchannelmixer=aa=${opacity}[watermark];` +
+      `[${videoLabel}][watermark]overlay=${x}:${y}:format=auto[${outputLabel}]`;
+  }
+
+  /**
+   * Writes an ASS file with the speaker lower-third in the kit's template and
+   * returns its path, or null when the lower-third is off or has no text.
+   */
+  async writeLowerThird(
+    kit: BrandKit | null | undefined,
+    speakerName: string | undefined,
+    options: { width: number; height: number; duration: number; outputDir: string; id: string }
+  ): Promise<string | null> {
+    if (!kit?.lowerThird.enabled) return null;
+
+    const name = speakerName || kit.brandName;
+    const subtitle = speakerName ? kit.lowerThird.subtitle ?? kit.brandName : kit.lowerThird.subtitle;
+    const start = Math.min(kit.lowerThird.start, Math.max(0, options.duration - 1));
+    const end = Math.min(options.duration, start + kit.lowerThird.duration);
+    if (!name || end <= start) return null;
+
+    const assPath = path.join(options.outputDir, `lower_third_${options.id}.ass`);
+    await fs.writeFile(assPath, this.buildLowerThirdAss(kit, name, subtitle, start, end, options), 'utf-8');
+    return assPath;
+  }
+
+  private buildLowerThirdAss(
+    kit: BrandKit,
+    name: string,
+    subtitle: string | undefined,
+    start: number,
+    end: number,
+    frame: { width: number; height: number }
+  ): string {
+    const { template } = kit.lowerThird;
+    const nameSize = Math.round(frame.width * 0.055);
+    const subtitleSize = Math.round(nameSize * 0.65);
+    const marginL = Math.round(frame.width * 0.08);
+    const nameY = Math.round(frame.height * LOWER_THIRD_Y);
+    const subtitleY = nameY + Math.round(nameSize * 1.1);
+    const headingFont = kit.headingFontFamily || kit.fontFamily;
+    const boxed = template === 'boxed';
+    const style = (styleName: string, font: string, size: number, color: string, bold: boolean, box: string) =>
+      `Style: ${styleName},${font},${size},${toAssColor(color)},${toAssColor(color)},${toAssColor(box)},` +
+      `${toAssColor('#000000', 0.4)},${bold ? -1 : 0},0,0,0,100,100,0,0,${boxed ? 3 : 1},${boxed ? 12 : 2},` +
+      `${template === 'minimal' ? 2 : 0},7,${marginL},${marginL},0,1`;
+
+    const fade = '\\fad(300,300)';
+    const time = `${formatAssTime(start)},${formatAssTime(end)}`;
+    const events: string[] = [];
+
+    if (template === 'bar') {
+      // Accent bar that slides in behind the text
+      const barWidth = Math.round(frame.width * 0.7);
+      const barHeight = Math.round((subtitle ? subtitleY + subtitleSize : nameY + nameSize) - nameY + nameSize * 0.6);
+      const barTop = nameY - Math.round(nameSize * 0.3);
+      events.push(
+        `Dialogue: 0,${time},Bar,,0,0,0,,{${fade}\\move(${-barWidth},${barTop},0,${barTop},0,250)\\p1}` +
+          `m 0 0 l ${barWidth} 0 l ${barWidth} ${barHeight} l 0 ${barHeight}{\\p0}`
+      );
+    }
+
+    events.push(`Dialogue: 1,${time},Name,,0,0,0,,{${fade}\\pos(${marginL},${nameY})}${escapeAss(name)}`);
+    if (subtitle) {
+      events.push(`Dialogue: 1,${time},Subtitle,,0,0,0,,{${fade}\\pos(${marginL},${subtitleY})}${escapeAss(subtitle)}`);
+    }
+
+    return [
+      '[Script Info]',
+      'ScriptType: v4.00+',
+      `PlayResX: ${frame.width}`,
+      `PlayResY: ${frame.height}`,
+      'WrapStyle: 2',
+      'ScaledBorderAndShadow: yes',
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      style('Name', headingFont, nameSize, template === 'bar' ? '#FFFFFF' : kit.primaryColor, true, boxed ? '#FFFFFF' : '#000000'),
+      style('Subtitle', kit.fontFamily, subtitleSize, template === 'minimal' ? '#FFFFFF' : kit.secondaryColor, false, boxed ? kit.primaryColor : '#000000'),
+      `Style: Bar,${kit.fontFamily},10,${toAssColor(kit.primaryColor, 0.9)},${toAssColor(kit.primaryColor)},&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,0,0,7,0,0,0,1`,
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      ...events,
+      '',
+    ].join('\n');
+  }
+}
+
+export const brandKitService = new BrandKitService();
@@ -1,6 +1,6 @@
 import { storage } from './storage';
 import { db } from './db';
-import { breakoutAlerts, type BreakoutAlert } from '@shared/schema';
+import { breakoutAlerts, segments, socialPosts, type BreakoutAlert } from '@shared/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import OpenAI from 'openai';
 
@@ -296,6 +296,39 @@ export class BreakoutDetectorService {
     }
   }
 
+  /**
+   * The user's posts that were detected as breakouts, newest first, with the
+   * transcript of the segment each was made from. Used to score new segments
+   * by how much they resemble what has worked before.
+   */
+  async getBreakoutExamples(userId: string, limit: number = 50): Promise<Array<{
+    postId: string;
+    platform: string;
+    content: string;
+    transcript: string | null;
+  }>> {
+    try {
+      return await db
+        .selectDistinct({
+          postId: socialPosts.id,
+          platform: socialPosts.platform,
+          content: socialPosts.content,
+          transcript: segments.transcript,
+          detectedAt: breakoutAlerts.createdAt,
+        })
+        .from(breakoutAlerts)
+        .innerJoin(socialPosts, eq(breakoutAlerts.postId, socialPosts.id))
+        .innerJoin(segments, eq(socialPosts.segmentId, segments.id))
+        .where(and(eq(breakoutAlerts.userId, userId), eq(breakoutAlerts.alertType, 'breakout_detected')))
+        .orderBy(desc(breakoutAlerts.createdAt))
+        .limit(limit)
+        .then(rows => rows.map(({ detectedAt, ...example }) => example));
+    } catch (error) {
+      console.error('[BreakoutDetector] Error fetching breakout examples:', error);
+      return [];
+    }
+  }
+
   async acknowledgeAlert(userId: string, alertId: string): Promise<void> {
     try {
       // Mark alert as acknowledged
@@ -0,0 +1,270 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import path from 'path';
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { storage } from './storage';
+import { normalizeToken, STOP_WORDS } from './segmentAlignment';
+import type { BrollAsset, BrollPlacement, Segment, TranscriptWord } from '@shared/schema';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+/**
+ * B-roll Service
+ *
+ * Workspaces keep a library of tagged clips and images. When a short is
+ * rendered, words in the segment transcript that match an asset's tags place
+ * that asset on the short's timeline as a full-frame cutaway or an inset
+ * picture-in-picture. The timeline lives in the clip's `metadata.broll` and
+ * can be edited; edited timelines are never replaced by new suggestions.
+ */
+
+export interface BrollTimeline {
+  placements: BrollPlacement[];
+  // Set once a user changes the timeline
+  edited: boolean;
+  updatedAt: string;
+}
+
+// A placement with the asset's file resolved, as ShortsGenerator needs it
+export interface BrollInsert extends BrollPlacement {
+  filePath: string;
+  mediaType: 'video' | 'image';
+}
+
+export interface SuggestOptions {
+  mode?: BrollPlacement['mode'];
+  maxPlacements?: number;
+}
+
+const BROLL_ROOT = path.join(process.cwd(), 'broll');
+const DEFAULT_INSERT_SECONDS = 2.5;
+const MAX_INSERT_SECONDS = 4;
+// Leave the hook (opening seconds) on the speaker
+const HOOK_SECONDS = 1.5;
+// Minimum time on the speaker between two inserts
+const MIN_GAP_SECONDS = 3;
+const SECONDS_PER_INSERT = 8;
+
+export class BrollService {
+  // Library operations
+
+  async listAssets(workspaceId: string): Promise<BrollAsset[]> {
+    return await storage.getBrollAssets(workspaceId);
+  }
+
+  /** Moves an uploaded file into the workspace library and records it */
+  async addAsset(
+    workspaceId: string,
+    userId: string,
+    file: { path: string; originalname: string; mimetype: string; size: number },
+    details: { name?: string; tags: string[] }
+  ): Promise<BrollAsset> {
+    const mediaType = file.mimetype.startsWith('video/') ? 'video' : 'image';
+    const dir = path.join(BROLL_ROOT, workspaceId);
+    await fs.mkdir(dir, { recursive: true });
+
+    const filePath = path.join(dir, `${randomUUID()}${path.extname(file.originalname).toLowerCase()}`);
+    await fs.rename(file.path, filePath);
+
+    const duration = mediaType === 'video' ? await this.probeDuration(filePath) : null;
+    const asset = await storage.createBrollAsset({
+      workspaceId,
+      userId,
+      name: details.name || path.parse(file.originalname).name,
+      mediaType,
+      mimeType: file.mimetype,
+      filePath,
+      fileSize: file.size,
+      duration: duration !== null ? duration.toString() : null,
+      tags: normalizeTags(details.tags),
+    });
+
+    console.log(`[BrollService] Added ${mediaType} "${asset.name}" to workspace ${workspaceId} library`);
+    return asset;
+  }
+
+  async updateAsset(id: string, updates: { name?: string; tags?: string[] }): Promise<BrollAsset> {
+    return await storage.updateBrollAsset(id, {
+      ...(updates.name !== undefined ? { name: updates.name } : {}),
+      ...(updates.tags !== undefined ? { tags: normalizeTags(updates.tags) } : {}),
+    });
+  }
+
+  /**
+   * File of a library asset the workspace may use, or null when the asset is
+   * gone, belongs to another workspace or isn't a `mediaType`. Settings that
+   * point at media store asset IDs and are resolved here, so renders only
+   * ever read files from the workspace's own library.
+   */
+  async resolveAssetFile(assetId: string, workspaceId: string | null, mediaType: 'video' | 'image'): Promise<string | null> {
+    if (!workspaceId) return null;
+    const asset = await storage.getBrollAsset(assetId);
+    if (!asset || asset.workspaceId !== workspaceId || asset.mediaType !== mediaType) {
+      return null;
+    }
+    return asset.filePath;
+  }
+
+  async deleteAsset(asset: BrollAsset): Promise<void> {
+    await storage.deleteBrollAsset(asset.id);
+    await fs.unlink(asset.filePath).catch(() => {});
+  }
+
+  // Keyword matching
+
+  /** Content words of a transcript by frequency, for showing which tags would match */
+  extractKeywords(text: string, limit: number = 20): Array<{ keyword: string; count: number }> {
+    const counts = new Map<string, number>();
+    for (const token of text.split(/\s+/).map(normalizeToken)) {
+      if (token.length < 3 || STOP_WORDS.has(token) || /^\d+$/.test(token)) continue;
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([keyword, count]) => ({ keyword, count }));
+  }
+
+  /**
+   * Places library assets where their tags are spoken in the segment. `words`
+   * are clip-relative (seconds from the segment start). Each asset is used at
+   * most once, the hook stays on the speaker and inserts are spaced out.
+   */
+  suggestPlacements(
+    segment: Segment,
+    words: TranscriptWord[],
+    assets: BrollAsset[],
+    options: SuggestOptions = {}
+  ): BrollPlacement[] {
+    const duration = parseFloat(segment.endTime) - parseFloat(segment.startTime);
+    const maxPlacements = options.maxPlacements ?? Math.min(6, Math.floor(duration / SECONDS_PER_INSERT) + 1);
+    const tokens = words.map(word => singular(normalizeToken(word.word)));
+
+    // Longest tags first so "new york" wins over "york"
+    const tagged = assets
+      .flatMap(asset => asset.tags.map(tag => ({ asset, tokens: tag.split(/\s+/).map(normalizeToken).map(singular) })))
+      .filter(entry => entry.tokens.length > 0 && entry.tokens.every(token => token && !STOP_WORDS.has(token)))
+      .sort((a, b) => b.tokens.length - a.tokens.length);
+
+    const placements: BrollPlacement[] = [];
+    const used = new Set<string>();
+    let available = HOOK_SECONDS;
+
+    for (let i = 0; i < words.length && placements.length < maxPlacements; i++) {
+      if (words[i].start < available) continue;
+
+      const match = tagged.find(entry =>
+        !used.has(entry.asset.id) && entry.tokens.every((token, offset) => tokens[i + offset] === token)
+      );
+      if (!match) continue;
+
+      const assetDuration = match.asset.duration ? parseFloat(match.asset.duration) : DEFAULT_INSERT_SECONDS;
+      const length = Math.min(MAX_INSERT_SECONDS, Math.max(1, assetDuration));
+      const start = round(words[i].start);
+      const end = round(Math.min(duration, start + length));
+      if (end - start < 1) break;
+
+      placements.push({
+        id: randomUUID(),
+        assetId: match.asset.id,
+        start,
+        end,
+        mode: options.mode || 'cutaway',
+        position: 'top-right',
+        scale: 0.4,
+        keyword: words.slice(i, i + match.tokens.length).map(word => word.word).join(' '),
+        source: 'auto',
+      });
+      used.add(match.asset.id);
+      available = end + MIN_GAP_SECONDS;
+    }
+
+    return placements;
+  }
+
+  // Timelines
+
+  getTimeline(metadata: unknown): BrollTimeline | null {
+    const broll = (metadata as Record<string, any> | null)?.broll;
+    return broll && Array.isArray(broll.placements) ? broll as BrollTimeline : null;
+  }
+
+  /**
+   * Timeline for a clip whose segment start moved by `offset` seconds (new
+   * start minus old start) and is now `duration` long. Suggested timelines
+   * are dropped so the next render suggests again; edited ones are shifted
+   * and lose the placements that no longer fit.
+   */
+  retimeTimeline(timeline: BrollTimeline | null, offset: number, duration: number): BrollTimeline | null {
+    if (!timeline?.edited) return null;
+
+    const placements = timeline.placements
+      .map(placement => ({ ...placement, start: round(placement.start - offset), end: round(placement.end - offset) }))
+      .filter(placement => placement.start >= 0 && placement.end <= duration);
+    return { ...timeline, placements, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Problems with a timeline for a clip of `duration` seconds: placements past
+   * the end, overlapping placements, or assets outside the workspace library.
+   */
+  validateTimeline(placements: BrollPlacement[], duration: number, assets: BrollAsset[]): string[] {
+    const errors: string[] = [];
+    const assetIds = new Set(assets.map(asset => asset.id));
+    const sorted = [...placements].sort((a, b) => a.start - b.start);
+
+    sorted.forEach((placement, index) => {
+      if (placement.end > duration + 0.01) {
+        errors.push(`Placement ${placement.id} ends after the clip (${round(duration)}s)`);
+      }
+      if (!assetIds.has(placement.assetId)) {
+        errors.push(`Placement ${placement.id} uses an asset that is not in the workspace library`);
+      }
+      const next = sorted[index + 1];
+      if (next && next.start < placement.end) {
+        errors.push(`Placements ${placement.id} and ${next.id} overlap`);
+      }
+    });
+
+    return errors;
+  }
+
+  /** Resolves placements to library files, skipping assets that have since been deleted */
+  async resolveInserts(placements: BrollPlacement[]): Promise<BrollInsert[]> {
+    const inserts: BrollInsert[] = [];
+    for (const placement of placements) {
+      const asset = await storage.getBrollAsset(placement.assetId);
+      if (!asset) {
+        console.warn(`[BrollService] B-roll asset ${placement.assetId} no longer exists, skipping placement ${placement.id}`);
+        continue;
+      }
+      inserts.push({ ...placement, filePath: asset.filePath, mediaType: asset.mediaType as BrollInsert['mediaType'] });
+    }
+    return inserts;
+  }
+
+  private probeDuration(filePath: string): Promise<number | null> {
+    return new Promise(resolve => {
+      ffmpeg.ffprobe(filePath, (err: any, metadata: any) => {
+        resolve(err ? null : metadata.format.duration || null);
+      });
+    });
+  }
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+// "cars" matches a "car" tag
+function singular(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export const brollService = new BrollService();
@@ -0,0 +1,438 @@
+import { z } from 'zod';
+import type { TranscriptWord } from '@shared/schema';
+
+/**
+ * Caption Generator
+ *
+ * Builds word-timed captions from transcript word timestamps. ASS output
+ * highlights the word being spoken (one event per word) using a caption
+ * preset, and keeps text inside each platform's safe area so it is not hidden
+ * behind the app's buttons and descriptions. Caption files for download
+ * (SRT, VTT, ASS, TXT) are built from the same words as conventional
+ * line-wrapped cues.
+ */
+
+export type CaptionPresetName = 'classic' | 'bold-pop' | 'karaoke' | 'minimal';
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+export type CaptionPlatform = 'tiktok' | 'instagram' | 'youtube' | 'generic';
+export type CaptionFormat = 'srt' | 'vtt' | 'ass' | 'txt';
+
+export interface CaptionStyle {
+  fontFamily: string;
+  fontSize: number;
+  primaryColor: string;
+  highlightColor: string;
+  outlineColor: string;
+  backgroundColor?: string; // Opaque box behind the text when set
+  outline: number;
+  bold: boolean;
+  uppercase: boolean;
+  highlightScale: number; // Percent size of the active word
+  position: CaptionPosition;
+  maxWordsPerLine: number;
+  emoji: boolean;
+}
+
+export interface CaptionPreset extends CaptionStyle {
+  name: CaptionPresetName;
+  label: string;
+}
+
+// Fractions of the frame covered by platform UI (captions stay inside the rest)
+interface SafeArea {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export const PLATFORM_SAFE_AREAS: Record<CaptionPlatform, SafeArea> = {
+  tiktok: { top: 0.1, bottom: 0.2, left: 0.05, right: 0.15 },
+  instagram: { top: 0.12, bottom: 0.2, left: 0.05, right: 0.12 },
+  youtube: { top: 0.1, bottom: 0.16, left: 0.05, right: 0.14 },
+  generic: { top: 0.08, bottom: 0.1, left: 0.05, right: 0.05 },
+};
+
+export const CAPTION_PRESETS: Record<CaptionPresetName, CaptionPreset> = {
+  classic: {
+    name: 'classic',
+    label: 'Classic',
+    fontFamily: 'Arial',
+    fontSize: 64,
+    primaryColor: '#FFFFFF',
+    highlightColor: '#FFD400',
+    outlineColor: '#000000',
+    outline: 4,
+    bold: true,
+    uppercase: false,
+    highlightScale: 100,
+    position: 'bottom',
+    maxWordsPerLine: 4,
+    emoji: false,
+  },
+  'bold-pop': {
+    name: 'bold-pop',
+    label: 'Bold Pop',
+    fontFamily: 'Arial Black',
+    fontSize: 80,
+    primaryColor: '#FFFFFF',
+    highlightColor: '#22FF88',
+    outlineColor: '#000000',
+    outline: 6,
+    bold: true,
+    uppercase: true,
+    highlightScale: 115,
+    position: 'middle',
+    maxWordsPerLine: 3,
+    emoji: true,
+  },
+  karaoke: {
+    name: 'karaoke',
+    label: 'Karaoke Box',
+    fontFamily: 'Arial',
+    fontSize: 68,
+    primaryColor: '#FFFFFF',
+    highlightColor: '#FFD400',
+    outlineColor: '#000000',
+    backgroundColor: '#000000',
+    outline: 10,
+    bold: true,
+    uppercase: false,
+    highlightScale: 100,
+    position: 'bottom',
+    maxWordsPerLine: 5,
+    emoji: false,
+  },
+  minimal: {
+    name: 'minimal',
+    label: 'Minimal',
+    fontFamily: 'Helvetica',
+    fontSize: 56,
+    primaryColor: '#FFFFFF',
+    highlightColor: '#60A5FA',
+    outlineColor: '#000000',
+    outline: 2,
+    bold: false,
+    uppercase: false,
+    highlightScale: 100,
+    position: 'bottom',
+    maxWordsPerLine: 6,
+    emoji: false,
+  },
+};
+
+export const captionExportOptionsSchema = z.object({
+  maxLineLength: z.coerce.number().int().min(10).max(80).default(42),
+  maxLinesPerCue: z.coerce.number().int().min(1).max(3).default(2),
+  // Seconds added to every timestamp (negative values shift earlier)
+  offset: z.coerce.number().min(-86400).max(86400).default(0),
+});
+
+export type CaptionExportOptions = z.infer<typeof captionExportOptionsSchema>;
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// Emoji appended after matching words when a preset enables emoji insertion
+const EMOJI_KEYWORDS: Record<string, string> = {
+  money: '💰', revenue: '💰', profit: '💰', cash: '💵',
+  fire: '🔥', hot: '🔥', amazing: '🤩', love: '❤️',
+  idea: '💡', ideas: '💡', think: '🤔', secret: '🤫',
+  growth: '📈', grow: '📈', growing: '📈', data: '📊',
+  laugh: '😂', funny: '😂', crazy: '🤯', mind: '🧠',
+  time: '⏰', fast: '⚡', rocket: '🚀', launch: '🚀',
+  win: '🏆', winning: '🏆', goal: '🎯', goals: '🎯',
+  problem: '⚠️', mistake: '❌', mistakes: '❌', yes: '✅',
+  world: '🌍', heart: '❤️', happy: '😊', sad: '😢',
+};
+
+// Long pauses and sentence ends start a new caption line
+const LINE_BREAK_PAUSE = 0.8;
+// Exported cues never stay on screen longer than this (seconds)
+const MAX_CUE_DURATION = 7;
+
+export function resolveCaptionStyle(preset?: string, overrides: Partial<CaptionStyle> = {}): CaptionStyle {
+  const base = CAPTION_PRESETS[(preset as CaptionPresetName) || 'classic'] || CAPTION_PRESETS.classic;
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as Partial<CaptionStyle>;
+  return { ...base, ...defined };
+}
+
+/**
+ * Words between start and end (seconds, absolute) re-timed so the clip starts
+ * at zero. Words straddling the boundaries are clamped.
+ */
+export function sliceWordsForClip(words: TranscriptWord[], start: number, end: number): TranscriptWord[] {
+  return words
+    .filter(word => word.end > start && word.start < end)
+    .map(word => ({
+      ...word,
+      start: Math.max(0, word.start - start),
+      end: Math.min(end, word.end) - start,
+    }));
+}
+
+/** Groups words into caption lines of at most maxWords, breaking on pauses and sentence ends */
+export function groupWordsIntoLines(words: TranscriptWord[], maxWords: number): TranscriptWord[][] {
+  const lines: TranscriptWord[][] = [];
+  let current: TranscriptWord[] = [];
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    const pause = previous ? word.start - previous.end : 0;
+    if (current.length >= maxWords || (previous && (pause >= LINE_BREAK_PAUSE || /[.!?]$/.test(previous.word)))) {
+      lines.push(current);
+      current = [];
+    }
+    current.push(word);
+  }
+  if (current.length > 0) lines.push(current);
+
+  return lines;
+}
+
+/** ASS subtitle file with the spoken word highlighted, for clip-relative words */
+export function buildAssSubtitles(
+  words: TranscriptWord[],
+  style: CaptionStyle,
+  options: { width: number; height: number; platform?: CaptionPlatform }
+): string {
+  const header = buildAssHeader(style, options);
+  const events: string[] = [];
+  const lines = groupWordsIntoLines(words, style.maxWordsPerLine);
+
+  lines.forEach((line, lineIndex) => {
+    const nextLine = lines[lineIndex + 1];
+    // Hold the line on screen through short gaps so captions don't flicker
+    const lineEnd = nextLine && nextLine[0].start - line[line.length - 1].end < LINE_BREAK_PAUSE
+      ? nextLine[0].start
+      : line[line.length - 1].end;
+
+    line.forEach((word, i) => {
+      const start = i === 0 ? line[0].start : word.start;
+      const end = i + 1 < line.length ? line[i + 1].start : lineEnd;
+      if (end <= start) return;
+
+      const text = line
+        .map((w, j) => {
+          const display = escapeAss(formatWord(w.word, style));
+          return j === i
+            ? `{\\c${toAssColor(style.highlightColor)}\\fscx${style.highlightScale}\\fscy${style.highlightScale}}${display}{\\r}`
+            : display;
+        })
+        .join(' ');
+
+      events.push(`Dialogue: 0,${formatAssTime(start)},${formatAssTime(end)},Caption,,0,0,0,,${text}`);
+    });
+  });
+
+  return [...header, ...events, ''].join('\n');
+}
+
+function buildAssHeader(
+  style: CaptionStyle,
+  options: { width: number; height: number; platform?: CaptionPlatform }
+): string[] {
+  const safeArea = PLATFORM_SAFE_AREAS[options.platform || 'generic'];
+  const alignment = { bottom: 2, middle: 5, top: 8 }[style.position];
+  const marginV = Math.round(
+    style.position === 'top' ? safeArea.top * options.height : style.position === 'bottom' ? safeArea.bottom * options.height : 0
+  );
+  const marginL = Math.round(safeArea.left * options.width);
+  const marginR = Math.round(safeArea.right * options.width);
+  const borderStyle = style.backgroundColor ? 3 : 1;
+  const outlineColor = style.backgroundColor || style.outlineColor;
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${options.width}`,
+    `PlayResY: ${options.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Caption,${style.fontFamily},${style.fontSize},${toAssColor(style.primaryColor)},${toAssColor(style.highlightColor)},` +
+      `${toAssColor(outlineColor)},${toAssColor('#000000', 0.5)},${style.bold ? -1 : 0},0,0,0,100,100,0,0,` +
+      `${borderStyle},${style.outline},0,${alignment},${marginL},${marginR},${marginV},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+}
+
+/**
+ * Conventional subtitle cues: words wrapped into lines of at most
+ * maxLineLength characters, up to maxLinesPerCue lines per cue. A cue also
+ * ends on sentence ends, long pauses and speaker changes.
+ */
+export function buildCaptionCues(
+  words: TranscriptWord[],
+  options: Pick<CaptionExportOptions, 'maxLineLength' | 'maxLinesPerCue'>
+): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  let current: { words: TranscriptWord[]; lines: string[] } = { words: [], lines: [] };
+
+  const flush = () => {
+    if (current.words.length === 0) return;
+    cues.push({
+      start: current.words[0].start,
+      end: current.words[current.words.length - 1].end,
+      lines: current.lines,
+    });
+    current = { words: [], lines: [] };
+  };
+
+  for (const word of words) {
+    const text = word.word.trim();
+    if (!text) continue;
+
+    const previous = current.words[current.words.length - 1];
+    if (previous && (
+      word.start - previous.end >= LINE_BREAK_PAUSE ||
+      /[.!?]["')\]]?$/.test(previous.word.trim()) ||
+      (word.speaker !== undefined && word.speaker !== previous.speaker) ||
+      word.end - current.words[0].start > MAX_CUE_DURATION
+    )) {
+      flush();
+    }
+
+    const lastLine = current.lines[current.lines.length - 1];
+    if (lastLine !== undefined && lastLine.length + 1 + text.length <= options.maxLineLength) {
+      current.lines[current.lines.length - 1] = `${lastLine} ${text}`;
+    } else {
+      if (current.lines.length >= options.maxLinesPerCue) flush();
+      current.lines.push(text);
+    }
+    current.words.push(word);
+  }
+  flush();
+
+  // Hold each cue until the next one when the gap is short, without overlapping
+  return cues.map((cue, i) => {
+    const next = cues[i + 1];
+    const end = next && next.start - cue.end < LINE_BREAK_PAUSE ? next.start : cue.end;
+    return { ...cue, end: Math.max(end, cue.start + 0.01) };
+  });
+}
+
+/**
+ * Caption file contents in the requested format; times shifted by
+ * options.offset. `speakerNames` maps diarization labels to display names for
+ * the plain-text transcript.
+ */
+export function exportCaptions(
+  words: TranscriptWord[],
+  format: CaptionFormat,
+  options: CaptionExportOptions,
+  speakerNames: Record<string, string> = {}
+): { data: string; contentType: string } {
+  const cues = buildCaptionCues(words, options)
+    .map(cue => ({ ...cue, start: Math.max(0, cue.start + options.offset), end: cue.end + options.offset }))
+    .filter(cue => cue.end > 0);
+
+  switch (format) {
+    case 'srt':
+      return {
+        data: cues
+          .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+          .join('\n'),
+        contentType: 'application/x-subrip; charset=utf-8',
+      };
+    case 'vtt':
+      return {
+        data: ['WEBVTT', '']
+          .concat(cues.map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.lines.join('\n')}\n`))
+          .join('\n'),
+        contentType: 'text/vtt; charset=utf-8',
+      };
+    case 'ass': {
+      const style = resolveCaptionStyle('classic', { fontSize: 54, outline: 3 });
+      const header = buildAssHeader(style, { width: 1920, height: 1080 });
+      const events = cues.map(cue =>
+        `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(cue.end)},Caption,,0,0,0,,${cue.lines.map(escapeAss).join('\\N')}`
+      );
+      return { data: [...header, ...events, ''].join('\n'), contentType: 'text/x-ssa; charset=utf-8' };
+    }
+    case 'txt':
+      return { data: buildPlainText(words, speakerNames), contentType: 'text/plain; charset=utf-8' };
+  }
+}
+
+/** Plain transcript, one paragraph per speaker turn or long pause */
+function buildPlainText(words: TranscriptWord[], speakerNames: Record<string, string>): string {
+  const paragraphs: Array<{ speaker?: string; words: string[] }> = [];
+  words.forEach((word, i) => {
+    const previous = words[i - 1];
+    if (!previous || word.speaker !== previous.speaker || word.start - previous.end >= 2) {
+      paragraphs.push({ speaker: word.speaker, words: [] });
+    }
+    paragraphs[paragraphs.length - 1].words.push(word.word.trim());
+  });
+
+  return paragraphs
+    .map(({ speaker, words }) => {
+      const text = words.filter(Boolean).join(' ');
+      return speaker ? `${speakerNames[speaker] || speaker}: ${text}` : text;
+    })
+    .join('\n\n') + '\n';
+}
+
+function formatWord(word: string, style: CaptionStyle): string {
+  let display = style.uppercase ? word.toUpperCase() : word;
+  if (style.emoji) {
+    const emoji = EMOJI_KEYWORDS[word.toLowerCase().replace(/[^a-z]/g, '')];
+    if (emoji) display += ` ${emoji}`;
+  }
+  return display;
+}
+
+export function escapeAss(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/[{}]/g, '').replace(/\n/g, ' ');
+}
+
+// HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const milliseconds = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const secs = Math.floor((milliseconds % 60000) / 1000);
+  const ms = milliseconds % 1000;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+}
+
+export function formatAssTime(seconds: number): string {
+  const centiseconds = Math.round(Math.max(0, seconds) * 100);
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const secs = Math.floor((centiseconds % 6000) / 100);
+  const cs = centiseconds % 100;
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#FFFFFF',
+  black: '#000000',
+  red: '#FF0000',
+  green: '#00FF00',
+  blue: '#0000FF',
+  yellow: '#FFFF00',
+};
+
+/**
+ * ASS colours are &HAABBGGRR with inverted alpha. Accepts #RRGGBB, colour
+ * names and FFmpeg-style "black@0.7" opacity suffixes.
+ */
+export function toAssColor(color: string, opacity: number = 1): string {
+  const [name, alphaPart] = color.split('@');
+  const hex = (NAMED_COLORS[name.toLowerCase()] || name).replace('#', '').padEnd(6, '0').slice(0, 6);
+  const alpha = alphaPart !== undefined ? parseFloat(alphaPart) : opacity;
+  const assAlpha = Math.round((1 - Math.min(1, Math.max(0, alpha))) * 255);
+  const [r, g, b] = [hex.slice(0, 2), hex.slice(2, 4), hex.slice(4, 6)];
+  return `&H${assAlpha.toString(16).padStart(2, '0')}${b}${g}${r}`.toUpperCase();
+}
@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { oauthService } from './oauthService';
 import { storage } from './storage';
+import type { SocialAccount } from '@shared/schema';
 
 interface UploadSession {
   id: string;
@@ -28,10 +29,22 @@ interface ChunkUploadResult {
   etag?: string;
   error?: string;
   bytesUploaded?: number;
+  // Set by the chunk that completes an upload which creates the media (YouTube video ID)
+  mediaId?: string;
+}
+
+export interface PlatformUploadOptions {
+  // Upload with this connected account's token instead of the user's first account on the platform
+  account?: SocialAccount;
+  // Public URL Instagram fetches the media from; defaults to the file under BASE_URL/uploads
+  mediaUrl?: string;
 }
 
 export class ChunkedUploadHelpers {
   private readonly CHUNK_SIZE = 256 * 1024 * 1024; // 256MB chunks
+  // Instagram processes a container after fetching its media; videos take a while
+  private readonly INSTAGRAM_POLL_INTERVAL_MS = 5000;
+  private readonly INSTAGRAM_MAX_POLLS = 60;
 
   // YouTube Resumable Upload
   async initializeYouTubeUpload(userId: string, filePath: string, metadata: {
@@ -40,9 +53,9 @@ export class ChunkedUploadHelpers {
     tags?: string[];
     categoryId?: string;
     privacyStatus?: 'private' | 'public' | 'unlisted';
-  }): Promise<UploadSession> {
+  }, options: PlatformUploadOptions = {}): Promise<UploadSession> {
     try {
-      const accessToken = await oauthService.getValidToken(userId, 'youtube');
+      const accessToken = await this.getAccessToken(userId, 'youtube', options);
       if (!accessToken) {
         throw new Error('YouTube access token not available');
       }
@@ -157,7 +170,7 @@ export class ChunkedUploadHelpers {
           await storage.updateUploadSession(sessionId, { chunks: session.chunks, status: session.status, completedAt: session.completedAt, updatedAt: session.updatedAt });
           const videoData = await response.json();
           console.log(`[ChunkedUpload] YouTube upload completed: ${videoData.id}`);
-          return { success: true, bytesUploaded: chunkSize };
+          return { success: true, bytesUploaded: chunkSize, mediaId: videoData.id };
         } else {
           throw new Error(`YouTube chunk upload failed: ${response.status}`);
         }
@@ -183,9 +196,14 @@ export class ChunkedUploadHelpers {
   }
 
   // X (Twitter) Chunked Upload (INIT/APPEND/FINALIZE)
-  async initializeXUpload(userId: string, filePath: string, mediaType: 'video' | 'image'): Promise<UploadSession> {
+  async initializeXUpload(
+    userId: string,
+    filePath: string,
+    mediaType: 'video' | 'image',
+    options: PlatformUploadOptions = {}
+  ): Promise<UploadSession> {
     try {
-      const accessToken = await oauthService.getValidToken(userId, 'twitter');
+      const accessToken = await this.getAccessToken(userId, 'twitter', options);
       if (!accessToken) {
         throw new Error('X access token not available');
       }
@@ -241,7 +259,12 @@ export class ChunkedUploadHelpers {
     }
   }
 
-  async uploadXChunk(sessionId: string, filePath: string, chunkIndex: number): Promise<ChunkUploadResult> {
+  async uploadXChunk(
+    sessionId: string,
+    filePath: string,
+    chunkIndex: number,
+    options: PlatformUploadOptions = {}
+  ): Promise<ChunkUploadResult> {
     const MAX_RETRIES = 3;
     let attempt = 0;
     let lastError: any = null;
@@ -252,7 +275,7 @@ export class ChunkedUploadHelpers {
           throw new Error('Invalid X upload session');
         }
 
-        const accessToken = await oauthService.getValidToken(session.id.split('_')[0], 'twitter');
+        const accessToken = await this.getAccessToken(session.userId, 'twitter', options);
         if (!accessToken) {
           throw new Error('X access token not available');
         }
@@ -315,14 +338,17 @@ export class ChunkedUploadHelpers {
     return { success: false, error: lastError instanceof Error ? lastError.message : 'Unknown error' };
   }
 
-  async finalizeXUpload(sessionId: string): Promise<{ success: boolean; mediaId?: string; error?: string }> {
+  async finalizeXUpload(
+    sessionId: string,
+    options: PlatformUploadOptions = {}
+  ): Promise<{ success: boolean; mediaId?: string; error?: string }> {
     try {
       const session = await storage.getUploadSession(sessionId);
       if (!session || session.platform !== 'twitter') {
         throw new Error('Invalid X upload session');
       }
 
-      const accessToken = await oauthService.getValidToken(session.id.split('_')[0], 'twitter');
+      const accessToken = await this.getAccessToken(session.userId, 'twitter', options);
       if (!accessToken) {
         throw new Error('X access token not available');
       }
@@ -357,9 +383,9 @@ export class ChunkedUploadHelpers {
   }
 
   // TikTok Multipart Upload
-  async initializeTikTokUpload(userId: string, filePath: string): Promise<UploadSession> {
+  async initializeTikTokUpload(userId: string, filePath: string, options: PlatformUploadOptions = {}): Promise<UploadSession> {
     try {
-      const accessToken = await oauthService.getValidToken(userId, 'tiktok');
+      const accessToken = await this.getAccessToken(userId, 'tiktok', options);
       if (!accessToken) {
         throw new Error('TikTok access token not available');
       }
@@ -483,24 +509,33 @@ export class ChunkedUploadHelpers {
     return { success: false, error: lastError instanceof Error ? lastError.message : 'Unknown error' };
   }
 
-  async initializeInstagramUpload(userId: string, filePath: string, mediaType: 'photo' | 'video' | 'reel'): Promise<UploadSession> {
+  async initializeInstagramUpload(
+    userId: string,
+    filePath: string,
+    mediaType: 'photo' | 'video' | 'reel',
+    options: PlatformUploadOptions & { caption?: string; carouselItem?: boolean } = {}
+  ): Promise<UploadSession> {
     try {
       const fileStats = fs.statSync(filePath);
       const fileName = path.basename(filePath);
       const sessionId = `${userId}_instagram_${Date.now()}`;
 
       // Instagram Graph API - Create media container
-      const accessToken = await oauthService.getValidToken(userId, 'instagram');
+      const accessToken = await this.getAccessToken(userId, 'instagram', options);
       if (!accessToken) {
         throw new Error('Instagram access token not available');
       }
 
-      const publicUrl = `${process.env.BASE_URL}/uploads/${fileName}`;
+      const publicUrl = options.mediaUrl || `${process.env.BASE_URL}/uploads/${fileName}`;
       
       const createContainerParams = new URLSearchParams({
-        media_type: mediaType === 'reel' ? 'REELS' : mediaType.toUpperCase(),
+        // Photos are IMAGE containers in the Graph API
+        media_type: mediaType === 'reel' ? 'REELS' : mediaType === 'photo' ? 'IMAGE' : 'VIDEO',
         access_token: accessToken
       });
+      // A carousel's caption goes on the carousel container, a single post's on its media container
+      if (options.carouselItem) createContainerParams.append('is_carousel_item', 'true');
+      else if (options.caption) createContainerParams.append('caption', options.caption);
 
       if (mediaType === 'video' || mediaType === 'reel') {
         createContainerParams.append('video_url', publicUrl);
@@ -508,7 +543,7 @@ export class ChunkedUploadHelpers {
         createContainerParams.append('image_url', publicUrl);
       }
 
-      const response = await fetch(`https://graph.facebook.com/v18.0/${process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID}/media`, {
+      const response = await fetch(`https://graph.facebook.com/v18.0/${this.getInstagramUserId(options)}/media`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded'
@@ -611,22 +646,46 @@ export class ChunkedUploadHelpers {
         throw new Error('Invalid Instagram session or container ID not found');
       }
 
-      const userId = session.id.split('_')[0];
-      const accessToken = await oauthService.getValidToken(userId, 'instagram');
+      const result = await this.publishInstagramContainer(session.userId, session.uploadId, { caption, locationId });
+      session.status = result.success ? 'completed' : 'failed';
+      if (result.success) session.completedAt = new Date();
+      return result;
+    } catch (error) {
+      console.error('[ChunkedUpload] Instagram publish error:', error);
+      const session = await storage.getUploadSession(sessionId);
+      if (session) session.status = 'failed';
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Publish failed'
+      };
+    }
+  }
+
+  /** Publishes a media or carousel container */
+  async publishInstagramContainer(
+    userId: string,
+    containerId: string,
+    options: PlatformUploadOptions & { caption?: string; locationId?: string } = {}
+  ): Promise<{ success: boolean; mediaId?: string; error?: string }> {
+    try {
+      const accessToken = await this.getAccessToken(userId, 'instagram', options);
       if (!accessToken) {
         throw new Error('Instagram access token not available');
       }
 
+      await this.waitForInstagramContainer(userId, containerId, options);
+
       // Publish the media container
       const publishParams = new URLSearchParams({
-        creation_id: session.uploadId,
+        creation_id: containerId,
         access_token: accessToken
       });
 
-      if (caption) publishParams.append('caption', caption);
-      if (locationId) publishParams.append('location_id', locationId);
+      if (options.caption) publishParams.append('caption', options.caption);
+      if (options.locationId) publishParams.append('location_id', options.locationId);
 
-      const response = await fetch(`https://graph.facebook.com/v18.0/${process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID}/media_publish`, {
+      const response = await fetch(`https://graph.facebook.com/v18.0/${this.getInstagramUserId(options)}/media_publish`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded'
@@ -637,13 +696,9 @@ export class ChunkedUploadHelpers {
       const data = await response.json();
 
       if (!response.ok) {
-        session.status = 'failed';
         throw new Error(data.error?.message || 'Failed to publish Instagram media');
       }
 
-      session.status = 'completed';
-      session.completedAt = new Date();
-      
       console.log(`[ChunkedUpload] Instagram media published successfully: ${data.id}`);
       
       return {
@@ -652,9 +707,6 @@ export class ChunkedUploadHelpers {
       };
     } catch (error) {
       console.error('[ChunkedUpload] Instagram publish error:', error);
-      const session = await storage.getUploadSession(sessionId);
-      if (session) session.status = 'failed';
-      
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Publish failed'
@@ -662,6 +714,34 @@ export class ChunkedUploadHelpers {
     }
   }
 
+  /**
+   * Polls a media container's `status_code` until Instagram has finished
+   * processing it. Throws when processing fails, the container expired or it
+   * is still not done after INSTAGRAM_MAX_POLLS checks.
+   */
+  async waitForInstagramContainer(userId: string, containerId: string, options: PlatformUploadOptions = {}): Promise<void> {
+    const accessToken = await this.getAccessToken(userId, 'instagram', options);
+    if (!accessToken) {
+      throw new Error('Instagram access token not available');
+    }
+
+    for (let poll = 0; poll < this.INSTAGRAM_MAX_POLLS; poll++) {
+      const params = new URLSearchParams({ fields: 'status_code,status', access_token: accessToken });
+      const response = await fetch(`https://graph.facebook.com/v18.0/${containerId}?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to check Instagram media status');
+      }
+
+      if (data.status_code === 'FINISHED' || data.status_code === 'PUBLISHED') return;
+      if (data.status_code === 'ERROR' || data.status_code === 'EXPIRED') {
+        throw new Error(`Instagram could not process the media: ${data.status || data.status_code}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.INSTAGRAM_POLL_INTERVAL_MS));
+    }
+    throw new Error(`Instagram media ${containerId} is still processing`);
+  }
+
   async createInstagramCarousel(userId: string, mediaItems: Array<{
     filePath: string;
     mediaType: 'photo' | 'video';
@@ -681,7 +761,7 @@ export class ChunkedUploadHelpers {
         const publicUrl = `${process.env.BASE_URL}/uploads/${fileName}`;
 
         const createParams = new URLSearchParams({
-          media_type: item.mediaType.toUpperCase(),
+          media_type: item.mediaType === 'video' ? 'VIDEO' : 'IMAGE',
           is_carousel_item: 'true',
           access_token: accessToken
         });
@@ -708,18 +788,41 @@ export class ChunkedUploadHelpers {
         containerIds.push(data.id);
       }
 
+      return await this.createInstagramCarouselContainer(userId, containerIds, mediaItems[0].caption);
+    } catch (error) {
+      console.error('[ChunkedUpload] Instagram carousel error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Carousel creation failed'
+      };
+    }
+  }
+
+  /** Groups carousel item containers (up to 10) into a carousel container, ready to publish */
+  async createInstagramCarouselContainer(
+    userId: string,
+    childIds: string[],
+    caption?: string,
+    options: PlatformUploadOptions = {}
+  ): Promise<{ success: boolean; carouselId?: string; error?: string }> {
+    try {
+      const accessToken = await this.getAccessToken(userId, 'instagram', options);
+      if (!accessToken) {
+        throw new Error('Instagram access token not available');
+      }
+
       // Create carousel container
       const carouselParams = new URLSearchParams({
         media_type: 'CAROUSEL',
-        children: containerIds.join(','),
+        children: childIds.join(','),
         access_token: accessToken
       });
 
-      if (mediaItems[0].caption) {
-        carouselParams.append('caption', mediaItems[0].caption);
+      if (caption) {
+        carouselParams.append('caption', caption);
       }
 
-      const carouselResponse = await fetch(`https://graph.facebook.com/v18.0/${process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID}/media`, {
+      const carouselResponse = await fetch(`https://graph.facebook.com/v18.0/${this.getInstagramUserId(options)}/media`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded'
@@ -747,6 +850,17 @@ export class ChunkedUploadHelpers {
     }
   }
 
+  private async getAccessToken(userId: string, platform: string, options: PlatformUploadOptions): Promise<string | null> {
+    if (options.account) {
+      return options.account.accessToken;
+    }
+    return await oauthService.getValidToken(userId, platform);
+  }
+
+  private getInstagramUserId(options: PlatformUploadOptions): string | undefined {
+    return options.account?.accountId || process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID;
+  }
+
   private calculateChunks(fileSize: number): Array<{ index: number; size: number; uploaded: boolean }> {
     const totalChunks = Math.ceil(fileSize / this.CHUNK_SIZE);
     const chunks = [];
@@ -1,5 +1,7 @@
 import { storage } from "./storage";
 import { Segment } from "@shared/schema";
+import { renderService } from "./renderService";
+import { graphicTemplateService, type GraphicTemplate } from "./graphicTemplates";
 import OpenAI from "openai";
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
@@ -32,68 +34,7 @@ interface NewsletterIssue {
   }>;
 }
 
-interface ThumbnailTemplate {
-  id: string;
-  name: string;
-  style: 'bold' | 'minimal' | 'cinematic' | 'educational' | 'entertainment';
-  backgroundColor: string;
-  textColor: string;
-  fontSize: string;
-  layout: 'left-text' | 'center-text' | 'split' | 'overlay';
-}
-
 export class ContentGenerators {
-  private thumbnailTemplates: Map<string, ThumbnailTemplate> = new Map();
-
-  constructor() {
-    this.initializeThumbnailTemplates();
-  }
-
-  private initializeThumbnailTemplates(): void {
-    const templates: ThumbnailTemplate[] = [
-      {
-        id: 'bold_impact',
-        name: 'Bold Impact',
-        style: 'bold',
-        backgroundColor: '#FF0000',
-        textColor: '#FFFFFF',
-        fontSize: '72px',
-        layout: 'center-text'
-      },
-      {
-        id: 'minimal_clean',
-        name: 'Minimal Clean',
-        style: 'minimal',
-        backgroundColor: '#FFFFFF',
-        textColor: '#000000',
-        fontSize: '48px',
-        layout: 'left-text'
-      },
-      {
-        id: 'cinematic_dark',
-        name: 'Cinematic Dark',
-        style: 'cinematic',
-        backgroundColor: '#1a1a1a',
-        textColor: '#FFD700',
-        fontSize: '64px',
-        layout: 'overlay'
-      },
-      {
-        id: 'educational_blue',
-        name: 'Educational Blue',
-        style: 'educational',
-        backgroundColor: '#1E3A8A',
-        textColor: '#FFFFFF',
-        fontSize: '56px',
-        layout: 'split'
-      }
-    ];
-
-    templates.forEach(template => {
-      this.thumbnailTemplates.set(template.id, template);
-    });
-  }
-
   async generateSEOBlog(segments: Segment[], topic: string, targetKeywords: string[]): Promise<BlogPost> {
     // Combine segment content for comprehensive blog generation
     const combinedContent = segments.map(s => `${s.title}: ${s.summary}\n${s.transcript}`).join('\n\n');
@@ -270,12 +211,17 @@ Respond in JSON format:
 </html>`;
   }
 
-  async generateThumbnail(segment: Segment, templateId: string = 'bold_impact'): Promise<{
+  async generateThumbnail(
+    segment: Segment,
+    templateId: string = 'bold_impact',
+    userId: string | null = null,
+    platform?: string
+  ): Promise<{
     imageUrl: string;
     title: string;
-    template: ThumbnailTemplate;
+    template: GraphicTemplate;
   }> {
-    const template = this.thumbnailTemplates.get(templateId);
+    const template = await graphicTemplateService.getTemplate(templateId, userId, 'thumbnail');
     if (!template) {
       throw new Error(`Thumbnail template ${templateId} not found`);
     }
@@ -304,12 +250,19 @@ Return just the thumbnail title text:`;
       });
 
       const thumbnailTitle = response.choices[0].message.content?.trim() || segment.title;
-      
-      // Generate thumbnail image (in real implementation, this would use Canvas/Playwright)
-      const imageUrl = await this.createThumbnailImage(thumbnailTitle, template);
+
+      const rendered = await graphicTemplateService.render(template.definition, { title: thumbnailTitle }, { platform });
+      const filename = `thumbnail_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.png`;
+      // Thumbnails belong to the upload's owner
+      const upload = await storage.getUpload(segment.uploadId);
+      if (!upload) {
+        throw new Error('Upload not found for segment');
+      }
+      const image = await renderService.persist(rendered.buffer, filename, 'thumbnails', upload.userId);
+      console.log(`[ContentGenerators] Generated thumbnail: ${image.url} with title: "${thumbnailTitle}"`);
 
       return {
-        imageUrl,
+        imageUrl: image.url,
         title: thumbnailTitle,
         template
       };
@@ -319,32 +272,11 @@ Return just the thumbnail title text:`;
     }
   }
 
-  private async createThumbnailImage(title: string, template: ThumbnailTemplate): Promise<string> {
-    // In a real implementation, this would use Canvas or Playwright to generate actual images
-    // For now, we'll return a placeholder URL
-    const filename = `thumbnail_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.png`;
-    const imageUrl = `/generated/thumbnails/${filename}`;
-    
-    console.log(`[ContentGenerators] Generated thumbnail: ${imageUrl} with title: "${title}"`);
-    
-    return imageUrl;
-  }
-
-  async getThumbnailTemplates(): Promise<ThumbnailTemplate[]> {
-    return Array.from(this.thumbnailTemplates.values());
-  }
-
-  async createCustomThumbnailTemplate(template: Omit<ThumbnailTemplate, 'id'>): Promise<string> {
-    const id = `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const newTemplate: ThumbnailTemplate = { ...template, id };
-    
-    this.thumbnailTemplates.set(id, newTemplate);
-    console.log(`[ContentGenerators] Created custom thumbnail template: ${id}`);
-    
-    return id;
+  async getThumbnailTemplates(userId: string): Promise<GraphicTemplate[]> {
+    return await graphicTemplateService.listTemplates(userId, 'thumbnail');
   }
 
-  async processSegmentsForContent(uploadId: string): Promise<{
+  async processSegmentsForContent(uploadId: string, userId: string | null = null): Promise<{
     blog: BlogPost;
     newsletter: NewsletterIssue;
     thumbnails: Array<{
@@ -374,7 +306,7 @@ Return just the thumbnail title text:`;
       // Generate thumbnails for each segment
       const thumbnails = [];
       for (const segment of segments.slice(0, 5)) {
-        const thumbnail = await this.generateThumbnail(segment);
+        const thumbnail = await this.generateThumbnail(segment, 'bold_impact', userId);
         thumbnails.push({
           segmentId: segment.id,
           imageUrl: thumbnail.imageUrl,
@@ -6,9 +6,11 @@
  */
 
 import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
+import type { AudioLevels } from '@shared/schema';
 let AssemblyAI;
 try {
   AssemblyAI = require('assemblyai').AssemblyAI;
@@ -16,6 +18,8 @@ try {
   throw new Error("The 'assemblyai' package is not installed. Please run 'npm install assemblyai' in your project root.");
 }
 
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
 const unlinkAsync = promisify(fs.unlink);
 
 const assembly = new AssemblyAI({ apiKey: process.env.ASSEMBLY_AI_API_KEY });
@@ -53,14 +57,18 @@ export async function processAudio(
   config: AudioProcessingConfig = {}
 ): Promise<AudioProcessingResult> {
   // 1. Preprocess audio with FFmpeg (noise reduction, loudness normalization)
+  // Output is 16kHz mono MP3: PCM would pass Whisper's 25 MB upload limit
+  // after about 13 minutes, MP3 at 32 kbps only after about 100
   const outputPath = path.join(
     path.dirname(inputPath),
-    `processed_${path.basename(inputPath)}`
+    `processed_${path.parse(inputPath).name}.mp3`
   );
 
   await new Promise((resolve, reject) => {
     let command = ffmpeg(inputPath)
-      .audioCodec('pcm_s16le')
+      .noVideo()
+      .audioCodec('libmp3lame')
+      .audioBitrate('32k')
       .audioChannels(1)
       .audioFrequency(16000)
       .outputOptions('-ar', '16000');
@@ -132,7 +140,7 @@ export async function processAudio(
 
 export async function analyzeAudioQuality(filePath: string): Promise<any> {
   // Basic audio quality analysis using FFmpeg
-  return new Promise((resolve, reject) => {
+  const stream = await new Promise<any>((resolve, reject) => {
     ffmpeg.ffprobe(filePath, (err, metadata) => {
       if (err) {
         reject(err);
@@ -145,28 +153,121 @@ export async function analyzeAudioQuality(filePath: string): Promise<any> {
         return;
       }
 
-      const sampleRate = Number(audioStream.sample_rate) || 0;
-      const channels = Number(audioStream.channels) || 0;
-      const bitrate = Number(audioStream.bit_rate) || 0;
-
-      const analysis = {
-        duration: audioStream.duration,
-        sampleRate: sampleRate,
-        channels: channels,
-        bitrate: bitrate,
-        codec: audioStream.codec_name,
-        quality: {
-          sampleRate: sampleRate >= 44100 ? 'good' : 'poor',
-          channels: channels >= 2 ? 'stereo' : 'mono',
-          bitrate: bitrate >= 128000 ? 'good' : 'poor'
+      resolve(audioStream);
+    });
+  });
+
+  const sampleRate = Number(stream.sample_rate) || 0;
+  const channels = Number(stream.channels) || 0;
+  const bitrate = Number(stream.bit_rate) || 0;
+  const levels = await measureAudioLevels(filePath);
+
+  return {
+    duration: stream.duration,
+    sampleRate: sampleRate,
+    channels: channels,
+    bitrate: bitrate,
+    codec: stream.codec_name,
+    levels,
+    quality: {
+      sampleRate: sampleRate >= 44100 ? 'good' : 'poor',
+      channels: channels >= 2 ? 'stereo' : 'mono',
+      bitrate: bitrate >= 128000 ? 'good' : 'poor',
+      snr: levels.snr === null ? 'unknown' : levels.snr >= 20 ? 'good' : levels.snr >= 10 ? 'fair' : 'poor',
+    }
+  };
+}
+
+const ANALYSIS_SAMPLE_RATE = 8000;
+const LEVEL_FRAME_SECONDS = 0.05;
+
+/**
+ * EBU R128 loudness (FFmpeg loudnorm measurement pass) plus an SNR estimate:
+ * the audio is cut into 50ms frames, the quietest 10% give the noise floor and
+ * the loudest 10% the speech level.
+ */
+export async function measureAudioLevels(filePath: string): Promise<AudioLevels> {
+  const loudness = await measureLoudness(filePath);
+  const noise = await measureNoise(filePath);
+  return { ...loudness, ...noise };
+}
+
+function measureLoudness(filePath: string): Promise<Pick<AudioLevels, 'integratedLoudness' | 'truePeak' | 'loudnessRange'>> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(filePath)
+      .noVideo()
+      .audioFilters('loudnorm=print_format=json')
+      .format('null')
+      .on('end', (_stdout: string | null, stderr: string | null) => {
+        const match = (stderr || '').match(/\{[^{}]*"input_i"[^{}]*\}/);
+        if (!match) {
+          reject(new Error('Loudness measurement produced no output'));
+          return;
         }
-      };
+        const stats = JSON.parse(match[0]);
+        resolve({
+          integratedLoudness: toLevel(stats.input_i),
+          truePeak: toLevel(stats.input_tp),
+          loudnessRange: toLevel(stats.input_lra),
+        });
+      })
+      .on('error', reject)
+      .save('-');
+  });
+}
 
-      resolve(analysis);
+function measureNoise(filePath: string): Promise<Pick<AudioLevels, 'noiseFloor' | 'snr'>> {
+  return new Promise((resolve, reject) => {
+    const frameBytes = ANALYSIS_SAMPLE_RATE * LEVEL_FRAME_SECONDS * 2;
+    const levels: number[] = [];
+    let pending = Buffer.alloc(0);
+
+    const output = ffmpeg(filePath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(ANALYSIS_SAMPLE_RATE)
+      .format('s16le')
+      .on('error', reject)
+      .pipe();
+
+    output.on('data', (chunk: Buffer) => {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      let offset = 0;
+      for (; offset + frameBytes <= pending.length; offset += frameBytes) {
+        let sum = 0;
+        for (let i = offset; i < offset + frameBytes; i += 2) {
+          const sample = pending.readInt16LE(i) / 32768;
+          sum += sample * sample;
+        }
+        const rms = Math.sqrt(sum / (frameBytes / 2));
+        // Digital silence is clamped so it doesn't dominate the noise floor
+        levels.push(Math.max(-100, 20 * Math.log10(rms || 1e-10)));
+      }
+      pending = pending.subarray(offset);
+    });
+
+    output.on('end', () => {
+      if (levels.length === 0) {
+        resolve({ noiseFloor: null, snr: null });
+        return;
+      }
+      levels.sort((a, b) => a - b);
+      const noiseFloor = levels[Math.floor(levels.length * 0.1)];
+      const speech = levels[Math.min(levels.length - 1, Math.floor(levels.length * 0.9))];
+      resolve({ noiseFloor: round(noiseFloor), snr: round(speech - noiseFloor) });
     });
   });
 }
 
+function toLevel(value: string | undefined): number | null {
+  const level = parseFloat(value ?? '');
+  return Number.isFinite(level) ? round(level) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
 export async function batchProcessAudio(files: Array<{ filePath: string; config?: AudioProcessingConfig }>): Promise<AudioProcessingResult[]> {
   const results: AudioProcessingResult[] = [];
 
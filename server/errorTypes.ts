@@ -21,6 +21,7 @@ export enum ErrorCategory {
   PLATFORM_RATE_LIMIT = 'platform_rate_limit',
   
   // Processing Pipeline
+  AUDIO_PROCESSING = 'audio_processing',
   TRANSCRIPTION = 'transcription',
   SEGMENTATION = 'segmentation',
   CLIP_GENERATION = 'clip_generation',
@@ -133,6 +134,46 @@ export function initializeErrorRegistry() {
   });
 
   // Processing Errors
+  ErrorRegistry.register('AUDIO_QUALITY_LOW', {
+    category: ErrorCategory.AUDIO_PROCESSING,
+    code: 'AUDIO_QUALITY_LOW',
+    userMessage: 'Audio quality is low. Transcripts and clips may be less accurate.',
+    recoverySteps: [
+      'Record closer to the microphone or in a quieter room',
+      'Turn on audio clean-up in your workspace settings',
+      'Check the input level is not too quiet'
+    ],
+    isRetryable: false,
+    severity: 'low'
+  });
+
+  ErrorRegistry.register('AUDIO_QUALITY_TOO_LOW', {
+    category: ErrorCategory.AUDIO_PROCESSING,
+    code: 'AUDIO_QUALITY_TOO_LOW',
+    userMessage: 'Audio quality is below your workspace minimum, so processing stopped before transcription.',
+    recoverySteps: [
+      'Upload a cleaner recording with less background noise',
+      'Turn on audio clean-up in your workspace settings',
+      'Lower the quality thresholds or set the quality gate to warn'
+    ],
+    isRetryable: false,
+    severity: 'medium'
+  });
+
+  ErrorRegistry.register('AUDIO_PROCESSING_FAILED', {
+    category: ErrorCategory.AUDIO_PROCESSING,
+    code: 'AUDIO_PROCESSING_FAILED',
+    userMessage: 'Failed to analyze or clean up the audio. The file may be corrupted.',
+    recoverySteps: [
+      'Check the file plays correctly',
+      'Try exporting the audio again',
+      'Contact support if problem persists'
+    ],
+    isRetryable: true,
+    maxRetries: 2,
+    severity: 'medium'
+  });
+
   ErrorRegistry.register('TRANSCRIPTION_FAILED', {
     category: ErrorCategory.TRANSCRIPTION,
     code: 'TRANSCRIPTION_FAILED',
@@ -250,6 +291,31 @@ export function initializeErrorRegistry() {
     severity: 'medium'
   });
 
+  ErrorRegistry.register('PLATFORM_CONTENT_REJECTED', {
+    category: ErrorCategory.PLATFORM_API,
+    code: 'PLATFORM_CONTENT_REJECTED',
+    userMessage: 'The platform rejected this post. Edit it and publish again.',
+    recoverySteps: [
+      'Check the post length and media against platform limits',
+      'Remove links or wording the platform may flag',
+      'Publish the edited post again'
+    ],
+    isRetryable: false,
+    severity: 'medium'
+  });
+
+  ErrorRegistry.register('PLATFORM_DUPLICATE_POST', {
+    category: ErrorCategory.PLATFORM_API,
+    code: 'PLATFORM_DUPLICATE_POST',
+    userMessage: 'The platform refused this post because the same content was already posted.',
+    recoverySteps: [
+      'Check the account for the existing post',
+      'Change the wording before posting again'
+    ],
+    isRetryable: false,
+    severity: 'low'
+  });
+
   // Server & Infrastructure Errors
   ErrorRegistry.register('SERVER_ERROR', {
     category: ErrorCategory.SERVER_ERROR,
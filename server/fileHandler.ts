@@ -1,10 +1,11 @@
 import path from "path";
 import fs from "fs";
 import { storage } from "./storage";
-import type { InsertUpload } from "@shared/schema";
+import type { InsertUpload, Upload } from "@shared/schema";
 import { processTranscription } from "./processors/transcription";
 import { processSegmentation } from "./processors/segmentation";
 import { processClipGeneration } from "./processors/clipGeneration";
+import { processAudioCleanup, resetAudioCleanup } from "./processors/audioCleanup";
 
 export interface FileUploadResult {
   success: boolean;
@@ -13,15 +14,120 @@ export interface FileUploadResult {
 }
 
 import { errorHandler } from './errorHandler';
-import { progressTracker } from './progressTracker';
+import { progressTracker, type ProcessingStage } from './progressTracker';
 
-export async function processFile(uploadId: string): Promise<void> {
-  let transcript: any;
-  let segments: any;
+export interface ProcessFileOptions {
+  // Re-run this stage and every stage after it, even if already checkpointed
+  fromStage?: string;
+  // Re-run only this stage, leaving the other checkpoints untouched
+  onlyStage?: string;
+}
+
+interface StageRunner {
+  startMessage: string;
+  // Later stages whose outputs and checkpoints are removed when this stage is reset
+  invalidates: string[];
+  run(upload: Upload): Promise<Record<string, unknown>>;
+  reset(uploadId: string): Promise<void>;
+}
+
+const stageRunners: Record<string, StageRunner> = {
+  audio_cleanup: {
+    startMessage: 'Checking audio quality...',
+    invalidates: ['transcription', 'segmentation', 'clip_generation', 'content_generation'],
+    run: (upload) => processAudioCleanup(upload),
+    reset: (uploadId) => resetAudioCleanup(uploadId),
+  },
+  transcription: {
+    startMessage: 'Starting transcription...',
+    invalidates: ['segmentation', 'clip_generation', 'content_generation'],
+    run: async (upload) => {
+      const transcript = await processTranscription(upload);
+      return { transcriptId: transcript.id };
+    },
+    reset: (uploadId) => storage.deleteTranscriptByUploadId(uploadId),
+  },
+  segmentation: {
+    startMessage: 'Analyzing content structure...',
+    invalidates: ['clip_generation', 'content_generation'],
+    run: async (upload) => {
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        throw new Error('Transcript not found for upload');
+      }
+      const segments = await processSegmentation(upload.id, transcript, upload.segmentationSettings || {});
+      return { segmentCount: segments.length };
+    },
+    reset: async (uploadId) => {
+      // Edit history refers to the old segments; undoing it would bring them back
+      await storage.deleteSegmentRevisions(uploadId);
+      await storage.deleteSegmentsByUploadId(uploadId);
+    },
+  },
+  clip_generation: {
+    startMessage: 'Generating video clips...',
+    invalidates: [],
+    run: async (upload) => {
+      const segments = await storage.getSegmentsByUploadId(upload.id);
+      const result = await processClipGeneration(upload, segments);
+      return { segmentCount: segments.length, ...result };
+    },
+    reset: (uploadId) => storage.deleteClipsByUploadId(uploadId),
+  },
+  content_generation: {
+    startMessage: 'Creating social media content...',
+    invalidates: [],
+    run: async (upload) => {
+      const { processSocialContent } = await import('./processors/socialContent');
+      await processSocialContent(upload.id);
+      return {};
+    },
+    reset: (uploadId) => storage.deleteSocialPostsByUploadId(uploadId),
+  },
+};
+
+/**
+ * Pipeline stages in execution order, taken from the progress tracker's stage
+ * definitions so progress reporting and checkpoints share the same stage ids.
+ */
+export function getPipelineStages(): ProcessingStage[] {
+  return progressTracker.getStageDefinitions().filter(stage => stage.id in stageRunners);
+}
+
+/**
+ * Returns an error message when the requested resume/re-run cannot be
+ * honoured for the upload's current checkpoints, or null when it can.
+ */
+export async function validateStageRequest(
+  uploadId: string,
+  options: ProcessFileOptions
+): Promise<string | null> {
+  const requested = options.onlyStage || options.fromStage;
+  if (!requested) return null;
+
+  const stageIds = getPipelineStages().map(stage => stage.id);
+  const index = stageIds.indexOf(requested);
+  if (index === -1) {
+    return `Unknown stage '${requested}'. Valid stages: ${stageIds.join(', ')}`;
+  }
+
+  const checkpoints = await storage.getProcessingCheckpoints(uploadId);
+  const completed = new Set(
+    checkpoints.filter(checkpoint => checkpoint.status === 'completed').map(checkpoint => checkpoint.stage)
+  );
+  const missing = stageIds.slice(0, index).filter(stageId => !completed.has(stageId));
+  if (missing.length > 0) {
+    return `Stage '${requested}' requires completed stages: ${missing.join(', ')}`;
+  }
+
+  return null;
+}
+
+export async function processFile(uploadId: string, options: ProcessFileOptions = {}): Promise<void> {
   try {
     console.log(`Starting processing for upload ${uploadId}`);
     
-    const upload = await storage.getUpload(uploadId);
+    let upload = await storage.getUpload(uploadId);
     if (!upload) {
       throw new Error('Upload not found');
     }
@@ -34,90 +140,99 @@ export async function processFile(uploadId: string): Promise<void> {
       upload.fileSize
     );
 
-    // Step 1: Transcription
-    await storage.updateUploadStatus(uploadId, 'transcribing');
-    await progressTracker.updateStageProgress(uploadId, 'transcription', 0, 'Starting transcription...');
-    console.log(`Transcribing upload ${uploadId}`);
-    
-    try {
-      transcript = await processTranscription(upload);
-      await progressTracker.completeStage(uploadId, 'transcription');
-      console.log(`Transcription completed for upload ${uploadId}`);
-    } catch (error) {
-      const processedError = await errorHandler.processProcessingError(
-        error, 
-        uploadId, 
-        upload.userId, 
-        'transcription'
-      );
-      await progressTracker.failUpload(uploadId, processedError);
-      throw processedError;
+    const stages = getPipelineStages();
+    const stageIds = stages.map(stage => stage.id);
+    const forcedStage = options.onlyStage || options.fromStage;
+    const forcedIndex = forcedStage ? stageIds.indexOf(forcedStage) : -1;
+    if (forcedStage && forcedIndex === -1) {
+      throw new Error(`Unknown processing stage: ${forcedStage}`);
     }
 
-    // Step 2: Segmentation
-    await storage.updateUploadStatus(uploadId, 'segmenting');
-    await progressTracker.updateStageProgress(uploadId, 'segmentation', 0, 'Analyzing content structure...');
-    console.log(`Segmenting upload ${uploadId}`);
-    
-    try {
-      segments = await processSegmentation(uploadId, transcript.text);
-      await progressTracker.completeStage(uploadId, 'segmentation');
-      console.log(`Segmentation completed for upload ${uploadId}, created ${segments.length} segments`);
-    } catch (error) {
-      const processedError = await errorHandler.processProcessingError(
-        error, 
-        uploadId, 
-        upload.userId, 
-        'segmentation'
-      );
-      await progressTracker.failUpload(uploadId, processedError);
-      throw processedError;
-    }
+    const checkpoints = new Map(
+      (await storage.getProcessingCheckpoints(uploadId)).map(checkpoint => [checkpoint.stage, checkpoint])
+    );
 
-    // Step 3: Clip Generation
-    await storage.updateUploadStatus(uploadId, 'processing');
-    await progressTracker.updateStageProgress(uploadId, 'clip_generation', 0, 'Generating video clips...');
-    console.log(`Processing clips for upload ${uploadId}`);
-    
-    try {
-      await processClipGeneration(segments);
-      await progressTracker.completeStage(uploadId, 'clip_generation');
-      console.log(`Clip generation completed for upload ${uploadId}`);
-    } catch (error) {
-      const processedError = await errorHandler.processProcessingError(
-        error, 
-        uploadId, 
-        upload.userId, 
-        'clip_generation'
-      );
-      await progressTracker.failUpload(uploadId, processedError);
-      throw processedError;
-    }
+    for (const [index, stage] of stages.entries()) {
+      const runner = stageRunners[stage.id];
+      const checkpoint = checkpoints.get(stage.id);
 
-    // Step 4: Social Content Generation
-    await storage.updateUploadStatus(uploadId, 'generating_content');
-    await progressTracker.updateStageProgress(uploadId, 'content_generation', 0, 'Creating social media content...');
-    console.log(`Generating social content for upload ${uploadId}`);
-    
-    try {
-      const { processSocialContent } = await import('./processors/socialContent');
-      await processSocialContent(uploadId);
-      await progressTracker.completeStage(uploadId, 'content_generation');
-      console.log(`Social content generation completed for upload ${uploadId}`);
-    } catch (error) {
-      const processedError = await errorHandler.processProcessingError(
-        error, 
-        uploadId, 
-        upload.userId, 
-        'content_generation'
-      );
-      await progressTracker.failUpload(uploadId, processedError);
-      throw processedError;
+      if (options.onlyStage && stage.id !== options.onlyStage) {
+        if (checkpoint?.status === 'completed') {
+          await progressTracker.completeStage(uploadId, stage.id);
+        }
+        continue;
+      }
+
+      const forced = forcedIndex !== -1 && index >= forcedIndex;
+      if (checkpoint?.status === 'completed' && !forced) {
+        console.log(`Skipping ${stage.id} for upload ${uploadId}, checkpoint already completed`);
+        await progressTracker.completeStage(uploadId, stage.id);
+        continue;
+      }
+
+      // Clear previous output so the stage starts from a clean slate. A checkpoint
+      // that isn't completed means a run failed or was cut off part-way, and
+      // whatever it wrote would otherwise be kept
+      if (forced || checkpoint) {
+        await runner.reset(uploadId);
+        // Output built on the old result would otherwise be kept and never rebuilt
+        for (const stageId of runner.invalidates) {
+          await stageRunners[stageId].reset(uploadId);
+        }
+        await storage.deleteProcessingCheckpoints(uploadId, runner.invalidates);
+        runner.invalidates.forEach(stageId => checkpoints.delete(stageId));
+      }
+
+      await storage.updateUploadStatus(uploadId, stage.name);
+      await progressTracker.updateStageProgress(uploadId, stage.id, 0, runner.startMessage);
+      await storage.upsertProcessingCheckpoint({
+        uploadId,
+        stage: stage.id,
+        status: 'running',
+        attempts: (checkpoint?.attempts || 0) + 1,
+        error: null,
+        startedAt: new Date(),
+        completedAt: null,
+      });
+      console.log(`Running ${stage.id} for upload ${uploadId}`);
+
+      try {
+        const output = await runner.run(upload);
+        const saved = await storage.upsertProcessingCheckpoint({
+          uploadId,
+          stage: stage.id,
+          status: 'completed',
+          output,
+          completedAt: new Date(),
+        });
+        checkpoints.set(stage.id, saved);
+        // Stages can update the upload (e.g. the cleaned-up audio path) for later stages
+        upload = (await storage.getUpload(uploadId)) || upload;
+        await progressTracker.completeStage(uploadId, stage.id);
+        console.log(`${stage.displayName} completed for upload ${uploadId}`);
+      } catch (error) {
+        await storage.upsertProcessingCheckpoint({
+          uploadId,
+          stage: stage.id,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+        const processedError = await errorHandler.processProcessingError(
+          error, 
+          uploadId, 
+          upload.userId, 
+          stage.id,
+          checkpoint?.attempts || 0
+        );
+        await progressTracker.failUpload(uploadId, processedError);
+        throw processedError;
+      }
     }
 
-    // Mark as completed
-    await storage.updateUploadStatus(uploadId, 'completed');
-    console.log(`Processing completed for upload ${uploadId}`);
+    // Only mark as completed once every stage has a completed checkpoint
+    const allCompleted = stageIds.every(stageId => checkpoints.get(stageId)?.status === 'completed');
+    await storage.updateUploadStatus(uploadId, allCompleted ? 'completed' : 'incomplete');
+    console.log(`Processing ${allCompleted ? 'completed' : 'paused'} for upload ${uploadId}`);
 
   } catch (error) {
     // If it's already a processed error, re-throw it
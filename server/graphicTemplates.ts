@@ -0,0 +1,507 @@
+import { storage } from './storage';
+import { renderService, type ImageFormat } from './renderService';
+import {
+  templateLayerOverrideSchema,
+  type GraphicTemplateDefinition,
+  type GraphicTemplateRecord,
+  type TemplateLayer,
+  type TemplateVariant,
+} from '@shared/schema';
+
+/**
+ * Graphic Templates
+ *
+ * Quote graphics and thumbnails are described by JSON templates: a canvas,
+ * a stack of layers (text, image, shape, logo, waveform) and per-platform size
+ * variants. String properties bind variables such as {{quote}}, {{speaker}}
+ * or {{brandName}}. Built-in templates are defined here; user templates are
+ * stored in `graphic_templates` with the same definition format.
+ */
+
+export type TemplateKind = 'quote' | 'thumbnail';
+export type TemplateVariables = Record<string, string | undefined>;
+
+export interface GraphicTemplate {
+  id: string;
+  name: string;
+  kind: TemplateKind;
+  builtIn: boolean;
+  definition: GraphicTemplateDefinition;
+  createdAt?: Date | null;
+  updatedAt?: Date | null;
+}
+
+export interface RenderedTemplate {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  format: ImageFormat;
+}
+
+const QUOTE_VARIANTS: TemplateVariant[] = [
+  { platform: 'instagram', width: 1080, height: 1080 },
+  { platform: 'instagram_story', width: 1080, height: 1920 },
+  { platform: 'twitter', width: 1200, height: 675 },
+  { platform: 'linkedin', width: 1200, height: 627 },
+];
+
+const THUMBNAIL_VARIANTS: TemplateVariant[] = [
+  { platform: 'youtube', width: 1280, height: 720 },
+  { platform: 'shorts', width: 1080, height: 1920 },
+];
+
+const BRAND_VARIABLES = [
+  { name: 'brandName', label: 'Brand name', default: 'AutoStage' },
+  { name: 'logo', label: 'Logo URL', default: '' },
+];
+
+const BUILT_IN_TEMPLATES: Array<Omit<GraphicTemplate, 'builtIn'>> = [
+  {
+    id: 'minimal_quote',
+    name: 'Minimal Quote',
+    kind: 'quote',
+    definition: {
+      width: 1080,
+      height: 1080,
+      background: '#FFFFFF',
+      variables: [
+        ...BRAND_VARIABLES,
+        { name: 'primaryColor', label: 'Accent colour', default: '#3B82F6' },
+        { name: 'fontFamily', label: 'Font', default: 'Inter, sans-serif' },
+      ],
+      layers: [
+        { id: 'quote', type: 'text', text: '"{{quote}}"', x: 8, y: 14, width: 84, height: 54, fontFamily: '{{fontFamily}}', fontSize: 42, fontWeight: 600, color: '#1F2937', align: 'center', verticalAlign: 'middle', lineHeight: 1.3 },
+        { id: 'speaker', type: 'text', text: '— {{speaker}}', x: 8, y: 70, width: 84, height: 6, fontFamily: '{{fontFamily}}', fontSize: 24, fontWeight: 500, color: '{{primaryColor}}', align: 'center' },
+        { id: 'brand', type: 'text', text: '{{brandName}}', x: 8, y: 80, width: 84, height: 5, fontFamily: '{{fontFamily}}', fontSize: 18, fontWeight: 600, color: '{{primaryColor}}', align: 'center', uppercase: true, letterSpacing: 2 },
+        { id: 'logo', type: 'logo', x: 44, y: 87, width: 12, height: 8 },
+      ],
+      variants: QUOTE_VARIANTS,
+    },
+  },
+  {
+    id: 'bold_impact',
+    name: 'Bold Impact',
+    kind: 'quote',
+    definition: {
+      width: 1080,
+      height: 1080,
+      background: '#000000',
+      variables: [
+        ...BRAND_VARIABLES,
+        { name: 'primaryColor', label: 'Accent colour', default: '#F59E0B' },
+        { name: 'fontFamily', label: 'Font', default: 'Montserrat, sans-serif' },
+      ],
+      layers: [
+        { id: 'quote-mark', type: 'text', text: '"', x: 7, y: 8, width: 20, height: 16, fontFamily: '{{fontFamily}}', fontSize: 160, fontWeight: 800, color: '{{primaryColor}}', lineHeight: 1 },
+        { id: 'quote', type: 'text', text: '{{quote}}', x: 8, y: 26, width: 84, height: 44, fontFamily: '{{fontFamily}}', fontSize: 44, fontWeight: 700, color: '#FFFFFF', verticalAlign: 'middle', lineHeight: 1.3 },
+        { id: 'speaker', type: 'text', text: '— {{speaker}}', x: 8, y: 73, width: 84, height: 6, fontFamily: '{{fontFamily}}', fontSize: 26, fontWeight: 500, color: '{{primaryColor}}' },
+        { id: 'brand', type: 'text', text: '{{brandName}}', x: 8, y: 86, width: 60, height: 5, fontFamily: '{{fontFamily}}', fontSize: 18, fontWeight: 600, color: '{{primaryColor}}', uppercase: true, letterSpacing: 2 },
+        { id: 'logo', type: 'logo', x: 78, y: 84, width: 14, height: 9 },
+      ],
+      variants: QUOTE_VARIANTS,
+    },
+  },
+  {
+    id: 'corporate_clean',
+    name: 'Corporate Clean',
+    kind: 'quote',
+    definition: {
+      width: 1200,
+      height: 675,
+      background: '#F8FAFC',
+      variables: [
+        ...BRAND_VARIABLES,
+        { name: 'primaryColor', label: 'Accent colour', default: '#0EA5E9' },
+        { name: 'fontFamily', label: 'Font', default: 'system-ui, sans-serif' },
+      ],
+      layers: [
+        { id: 'quote', type: 'text', text: '"{{quote}}"', x: 5, y: 10, width: 44, height: 62, fontFamily: '{{fontFamily}}', fontSize: 36, fontWeight: 600, color: '#0F172A', verticalAlign: 'middle', lineHeight: 1.3 },
+        { id: 'speaker', type: 'text', text: '— {{speaker}}', x: 5, y: 76, width: 44, height: 8, fontFamily: '{{fontFamily}}', fontSize: 22, fontWeight: 500, color: '{{primaryColor}}' },
+        { id: 'divider', type: 'shape', shape: 'rect', x: 52, y: 15, width: 0.3, height: 70, fill: '{{primaryColor}}' },
+        { id: 'brand', type: 'text', text: '{{brandName}}', x: 56, y: 25, width: 39, height: 16, fontFamily: '{{fontFamily}}', fontSize: 48, fontWeight: 700, color: '{{primaryColor}}', align: 'center', verticalAlign: 'middle' },
+        { id: 'context', type: 'text', text: '{{context}}', x: 56, y: 45, width: 39, height: 30, fontFamily: '{{fontFamily}}', fontSize: 18, color: '#0F172A', align: 'center', lineHeight: 1.5, opacity: 0.8 },
+        { id: 'logo', type: 'logo', x: 69, y: 80, width: 13, height: 12 },
+      ],
+      variants: QUOTE_VARIANTS,
+    },
+  },
+  {
+    id: 'modern_gradient',
+    name: 'Modern Gradient',
+    kind: 'quote',
+    definition: {
+      width: 1080,
+      height: 1080,
+      background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+      variables: [
+        ...BRAND_VARIABLES,
+        { name: 'primaryColor', label: 'Accent colour', default: '#FDE047' },
+        { name: 'fontFamily', label: 'Font', default: 'Poppins, sans-serif' },
+      ],
+      layers: [
+        { id: 'overlay', type: 'shape', shape: 'rect', x: 0, y: 0, width: 100, height: 100, fill: 'rgba(0, 0, 0, 0.3)' },
+        { id: 'quote', type: 'text', text: '"{{quote}}"', x: 8, y: 14, width: 84, height: 54, fontFamily: '{{fontFamily}}', fontSize: 42, fontWeight: 600, color: '#FFFFFF', align: 'center', verticalAlign: 'middle', lineHeight: 1.3 },
+        { id: 'speaker', type: 'text', text: '— {{speaker}}', x: 8, y: 70, width: 84, height: 6, fontFamily: '{{fontFamily}}', fontSize: 24, fontWeight: 500, color: '{{primaryColor}}', align: 'center' },
+        { id: 'brand', type: 'text', text: '{{brandName}}', x: 8, y: 80, width: 84, height: 5, fontFamily: '{{fontFamily}}', fontSize: 18, fontWeight: 600, color: '{{primaryColor}}', align: 'center', uppercase: true, letterSpacing: 2 },
+        { id: 'logo', type: 'logo', x: 44, y: 87, width: 12, height: 8 },
+      ],
+      variants: QUOTE_VARIANTS,
+    },
+  },
+  {
+    id: 'bold_impact',
+    name: 'Bold Impact',
+    kind: 'thumbnail',
+    definition: {
+      width: 1280,
+      height: 720,
+      background: '#FF0000',
+      variables: [...BRAND_VARIABLES],
+      layers: [
+        { id: 'title', type: 'text', text: '{{title}}', x: 6, y: 12, width: 88, height: 76, fontFamily: 'Arial Black, Arial, sans-serif', fontSize: 72, fontWeight: 800, color: '#FFFFFF', align: 'center', verticalAlign: 'middle', lineHeight: 1.1, uppercase: true, maxLines: 3 },
+        { id: 'logo', type: 'logo', x: 3, y: 4, width: 12, height: 14 },
+      ],
+      variants: THUMBNAIL_VARIANTS,
+    },
+  },
+  {
+    id: 'minimal_clean',
+    name: 'Minimal Clean',
+    kind: 'thumbnail',
+    definition: {
+      width: 1280,
+      height: 720,
+      background: '#FFFFFF',
+      variables: [...BRAND_VARIABLES, { name: 'primaryColor', label: 'Accent colour', default: '#000000' }],
+      layers: [
+        { id: 'accent', type: 'shape', shape: 'rect', x: 8, y: 18, width: 8, height: 1.2, fill: '{{primaryColor}}' },
+        { id: 'title', type: 'text', text: '{{title}}', x: 8, y: 22, width: 60, height: 56, fontFamily: 'Inter, sans-serif', fontSize: 48, fontWeight: 700, color: '#000000', verticalAlign: 'middle', lineHeight: 1.2, maxLines: 4 },
+        { id: 'brand', type: 'text', text: '{{brandName}}', x: 8, y: 84, width: 60, height: 6, fontFamily: 'Inter, sans-serif', fontSize: 22, fontWeight: 600, color: '{{primaryColor}}', uppercase: true, letterSpacing: 2 },
+        { id: 'logo', type: 'logo', x: 80, y: 8, width: 12, height: 14 },
+      ],
+      variants: THUMBNAIL_VARIANTS,
+    },
+  },
+  {
+    id: 'cinematic_dark',
+    name: 'Cinematic Dark',
+    kind: 'thumbnail',
+    definition: {
+      width: 1280,
+      height: 720,
+      background: '#1a1a1a',
+      variables: [...BRAND_VARIABLES, { name: 'image', label: 'Background image URL', default: '' }],
+      layers: [
+        { id: 'still', type: 'image', src: '{{image}}', x: 0, y: 0, width: 100, height: 100, fit: 'cover' },
+        { id: 'shade', type: 'shape', shape: 'rect', x: 0, y: 0, width: 100, height: 100, fill: 'linear-gradient(180deg, rgba(0,0,0,0) 35%, rgba(0,0,0,0.85) 100%)' },
+        { id: 'title', type: 'text', text: '{{title}}', x: 6, y: 52, width: 88, height: 40, fontFamily: 'Georgia, serif', fontSize: 64, fontWeight: 700, color: '#FFD700', align: 'center', verticalAlign: 'bottom', lineHeight: 1.15, maxLines: 2 },
+        { id: 'logo', type: 'logo', x: 3, y: 4, width: 12, height: 14 },
+      ],
+      variants: THUMBNAIL_VARIANTS,
+    },
+  },
+  {
+    id: 'educational_blue',
+    name: 'Educational Blue',
+    kind: 'thumbnail',
+    definition: {
+      width: 1280,
+      height: 720,
+      background: '#1E3A8A',
+      variables: [...BRAND_VARIABLES],
+      layers: [
+        { id: 'panel', type: 'shape', shape: 'rect', x: 55, y: 0, width: 45, height: 100, fill: 'rgba(255, 255, 255, 0.08)' },
+        { id: 'title', type: 'text', text: '{{title}}', x: 5, y: 12, width: 47, height: 76, fontFamily: 'system-ui, sans-serif', fontSize: 56, fontWeight: 800, color: '#FFFFFF', verticalAlign: 'middle', lineHeight: 1.15, maxLines: 4 },
+        { id: 'logo', type: 'logo', x: 66, y: 22, width: 23, height: 30 },
+        { id: 'brand', type: 'text', text: '{{brandName}}', x: 58, y: 58, width: 39, height: 14, fontFamily: 'system-ui, sans-serif', fontSize: 36, fontWeight: 700, color: '#FFFFFF', align: 'center', verticalAlign: 'middle' },
+      ],
+      variants: THUMBNAIL_VARIANTS,
+    },
+  },
+];
+
+/** Sample values used by the preview endpoint */
+export const SAMPLE_VARIABLES: Record<TemplateKind, TemplateVariables> = {
+  quote: {
+    quote: 'The best time to start was a year ago. The second best time is today, before you feel ready.',
+    speaker: 'Alex Rivera',
+    context: 'On why waiting for perfect conditions stalls most creators',
+  },
+  thumbnail: {
+    title: '5 Lessons From 10 Years',
+  },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class GraphicTemplateService {
+  async listTemplates(userId: string, kind?: TemplateKind): Promise<GraphicTemplate[]> {
+    const builtIn = BUILT_IN_TEMPLATES
+      .filter(template => !kind || template.kind === kind)
+      .map(template => ({ ...template, builtIn: true }));
+    const stored = await storage.getGraphicTemplates(userId, kind);
+    return [...builtIn, ...stored.map(toGraphicTemplate)];
+  }
+
+  /**
+   * Built-in templates are looked up by id within a kind (ids are shared
+   * between kinds); user templates by their uuid, visible only to the owner.
+   */
+  async getTemplate(id: string, userId: string | null, kind?: TemplateKind): Promise<GraphicTemplate | undefined> {
+    const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === id && (!kind || template.kind === kind));
+    if (builtIn) return { ...builtIn, builtIn: true };
+    if (!UUID_PATTERN.test(id)) return undefined;
+
+    const stored = await storage.getGraphicTemplate(id);
+    if (!stored || stored.userId !== userId || (kind && stored.kind !== kind)) return undefined;
+    return toGraphicTemplate(stored);
+  }
+
+  async createTemplate(
+    userId: string,
+    template: { name: string; kind: TemplateKind; definition: GraphicTemplateDefinition }
+  ): Promise<GraphicTemplate> {
+    const created = await storage.createGraphicTemplate({ userId, ...template });
+    console.log(`[GraphicTemplates] Created ${template.kind} template ${created.id}`);
+    return toGraphicTemplate(created);
+  }
+
+  async updateTemplate(
+    id: string,
+    updates: { name?: string; definition?: GraphicTemplateDefinition }
+  ): Promise<GraphicTemplate> {
+    return toGraphicTemplate(await storage.updateGraphicTemplate(id, updates));
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await storage.deleteGraphicTemplate(id);
+    console.log(`[GraphicTemplates] Deleted template ${id}`);
+  }
+
+  /** Renders a template to an image, using the size variant for `platform` when there is one */
+  async render(
+    definition: GraphicTemplateDefinition,
+    variables: TemplateVariables,
+    options: { platform?: string; format?: ImageFormat } = {}
+  ): Promise<RenderedTemplate> {
+    const format = options.format || 'png';
+    const { html, width, height } = buildTemplateHtml(definition, variables, options.platform);
+    const buffer = await renderService.renderHtml(html, { width, height, format });
+    return { buffer, width, height, format };
+  }
+
+  /** Renders with sample data for anything the caller did not supply */
+  async renderPreview(
+    definition: GraphicTemplateDefinition,
+    kind: TemplateKind,
+    variables: TemplateVariables = {},
+    options: { platform?: string; format?: ImageFormat } = {}
+  ): Promise<RenderedTemplate> {
+    return await this.render(definition, { ...SAMPLE_VARIABLES[kind], ...variables }, options);
+  }
+}
+
+function toGraphicTemplate(record: GraphicTemplateRecord): GraphicTemplate {
+  return {
+    id: record.id,
+    name: record.name,
+    kind: record.kind as TemplateKind,
+    builtIn: false,
+    definition: record.definition,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * Standalone HTML document for a template. Layers are stacked in order;
+ * text layers whose variables are all empty are left out, and text shrinks
+ * until it fits its box.
+ */
+export function buildTemplateHtml(
+  definition: GraphicTemplateDefinition,
+  variables: TemplateVariables,
+  platform?: string
+): { html: string; width: number; height: number } {
+  const variant = platform ? definition.variants.find(v => v.platform === platform) : undefined;
+  const width = variant?.width ?? definition.width;
+  const height = variant?.height ?? definition.height;
+  // Fonts are authored for the base size; shrink them when a variant is smaller in either direction
+  const scale = Math.min(width / definition.width, height / definition.height);
+
+  const values: Record<string, string> = {};
+  for (const variable of definition.variables) {
+    values[variable.name] = variable.default ?? '';
+  }
+  for (const [name, value] of Object.entries(variables)) {
+    if (value !== undefined && value !== '') values[name] = value;
+  }
+
+  const layers = definition.layers
+    .map(layer => withOverride(layer, variant?.overrides?.[layer.id]))
+    .filter(layer => !layer.hidden)
+    .map(layer => renderLayer(layer, values, scale))
+    .filter(Boolean)
+    .join('\n    ');
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { width: ${width}px; height: ${height}px; overflow: hidden; }
+    .canvas { position: relative; width: ${width}px; height: ${height}px; overflow: hidden; background: ${cssValue(bind(definition.background, values))}; }
+    .layer { position: absolute; overflow: hidden; }
+    .text-box { display: flex; flex-direction: column; }
+  </style>
+</head>
+<body>
+  <div class="canvas">
+    ${layers}
+  </div>
+  <script>
+    // Shrink text that overflows its layer
+    document.querySelectorAll('[data-fit]').forEach(function (box) {
+      var text = box.firstElementChild;
+      var size = parseFloat(text.style.fontSize);
+      while ((text.scrollHeight > box.clientHeight || text.scrollWidth > box.clientWidth) && size > 8) {
+        size = size * 0.94;
+        text.style.fontSize = size + 'px';
+      }
+    });
+  </script>
+</body>
+</html>`;
+
+  return { html, width, height };
+}
+
+// A variant's changes to a layer; overrides that don't validate (stored before they were checked) are ignored
+function withOverride(layer: TemplateLayer, override: unknown): TemplateLayer {
+  if (!override) return layer;
+  const parsed = templateLayerOverrideSchema.safeParse(override);
+  if (!parsed.success) {
+    console.warn(`[GraphicTemplates] Ignoring invalid override for layer ${layer.id}`);
+    return layer;
+  }
+  return { ...layer, ...parsed.data } as TemplateLayer;
+}
+
+function renderLayer(layer: TemplateLayer, values: Record<string, string>, scale: number): string {
+  const box = [
+    `left:${layer.x}%`,
+    `top:${layer.y}%`,
+    `width:${layer.width}%`,
+    `height:${layer.height}%`,
+    layer.opacity !== undefined ? `opacity:${layer.opacity}` : '',
+    layer.rotation ? `transform:rotate(${layer.rotation}deg)` : '',
+  ];
+
+  switch (layer.type) {
+    case 'text': {
+      const referenced = Array.from(layer.text.matchAll(VARIABLE_PATTERN), match => match[1]);
+      if (referenced.length > 0 && referenced.every(name => !values[name])) return '';
+
+      const justify = { top: 'flex-start', middle: 'center', bottom: 'flex-end' }[layer.verticalAlign || 'top'];
+      const textStyle = [
+        layer.fontFamily ? `font-family:${cssValue(bind(layer.fontFamily, values))}` : '',
+        `font-size:${Math.round(layer.fontSize * scale)}px`,
+        layer.fontWeight ? `font-weight:${layer.fontWeight}` : '',
+        `color:${cssValue(bind(layer.color, values))}`,
+        `line-height:${layer.lineHeight ?? 1.25}`,
+        layer.letterSpacing ? `letter-spacing:${layer.letterSpacing * scale}px` : '',
+        layer.uppercase ? 'text-transform:uppercase' : '',
+        layer.maxLines ? `display:-webkit-box;-webkit-box-orient:vertical;-webkit-line-clamp:${layer.maxLines}` : '',
+        'overflow-wrap:break-word',
+      ];
+      const text = escapeHtml(bind(layer.text, values)).replace(/\n/g, '<br>');
+      return `<div class="layer text-box" data-fit style="${style([...box, `justify-content:${justify}`, `text-align:${layer.align || 'left'}`])}">` +
+        `<div style="${style(textStyle)}">${text}</div></div>`;
+    }
+
+    case 'image':
+    case 'logo': {
+      const src = bind(layer.type === 'logo' ? layer.src ?? '{{logo}}' : layer.src, values).trim();
+      // The server's browser loads the image, so only https and inline images are allowed
+      if (!/^(?:https:\/\/|data:image\/)/i.test(src)) return '';
+      const fit = layer.type === 'image' ? layer.fit || 'cover' : 'contain';
+      const radius = layer.type === 'image' && layer.borderRadius ? `border-radius:${layer.borderRadius * scale}px` : '';
+      return `<img class="layer" src="${escapeHtml(src)}" style="${style([...box, `object-fit:${fit}`, radius])}">`;
+    }
+
+    case 'shape': {
+      const fill = layer.fill ? cssValue(bind(layer.fill, values)) : 'transparent';
+      const stroke = layer.stroke ? cssValue(bind(layer.stroke, values)) : '';
+      const strokeWidth = Math.max(1, Math.round((layer.strokeWidth ?? 0) * scale));
+
+      if (layer.shape === 'line') {
+        return `<div class="layer" style="${style([...box, `height:${strokeWidth}px`, `background:${stroke || fill}`])}"></div>`;
+      }
+      return `<div class="layer" style="${style([
+        ...box,
+        `background:${fill}`,
+        stroke ? `border:${strokeWidth}px solid ${stroke}` : '',
+        layer.shape === 'ellipse' ? 'border-radius:50%' : layer.borderRadius ? `border-radius:${layer.borderRadius * scale}px` : '',
+      ])}"></div>`;
+    }
+
+    case 'waveform': {
+      const bars = layer.bars ?? 48;
+      const levels = waveformLevels(values.waveform, bars);
+      const gap = layer.gap ?? 0.3;
+      const color = cssValue(bind(layer.color, values));
+      const align = layer.style === 'mirror' ? 'center' : 'flex-end';
+      const barsHtml = levels
+        .map(level => `<div style="flex:1;margin:0 ${(gap * 50).toFixed(1)}%;height:${Math.max(2, Math.round(level * 100))}%;background:${color};border-radius:2px"></div>`)
+        .join('');
+      return `<div class="layer" style="${style([...box, 'display:flex', `align-items:${align}`])}">${barsHtml}</div>`;
+    }
+  }
+}
+
+/**
+ * Bar heights (0-1) from a comma-separated {{waveform}} variable, resampled to
+ * `bars`; a fixed speech-like shape when no waveform is supplied (previews).
+ */
+function waveformLevels(data: string | undefined, bars: number): number[] {
+  const samples = (data || '')
+    .split(',')
+    .map(value => parseFloat(value))
+    .filter(value => !isNaN(value));
+
+  return Array.from({ length: bars }, (_, i) => {
+    if (samples.length === 0) {
+      return 0.35 + 0.3 * Math.abs(Math.sin(i * 0.9)) + 0.25 * Math.abs(Math.sin(i * 0.37));
+    }
+    const sample = samples[Math.floor((i / bars) * samples.length)];
+    return Math.min(1, Math.max(0, sample));
+  });
+}
+
+function bind(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? '');
+}
+
+function style(declarations: string[]): string {
+  return declarations.filter(Boolean).join(';');
+}
+
+// Bound values end up inside style attributes; keep them to a single declaration
+// value, and drop values that would make the browser load a resource
+function cssValue(value: string): string {
+  if (/url\s*\(|image-set\s*\(|@import/i.test(value)) return '';
+  return value.replace(/[;{}<>"'\\]/g, '');
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export const graphicTemplateService = new GraphicTemplateService();
@@ -1,5 +1,7 @@
 import { storage } from "./storage";
-import { Segment } from "@shared/schema";
+import { Clip, Segment } from "@shared/schema";
+import { renderService, type ImageFormat, type PersistedImage } from "./renderService";
+import { graphicTemplateService, type GraphicTemplate } from "./graphicTemplates";
 import OpenAI from "openai";
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
@@ -13,19 +15,12 @@ interface QuoteExtraction {
   visualStyle: 'minimal' | 'bold' | 'elegant' | 'modern' | 'corporate';
 }
 
-interface GraphicTemplate {
-  id: string;
-  name: string;
-  width: number;
-  height: number;
-  backgroundColor: string;
-  textColor: string;
-  accentColor: string;
-  fontFamily: string;
-  layout: 'centered' | 'left-aligned' | 'split' | 'overlay';
+/** Quote graphics rendered from an extracted quote, as opposed to the AI-written graphic text of clip generation */
+export function isRenderedQuoteGraphic(clip: Clip): boolean {
+  return !!(clip.metadata as Record<string, any> | null)?.templateId;
 }
 
-interface BrandingConfig {
+export interface BrandingConfig {
   logo?: string;
   primaryColor: string;
   secondaryColor: string;
@@ -34,66 +29,15 @@ interface BrandingConfig {
 }
 
 export class GraphicsService {
-  private templates: Map<string, GraphicTemplate> = new Map();
-
-  constructor() {
-    this.initializeTemplates();
-  }
-
-  private initializeTemplates(): void {
-    const defaultTemplates: GraphicTemplate[] = [
-      {
-        id: 'minimal_quote',
-        name: 'Minimal Quote',
-        width: 1080,
-        height: 1080,
-        backgroundColor: '#FFFFFF',
-        textColor: '#1F2937',
-        accentColor: '#3B82F6',
-        fontFamily: 'Inter, sans-serif',
-        layout: 'centered'
-      },
-      {
-        id: 'bold_impact',
-        name: 'Bold Impact',
-        width: 1080,
-        height: 1080,
-        backgroundColor: '#000000',
-        textColor: '#FFFFFF',
-        accentColor: '#F59E0B',
-        fontFamily: 'Montserrat, sans-serif',
-        layout: 'left-aligned'
-      },
-      {
-        id: 'corporate_clean',
-        name: 'Corporate Clean',
-        width: 1200,
-        height: 675,
-        backgroundColor: '#F8FAFC',
-        textColor: '#0F172A',
-        accentColor: '#0EA5E9',
-        fontFamily: 'system-ui, sans-serif',
-        layout: 'split'
-      },
-      {
-        id: 'modern_gradient',
-        name: 'Modern Gradient',
-        width: 1080,
-        height: 1080,
-        backgroundColor: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
-        textColor: '#FFFFFF',
-        accentColor: '#FDE047',
-        fontFamily: 'Poppins, sans-serif',
-        layout: 'overlay'
-      }
-    ];
-
-    defaultTemplates.forEach(template => {
-      this.templates.set(template.id, template);
-    });
-  }
+  // Extracted quotes per segment, reused until the segment transcript changes
+  private quoteCache: Map<string, { transcript: string; quotes: QuoteExtraction[] }> = new Map();
 
   async extractQuotes(segment: Segment): Promise<QuoteExtraction[]> {
+    const cached = this.quoteCache.get(segment.id);
+    if (cached && cached.transcript === (segment.transcript || '')) {
+      return cached.quotes;
+    }
+
     const prompt = `Extract 3-5 powerful, quotable moments from this transcript that would work well as social media graphics.
 
 Transcript: "${segment.transcript}"
@@ -131,239 +75,127 @@ Respond in JSON format:
       });
 
       const result = JSON.parse(response.choices[0].message.content || '{"quotes":[]}');
-      return result.quotes || [];
+      const quotes: QuoteExtraction[] = result.quotes || [];
+      this.quoteCache.set(segment.id, { transcript: segment.transcript || '', quotes });
+      return quotes;
     } catch (error) {
       console.error('[GraphicsService] Error extracting quotes:', error);
       return [];
     }
   }
 
+  /** Drops cached quotes so the next extraction uses the corrected transcript */
+  invalidateQuotes(segmentId: string): void {
+    this.quoteCache.delete(segmentId);
+  }
+
+  /**
+   * Re-extracts the segment's quotes after its transcript changed and renders
+   * them over the segment's rendered quote graphics, in order, keeping each
+   * graphic's template and size. Graphics with no quote left are marked failed.
+   */
+  async refreshQuoteGraphics(segment: Segment, userId: string | null): Promise<QuoteExtraction[]> {
+    this.invalidateQuotes(segment.id);
+    const quotes = await this.extractQuotes(segment);
+
+    const clips = await storage.getClipsBySegmentId(segment.id);
+    const rendered = clips.filter(clip => clip.type === 'quote_graphic' && isRenderedQuoteGraphic(clip));
+    for (const [index, clip] of rendered.entries()) {
+      const metadata = (clip.metadata || {}) as Record<string, any>;
+      const quote = quotes[index];
+      if (!quote) {
+        await storage.updateClip(clip.id, { status: 'failed', metadata: { ...metadata, error: 'No quote left in the edited transcript' } });
+        continue;
+      }
+
+      const { image, width, height, format } = await this.renderQuoteGraphic(quote, {
+        templateId: metadata.templateId,
+        format: metadata.format,
+        platform: metadata.platform,
+        userId,
+      });
+      await storage.updateClip(clip.id, {
+        ...this.quoteClipFields(quote, image, { templateId: metadata.templateId, platform: metadata.platform, width, height, format }),
+        status: 'completed',
+      });
+    }
+    return quotes;
+  }
+
+  // How a rendered quote is stored on its clip
+  private quoteClipFields(
+    quote: QuoteExtraction,
+    image: PersistedImage,
+    render: { templateId: string; platform?: string; width: number; height: number; format: ImageFormat }
+  ) {
+    return {
+      filePath: image.filePath ?? undefined,
+      content: quote.quote,
+      metadata: {
+        imageUrl: image.url,
+        storage: image.storage,
+        ...render,
+        size: image.size,
+        speaker: quote.speaker,
+        emotion: quote.emotion,
+        impact: quote.impact,
+      },
+    };
+  }
+
   async generateQuoteGraphic(
     quote: QuoteExtraction, 
     templateId: string = 'minimal_quote',
-    branding?: BrandingConfig
+    branding?: BrandingConfig,
+    userId: string | null = null
   ): Promise<string> {
-    const template = this.templates.get(templateId);
-    if (!template) {
-      throw new Error(`Template ${templateId} not found`);
-    }
-
-    // Generate HTML for the quote graphic
-    const html = this.generateGraphicHTML(quote, template, branding);
-    
-    // Convert HTML to PNG using browser automation
-    const imageBuffer = await this.htmlToPng(html, template.width, template.height);
-    
-    // Save to storage and return URL
-    const filename = `quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.png`;
-    const imageUrl = await this.saveImage(imageBuffer, filename);
-    
-    return imageUrl;
+    const { image } = await this.renderQuoteGraphic(quote, { templateId, branding, userId });
+    return image.url;
   }
 
-  private generateGraphicHTML(
-    quote: QuoteExtraction, 
-    template: GraphicTemplate, 
-    branding?: BrandingConfig
-  ): string {
-    const primaryColor = branding?.primaryColor || template.accentColor;
-    const fontFamily = branding?.fontFamily || template.fontFamily;
-    const brandName = branding?.brandName || 'AutoStage';
-
-    let layoutStyles = '';
-    let contentLayout = '';
-
-    switch (template.layout) {
-      case 'centered':
-        layoutStyles = `
-          display: flex;
-          flex-direction: column;
-          justify-content: center;
-          align-items: center;
-          text-align: center;
-          padding: 80px 60px;
-        `;
-        contentLayout = `
-          <div class="quote-text">"${quote.quote}"</div>
-          ${quote.speaker ? `<div class="speaker">— ${quote.speaker}</div>` : ''}
-          <div class="brand">${brandName}</div>
-        `;
-        break;
-
-      case 'left-aligned':
-        layoutStyles = `
-          display: flex;
-          flex-direction: column;
-          justify-content: center;
-          padding: 80px 60px;
-          text-align: left;
-        `;
-        contentLayout = `
-          <div class="quote-mark">"</div>
-          <div class="quote-text">${quote.quote}</div>
-          ${quote.speaker ? `<div class="speaker">— ${quote.speaker}</div>` : ''}
-          <div class="brand">${brandName}</div>
-        `;
-        break;
-
-      case 'split':
-        layoutStyles = `
-          display: grid;
-          grid-template-columns: 1fr 1fr;
-          align-items: center;
-          padding: 60px;
-        `;
-        contentLayout = `
-          <div class="content">
-            <div class="quote-text">"${quote.quote}"</div>
-            ${quote.speaker ? `<div class="speaker">— ${quote.speaker}</div>` : ''}
-          </div>
-          <div class="brand-section">
-            <div class="brand-large">${brandName}</div>
-            <div class="context">${quote.context}</div>
-          </div>
-        `;
-        break;
-
-      case 'overlay':
-        layoutStyles = `
-          position: relative;
-          display: flex;
-          flex-direction: column;
-          justify-content: center;
-          align-items: center;
-          text-align: center;
-          padding: 80px 60px;
-        `;
-        contentLayout = `
-          <div class="overlay"></div>
-          <div class="content">
-            <div class="quote-text">"${quote.quote}"</div>
-            ${quote.speaker ? `<div class="speaker">— ${quote.speaker}</div>` : ''}
-            <div class="brand">${brandName}</div>
-          </div>
-        `;
-        break;
+  /**
+   * Renders a quote with a built-in or user template and stores the image.
+   * `platform` picks one of the template's size variants.
+   */
+  async renderQuoteGraphic(
+    quote: QuoteExtraction,
+    options: {
+      templateId?: string;
+      branding?: BrandingConfig;
+      format?: ImageFormat;
+      platform?: string;
+      userId?: string | null;
+    } = {}
+  ): Promise<{ image: PersistedImage; template: GraphicTemplate; width: number; height: number; format: ImageFormat }> {
+    const templateId = options.templateId || 'minimal_quote';
+    if (!options.userId) {
+      throw new Error('Rendering a quote graphic needs the user it belongs to');
     }
-
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <style>
-    @import url('https://fonts.googleapis.com/css2?family=Inter:wght@400;600;700&family=Montserrat:wght@400;600;700;800&family=Poppins:wght@400;600;700&display=swap');
-    
-    * {
-      margin: 0;
-      padding: 0;
-      box-sizing: border-box;
-    }
-    
-    .container {
-      width: ${template.width}px;
-      height: ${template.height}px;
-      background: ${template.backgroundColor};
-      color: ${template.textColor};
-      font-family: ${fontFamily};
-      position: relative;
-      overflow: hidden;
-      ${layoutStyles}
-    }
-    
-    .quote-text {
-      font-size: ${template.layout === 'split' ? '36px' : '42px'};
-      font-weight: 600;
-      line-height: 1.3;
-      margin-bottom: 30px;
-      max-width: 100%;
-    }
-    
-    .quote-mark {
-      font-size: 120px;
-      font-weight: 800;
-      color: ${primaryColor};
-      line-height: 0.8;
-      margin-bottom: 20px;
-    }
-    
-    .speaker {
-      font-size: 24px;
-      font-weight: 500;
-      color: ${primaryColor};
-      margin-bottom: 40px;
-    }
-    
-    .brand {
-      font-size: 18px;
-      font-weight: 600;
-      text-transform: uppercase;
-      letter-spacing: 2px;
-      color: ${primaryColor};
-    }
-    
-    .brand-large {
-      font-size: 48px;
-      font-weight: 700;
-      color: ${primaryColor};
-      margin-bottom: 20px;
-    }
-    
-    .context {
-      font-size: 16px;
-      opacity: 0.8;
-      line-height: 1.5;
-    }
-    
-    .overlay {
-      position: absolute;
-      top: 0;
-      left: 0;
-      right: 0;
-      bottom: 0;
-      background: rgba(0, 0, 0, 0.3);
-      z-index: 1;
-    }
-    
-    .content {
-      position: relative;
-      z-index: 2;
-    }
-    
-    .brand-section {
-      text-align: center;
+    const template = await graphicTemplateService.getTemplate(templateId, options.userId, 'quote');
+    if (!template) {
+      throw new Error(`Template ${templateId} not found`);
     }
-  </style>
-</head>
-<body>
-  <div class="container">
-    ${contentLayout}
-  </div>
-</body>
-</html>`;
-  }
 
-  private async htmlToPng(html: string, width: number, height: number): Promise<Buffer> {
-    // In a real implementation, this would use Puppeteer or Playwright
-    // For now, we'll simulate the process
-    console.log('[GraphicsService] Converting HTML to PNG...');
-    
-    // Simulate image generation
-    const mockImageBuffer = Buffer.from('mock-png-data');
-    
-    return mockImageBuffer;
+    const { branding } = options;
+    const rendered = await graphicTemplateService.render(template.definition, {
+      quote: quote.quote,
+      speaker: quote.speaker || '',
+      context: quote.context || '',
+      brandName: branding?.brandName,
+      primaryColor: branding?.primaryColor,
+      secondaryColor: branding?.secondaryColor,
+      fontFamily: branding?.fontFamily,
+      logo: branding?.logo,
+    }, { platform: options.platform, format: options.format });
+
+    const filename = `quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${rendered.format}`;
+    const image = await renderService.persist(rendered.buffer, filename, 'graphics', options.userId);
+    console.log(`[GraphicsService] Saved graphic: ${image.url}`);
+
+    return { image, template, width: rendered.width, height: rendered.height, format: rendered.format };
   }
 
-  private async saveImage(imageBuffer: Buffer, filename: string): Promise<string> {
-    // In a real implementation, this would save to file storage
-    // For now, we'll return a mock URL
-    const imageUrl = `/generated/graphics/${filename}`;
-    console.log(`[GraphicsService] Saved graphic: ${imageUrl}`);
-    
-    return imageUrl;
-  }
-
-  async generateCarouselPost(quotes: QuoteExtraction[], branding?: BrandingConfig): Promise<{
+  async generateCarouselPost(quotes: QuoteExtraction[], branding?: BrandingConfig, userId: string | null = null): Promise<{
     images: string[];
     caption: string;
     hashtags: string[];
@@ -374,7 +206,7 @@ Respond in JSON format:
     for (let i = 0; i < Math.min(quotes.length, 10); i++) {
       const quote = quotes[i];
       const templateId = this.selectTemplateForQuote(quote);
-      const imageUrl = await this.generateQuoteGraphic(quote, templateId, branding);
+      const imageUrl = await this.generateQuoteGraphic(quote, templateId, branding, userId);
       images.push(imageUrl);
     }
 
@@ -462,21 +294,15 @@ Generate hashtags:`;
     }
   }
 
-  async getAvailableTemplates(): Promise<GraphicTemplate[]> {
-    return Array.from(this.templates.values());
-  }
-
-  async createCustomTemplate(template: Omit<GraphicTemplate, 'id'>): Promise<string> {
-    const id = `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const newTemplate: GraphicTemplate = { ...template, id };
-    
-    this.templates.set(id, newTemplate);
-    console.log(`[GraphicsService] Created custom template: ${id}`);
-    
-    return id;
-  }
-
-  async processSegmentForGraphics(segmentId: string, branding?: BrandingConfig): Promise<{
+  /**
+   * Extracts quotes from a segment and renders the best ones, recording each
+   * image as a quote_graphic clip of the segment.
+   */
+  async processSegmentForGraphics(
+    segmentId: string,
+    branding?: BrandingConfig,
+    options: { format?: ImageFormat; templateId?: string; platform?: string; userId?: string | null } = {}
+  ): Promise<{
     quotes: QuoteExtraction[];
     graphics: string[];
     carousel: {
@@ -486,8 +312,7 @@ Generate hashtags:`;
     };
   }> {
     try {
-      const segments = await storage.getSegmentsByUploadId(segmentId);
-      const segment = segments.find(s => s.id === segmentId);
+      const segment = await storage.getSegment(segmentId);
       
       if (!segment) {
         throw new Error('Segment not found');
@@ -499,13 +324,27 @@ Generate hashtags:`;
       // Generate individual graphics
       const graphics: string[] = [];
       for (const quote of quotes.slice(0, 5)) {
-        const templateId = this.selectTemplateForQuote(quote);
-        const imageUrl = await this.generateQuoteGraphic(quote, templateId, branding);
-        graphics.push(imageUrl);
+        // An explicit template applies to every quote; otherwise it follows the quote's tone
+        const templateId = options.templateId || this.selectTemplateForQuote(quote);
+        const { image, width, height, format } = await this.renderQuoteGraphic(quote, {
+          templateId,
+          branding,
+          format: options.format,
+          platform: options.platform,
+          userId: options.userId,
+        });
+
+        await storage.createClip({
+          segmentId: segment.id,
+          type: 'quote_graphic',
+          ...this.quoteClipFields(quote, image, { templateId, platform: options.platform, width, height, format }),
+          status: 'completed',
+        });
+        graphics.push(image.url);
       }
 
       // Generate carousel post
-      const carousel = await this.generateCarouselPost(quotes, branding);
+      const carousel = await this.generateCarouselPost(quotes, branding, options.userId ?? null);
 
       return { quotes, graphics, carousel };
     } catch (error) {
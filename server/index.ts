@@ -24,7 +24,7 @@ import { log } from "./vite";
 let registerRoutes: any;
 let setupVite: any;
 let serveStatic: any;
-let postingService: any;
+let queueManager: any;
 let progressTracker: any;
 
 try {
@@ -52,11 +52,11 @@ try {
 }
 
 try {
-  const postingModule = await import("./postingService");
-  postingService = postingModule.postingService;
+  const queueModule = await import("./queueSystem");
+  queueManager = queueModule.queueManager;
 } catch (error) {
-  console.warn("⚠️ Posting service import failed:", error.message);
-  postingService = { startScheduler: () => {} };
+  console.warn("⚠️ Post scheduler import failed:", error.message);
+  queueManager = { start: async () => {} };
 }
 
 try {
@@ -259,8 +259,12 @@ app.use((req, res, next) => {
   // this serves both the API and the client.
   // It is the only port that is not firewalled.
   // Start the automated posting service
-  postingService.startScheduler(5); // Check every 5 minutes
-  console.log('[AutoStage] Automated posting service started');
+  try {
+    await queueManager.start();
+    console.log('[AutoStage] Automated posting service started');
+  } catch (error) {
+    console.warn('[AutoStage] Post scheduler failed to start:', (error as Error).message);
+  }
 
   // Start the engagement monitoring service
   try {
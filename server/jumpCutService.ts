@@ -0,0 +1,310 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import type { TranscriptWord } from '@shared/schema';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+/**
+ * Jump-Cut Service
+ *
+ * Plans the cuts for "jump cut" shorts: filler words are found in the
+ * transcript's word timestamps, long pauses with FFmpeg `silencedetect`.
+ * Silences are trimmed back so they never cut into a transcribed word, and a
+ * little padding is kept either side so speech doesn't sound clipped. The
+ * result is an edit decision list (EDL) in clip-relative seconds that the
+ * renderer turns into trim/concat filters and that captions are re-timed to.
+ */
+
+export interface JumpCutConfig {
+  enabled: boolean;
+  // Single words or short phrases ("you know"), matched case-insensitively
+  fillerWords: string[];
+  removeFillers: boolean;
+  removeSilences: boolean;
+  // Pauses at least this long are shortened
+  minSilenceMs: number;
+  // Audio quieter than this counts as silence
+  silenceThresholdDb: number;
+  // Kept either side of each cut so speech isn't clipped
+  paddingMs: number;
+}
+
+export interface EditDecision {
+  start: number; // seconds from clip start, in the source timeline
+  end: number;
+  reason: 'filler' | 'silence';
+  text?: string; // the filler that was removed
+}
+
+export interface EditDecisionList {
+  // Absolute source times of the clip the EDL applies to
+  sourceStart: number;
+  sourceEnd: number;
+  cuts: EditDecision[];
+  // Ranges of the clip that remain, in order
+  keep: Array<{ start: number; end: number }>;
+  originalDuration: number;
+  editedDuration: number;
+}
+
+export const DEFAULT_JUMP_CUT_CONFIG: JumpCutConfig = {
+  enabled: false,
+  fillerWords: ['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'ah', 'hmm', 'mm'],
+  removeFillers: true,
+  removeSilences: true,
+  minSilenceMs: 700,
+  silenceThresholdDb: -35,
+  paddingMs: 100,
+};
+
+// Cuts closer together than this are merged
+const MERGE_GAP = 0.05;
+// Kept fragments shorter than this are dropped rather than flashed on screen
+const MIN_KEEP_DURATION = 0.15;
+
+export class JumpCutService {
+  /**
+   * Builds the EDL for the clip [startTime, endTime] of the source. `words`
+   * are absolute transcript word timestamps; silence detection is skipped
+   * for sources without audio.
+   */
+  async planCuts(
+    videoPath: string,
+    startTime: number,
+    endTime: number,
+    words: TranscriptWord[],
+    config: JumpCutConfig,
+    hasAudio: boolean = true
+  ): Promise<EditDecisionList> {
+    const duration = endTime - startTime;
+    const clipWords = words
+      .filter(word => word.end > startTime && word.start < endTime)
+      .map(word => ({ ...word, start: Math.max(0, word.start - startTime), end: Math.min(endTime, word.end) - startTime }));
+
+    const fillerCuts = config.removeFillers ? this.findFillers(clipWords, config.fillerWords) : [];
+
+    let silenceCuts: EditDecision[] = [];
+    if (config.removeSilences && hasAudio) {
+      const silences = await this.detectSilences(videoPath, startTime, duration, config);
+      silenceCuts = this.trimSilences(silences, clipWords, config.paddingMs / 1000);
+    }
+
+    return this.buildEdl(startTime, endTime, [...fillerCuts, ...silenceCuts]);
+  }
+
+  /** Filler words and phrases in clip-relative words, matched ignoring case and punctuation */
+  findFillers(words: TranscriptWord[], fillerWords: string[]): EditDecision[] {
+    const phrases = fillerWords
+      .map(filler => filler.split(/\s+/).map(normalizeWord).filter(Boolean))
+      .filter(phrase => phrase.length > 0)
+      // Longest first so "you know" wins over a bare "you"
+      .sort((a, b) => b.length - a.length);
+    const normalized = words.map(word => normalizeWord(word.word));
+    const cuts: EditDecision[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const phrase = phrases.find(candidate =>
+        candidate.every((token, offset) => normalized[i + offset] === token)
+      );
+      if (!phrase) continue;
+
+      const last = words[i + phrase.length - 1];
+      cuts.push({
+        start: words[i].start,
+        end: last.end,
+        reason: 'filler',
+        text: words.slice(i, i + phrase.length).map(word => word.word).join(' '),
+      });
+      i += phrase.length - 1;
+    }
+
+    return cuts;
+  }
+
+  /** Runs `silencedetect` over the clip; returned ranges are clip-relative */
+  detectSilences(
+    videoPath: string,
+    startTime: number,
+    duration: number,
+    config: Pick<JumpCutConfig, 'minSilenceMs' | 'silenceThresholdDb'>
+  ): Promise<Array<{ start: number; end: number }>> {
+    return new Promise((resolve, reject) => {
+      ffmpeg(videoPath)
+        .seekInput(startTime)
+        .duration(duration)
+        .noVideo()
+        .audioFilters(`silencedetect=noise=${config.silenceThresholdDb}dB:d=${config.minSilenceMs / 1000}`)
+        .format('null')
+        .on('end', (_stdout: string | null, stderr: string | null) => {
+          const silences: Array<{ start: number; end: number }> = [];
+          let open: number | null = null;
+
+          for (const line of (stderr || '').split('\n')) {
+            const start = line.match(/silence_start: (-?[\d.]+)/);
+            const end = line.match(/silence_end: (-?[\d.]+)/);
+            if (start) open = Math.max(0, parseFloat(start[1]));
+            if (end && open !== null) {
+              silences.push({ start: open, end: Math.min(duration, parseFloat(end[1])) });
+              open = null;
+            }
+          }
+          // Silence running to the end of the clip has no silence_end line
+          if (open !== null) silences.push({ start: open, end: duration });
+
+          resolve(silences);
+        })
+        .on('error', err => reject(err))
+        .save('-');
+    });
+  }
+
+  /**
+   * Shrinks each silence by the padding and splits it around any words inside
+   * it, so quiet speech the transcript picked up is never removed.
+   */
+  trimSilences(
+    silences: Array<{ start: number; end: number }>,
+    words: TranscriptWord[],
+    padding: number
+  ): EditDecision[] {
+    const cuts: EditDecision[] = [];
+
+    for (const silence of silences) {
+      let start = silence.start;
+      const inside = words.filter(word => word.end > silence.start && word.start < silence.end);
+
+      for (const range of [...inside.map(word => ({ start: word.start, end: word.end })), { start: silence.end, end: silence.end }]) {
+        const cutStart = start + padding;
+        const cutEnd = range.start - padding;
+        if (cutEnd - cutStart > MERGE_GAP) {
+          cuts.push({ start: cutStart, end: cutEnd, reason: 'silence' });
+        }
+        start = Math.max(start, range.end);
+      }
+    }
+
+    return cuts;
+  }
+
+  /** Merges overlapping cuts and derives the kept ranges and durations */
+  buildEdl(sourceStart: number, sourceEnd: number, decisions: EditDecision[]): EditDecisionList {
+    const duration = sourceEnd - sourceStart;
+    const sorted = decisions
+      .map(cut => ({ ...cut, start: Math.max(0, cut.start), end: Math.min(duration, cut.end) }))
+      .filter(cut => cut.end > cut.start)
+      .sort((a, b) => a.start - b.start);
+
+    const cuts: EditDecision[] = [];
+    for (const cut of sorted) {
+      const previous = cuts[cuts.length - 1];
+      if (previous && cut.start - previous.end <= MERGE_GAP) {
+        previous.end = Math.max(previous.end, cut.end);
+        if (cut.reason === 'filler') {
+          previous.reason = 'filler';
+          previous.text = [previous.text, cut.text].filter(Boolean).join(' ');
+        }
+      } else {
+        cuts.push({ ...cut });
+      }
+    }
+
+    const keep: Array<{ start: number; end: number }> = [];
+    let position = 0;
+    for (const cut of cuts) {
+      if (cut.start - position >= MIN_KEEP_DURATION) {
+        keep.push({ start: position, end: cut.start });
+      }
+      position = cut.end;
+    }
+    if (duration - position >= MIN_KEEP_DURATION) {
+      keep.push({ start: position, end: duration });
+    }
+    // Never cut a clip down to nothing
+    if (keep.length === 0) {
+      keep.push({ start: 0, end: duration });
+    }
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const editedDuration = keep.reduce((total, range) => total + range.end - range.start, 0);
+
+    return {
+      sourceStart,
+      sourceEnd,
+      cuts: cuts.map(cut => ({ ...cut, start: round(cut.start), end: round(cut.end) })),
+      keep: keep.map(range => ({ start: round(range.start), end: round(range.end) })),
+      originalDuration: round(duration),
+      editedDuration: round(editedDuration),
+    };
+  }
+
+  /**
+   * Moves clip-relative words onto the edited timeline. Words that fall
+   * entirely inside a cut are dropped; words straddling a cut are clamped.
+   */
+  retimeWords(words: TranscriptWord[], edl: EditDecisionList): TranscriptWord[] {
+    return words.flatMap(word => {
+      const range = this.mapRange(word.start, word.end, edl);
+      return range && range.end - range.start > 0.01 ? [{ ...word, ...range }] : [];
+    });
+  }
+
+  /**
+   * Maps a clip-relative range onto the edited timeline: from where its first
+   * kept part starts to where its last kept part ends. Null if all of it was cut.
+   */
+  mapRange(start: number, end: number, edl: EditDecisionList): { start: number; end: number } | null {
+    let offset = 0;
+    let mappedStart: number | null = null;
+    let mappedEnd = 0;
+
+    for (const range of edl.keep) {
+      const overlapStart = Math.max(start, range.start);
+      const overlapEnd = Math.min(end, range.end);
+      if (overlapEnd > overlapStart) {
+        if (mappedStart === null) mappedStart = overlapStart - range.start + offset;
+        mappedEnd = overlapEnd - range.start + offset;
+      }
+      offset += range.end - range.start;
+    }
+
+    return mappedStart === null ? null : { start: mappedStart, end: mappedEnd };
+  }
+
+  /**
+   * trim/atrim + concat filter graph cutting `[0:v]` (after `videoFilter`) and
+   * `[0:a]` down to the kept ranges, producing `[vcut]` and `[acut]`
+   */
+  buildConcatFilter(edl: EditDecisionList, videoFilter: string, hasAudio: boolean): string {
+    const count = edl.keep.length;
+    const parts: string[] = [];
+    const videoLabels = edl.keep.map((_, i) => `[jv${i}]`);
+    const audioLabels = edl.keep.map((_, i) => `[ja${i}]`);
+
+    // The video filter runs on the uncut timeline so time-based reframing stays in sync
+    parts.push(`[0:v]${videoFilter},split=${count}${videoLabels.join('')}`);
+    if (hasAudio) {
+      parts.push(`[0:a]asplit=${count}${audioLabels.join('')}`);
+    }
+
+    const segments = edl.keep.map((range, i) => {
+      parts.push(`${videoLabels[i]}trim=start=${range.start}:end=${range.end},setpts=PTS-STARTPTS[cv${i}]`);
+      if (hasAudio) {
+        parts.push(`${audioLabels[i]}atrim=start=${range.start}:end=${range.end},asetpts=PTS-STARTPTS[ca${i}]`);
+        return `[cv${i}][ca${i}]`;
+      }
+      return `[cv${i}]`;
+    });
+
+    parts.push(hasAudio
+      ? `${segments.join('')}concat=n=${count}:v=1:a=1[vcut][acut]`
+      : `${segments.join('')}concat=n=${count}:v=1:a=0[vcut]`);
+
+    return parts.join(';');
+  }
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+export const jumpCutService = new JumpCutService();
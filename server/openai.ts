@@ -1,24 +1,30 @@
 import OpenAI from "openai";
 import fs from "fs";
-
-if (!process.env.OPENAI_API_KEY && !process.env.OPENAI_API_KEY_ENV_VAR) {
-  throw new Error("OPENAI_API_KEY environment variable is required");
-}
+import type { TranscriptWord } from "@shared/schema";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key" 
-});
+let client: OpenAI | null = null;
+
+// Created on first use rather than at load, so modules importing this one
+// still load without a key (e.g. when transcription runs locally)
+function getClient(): OpenAI {
+  if (!client) {
+    const apiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is required");
+    }
+    client = new OpenAI({ apiKey });
+  }
+  return client;
+}
 
 export interface TranscriptionResult {
   text: string;
-  words?: Array<{
-    word: string;
-    start: number;
-    end: number;
-  }>;
+  words?: TranscriptWord[];
   language?: string;
   duration?: number;
+  confidence?: number;
+  provider?: string;
 }
 
 export interface SegmentResult {
@@ -27,17 +33,21 @@ export interface SegmentResult {
   startTime: number;
   endTime: number;
   transcript: string;
+  speaker?: string; // Display name of the dominant speaker
+  attributedTranscript?: string; // Transcript with "Name: ..." speaker turns
+  score?: number; // 0-100 clip potential, used to rank candidates and for score ordering
 }
 
-export async function transcribeAudio(audioFilePath: string): Promise<TranscriptionResult> {
+export async function transcribeAudio(audioFilePath: string, prompt?: string): Promise<TranscriptionResult> {
   try {
     const audioStream = fs.createReadStream(audioFilePath);
 
-    const transcription = await openai.audio.transcriptions.create({
+    const transcription = await getClient().audio.transcriptions.create({
       file: audioStream,
       model: "whisper-1",
       response_format: "verbose_json",
       timestamp_granularities: ["word"],
+      ...(prompt ? { prompt } : {}),
     });
 
     return {
@@ -57,15 +67,16 @@ export async function transcribeAudio(audioFilePath: string): Promise<Transcript
   }
 }
 
-export async function generateSegments(transcript: string): Promise<SegmentResult[]> {
+export async function generateSegments(transcript: string, maxSegments: number = 7): Promise<SegmentResult[]> {
   try {
-    const prompt = `Analyze this transcript and break it down into 3-7 meaningful segments that would make good content clips. Each segment should be a distinct topic or key insight.
+    const prompt = `Analyze this transcript and break it down into 3-${maxSegments} meaningful segments that would make good content clips. Each segment should be a distinct topic or key insight.
 
 For each segment, provide:
 - A compelling title
 - A brief summary
 - The approximate start and end times (in seconds, estimate based on word position)
 - The exact transcript text for that segment
+- A score from 0 to 100 for how engaging it would be as a standalone clip
 
 Transcript: "${transcript}"
 
@@ -77,12 +88,13 @@ Respond with JSON in this format:
       "summary": "string", 
       "startTime": number,
       "endTime": number,
-      "transcript": "string"
+      "transcript": "string",
+      "score": number
     }
   ]
 }`;
 
-    const response = await openai.chat.completions.create({
+    const response = await getClient().chat.completions.create({
       model: "gpt-4o",
       messages: [
         {
@@ -108,6 +120,83 @@ Respond with JSON in this format:
   }
 }
 
+/**
+ * Candidate segments for one window of a long transcript. The window text
+ * carries [seconds] markers so the model can report absolute times; each
+ * candidate is scored so candidates from different windows can be ranked.
+ */
+export async function generateCandidateSegments(
+  windowText: string,
+  window: { start: number; end: number; index: number; total: number },
+  maxCandidates: number
+): Promise<SegmentResult[]> {
+  try {
+    const prompt = `This is part ${window.index + 1} of ${window.total} of a long transcript, covering ${Math.round(window.start)}s to ${Math.round(window.end)}s. Timestamps in square brackets (e.g. [754.2]) mark the time in seconds at that point.
+
+Identify up to ${maxCandidates} candidate segments that would make strong standalone content clips (30-180 seconds each). Each should be a distinct topic or key insight.
+
+For each candidate, provide:
+- A compelling title
+- A brief summary
+- The start and end times in seconds, read from the nearest timestamp markers
+- The exact transcript text for that segment, without the timestamp markers
+- A score from 0 to 100 for how engaging it would be as a standalone clip
+
+Transcript: "${windowText}"
+
+Respond with JSON in this format:
+{
+  "segments": [
+    {
+      "title": "string",
+      "summary": "string",
+      "startTime": number,
+      "endTime": number,
+      "transcript": "string",
+      "score": number
+    }
+  ]
+}`;
+
+    const response = await getClient().chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content: "You are an expert content strategist who identifies the most engaging segments from video/audio content for social media repurposing."
+        },
+        {
+          role: "user",
+          content: prompt
+        }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.3,
+    });
+
+    const content = response.choices[0].message.content || '{}';
+    const result = JSON.parse(content);
+    return result.segments || [];
+  } catch (error) {
+    const err = error as any;
+    console.error(`Segmentation error (window ${window.index + 1}/${window.total}):`, err);
+    throw new Error(`Failed to generate candidate segments: ${err.message}`);
+  }
+}
+
+// Speaker-labelled transcript when diarization is available so quotes are attributed to whoever said them
+function formatSpeakerContext(segment: SegmentResult): string {
+  if (!segment.attributedTranscript) {
+    return `Transcript: ${segment.transcript}\n`;
+  }
+  return `Main Speaker: ${segment.speaker || 'Unknown'}
+Transcript (each line is prefixed with the speaker's name):
+${segment.attributedTranscript}
+
+When quoting, attribute each quote to the speaker who said it, using the names above.
+`;
+}
+
 export async function generateSocialContent(segment: SegmentResult, platform: string): Promise<string> {
   try {
     const platformPrompts: Record<string, string> = {
@@ -121,11 +210,10 @@ export async function generateSocialContent(segment: SegmentResult, platform: st
 
 Content Title: ${segment.title}
 Content Summary: ${segment.summary}
-Transcript: ${segment.transcript}
-
+${formatSpeakerContext(segment)}
 Create content that captures the key insight and makes it engaging for ${platform}.`;
 
-    const response = await openai.chat.completions.create({
+    const response = await getClient().chat.completions.create({
       model: "gpt-4o",
       messages: [
         {
@@ -154,11 +242,10 @@ export async function generateQuoteGraphic(segment: SegmentResult): Promise<stri
 
 Title: ${segment.title}
 Summary: ${segment.summary}
-Transcript: ${segment.transcript}
-
-Return just the quote text that would work well on a visual quote graphic - keep it under 30 words and impactful.`;
+${formatSpeakerContext(segment)}
+Return just the quote text that would work well on a visual quote graphic - keep it under 30 words and impactful.${segment.speaker ? ' End with " — " followed by the name of the person who said it.' : ''}`;
 
-    const response = await openai.chat.completions.create({
+    const response = await getClient().chat.completions.create({
       model: "gpt-4o",
       messages: [
         {
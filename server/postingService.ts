@@ -1,15 +1,61 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
 import { storage } from "./storage";
-import { SocialPost, SocialAccount } from "@shared/schema";
+import { chunkedUploadHelpers } from "./chunkedUploadHelpers";
+import { publishErrorClassifier } from "./publishErrorClassifier";
+import { ErrorRegistry } from "./errorTypes";
+import { signedUrls } from "./signedUrls";
+import { Clip, PostMedia, PublishStep, SocialPost, SocialAccount, SocialPostTarget, Upload } from "@shared/schema";
+import { splitThread } from "@shared/thread";
+
+// A media item ready to upload: `filePath` is always a local file
+interface MediaFile extends PostMedia {
+  filePath: string;
+}
+
+interface MediaUploadContext {
+  // The post text; Instagram sets it on the media container
+  caption: string;
+  // Whether the item is one of several that make a carousel
+  carousel: boolean;
+  title?: string;
+}
 
 interface PlatformAPI {
-  post(account: SocialAccount, content: string): Promise<{ id: string; engagement?: any }>;
+  // Most items one post can carry; platforms without `uploadMedia` only post text
+  maxMedia?: number;
+  uploadMedia?(account: SocialAccount, media: MediaFile, context: MediaUploadContext): Promise<string>;
+  // Whether long posts go out as a thread, each part replying to the one before
+  threads?: boolean;
+  post(account: SocialAccount, content: string, mediaIds: string[], replyTo?: string): Promise<{ id: string; engagement?: any }>;
   refreshToken(account: SocialAccount): Promise<{ accessToken: string; refreshToken?: string; expiresAt: Date }>;
 }
 
 class TwitterAPI implements PlatformAPI {
-  async post(account: SocialAccount, content: string) {
+  maxMedia = 4;
+  threads = true;
+
+  /** INIT/APPEND/FINALIZE chunked upload; returns the media ID tweets attach */
+  async uploadMedia(account: SocialAccount, media: MediaFile) {
+    const session = await chunkedUploadHelpers.initializeXUpload(account.userId, media.filePath, media.type, { account });
+    for (const chunk of session.chunks) {
+      const result = await chunkedUploadHelpers.uploadXChunk(session.id, media.filePath, chunk.index, { account });
+      if (!result.success) {
+        throw new Error(`X media upload failed: ${result.error}`);
+      }
+    }
+
+    const finalized = await chunkedUploadHelpers.finalizeXUpload(session.id, { account });
+    if (!finalized.success || !finalized.mediaId) {
+      throw new Error(`X media upload failed: ${finalized.error || 'no media ID returned'}`);
+    }
+    return finalized.mediaId;
+  }
+
+  async post(account: SocialAccount, content: string, mediaIds: string[], replyTo?: string) {
     if (!process.env.TWITTER_API_KEY || !process.env.TWITTER_API_SECRET) {
-      throw new Error('Twitter API credentials not configured');
+      throw permanentError('Twitter API credentials not configured', 'PLATFORM_AUTH_REQUIRED');
     }
 
     const response = await fetch('https://api.twitter.com/2/tweets', {
@@ -19,13 +65,15 @@ class TwitterAPI implements PlatformAPI {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        text: content.substring(0, 280) // Twitter character limit
+        text: content,
+        ...(mediaIds.length > 0 ? { media: { media_ids: mediaIds } } : {}),
+        ...(replyTo ? { reply: { in_reply_to_tweet_id: replyTo } } : {})
       })
     });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(`Twitter API error: ${error.detail || response.statusText}`);
+      throw platformError(`Twitter API error: ${error.detail || response.statusText}`, response);
     }
 
     const result = await response.json();
@@ -92,7 +140,7 @@ class LinkedInAPI implements PlatformAPI {
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(`LinkedIn API error: ${error.message || response.statusText}`);
+      throw platformError(`LinkedIn API error: ${error.message || response.statusText}`, response);
     }
 
     const result = await response.json();
@@ -132,7 +180,28 @@ class LinkedInAPI implements PlatformAPI {
 }
 
 class InstagramAPI implements PlatformAPI {
-  async post(account: SocialAccount, content: string) {
+  maxMedia = 10;
+
+  /** Creates a media container (a reel for videos); carousel items are grouped when posting */
+  async uploadMedia(account: SocialAccount, media: MediaFile, context: MediaUploadContext) {
+    const session = await chunkedUploadHelpers.initializeInstagramUpload(
+      account.userId,
+      media.filePath,
+      media.type === 'video' ? (context.carousel ? 'video' : 'reel') : 'photo',
+      { account, mediaUrl: publicMediaUrl(media), caption: context.caption, carouselItem: context.carousel }
+    );
+    const uploaded = await chunkedUploadHelpers.uploadInstagramMedia(session.id, media.filePath);
+    if (!uploaded.success || !session.uploadId) {
+      throw new Error(`Instagram media upload failed: ${uploaded.error || 'no container ID returned'}`);
+    }
+    return session.uploadId;
+  }
+
+  async post(account: SocialAccount, content: string, mediaIds: string[]) {
+    if (mediaIds.length > 0) {
+      return await this.publishContainers(account, content, mediaIds);
+    }
+
     // Instagram requires media content - for text posts we'd need Instagram Business API
     const response = await fetch(`https://graph.facebook.com/v18.0/${account.accountId}/media`, {
       method: 'POST',
@@ -148,7 +217,7 @@ class InstagramAPI implements PlatformAPI {
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(`Instagram API error: ${error.error?.message || response.statusText}`);
+      throw platformError(`Instagram API error: ${error.error?.message || response.statusText}`, response);
     }
 
     const media = await response.json();
@@ -166,7 +235,8 @@ class InstagramAPI implements PlatformAPI {
     });
 
     if (!publishResponse.ok) {
-      throw new Error('Failed to publish Instagram post');
+      const error = await publishResponse.json().catch(() => ({}));
+      throw platformError(`Failed to publish Instagram post: ${error.error?.message || publishResponse.statusText}`, publishResponse);
     }
 
     const result = await publishResponse.json();
@@ -179,6 +249,33 @@ class InstagramAPI implements PlatformAPI {
     };
   }
 
+  private async publishContainers(account: SocialAccount, content: string, containerIds: string[]) {
+    let containerId = containerIds[0];
+    if (containerIds.length > 1) {
+      // Carousel items have to be processed before they can be grouped
+      for (const childId of containerIds) {
+        await chunkedUploadHelpers.waitForInstagramContainer(account.userId, childId, { account });
+      }
+      const carousel = await chunkedUploadHelpers.createInstagramCarouselContainer(account.userId, containerIds, content, { account });
+      if (!carousel.success || !carousel.carouselId) {
+        throw new Error(`Instagram carousel failed: ${carousel.error}`);
+      }
+      containerId = carousel.carouselId;
+    }
+
+    const published = await chunkedUploadHelpers.publishInstagramContainer(account.userId, containerId, { account });
+    if (!published.success || !published.mediaId) {
+      throw new Error(`Failed to publish Instagram post: ${published.error}`);
+    }
+    return {
+      id: published.mediaId,
+      engagement: {
+        platform_post_id: published.mediaId,
+        posted_at: new Date().toISOString()
+      }
+    };
+  }
+
   async refreshToken(account: SocialAccount) {
     const response = await fetch('https://graph.facebook.com/v18.0/oauth/access_token', {
       method: 'GET',
@@ -205,113 +302,404 @@ class InstagramAPI implements PlatformAPI {
   }
 }
 
+class YouTubeAPI implements PlatformAPI {
+  maxMedia = 1;
+
+  /** Resumable upload; the finished upload is the video itself */
+  async uploadMedia(account: SocialAccount, media: MediaFile, context: MediaUploadContext) {
+    if (media.type !== 'video') {
+      throw permanentError('YouTube posts can only carry a video');
+    }
+
+    const session = await chunkedUploadHelpers.initializeYouTubeUpload(account.userId, media.filePath, {
+      title: (context.title || context.caption).substring(0, 100),
+      description: context.caption,
+      privacyStatus: 'public'
+    }, { account });
+
+    for (const chunk of session.chunks) {
+      const result = await chunkedUploadHelpers.uploadYouTubeChunk(session.id, media.filePath, chunk.index);
+      if (!result.success) {
+        throw new Error(`YouTube upload failed: ${result.error}`);
+      }
+      if (result.mediaId) return result.mediaId;
+    }
+    throw new Error('YouTube upload finished without a video ID');
+  }
+
+  async post(account: SocialAccount, content: string, mediaIds: string[]) {
+    if (mediaIds.length === 0) {
+      throw permanentError('YouTube posts need a video');
+    }
+    return {
+      id: mediaIds[0],
+      engagement: {
+        platform_post_id: mediaIds[0],
+        posted_at: new Date().toISOString()
+      }
+    };
+  }
+
+  async refreshToken(account: SocialAccount) {
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: account.refreshToken || '',
+        client_id: process.env.GOOGLE_CLIENT_ID || '',
+        client_secret: process.env.GOOGLE_CLIENT_SECRET || ''
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to refresh YouTube token');
+    }
+
+    const tokens = await response.json();
+    return {
+      accessToken: tokens.access_token,
+      expiresAt: new Date(Date.now() + tokens.expires_in * 1000)
+    };
+  }
+}
+
 const platformAPIs: Record<string, PlatformAPI> = {
   twitter: new TwitterAPI(),
   linkedin: new LinkedInAPI(),
   instagram: new InstagramAPI(),
+  youtube: new YouTubeAPI(),
 };
 
 export class PostingService {
-  private processingQueue = new Set<string>();
+  /**
+   * Publishes the post to each of its target accounts that hasn't been
+   * published to yet, so a retry only repeats the accounts that failed. Posts
+   * without targets go to the owner's first eligible account for the platform.
+   */
+  private async publishPost(post: SocialPost) {
+    // Get the platform API
+    const platform = basePlatform(post.platform);
+    const platformAPI = platformAPIs[platform];
+    if (!platformAPI) {
+      throw permanentError(`Platform ${post.platform} not supported for automated posting`);
+    }
+
+    let targets = await storage.getSocialPostTargets(post.id);
+    if (targets.length === 0) {
+      targets = await this.assignDefaultTarget(post);
+    }
+    const pending = targets.filter(target => target.status !== 'posted');
+    if (pending.length === 0) {
+      return { targets };
+    }
+
+    const upload = await this.getPostUpload(post);
+
+    // Update post status to 'posting'
+    await storage.updateSocialPostStatus(post.id, 'posting');
+
+    const failures: Error[] = [];
+    for (const target of pending) {
+      const error = await this.publishToTarget(post, target, upload, platformAPI);
+      if (error) failures.push(error);
+    }
 
-  async processScheduledPosts() {
-    const now = new Date();
-    console.log(`[PostingService] Checking for posts to publish at ${now.toISOString()}`);
+    targets = await storage.getSocialPostTargets(post.id);
+    const posted = targets.filter(target => target.status === 'posted');
+    await storage.updateSocialPost(post.id, {
+      status: failures.length > 0 ? 'failed' : 'posted',
+      postedAt: posted.length > 0 ? posted[0].postedAt : null,
+      engagement: posted.length > 0
+        ? { platform_post_id: posted[0].platformPostId, posted_at: posted[0].postedAt?.toISOString() }
+        : post.engagement
+    });
+
+    if (failures.length > 0) {
+      // The scheduler decides from the per-account errors whether to retry
+      throw Object.assign(
+        new Error(`Failed to publish to ${failures.length} of ${pending.length} accounts: ${failures.map(failure => failure.message).join('; ')}`),
+        { targetErrors: failures }
+      );
+    }
+    return { targets };
+  }
+
+  /**
+   * Publishes to one target account and records the outcome on it; returns
+   * the error, if any. The post's media is uploaded first, one step per item,
+   * then the post is created with the returned media IDs. Media IDs from an
+   * earlier attempt are reused when only creating the post failed.
+   *
+   * X threads are created one tweet at a time, each replying to the one
+   * before, with the media on the first. Tweets already published are kept,
+   * so a retry after a partial failure continues the chain where it stopped.
+   */
+  private async publishToTarget(
+    post: SocialPost,
+    target: SocialPostTarget,
+    upload: Upload,
+    platformAPI: PlatformAPI
+  ): Promise<Error | null> {
+    await storage.updateSocialPostTarget(target.id, { status: 'posting', error: null });
 
     try {
-      // Get all scheduled posts that are ready to be published
-      const scheduledPosts = await this.getPostsReadyForPublishing(now);
-      
-      console.log(`[PostingService] Found ${scheduledPosts.length} posts ready for publishing`);
-
-      for (const post of scheduledPosts) {
-        if (this.processingQueue.has(post.id)) {
-          console.log(`[PostingService] Post ${post.id} already being processed, skipping`);
-          continue;
+      const account = await storage.getSocialAccount(target.socialAccountId);
+      // The account may have been deactivated or moved to another workspace since it was picked
+      if (!account || !account.isActive || !accountBelongsToUpload(account, upload)) {
+        throw permanentError('Account is no longer available to this post', 'PLATFORM_AUTH_REQUIRED');
+      }
+
+      // Check if token is expired and refresh if needed
+      if (account.expiresAt && new Date(account.expiresAt) <= new Date()) {
+        console.log(`[PostingService] Refreshing expired token for ${account.platform} account ${account.id}`);
+        await this.refreshAccountToken(account);
+      }
+      const current = await storage.getSocialAccount(account.id) || account;
+
+      const media = post.media || [];
+      const reuseUploads = media.length > 0 && target.mediaIds?.length === media.length;
+      const parts = this.threadParts(post, platformAPI);
+      const postedIds = [...(target.threadPostIds || [])];
+      const steps: PublishStep[] = (target.steps || []).filter(step =>
+        step.step === 'upload_media'
+          ? reuseUploads
+          : step.status === 'completed' && step.partIndex !== undefined && step.partIndex < postedIds.length
+      );
+      let mediaIds = reuseUploads ? target.mediaIds! : [];
+
+      if (media.length > 0 && !reuseUploads && postedIds.length === 0) {
+        const uploadMedia = platformAPI.uploadMedia?.bind(platformAPI);
+        if (!uploadMedia) {
+          throw permanentError(`${account.platform} posts can't carry media yet`);
+        }
+
+        const segment = await storage.getSegment(post.segmentId);
+        for (const [index, item] of media.entries()) {
+          const mediaId = await this.runStep(target, steps, { step: 'upload_media', mediaIndex: index }, () =>
+            this.withMediaFile(item, file => uploadMedia(current, file, {
+              caption: post.content,
+              carousel: media.length > 1,
+              title: segment?.title,
+            }))
+          );
+          mediaIds.push(mediaId);
         }
+        await storage.updateSocialPostTarget(target.id, { mediaIds });
+      }
 
-        this.processingQueue.add(post.id);
-        
-        try {
-          await this.publishPost(post);
-          console.log(`[PostingService] Successfully published post ${post.id} to ${post.platform}`);
-        } catch (error) {
-          console.error(`[PostingService] Failed to publish post ${post.id}:`, error);
-          await this.handlePublishingError(post, error as Error);
-        } finally {
-          this.processingQueue.delete(post.id);
+      for (let index = postedIds.length; index < parts.length; index++) {
+        const step = parts.length > 1 ? { step: 'create_post' as const, partIndex: index } : { step: 'create_post' as const };
+        const result = await this.runStep(target, steps, step, () =>
+          platformAPI.post(current, parts[index], index === 0 ? mediaIds : [], postedIds[index - 1])
+        );
+        postedIds.push(result.id);
+        if (parts.length > 1) {
+          await storage.updateSocialPostTarget(target.id, { threadPostIds: postedIds });
         }
       }
+      await storage.updateSocialPostTarget(target.id, {
+        status: 'posted',
+        platformPostId: postedIds[0],
+        postedAt: new Date(),
+        error: null
+      });
+      console.log(`[PostingService] Published post ${post.id} to ${account.platform} account ${account.accountId}`);
+      return null;
     } catch (error) {
-      console.error('[PostingService] Error processing scheduled posts:', error);
+      const message = (error as Error).message;
+      await storage.updateSocialPostTarget(target.id, { status: 'failed', error: message });
+      console.error(`[PostingService] Failed to publish post ${post.id} to account ${target.socialAccountId}:`, message);
+      return error as Error;
     }
   }
 
-  private async getPostsReadyForPublishing(now: Date): Promise<SocialPost[]> {
-    // Get all users' scheduled posts that are ready
-    const allUsers = await storage.getAllUsers();
-    const readyPosts: SocialPost[] = [];
-
-    for (const user of allUsers) {
-      const scheduledPosts = await storage.getScheduledPostsByUserId(user.id);
-      
-      for (const post of scheduledPosts) {
-        if (post.status === 'scheduled' && 
-            post.scheduledFor && 
-            new Date(post.scheduledFor) <= now) {
-          // Get the full social post data
-          const fullPost = await storage.getSocialPost(post.id);
-          if (fullPost) {
-            readyPosts.push(fullPost);
-          }
-        }
-      }
+  /** Runs one publishing step, recording it on the target as running, then completed or failed */
+  private async runStep<T>(
+    target: SocialPostTarget,
+    steps: PublishStep[],
+    step: Pick<PublishStep, 'step' | 'mediaIndex' | 'partIndex'>,
+    work: () => Promise<T>
+  ): Promise<T> {
+    const entry: PublishStep = { ...step, status: 'running', updatedAt: new Date().toISOString() };
+    steps.push(entry);
+    await storage.updateSocialPostTarget(target.id, { steps });
+
+    try {
+      const result = await work();
+      entry.status = 'completed';
+      if (typeof result === 'string') entry.mediaId = result;
+      return result;
+    } catch (error) {
+      entry.status = 'failed';
+      entry.error = (error as Error).message;
+      throw error;
+    } finally {
+      entry.updatedAt = new Date().toISOString();
+      await storage.updateSocialPostTarget(target.id, { steps });
     }
+  }
 
-    return readyPosts;
+  /** The texts to publish in order: the stored thread parts, or the content split when the platform threads long posts */
+  private threadParts(post: SocialPost, platformAPI: PlatformAPI): string[] {
+    if (!platformAPI.threads) return [post.content];
+    const parts = post.threadParts?.length ? post.threadParts : splitThread(post.content);
+    return parts.length > 0 ? parts : [post.content];
   }
 
-  private async publishPost(post: SocialPost) {
-    // Get the user's social account for this platform
-    const accounts = await storage.getSocialAccountsByPlatform(post.platform);
-    const account = accounts.find(acc => acc.isActive);
+  /** Graphics in remote storage are downloaded to a temporary file for the upload */
+  private async withMediaFile<T>(media: PostMedia, upload: (file: MediaFile) => Promise<T>): Promise<T> {
+    if (media.filePath) {
+      return await upload({ ...media, filePath: media.filePath });
+    }
+    if (!media.url || !/^https?:\/\//.test(media.url)) {
+      throw permanentError('Media has no file to upload');
+    }
 
-    if (!account) {
-      throw new Error(`No active ${post.platform} account found`);
+    const response = await fetch(media.url);
+    if (!response.ok) {
+      throw platformError(`Failed to download media: ${response.status}`, response);
+    }
+    const filePath = path.join(os.tmpdir(), `post_media_${Date.now()}${path.extname(new URL(media.url).pathname)}`);
+    await fs.writeFile(filePath, Buffer.from(await response.arrayBuffer()));
+    try {
+      return await upload({ ...media, filePath });
+    } finally {
+      await fs.unlink(filePath).catch(() => {});
     }
+  }
+
+  // Media
 
-    // Check if token is expired and refresh if needed
-    if (account.expiresAt && new Date(account.expiresAt) <= new Date()) {
-      console.log(`[PostingService] Refreshing expired token for ${post.platform} account ${account.id}`);
-      await this.refreshAccountToken(account);
+  /** A clip as post media: rendered shorts and audiograms as video, quote graphics as images */
+  mediaFromClip(clip: Clip): PostMedia | null {
+    if (clip.status !== 'completed') return null;
+    const metadata = (clip.metadata || {}) as Record<string, any>;
+
+    if (clip.type === 'quote_graphic') {
+      return clip.filePath || metadata.imageUrl
+        ? { type: 'image', clipId: clip.id, filePath: clip.filePath ?? undefined, url: metadata.imageUrl }
+        : null;
     }
+    return clip.filePath ? { type: 'video', clipId: clip.id, filePath: clip.filePath } : null;
+  }
 
-    // Get the platform API
-    const platformAPI = platformAPIs[post.platform];
-    if (!platformAPI) {
-      throw new Error(`Platform ${post.platform} not supported for automated posting`);
+  /** Most media items a post on the platform can carry; 0 when media isn't supported */
+  getMediaLimit(platform: string): number {
+    const platformAPI = platformAPIs[basePlatform(platform)];
+    return platformAPI?.uploadMedia ? platformAPI.maxMedia ?? 1 : 0;
+  }
+
+  /**
+   * Replaces the clips and graphics attached to the post. Clips must be
+   * finished renders of the post's upload and fit the platform's media limit.
+   * Unpublished targets forget their uploaded media so the new set is uploaded.
+   */
+  async setMedia(post: SocialPost, clipIds: string[]): Promise<PostMedia[]> {
+    const invalid = (message: string) => Object.assign(new Error(message), { code: 'INVALID_POST_MEDIA' });
+    const limit = this.getMediaLimit(post.platform);
+    if (clipIds.length > limit) {
+      throw invalid(limit === 0
+        ? `${basePlatform(post.platform)} posts can't carry media`
+        : `${basePlatform(post.platform)} posts can carry at most ${limit} media items`);
     }
 
-    // Update post status to 'posting'
-    await storage.updateSocialPostStatus(post.id, 'posting');
+    const upload = await this.getPostUpload(post);
+    const media: PostMedia[] = [];
+    for (const clipId of clipIds) {
+      const clip = await storage.getClip(clipId);
+      const segment = clip ? await storage.getSegment(clip.segmentId) : undefined;
+      if (!clip || segment?.uploadId !== upload.id) {
+        throw invalid(`Clip ${clipId} does not belong to this post's upload`);
+      }
+      const item = this.mediaFromClip(clip);
+      if (!item) {
+        throw invalid(`Clip ${clipId} has not finished rendering`);
+      }
+      media.push(item);
+    }
 
-    try {
-      // Publish the post
-      const result = await platformAPI.post(account, post.content);
+    // Media goes on a thread's first tweet, so it can't change once a thread has started either
+    const targets = await storage.getSocialPostTargets(post.id);
+    if (targets.some(target => target.status === 'posted' || target.status === 'posting' || target.threadPostIds?.length)) {
+      throw Object.assign(new Error('Media cannot be changed after the post was published'), { code: 'TARGET_ALREADY_PUBLISHED' });
+    }
+    for (const target of targets) {
+      await storage.updateSocialPostTarget(target.id, { mediaIds: null, steps: null });
+    }
 
-      // Update post with success status and engagement data
-      await storage.updateSocialPost(post.id, {
-        status: 'posted',
-        postedAt: new Date(),
-        engagement: result.engagement
-      });
+    await storage.updateSocialPost(post.id, { media });
+    return media;
+  }
 
-      return result;
-    } catch (error) {
-      // Update post status to 'failed'
-      await storage.updateSocialPostStatus(post.id, 'failed');
-      throw error;
+  private async assignDefaultTarget(post: SocialPost): Promise<SocialPostTarget[]> {
+    const accounts = await this.getEligibleAccounts(post);
+    const account = accounts[0];
+    if (!account) {
+      throw permanentError(`No active ${basePlatform(post.platform)} account found for this post`, 'PLATFORM_AUTH_REQUIRED');
     }
+    return await storage.createSocialPostTargets([{ postId: post.id, socialAccountId: account.id, status: 'pending' }]);
+  }
+
+  // Target accounts
+
+  /**
+   * Active accounts the post may publish to: accounts assigned to the
+   * upload's workspace first, then the owner's accounts that aren't assigned
+   * to any workspace. Only accounts on the post's platform are returned.
+   */
+  async getEligibleAccounts(post: SocialPost): Promise<SocialAccount[]> {
+    const upload = await this.getPostUpload(post);
+    const accounts = [
+      ...(upload.workspaceId ? await storage.getWorkspaceSocialAccounts(upload.workspaceId) : []),
+      ...(await storage.getUserSocialAccounts(upload.userId)).filter(account => !account.workspaceId),
+    ];
+
+    return accounts.filter(account =>
+      account.platform === basePlatform(post.platform) && accountBelongsToUpload(account, upload)
+    );
+  }
+
+  /**
+   * Replaces the post's target accounts. Accounts already published to can't
+   * be removed, and every account must be eligible for the post.
+   */
+  async setTargets(post: SocialPost, accountIds: string[]): Promise<SocialPostTarget[]> {
+    const eligible = new Set((await this.getEligibleAccounts(post)).map(account => account.id));
+    const ineligible = accountIds.filter(id => !eligible.has(id));
+    if (ineligible.length > 0) {
+      throw Object.assign(
+        new Error(`Accounts ${ineligible.join(', ')} are not active ${basePlatform(post.platform)} accounts of this post's workspace`),
+        { code: 'INVALID_TARGET_ACCOUNTS' }
+      );
+    }
+
+    const existing = await storage.getSocialPostTargets(post.id);
+    const removed = existing.filter(target => !accountIds.includes(target.socialAccountId));
+    if (removed.some(target => target.status === 'posted' || target.status === 'posting')) {
+      throw Object.assign(new Error('Accounts the post was already published to cannot be removed'), { code: 'TARGET_ALREADY_PUBLISHED' });
+    }
+
+    await storage.deleteSocialPostTargets(removed.map(target => target.id));
+    const existingIds = new Set(existing.map(target => target.socialAccountId));
+    await storage.createSocialPostTargets(
+      accountIds
+        .filter(id => !existingIds.has(id))
+        .map(socialAccountId => ({ postId: post.id, socialAccountId, status: 'pending' as const }))
+    );
+
+    return await storage.getSocialPostTargets(post.id);
+  }
+
+  async getPostUpload(post: SocialPost): Promise<Upload> {
+    const segment = await storage.getSegment(post.segmentId);
+    const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+    if (!upload) {
+      throw new Error(`Upload for post ${post.id} not found`);
+    }
+    return upload;
   }
 
   private async refreshAccountToken(account: SocialAccount) {
@@ -328,20 +716,27 @@ export class PostingService {
     });
   }
 
-  private async handlePublishingError(post: SocialPost, error: Error) {
+  /**
+   * Marks the post failed once the scheduler has given up on it. `errorCode`
+   * is the ErrorRegistry code the scheduler classified the error as; the
+   * user-facing message and recovery steps come from the registry.
+   */
+  async handlePublishingError(post: SocialPost, error: Error, errorCode?: string) {
     console.error(`[PostingService] Publishing error for post ${post.id}:`, error.message);
+    const code = errorCode || publishErrorClassifier.classify(post.platform, error).code;
 
-    // Store error information
+    // Store error information, keeping the platform post ID of any account that did publish
+    const current = await storage.getSocialPost(post.id);
     await storage.updateSocialPost(post.id, {
       status: 'failed',
       engagement: {
+        ...((current?.engagement as Record<string, any>) || {}),
         error: error.message,
+        error_code: code,
+        error_message: ErrorRegistry.get(code)?.userMessage,
         failed_at: new Date().toISOString()
       }
     });
-
-    // You could implement retry logic here
-    // For now, we'll just log the error and mark as failed
   }
 
   // Method to manually trigger posting for a specific post
@@ -353,19 +748,44 @@ export class PostingService {
 
     return await this.publishPost(post);
   }
+}
 
-  // Method to start the automated posting scheduler
-  startScheduler(intervalMinutes: number = 5) {
-    console.log(`[PostingService] Starting scheduler with ${intervalMinutes} minute intervals`);
-    
-    // Run immediately
-    this.processScheduledPosts();
-    
-    // Then run at intervals
-    setInterval(() => {
-      this.processScheduledPosts();
-    }, intervalMinutes * 60 * 1000);
+// A platform API error with what publishErrorClassifier needs to decide on a retry
+function platformError(message: string, response: Response): Error {
+  return Object.assign(new Error(message), {
+    status: response.status,
+    headers: Object.fromEntries(response.headers.entries()),
+  });
+}
+
+// An error a retry can't fix; `code` is its ErrorRegistry code
+function permanentError(message: string, code: string = 'PLATFORM_CONTENT_REJECTED'): Error {
+  return Object.assign(new Error(message), { retryable: false, code });
+}
+
+// Instagram fetches media from a URL rather than taking an upload; our own files get a signed one
+// Platforms that fetch media themselves (Instagram) get a signed link to it;
+// rendered clip files are served by the clip download route
+function publicMediaUrl(media: PostMedia): string | undefined {
+  if (!media.url) {
+    return media.clipId && media.filePath
+      ? `${process.env.BASE_URL}${signedUrls.sign(`/api/clips/${media.clipId}/file`)}`
+      : undefined;
   }
+  return /^https?:\/\//.test(media.url) ? media.url : `${process.env.BASE_URL}${signedUrls.sign(media.url)}`;
+}
+
+// 'instagram_graphic' posts publish to Instagram accounts
+function basePlatform(platform: string): string {
+  return platform.replace(/_graphic$/, '');
+}
+
+// Accounts not assigned to a workspace (including every account connected
+// before they could be) publish any of their owner's uploads
+function accountBelongsToUpload(account: SocialAccount, upload: Upload): boolean {
+  return account.workspaceId
+    ? account.workspaceId === upload.workspaceId
+    : account.userId === upload.userId;
 }
 
 export const postingService = new PostingService();
\ No newline at end of file
@@ -4,6 +4,7 @@ import ffmpeg from 'fluent-ffmpeg';
 import { v4 as uuidv4 } from 'uuid';
 import { storage } from './storage';
 import { storageService } from './supabaseStorage';
+import { brandKitService, type BrandKit } from './brandKitService';
 
 interface PreviewOptions {
   duration?: number; // Preview duration in seconds (default: 10)
@@ -13,6 +14,50 @@ interface PreviewOptions {
   thumbnail?: boolean; // Generate thumbnail
 }
 
+export interface Rendition {
+  name: string;
+  height: number; // 0 for the audio-only rendition
+  videoBitrate: string;
+  audioBitrate: string;
+}
+
+// Renditions taller than the source are left out of an upload's ladder
+export const RENDITION_LADDER: Rendition[] = [
+  { name: '240p', height: 240, videoBitrate: '400k', audioBitrate: '64k' },
+  { name: '480p', height: 480, videoBitrate: '1000k', audioBitrate: '96k' },
+  { name: '720p', height: 720, videoBitrate: '2500k', audioBitrate: '128k' },
+];
+
+const AUDIO_RENDITION: Rendition = { name: 'audio', height: 0, videoBitrate: '0k', audioBitrate: '128k' };
+
+const HLS_SEGMENT_SECONDS = 6;
+const SPRITE_COLUMNS = 10;
+const SPRITE_ROWS = 10;
+const SCRUB_THUMB_WIDTH = 160;
+const MAX_SCRUB_THUMBNAILS = 300;
+
+export interface StreamingLadder {
+  uploadId: string;
+  masterUrl: string;
+  thumbnailsUrl?: string;
+  duration: number;
+  renditions: Array<{
+    name: string;
+    width: number;
+    height: number;
+    bandwidth: number;
+    url: string;
+    ready: boolean;
+  }>;
+}
+
+interface SourceInfo {
+  path: string;
+  duration: number;
+  width: number;
+  height: number;
+}
+
 interface PreviewResult {
   previewId: string;
   previewUrl: string;
@@ -32,6 +77,9 @@ export class PreviewPlayer {
   private readonly PREVIEW_DIR = path.join(process.cwd(), 'previews');
   private readonly THUMBNAIL_DIR = path.join(process.cwd(), 'thumbnails');
   private readonly TEMP_DIR = path.join(process.cwd(), 'temp');
+  private readonly HLS_DIR = path.join(process.cwd(), 'previews', 'hls');
+  // In-flight lazy generation, so concurrent requests share one FFmpeg run
+  private pending = new Map<string, Promise<void>>();
 
   constructor() {
     this.ensureDirectories();
@@ -94,7 +142,8 @@ export class PreviewPlayer {
       const startTime = Math.max(0, (mediaInfo.duration * 0.1));
       const previewDuration = Math.min(duration, mediaInfo.duration - startTime);
 
-      // Generate preview
+      // Generate preview, watermarked with the workspace brand kit
+      const brandKit = await brandKitService.getRenderBrandKit(upload.workspaceId);
       await this.createPreview(
         tempFilePath,
         previewPath,
@@ -102,7 +151,8 @@ export class PreviewPlayer {
         previewDuration,
         quality,
         format,
-        includeAudio
+        includeAudio,
+        brandKit && mediaInfo.width > 0 ? { brandKit, frameWidth: mediaInfo.width } : undefined
       );
 
       // Generate thumbnail if requested
@@ -160,13 +210,22 @@ export class PreviewPlayer {
     duration: number,
     quality: string,
     format: string,
-    includeAudio: boolean
+    includeAudio: boolean,
+    branding?: { brandKit: BrandKit; frameWidth: number }
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       const command = ffmpeg(inputPath)
         .inputOptions([`-ss ${startTime}`])
         .duration(duration);
 
+      const watermark = brandKitService.getWatermarkImage(branding?.brandKit);
+      if (branding && watermark) {
+        command
+          .input(watermark)
+          .complexFilter(brandKitService.buildWatermarkFilter(branding.brandKit, branding.frameWidth, '0:v', 1, 'v'))
+          .outputOptions(['-map', '[v]', ...(includeAudio ? ['-map', '0:a?'] : [])]);
+      }
+
       // Set quality based on option
       switch (quality) {
         case 'low':
@@ -344,6 +403,335 @@ export class PreviewPlayer {
     }
   }
 
+  /**
+   * Full-length streaming preview for an upload: an HLS rendition ladder plus a
+   * sprite-sheet WebVTT track for scrubbing. Nothing is encoded here; each
+   * rendition and the thumbnail track are generated on first request.
+   */
+  async getStreamingLadder(uploadId: string): Promise<StreamingLadder> {
+    const source = await this.getSourceInfo(uploadId);
+    const baseUrl = `/api/preview/hls/${uploadId}`;
+
+    return {
+      uploadId,
+      masterUrl: `${baseUrl}/master.m3u8`,
+      thumbnailsUrl: source.height > 0 ? `${baseUrl}/thumbnails.vtt` : undefined,
+      duration: source.duration,
+      renditions: this.getRenditions(source).map(rendition => ({
+        name: rendition.name,
+        ...this.getRenditionSize(source, rendition),
+        bandwidth: this.getBandwidth(rendition),
+        url: `${baseUrl}/${rendition.name}/index.m3u8`,
+        ready: fs.existsSync(path.join(this.HLS_DIR, uploadId, rendition.name, 'index.m3u8')),
+      })),
+    };
+  }
+
+  /**
+   * HLS master playlist; rendition URIs are relative to the playlist URL
+   */
+  async getMasterPlaylist(uploadId: string): Promise<string> {
+    const source = await this.getSourceInfo(uploadId);
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+
+    for (const rendition of this.getRenditions(source)) {
+      const { width, height } = this.getRenditionSize(source, rendition);
+      const attributes = [`BANDWIDTH=${this.getBandwidth(rendition)}`];
+      if (height > 0) {
+        attributes.push(`RESOLUTION=${width}x${height}`, 'CODECS="avc1.4d401f,mp4a.40.2"');
+      } else {
+        attributes.push('CODECS="mp4a.40.2"');
+      }
+      lines.push(`#EXT-X-STREAM-INF:${attributes.join(',')}`, `${rendition.name}/index.m3u8`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Encodes one rendition of the ladder if it hasn't been yet and returns its
+   * directory. Output is written to a temporary directory and moved into place
+   * when complete, so a half-encoded rendition is never served.
+   */
+  async ensureRendition(uploadId: string, name: string): Promise<string> {
+    const source = await this.getSourceInfo(uploadId);
+    const rendition = this.getRenditions(source).find(r => r.name === name);
+    if (!rendition) {
+      throw new Error(`Unknown rendition: ${name}`);
+    }
+
+    const outputDir = path.join(this.HLS_DIR, uploadId, rendition.name);
+    await this.runOnce(`${uploadId}:${rendition.name}`, path.join(outputDir, 'index.m3u8'), async () => {
+      const workDir = `${outputDir}.tmp`;
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+      await fs.promises.mkdir(workDir, { recursive: true });
+
+      const upload = await storage.getUpload(uploadId);
+      const brandKit = upload ? await brandKitService.getRenderBrandKit(upload.workspaceId) : null;
+
+      console.log(`Encoding ${rendition.name} rendition for upload ${uploadId}`);
+      await this.encodeRendition(source, rendition, workDir, brandKit);
+
+      await fs.promises.rm(outputDir, { recursive: true, force: true });
+      await fs.promises.rename(workDir, outputDir);
+    });
+
+    return outputDir;
+  }
+
+  /**
+   * Generates the scrubbing thumbnails if needed: frames sampled at a fixed
+   * interval, tiled into sprite sheets, and a WebVTT track whose cues point at
+   * each frame with a `#xywh=` media fragment. Returns the VTT path.
+   */
+  async ensureScrubThumbnails(uploadId: string): Promise<string> {
+    const source = await this.getSourceInfo(uploadId);
+    if (source.height === 0) {
+      throw new Error('Upload has no video to take thumbnails from');
+    }
+
+    const uploadDir = path.join(this.HLS_DIR, uploadId);
+    const vttPath = path.join(uploadDir, 'thumbnails.vtt');
+    await this.runOnce(`${uploadId}:thumbnails`, vttPath, async () => {
+      const spriteDir = path.join(uploadDir, 'thumbnails');
+      await fs.promises.rm(spriteDir, { recursive: true, force: true });
+      await fs.promises.mkdir(spriteDir, { recursive: true });
+
+      // Keep to a bounded number of frames however long the upload is
+      const interval = Math.max(1, Math.ceil(source.duration / MAX_SCRUB_THUMBNAILS));
+      const thumbHeight = Math.round((SCRUB_THUMB_WIDTH * source.height) / source.width / 2) * 2;
+
+      console.log(`Generating scrub thumbnails for upload ${uploadId} every ${interval}s`);
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(source.path)
+          .noAudio()
+          .outputOptions([
+            '-vf', `fps=1/${interval},scale=${SCRUB_THUMB_WIDTH}:${thumbHeight},tile=${SPRITE_COLUMNS}x${SPRITE_ROWS}`,
+            '-q:v', '5',
+            '-start_number', '0',
+          ])
+          .output(path.join(spriteDir, 'sprite_%03d.jpg'))
+          .on('end', () => resolve())
+          .on('error', (err) => reject(err))
+          .run();
+      });
+
+      const perSprite = SPRITE_COLUMNS * SPRITE_ROWS;
+      const count = Math.max(1, Math.ceil(source.duration / interval));
+      const cues = ['WEBVTT', ''];
+      for (let i = 0; i < count; i++) {
+        const start = i * interval;
+        const end = Math.min(source.duration, (i + 1) * interval);
+        const sprite = `sprite_${String(Math.floor(i / perSprite)).padStart(3, '0')}.jpg`;
+        const tile = i % perSprite;
+        const x = (tile % SPRITE_COLUMNS) * SCRUB_THUMB_WIDTH;
+        const y = Math.floor(tile / SPRITE_COLUMNS) * thumbHeight;
+        cues.push(
+          `${this.formatVttTime(start)} --> ${this.formatVttTime(end)}`,
+          `thumbnails/${sprite}#xywh=${x},${y},${SCRUB_THUMB_WIDTH},${thumbHeight}`,
+          ''
+        );
+      }
+      await fs.promises.writeFile(vttPath, cues.join('\n'));
+    });
+
+    return vttPath;
+  }
+
+  /**
+   * Starts encoding a rendition in the background unless it's already encoded,
+   * so requests never wait on the encode. Returns whether it's ready to serve.
+   */
+  async startRendition(uploadId: string, name: string): Promise<boolean> {
+    const source = await this.getSourceInfo(uploadId);
+    if (!this.getRenditions(source).some(r => r.name === name)) {
+      throw new Error(`Unknown rendition: ${name}`);
+    }
+
+    return this.startInBackground(
+      path.join(this.HLS_DIR, uploadId, name, 'index.m3u8'),
+      () => this.ensureRendition(uploadId, name)
+    );
+  }
+
+  /**
+   * Starts generating the scrubbing thumbnails in the background unless
+   * they're already there. Returns whether the WebVTT track is ready to serve.
+   */
+  async startScrubThumbnails(uploadId: string): Promise<boolean> {
+    const source = await this.getSourceInfo(uploadId);
+    if (source.height === 0) {
+      throw new Error('Upload has no video to take thumbnails from');
+    }
+
+    return this.startInBackground(
+      path.join(this.HLS_DIR, uploadId, 'thumbnails.vtt'),
+      () => this.ensureScrubThumbnails(uploadId)
+    );
+  }
+
+  /**
+   * Absolute path of a generated HLS file, or null if it doesn't exist yet
+   */
+  getStreamingFile(uploadId: string, ...parts: string[]): string | null {
+    if (!/^[\w-]+$/.test(uploadId)) return null;
+    const filePath = path.join(this.HLS_DIR, uploadId, ...parts);
+    if (!filePath.startsWith(path.join(this.HLS_DIR, uploadId) + path.sep) || !fs.existsSync(filePath)) {
+      return null;
+    }
+    return filePath;
+  }
+
+  /**
+   * Delete the rendition ladder and thumbnails generated for an upload
+   */
+  async deleteStreamingPreview(uploadId: string): Promise<void> {
+    await fs.promises.rm(path.join(this.HLS_DIR, uploadId), { recursive: true, force: true });
+    console.log(`Streaming preview for upload ${uploadId} deleted`);
+  }
+
+  private startInBackground(donePath: string, task: () => Promise<unknown>): boolean {
+    if (fs.existsSync(donePath)) return true;
+
+    task().catch(error => console.error(`Failed to generate ${donePath}:`, error));
+    return false;
+  }
+
+  private async runOnce(key: string, donePath: string, task: () => Promise<void>): Promise<void> {
+    if (fs.existsSync(donePath)) return;
+
+    let job = this.pending.get(key);
+    if (!job) {
+      job = task().finally(() => this.pending.delete(key));
+      this.pending.set(key, job);
+    }
+    await job;
+  }
+
+  private encodeRendition(
+    source: SourceInfo,
+    rendition: Rendition,
+    outputDir: string,
+    brandKit: BrandKit | null
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(source.path);
+
+      if (rendition.height > 0) {
+        const bitrate = parseInt(rendition.videoBitrate);
+        const scale = `scale=-2:${rendition.height}`;
+        const watermark = brandKitService.getWatermarkImage(brandKit);
+        if (brandKit && watermark) {
+          const { width } = this.getRenditionSize(source, rendition);
+          command
+            .input(watermark)
+            .complexFilter(`[0:v]${scale}[scaled];` + brandKitService.buildWatermarkFilter(brandKit, width, 'scaled', 1, 'v'))
+            .outputOptions(['-map', '[v]', '-map', '0:a?']);
+        } else {
+          command.outputOptions(['-vf', scale]);
+        }
+
+        command
+          .videoCodec('libx264')
+          .outputOptions([
+            '-preset', 'veryfast',
+            '-profile:v', 'main',
+            '-pix_fmt', 'yuv420p',
+            '-b:v', rendition.videoBitrate,
+            '-maxrate', `${Math.round(bitrate * 1.07)}k`,
+            '-bufsize', `${bitrate * 2}k`,
+            // Keyframe on every segment boundary so all renditions switch cleanly
+            '-force_key_frames', `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+            '-sc_threshold', '0',
+          ]);
+      } else {
+        command.noVideo();
+      }
+
+      command
+        .audioCodec('aac')
+        .audioBitrate(rendition.audioBitrate)
+        .audioChannels(2)
+        .outputOptions([
+          '-f', 'hls',
+          '-hls_time', String(HLS_SEGMENT_SECONDS),
+          '-hls_playlist_type', 'vod',
+          '-hls_segment_filename', path.join(outputDir, 'seg_%03d.ts'),
+        ])
+        .output(path.join(outputDir, 'index.m3u8'))
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .run();
+    });
+  }
+
+  private getRenditions(source: SourceInfo): Rendition[] {
+    if (source.height === 0) {
+      return [AUDIO_RENDITION];
+    }
+    const fitting = RENDITION_LADDER.filter(rendition => rendition.height <= source.height);
+    return fitting.length > 0 ? fitting : [RENDITION_LADDER[0]];
+  }
+
+  private getRenditionSize(source: SourceInfo, rendition: Rendition): { width: number; height: number } {
+    if (rendition.height === 0 || source.height === 0) {
+      return { width: 0, height: 0 };
+    }
+    const width = Math.round((source.width * rendition.height) / source.height / 2) * 2;
+    return { width, height: rendition.height };
+  }
+
+  private getBandwidth(rendition: Rendition): number {
+    return (parseInt(rendition.videoBitrate) + parseInt(rendition.audioBitrate)) * 1000;
+  }
+
+  /**
+   * Probes the upload's media once and caches the result next to its renditions.
+   * Uploads only kept in Supabase Storage are downloaded alongside.
+   */
+  private async getSourceInfo(uploadId: string): Promise<SourceInfo> {
+    const uploadDir = path.join(this.HLS_DIR, uploadId);
+    const infoPath = path.join(uploadDir, 'source.json');
+    if (fs.existsSync(infoPath)) {
+      const cached: SourceInfo = JSON.parse(await fs.promises.readFile(infoPath, 'utf8'));
+      if (fs.existsSync(cached.path)) {
+        return cached;
+      }
+    }
+
+    const upload = await storage.getUpload(uploadId);
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+
+    await fs.promises.mkdir(uploadDir, { recursive: true });
+    let sourcePath = upload.filePath;
+    if (!fs.existsSync(sourcePath)) {
+      sourcePath = path.join(uploadDir, `source${path.extname(upload.filename)}`);
+      console.log(`Downloading file from Supabase Storage: ${upload.filePath}`);
+      await fs.promises.writeFile(sourcePath, await storageService.downloadFile(upload.filePath));
+    }
+
+    const info = await this.getMediaInfo(sourcePath);
+    const source: SourceInfo = {
+      path: sourcePath,
+      duration: info.duration,
+      width: info.width,
+      height: info.height,
+    };
+    await fs.promises.writeFile(infoPath, JSON.stringify(source));
+    return source;
+  }
+
+  private formatVttTime(seconds: number): string {
+    const ms = Math.round(seconds * 1000);
+    const h = Math.floor(ms / 3600000);
+    const m = Math.floor((ms % 3600000) / 60000);
+    const s = Math.floor((ms % 60000) / 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+  }
+
   /**
    * Delete preview files
    */
@@ -3,9 +3,68 @@ import fs from 'fs';
 import path from 'path';
 import { previewPlayer } from './previewPlayer';
 import { storage } from './storage';
+import { isAuthenticated } from './supabaseAuth';
+import { signedUrls } from './signedUrls';
 
 const router = express.Router();
 
+const LONG_CACHE = 'public, max-age=31536000';
+const RETRY_AFTER_SECONDS = 5;
+
+// Playlist lines that aren't tags or blank are URIs
+const PLAYLIST_URI = /^(?!#)\S+$/gm;
+const SPRITE_URI = /thumbnails\/sprite_\d+\.jpg/g;
+
+/**
+ * Send a file, honouring single byte-range requests
+ */
+function sendFile(
+  req: express.Request,
+  res: express.Response,
+  filePath: string,
+  contentType: string,
+  cacheControl: string = LONG_CACHE
+) {
+  const fileSize = fs.statSync(filePath).size;
+  const range = req.headers.range;
+
+  if (!range) {
+    res.writeHead(200, {
+      'Content-Length': fileSize,
+      'Content-Type': contentType,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': cacheControl
+    });
+    fs.createReadStream(filePath).pipe(res);
+    return;
+  }
+
+  // "bytes=start-end", "bytes=start-" or a suffix range "bytes=-length"
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  let start = match && match[1] ? parseInt(match[1], 10) : NaN;
+  let end = match && match[2] ? parseInt(match[2], 10) : fileSize - 1;
+  if (match && !match[1] && match[2]) {
+    start = Math.max(0, fileSize - parseInt(match[2], 10));
+    end = fileSize - 1;
+  }
+  end = Math.min(end, fileSize - 1);
+
+  if (isNaN(start) || start > end) {
+    res.writeHead(416, { 'Content-Range': `bytes */${fileSize}` });
+    res.end();
+    return;
+  }
+
+  res.writeHead(206, {
+    'Content-Range': `bytes ${start}-${end}/${fileSize}`,
+    'Accept-Ranges': 'bytes',
+    'Content-Length': (end - start) + 1,
+    'Content-Type': contentType,
+    'Cache-Control': cacheControl
+  });
+  fs.createReadStream(filePath, { start, end }).pipe(res);
+}
+
 /**
  * Generate instant preview for uploaded media
  * POST /api/preview/generate/:uploadId
@@ -61,39 +120,7 @@ router.get('/stream/:previewId', async (req, res) => {
       return res.status(404).json({ error: 'Preview file not found' });
     }
 
-    const stat = fs.statSync(filePath);
-    const fileSize = stat.size;
-    const range = req.headers.range;
-
-    if (range) {
-      // Handle range requests for streaming
-      const parts = range.replace(/bytes=/, "").split("-");
-      const start = parseInt(parts[0], 10);
-      const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-      const chunksize = (end - start) + 1;
-      const file = fs.createReadStream(filePath, { start, end });
-      
-      const head = {
-        'Content-Range': `bytes ${start}-${end}/${fileSize}`,
-        'Accept-Ranges': 'bytes',
-        'Content-Length': chunksize,
-        'Content-Type': preview.format === 'mp4' ? 'video/mp4' : 'video/webm',
-        'Cache-Control': 'public, max-age=31536000'
-      };
-
-      res.writeHead(206, head);
-      file.pipe(res);
-    } else {
-      // Full file request
-      const head = {
-        'Content-Length': fileSize,
-        'Content-Type': preview.format === 'mp4' ? 'video/mp4' : 'video/webm',
-        'Cache-Control': 'public, max-age=31536000'
-      };
-
-      res.writeHead(200, head);
-      fs.createReadStream(filePath).pipe(res);
-    }
+    sendFile(req, res, filePath, preview.format === 'mp4' ? 'video/mp4' : 'video/webm');
   } catch (error) {
     console.error('Error streaming preview:', error);
     res.status(500).json({ error: 'Failed to stream preview' });
@@ -127,6 +154,196 @@ router.get('/thumbnail/:previewId', async (req, res) => {
   }
 });
 
+/**
+ * Only the signed-in owner of :uploadId gets through
+ */
+function ownUpload(req: any, res: express.Response, next: express.NextFunction) {
+  isAuthenticated(req, res, async () => {
+    try {
+      const upload = await storage.getUpload(req.params.uploadId);
+      if (!upload || upload.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Upload not found' });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+/**
+ * Streaming files are readable by the upload's owner or with the signed query
+ * the ladder hands out. Players fetch every playlist and segment themselves
+ * and can't send a bearer token, so one signature covers all of an upload's
+ * streaming files and is carried over to the URIs inside its playlists.
+ */
+function canReadStream(req: any, res: express.Response, next: express.NextFunction) {
+  if (signedUrls.verify(req, streamBase(req))) {
+    res.locals.streamQuery = `?expires=${req.query.expires}&signature=${req.query.signature}`;
+    return next();
+  }
+  res.locals.streamQuery = '';
+  ownUpload(req, res, next);
+}
+
+function streamBase(req: express.Request): string {
+  return `${req.baseUrl}/hls/${req.params.uploadId}`;
+}
+
+/**
+ * Tell the player to come back once a rendition or thumbnail track that is
+ * still being generated is ready
+ */
+function sendNotReady(res: express.Response) {
+  res.set('Retry-After', String(RETRY_AFTER_SECONDS));
+  res.status(202).json({ status: 'processing' });
+}
+
+/**
+ * Send a playlist or WebVTT track with the signed query added to the URIs
+ * it references
+ */
+function sendWithQuery(res: express.Response, text: string, uriPattern: RegExp, contentType: string) {
+  const query = res.locals.streamQuery;
+  res.set({ 'Content-Type': contentType, 'Cache-Control': 'no-cache' });
+  res.send(query ? text.replace(uriPattern, uri => uri + query) : text);
+}
+
+/**
+ * Get the HLS rendition ladder for an upload (renditions are encoded lazily),
+ * with URLs signed for the player
+ * GET /api/preview/ladder/:uploadId
+ */
+router.get('/ladder/:uploadId', ownUpload, async (req, res) => {
+  try {
+    const { uploadId } = req.params;
+    const query = `?${signedUrls.signQuery(`${req.baseUrl}/hls/${uploadId}`)}`;
+
+    const ladder = await previewPlayer.getStreamingLadder(uploadId);
+    res.json({
+      success: true,
+      ladder: {
+        ...ladder,
+        masterUrl: ladder.masterUrl + query,
+        thumbnailsUrl: ladder.thumbnailsUrl && ladder.thumbnailsUrl + query,
+        renditions: ladder.renditions.map(rendition => ({ ...rendition, url: rendition.url + query })),
+      }
+    });
+  } catch (error) {
+    console.error('Error getting preview ladder:', error);
+    res.status(500).json({ error: 'Failed to get preview ladder' });
+  }
+});
+
+/**
+ * HLS master playlist
+ * GET /api/preview/hls/:uploadId/master.m3u8
+ */
+router.get('/hls/:uploadId/master.m3u8', canReadStream, async (req, res) => {
+  try {
+    const playlist = await previewPlayer.getMasterPlaylist(req.params.uploadId);
+    sendWithQuery(res, playlist, PLAYLIST_URI, 'application/vnd.apple.mpegurl');
+  } catch (error) {
+    console.error('Error serving master playlist:', error);
+    res.status(500).json({ error: 'Failed to serve playlist' });
+  }
+});
+
+/**
+ * WebVTT thumbnail track for scrubbing; answers 202 while it's generated
+ * after the first request
+ * GET /api/preview/hls/:uploadId/thumbnails.vtt
+ */
+router.get('/hls/:uploadId/thumbnails.vtt', canReadStream, async (req, res) => {
+  try {
+    const { uploadId } = req.params;
+    if (!await previewPlayer.startScrubThumbnails(uploadId)) {
+      return sendNotReady(res);
+    }
+
+    const vttPath = previewPlayer.getStreamingFile(uploadId, 'thumbnails.vtt')!;
+    const track = await fs.promises.readFile(vttPath, 'utf8');
+    sendWithQuery(res, track, SPRITE_URI, 'text/vtt');
+  } catch (error) {
+    console.error('Error serving thumbnail track:', error);
+    res.status(500).json({ error: 'Failed to generate thumbnail track' });
+  }
+});
+
+/**
+ * Sprite sheet referenced by the thumbnail track
+ * GET /api/preview/hls/:uploadId/thumbnails/:sprite
+ */
+router.get('/hls/:uploadId/thumbnails/:sprite', canReadStream, async (req, res) => {
+  try {
+    const { uploadId, sprite } = req.params;
+    const filePath = /^sprite_\d+\.jpg$/.test(sprite)
+      ? previewPlayer.getStreamingFile(uploadId, 'thumbnails', sprite)
+      : null;
+
+    if (!filePath) {
+      return res.status(404).json({ error: 'Sprite not found' });
+    }
+
+    sendFile(req, res, filePath, 'image/jpeg');
+  } catch (error) {
+    console.error('Error serving sprite:', error);
+    res.status(500).json({ error: 'Failed to serve sprite' });
+  }
+});
+
+/**
+ * Rendition playlist and its segments. The first playlist request starts the
+ * encode and answers 202 until it's done.
+ * GET /api/preview/hls/:uploadId/:rendition/:file
+ */
+router.get('/hls/:uploadId/:rendition/:file', canReadStream, async (req, res) => {
+  try {
+    const { uploadId, rendition, file } = req.params;
+
+    if (file === 'index.m3u8') {
+      if (!await previewPlayer.startRendition(uploadId, rendition)) {
+        return sendNotReady(res);
+      }
+
+      const playlistPath = previewPlayer.getStreamingFile(uploadId, rendition, file)!;
+      const playlist = await fs.promises.readFile(playlistPath, 'utf8');
+      return sendWithQuery(res, playlist, PLAYLIST_URI, 'application/vnd.apple.mpegurl');
+    }
+
+    const filePath = /^seg_\d+\.ts$/.test(file)
+      ? previewPlayer.getStreamingFile(uploadId, rendition, file)
+      : null;
+
+    if (!filePath) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+
+    sendFile(req, res, filePath, 'video/mp2t');
+  } catch (error) {
+    console.error('Error serving rendition:', error);
+    res.status(500).json({ error: 'Failed to serve rendition' });
+  }
+});
+
+/**
+ * Delete the rendition ladder and thumbnails for an upload
+ * DELETE /api/preview/hls/:uploadId
+ */
+router.delete('/hls/:uploadId', ownUpload, async (req, res) => {
+  try {
+    await previewPlayer.deleteStreamingPreview(req.params.uploadId);
+
+    res.json({
+      success: true,
+      message: 'Streaming preview deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting streaming preview:', error);
+    res.status(500).json({ error: 'Failed to delete streaming preview' });
+  }
+});
+
 /**
  * Get preview metadata
  * GET /api/preview/:previewId
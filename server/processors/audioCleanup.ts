@@ -0,0 +1,134 @@
+import fs from "fs";
+import { storage } from "../storage";
+import { progressTracker } from "../progressTracker";
+import { ErrorRegistry } from "../errorTypes";
+import {
+  audioSettingsSchema,
+  type AudioLevels,
+  type AudioMetrics,
+  type AudioSettings,
+  type Upload,
+} from "@shared/schema";
+
+const STAGE_ID = 'audio_cleanup';
+
+/**
+ * Measures the upload's loudness and SNR, optionally reduces noise and
+ * normalises loudness (workspace `settings.audio`), then applies the quality
+ * gate. Metrics are stored on the upload; the cleaned-up file becomes the
+ * transcription input. A blocked upload throws AUDIO_QUALITY_TOO_LOW.
+ */
+export async function processAudioCleanup(upload: Upload): Promise<Record<string, unknown>> {
+  const settings = await getAudioSettings(upload.workspaceId);
+  if (!settings.cleanup && settings.qualityGate === 'off') {
+    console.log(`Audio clean-up disabled for upload ${upload.id}`);
+    return { skipped: true };
+  }
+
+  let original: AudioLevels;
+  let processed: AudioLevels | undefined;
+  let processedFilePath: string | null = null;
+  try {
+    const { analyzeAudioQuality, measureAudioLevels, processAudio } = await import("../enhancedAudioService");
+
+    await progressTracker.updateStageProgress(upload.id, STAGE_ID, 10, 'Measuring audio quality...');
+    original = (await analyzeAudioQuality(upload.filePath)).levels;
+
+    if (settings.cleanup) {
+      await progressTracker.updateStageProgress(upload.id, STAGE_ID, 40, 'Reducing noise and normalizing loudness...');
+      const result = await processAudio(upload.filePath, {
+        noiseReductionLevel: settings.noiseReduction === 'off' ? undefined : settings.noiseReduction,
+        loudnessTarget: settings.loudnessTarget,
+      });
+      processedFilePath = result.processedAudioPath;
+
+      await progressTracker.updateStageProgress(upload.id, STAGE_ID, 80, 'Measuring cleaned-up audio...');
+      processed = await measureAudioLevels(processedFilePath);
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error(`Audio clean-up failed for upload ${upload.id}:`, err);
+    throw Object.assign(new Error(`Audio clean-up failed: ${err.message}`), { code: 'AUDIO_PROCESSING_FAILED' });
+  }
+
+  // The gate judges the audio transcription will actually receive
+  const issues = settings.qualityGate === 'off' ? [] : findQualityIssues(processed || original, settings);
+  const status: AudioMetrics['gate']['status'] = settings.qualityGate === 'off'
+    ? 'off'
+    : issues.length === 0 ? 'passed' : settings.qualityGate === 'block' ? 'blocked' : 'warned';
+
+  const audioMetrics: AudioMetrics = {
+    original,
+    processed,
+    cleanup: settings.cleanup ? { noiseReduction: settings.noiseReduction, loudnessTarget: settings.loudnessTarget } : undefined,
+    gate: { status, issues },
+    measuredAt: new Date().toISOString(),
+  };
+  await storage.updateUploadAudio(upload.id, { processedFilePath, audioMetrics });
+
+  if (status === 'blocked') {
+    const details = issues.map(issue => issue.message).join('; ');
+    console.warn(`Audio quality gate blocked upload ${upload.id}: ${details}`);
+    throw Object.assign(new Error(`Audio quality below threshold: ${details}`), { code: 'AUDIO_QUALITY_TOO_LOW' });
+  }
+
+  if (status === 'warned') {
+    const warning = ErrorRegistry.get('AUDIO_QUALITY_LOW')!;
+    console.warn(`Audio quality warning for upload ${upload.id}: ${issues.map(issue => issue.message).join('; ')}`);
+    await progressTracker.updateStageProgress(upload.id, STAGE_ID, 95, warning.userMessage, {
+      warning: { code: warning.code, message: warning.userMessage, recoverySteps: warning.recoverySteps, issues },
+    });
+  }
+
+  return {
+    cleaned: settings.cleanup,
+    gate: status,
+    snr: (processed || original).snr,
+    integratedLoudness: (processed || original).integratedLoudness,
+  };
+}
+
+function findQualityIssues(levels: AudioLevels, settings: AudioSettings): Array<{ code: string; message: string }> {
+  const issues: Array<{ code: string; message: string }> = [];
+
+  if (levels.snr !== null && levels.snr < settings.minSnr) {
+    issues.push({ code: 'low_snr', message: `Signal-to-noise ratio ${levels.snr} dB is below ${settings.minSnr} dB` });
+  }
+  if (levels.integratedLoudness !== null && levels.integratedLoudness < settings.minLoudness) {
+    issues.push({
+      code: 'too_quiet',
+      message: `Loudness ${levels.integratedLoudness} LUFS is below ${settings.minLoudness} LUFS`,
+    });
+  }
+  if (levels.integratedLoudness === null) {
+    issues.push({ code: 'silent', message: 'No measurable audio' });
+  }
+
+  return issues;
+}
+
+/** Workspace `settings.audio` with defaults filled in; invalid stored values fall back to defaults */
+export async function getAudioSettings(workspaceId: string | null): Promise<AudioSettings> {
+  const workspace = workspaceId ? await storage.getWorkspace(workspaceId) : undefined;
+  const parsed = audioSettingsSchema.safeParse(workspace?.settings?.audio || {});
+  return parsed.success ? parsed.data : audioSettingsSchema.parse({});
+}
+
+export async function saveAudioSettings(workspaceId: string, audio: AudioSettings): Promise<AudioSettings> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (!workspace) {
+    throw new Error('Workspace not found');
+  }
+
+  await storage.updateWorkspace(workspaceId, { settings: { ...workspace.settings, audio } });
+  return audio;
+}
+
+/** Removes the cleaned-up file and metrics so the stage can run again */
+export async function resetAudioCleanup(uploadId: string): Promise<void> {
+  const upload = await storage.getUpload(uploadId);
+  if (upload?.processedFilePath && upload.processedFilePath !== upload.filePath) {
+    await fs.promises.unlink(upload.processedFilePath).catch(() => {});
+  }
+  await storage.updateUploadAudio(uploadId, { processedFilePath: null, audioMetrics: null });
+}
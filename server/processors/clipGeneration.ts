@@ -1,24 +1,67 @@
 import { generateSocialContent, generateQuoteGraphic } from "../openai";
 import { storage } from "../storage";
-import type { Segment } from "@shared/schema";
+import { speakerService, type SpeakerContext } from "../speakerService";
+import { shortsGenerator, type ShortsConfigInput } from "../shortsGenerator";
+import { brandKitService } from "../brandKitService";
+import { brollService, type BrollTimeline } from "../brollService";
+import { viralityScorer } from "../viralityScorer";
+import { sliceWordsForClip } from "../captionGenerator";
+import {
+  audiogramGenerator,
+  AUDIOGRAM_ASPECTS,
+  type AudiogramAspect,
+  type AudiogramConfigInput,
+} from "../audiogramGenerator";
+import { getTranscriptWords } from "./transcription";
+import {
+  audiogramSettingsSchema,
+  jumpCutSettingsSchema,
+  shortsSubtitleStyleSchema,
+  type AudiogramSettings,
+  type Clip,
+  type Segment,
+  type TranscriptWord,
+  type Upload,
+} from "@shared/schema";
 import path from "path";
 import fs from "fs";
 
-export async function processClipGeneration(segments: Segment[]) {
+const MAX_RENDER_ATTEMPTS = 3;
+const RENDER_RETRY_DELAY_MS = 2000;
+
+/**
+ * Scores every segment for virality, then generates clips for the top K only
+ * when the workspace sets one (`settings.virality`). Returns how many
+ * segments were rendered.
+ */
+export async function processClipGeneration(upload: Upload, segments: Segment[]) {
   try {
     console.log(`Starting clip generation for ${segments.length} segments`);
-    
-    const clipsDir = path.join(process.cwd(), 'clips');
+
+    const clipsDir = getClipsDir(upload.id);
     if (!fs.existsSync(clipsDir)) {
       fs.mkdirSync(clipsDir, { recursive: true });
     }
 
-    for (const segment of segments) {
-      await generateClipsForSegment(segment);
+    const settings = await viralityScorer.getSettings(upload.workspaceId);
+    const transcript = await storage.getTranscriptByUploadId(upload.id);
+    const scored = await viralityScorer.scoreSegments(segments, {
+      userId: upload.userId,
+      settings,
+      words: transcript ? getTranscriptWords(transcript) : [],
+    });
+    const selected = await viralityScorer.storeSelection(scored, settings);
+    console.log(`Rendering top ${selected.length} of ${segments.length} segments by virality score`);
+
+    const speakerContext = await speakerService.getContext(upload.id);
+
+    for (const segment of selected) {
+      await generateClipsForSegment(upload, segment, speakerContext);
     }
-    
-    console.log(`Clip generation completed for all segments`);
-    
+
+    console.log(`Clip generation completed for ${selected.length} segments`);
+    return { rendered: selected.length, skipped: segments.length - selected.length };
+
   } catch (error) {
     const err = error as any;
     console.error(`Clip generation failed:`, err);
@@ -26,16 +69,19 @@ export async function processClipGeneration(segments: Segment[]) {
   }
 }
 
-async function generateClipsForSegment(segment: Segment) {
+export async function generateClipsForSegment(upload: Upload, segment: Segment, speakerContext: SpeakerContext) {
   try {
     console.log(`Generating clips for segment ${segment.id}: ${segment.title}`);
-    
+
+    const attribution = speakerService.attributeSegment(speakerContext, segment);
     const segmentData = {
       title: segment.title,
       summary: segment.summary || '',
       startTime: parseFloat(segment.startTime),
       endTime: parseFloat(segment.endTime),
       transcript: segment.transcript || '',
+      speaker: attribution.speaker?.name,
+      attributedTranscript: attribution.attributedTranscript,
     };
 
     // Generate different types of content
@@ -47,35 +93,62 @@ async function generateClipsForSegment(segment: Segment) {
     ];
 
     for (const clipType of clipTypes) {
+      // Set once the row exists, so a failure marks it instead of adding another
+      let created: Clip | null = null;
       try {
         let content = '';
-        
+
         if (clipType.type === 'quote_graphic') {
           content = await generateQuoteGraphic(segmentData);
         } else {
           content = await generateSocialContent(segmentData, clipType.platform);
         }
 
-        // Create clip record
-        await storage.createClip({
-          segmentId: segment.id,
-          type: clipType.type,
-          content,
-          metadata: {
-            duration: segmentData.endTime - segmentData.startTime,
-            start: segmentData.startTime,
-            end: segmentData.endTime,
-            platform: clipType.platform,
-          },
-          status: 'completed',
-        });
+        const metadata = {
+          duration: segmentData.endTime - segmentData.startTime,
+          start: segmentData.startTime,
+          end: segmentData.endTime,
+          platform: clipType.platform,
+        };
+
+        if (clipType.type === 'vertical_short' && isVideoUpload(upload)) {
+          // Caption text is stored straight away; the MP4 is rendered afterwards
+          created = await storage.createClip({
+            segmentId: segment.id,
+            type: clipType.type,
+            content,
+            metadata: { ...metadata, render: { attempts: 0 } },
+            status: 'pending',
+          });
+          await renderVerticalShort(created, segment, upload);
+        } else {
+          // Create clip record
+          await storage.createClip({
+            segmentId: segment.id,
+            type: clipType.type,
+            content,
+            metadata,
+            status: 'completed',
+          });
+        }
 
         console.log(`Generated ${clipType.type} clip for ${clipType.platform}`);
-        
+
       } catch (error) {
         const err = error as any;
         console.error(`Failed to generate ${clipType.type} for ${clipType.platform}:`, err);
-        
+
+        if (created) {
+          await storage.updateClip(created.id, {
+            status: 'failed',
+            metadata: {
+              ...(created.metadata as Record<string, any> || {}),
+              error: err instanceof Error ? err.message : 'Unknown error',
+            },
+          });
+          continue;
+        }
+
         // Create failed clip record
         await storage.createClip({
           segmentId: segment.id,
@@ -91,9 +164,13 @@ async function generateClipsForSegment(segment: Segment) {
         });
       }
     }
-    
+
+    if (isAudioUpload(upload)) {
+      await generateAudiogramsForSegment(upload, segment);
+    }
+
     console.log(`Completed clip generation for segment ${segment.id}`);
-    
+
   } catch (error) {
     const err = error as any;
     console.error(`Failed to generate clips for segment ${segment.id}:`, err);
@@ -101,20 +178,258 @@ async function generateClipsForSegment(segment: Segment) {
   }
 }
 
-// Mock video processing for vertical shorts
-async function generateVerticalShort(segment: Segment): Promise<string> {
-  // In a real implementation, this would use FFmpeg to:
-  // 1. Extract the segment from the original video
-  // 2. Resize to 9:16 aspect ratio
-  // 3. Add captions/subtitles
-  // 4. Save as MP4
-  
-  // For now, return a placeholder path
-  const filename = `vertical_${segment.id}_${Date.now()}.mp4`;
-  const filePath = path.join(process.cwd(), 'clips', filename);
-  
-  // Create placeholder file
-  fs.writeFileSync(filePath, 'placeholder video content');
-  
-  return filePath;
+// Audio-only uploads have no picture to reframe into shorts; they get one
+// audiogram clip per aspect ratio instead
+const AUDIOGRAM_PLATFORMS: Record<AudiogramAspect, string> = {
+  '9:16': 'tiktok',
+  '1:1': 'instagram',
+  '16:9': 'youtube',
+};
+
+async function generateAudiogramsForSegment(upload: Upload, segment: Segment) {
+  const { aspects } = await getAudiogramConfig(upload);
+  const start = parseFloat(segment.startTime);
+  const end = parseFloat(segment.endTime);
+
+  for (const aspect of aspects) {
+    const clip = await storage.createClip({
+      segmentId: segment.id,
+      type: 'audiogram',
+      content: segment.title,
+      metadata: {
+        duration: end - start,
+        start,
+        end,
+        aspect,
+        platform: AUDIOGRAM_PLATFORMS[aspect],
+        render: { attempts: 0 },
+      },
+      status: 'pending',
+    });
+    await renderAudiogram(clip, segment, upload);
+  }
+}
+
+/**
+ * Renders the 9:16 MP4 for a vertical_short clip, retrying transient FFmpeg
+ * failures. Render progress is kept in the clip's status and metadata.render
+ * so a failed clip can be retried on its own later. `overrides` take
+ * precedence over the workspace's shorts settings.
+ */
+export async function renderVerticalShort(
+  clip: Clip,
+  segment: Segment,
+  upload: Upload,
+  overrides: ShortsConfigInput = {}
+): Promise<Clip> {
+  const workspaceConfig = await getShortsConfig(upload);
+  const speakerContext = await speakerService.getContext(upload.id);
+  const config: ShortsConfigInput = {
+    speakerName: speakerService.attributeSegment(speakerContext, segment).speaker?.name,
+    ...workspaceConfig,
+    ...overrides,
+    subtitleStyle: { ...workspaceConfig.subtitleStyle, ...overrides.subtitleStyle },
+    jumpCut: { ...workspaceConfig.jumpCut, ...overrides.jumpCut },
+  };
+  const transcript = await storage.getTranscriptByUploadId(upload.id);
+  const words = transcript ? getTranscriptWords(transcript) : [];
+
+  // First render places B-roll from the library; after that the stored timeline is used as-is
+  let timeline = brollService.getTimeline(clip.metadata);
+  if (!timeline && upload.workspaceId) {
+    timeline = await suggestBroll(clip, segment, upload, words);
+    if (timeline.placements.length > 0) {
+      clip = await storage.updateClip(clip.id, { metadata: { ...(clip.metadata as Record<string, any> || {}), broll: timeline } });
+    }
+  }
+  config.broll = timeline ? await brollService.resolveInserts(timeline.placements) : [];
+
+  return await renderWithRetries(clip, segment, async () => {
+    const result = await shortsGenerator.generateVerticalShort(
+      upload.filePath,
+      segment,
+      getClipsDir(upload.id),
+      config,
+      words
+    );
+
+    console.log(`Rendered vertical short for segment ${segment.id}: ${result.outputPath}`);
+    return {
+      filePath: result.outputPath,
+      render: {
+        size: result.size,
+        resolution: result.resolution,
+        format: result.format,
+        captionPreset: words.length > 0 ? config.subtitleStyle?.preset || 'classic' : 'srt',
+        // Jump-cut shorts keep the edit decision list so the cuts can be reviewed
+        ...(result.edl ? { jumpCut: true, edl: result.edl } : {}),
+        brandKit: !!config.brandKit,
+        brollInserts: config.broll?.length || 0,
+      },
+    };
+  });
+}
+
+/**
+ * Suggested B-roll timeline for a clip, matching the workspace library's tags
+ * against the segment's words. Does not save it.
+ */
+export async function suggestBroll(
+  clip: Clip,
+  segment: Segment,
+  upload: Upload,
+  words?: TranscriptWord[],
+  mode?: 'cutaway' | 'pip'
+): Promise<BrollTimeline> {
+  const assets = upload.workspaceId ? await brollService.listAssets(upload.workspaceId) : [];
+  if (!words) {
+    const transcript = await storage.getTranscriptByUploadId(upload.id);
+    words = transcript ? getTranscriptWords(transcript) : [];
+  }
+
+  const clipWords = sliceWordsForClip(words, parseFloat(segment.startTime), parseFloat(segment.endTime));
+  const placements = assets.length > 0 ? brollService.suggestPlacements(segment, clipWords, assets, { mode }) : [];
+  console.log(`Suggested ${placements.length} B-roll placements for clip ${clip.id}`);
+
+  return { placements, edited: false, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Renders the waveform video for an audiogram clip of an audio-only upload,
+ * in the aspect ratio stored in the clip's metadata. Retries and render
+ * bookkeeping work as for vertical shorts.
+ */
+export async function renderAudiogram(
+  clip: Clip,
+  segment: Segment,
+  upload: Upload,
+  overrides: AudiogramSettings = {}
+): Promise<Clip> {
+  const metadata = (clip.metadata || {}) as Record<string, any>;
+  const { aspects, ...workspaceSettings } = await getAudiogramConfig(upload);
+  const { coverArt, ...settings } = { ...workspaceSettings, ...overrides };
+  const config: AudiogramConfigInput = {
+    ...settings,
+    coverArt: coverArt ? await brollService.resolveAssetFile(coverArt, upload.workspaceId, 'image') ?? undefined : undefined,
+    // Each clip keeps the aspect ratio it was created for
+    aspect: AUDIOGRAM_ASPECTS.includes(metadata.aspect) ? metadata.aspect : '9:16',
+  };
+  const transcript = await storage.getTranscriptByUploadId(upload.id);
+  const words = transcript ? getTranscriptWords(transcript) : [];
+
+  return await renderWithRetries(clip, segment, async () => {
+    const result = await audiogramGenerator.generateAudiogram(
+      upload.filePath,
+      segment,
+      getClipsDir(upload.id),
+      config,
+      words
+    );
+
+    console.log(`Rendered ${result.aspect} audiogram for segment ${segment.id}: ${result.outputPath}`);
+    return {
+      filePath: result.outputPath,
+      render: {
+        size: result.size,
+        resolution: result.resolution,
+        format: result.format,
+        style: config.style || 'waves',
+        coverArt: result.coverArt,
+        captions: words.length > 0 && config.captions !== false,
+      },
+    };
+  });
+}
+
+async function renderWithRetries(
+  clip: Clip,
+  segment: Segment,
+  render: () => Promise<{ filePath: string; render: Record<string, any> }>
+): Promise<Clip> {
+  const metadata = (clip.metadata || {}) as Record<string, any>;
+  const previousAttempts = metadata.render?.attempts || 0;
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= MAX_RENDER_ATTEMPTS; attempt++) {
+    await storage.updateClip(clip.id, {
+      status: 'processing',
+      metadata: { ...metadata, render: { attempts: previousAttempts + attempt, startedAt: new Date().toISOString() } },
+    });
+
+    try {
+      const result = await render();
+      return await storage.updateClip(clip.id, {
+        filePath: result.filePath,
+        status: 'completed',
+        metadata: {
+          ...metadata,
+          render: {
+            attempts: previousAttempts + attempt,
+            renderedAt: new Date().toISOString(),
+            ...result.render,
+          },
+        },
+      });
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Render attempt ${attempt}/${MAX_RENDER_ATTEMPTS} failed for ${clip.type} of segment ${segment.id}:`, lastError);
+      if (attempt < MAX_RENDER_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, RENDER_RETRY_DELAY_MS * attempt));
+      }
+    }
+  }
+
+  return await storage.updateClip(clip.id, {
+    status: 'failed',
+    metadata: {
+      ...metadata,
+      render: {
+        attempts: previousAttempts + MAX_RENDER_ATTEMPTS,
+        failedAt: new Date().toISOString(),
+        error: lastError,
+      },
+    },
+  });
+}
+
+export function isVideoUpload(upload: Upload): boolean {
+  return upload.mimeType.startsWith('video/');
+}
+
+export function isAudioUpload(upload: Upload): boolean {
+  return upload.mimeType.startsWith('audio/');
+}
+
+// Workspaces can set `settings.shorts.reframe` ('center', 'subject', 'split-screen'),
+// `settings.shorts.subtitleStyle` (caption preset and overrides) and
+// `settings.shorts.jumpCut` (filler-word and silence removal); the workspace
+// brand kit is applied to every short
+async function getShortsConfig(upload: Upload): Promise<ShortsConfigInput> {
+  const workspace = upload.workspaceId ? await storage.getWorkspace(upload.workspaceId) : undefined;
+  const shorts = workspace?.settings?.shorts || {};
+  const subtitleStyle = shortsSubtitleStyleSchema.safeParse(shorts.subtitleStyle || {});
+  const jumpCut = jumpCutSettingsSchema.safeParse(shorts.jumpCut || {});
+  return {
+    ...(['center', 'subject', 'split-screen'].includes(shorts.reframe) ? { reframe: shorts.reframe } : {}),
+    subtitleStyle: subtitleStyle.success ? subtitleStyle.data : {},
+    jumpCut: jumpCut.success ? jumpCut.data : {},
+    brandKit: await brandKitService.getRenderBrandKit(upload.workspaceId),
+  };
+}
+
+// Workspaces can set `settings.audiogram`: the look (see audiogramSettingsSchema;
+// coverArt is a library image ID) and aspects (subset of 9:16, 1:1, 16:9)
+async function getAudiogramConfig(upload: Upload): Promise<AudiogramSettings & { aspects: AudiogramAspect[] }> {
+  const workspace = upload.workspaceId ? await storage.getWorkspace(upload.workspaceId) : undefined;
+  const { aspects, aspect, ...look } = workspace?.settings?.audiogram || {};
+  const selected = Array.isArray(aspects) ? AUDIOGRAM_ASPECTS.filter(a => aspects.includes(a)) : [];
+  const settings = audiogramSettingsSchema.safeParse(look);
+  return {
+    ...(settings.success ? settings.data : {}),
+    aspects: selected.length > 0 ? selected : AUDIOGRAM_ASPECTS,
+  };
+}
+
+function getClipsDir(uploadId: string): string {
+  return path.join(process.cwd(), 'clips', uploadId);
 }
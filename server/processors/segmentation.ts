@@ -1,10 +1,33 @@
-import { generateSegments } from "../openai";
+import { generateSegments, generateCandidateSegments, type SegmentResult } from "../openai";
 import { storage } from "../storage";
+import { speakerService } from "../speakerService";
+import { alignSegment, type SegmentAlignment } from "../segmentAlignment";
+import { getTranscriptWords } from "./transcription";
+import type { Transcript, TranscriptWord, SegmentationSettings } from "@shared/schema";
 
-export async function processSegmentation(uploadId: string, transcriptText: string) {
+const DEFAULT_MAX_SEGMENTS = 7;
+// Transcripts longer than this (roughly an hour of speech) are segmented in windows
+const CHUNKED_THRESHOLD_WORDS = 9000;
+const WINDOW_WORDS = 4000;
+const WINDOW_OVERLAP_WORDS = 400;
+// A [seconds] marker is inserted every N words so the model can report absolute times
+const MARKER_INTERVAL_WORDS = 40;
+// Candidates overlapping an already selected segment by more than this are duplicates
+const MAX_OVERLAP_RATIO = 0.5;
+
+interface AlignedCandidate {
+  segment: SegmentResult;
+  alignment: SegmentAlignment;
+}
+
+export async function processSegmentation(
+  uploadId: string,
+  transcript: Transcript,
+  settings: SegmentationSettings = {}
+) {
   try {
     console.log(`Starting segmentation for upload ${uploadId}`);
-    
+
     // Check if segments already exist
     const existingSegments = await storage.getSegmentsByUploadId(uploadId);
     if (existingSegments.length > 0) {
@@ -12,29 +35,135 @@ export async function processSegmentation(uploadId: string, transcriptText: stri
       return existingSegments;
     }
 
-    // Generate segments using AI
-    const segmentResults = await generateSegments(transcriptText);
-    
+    const words = getTranscriptWords(transcript);
+    const maxSegments = settings.maxSegments || DEFAULT_MAX_SEGMENTS;
+    const chunked = useChunkedMode(settings, words);
+
+    // Generate segments using AI, replacing the model's estimated times with word-aligned boundaries
+    const segmentResults = chunked
+      ? await generateChunkedSegments(uploadId, words, maxSegments)
+      : await generateSegments(transcript.text, maxSegments);
+
+    const aligned: AlignedCandidate[] = segmentResults.map(segment => ({
+      segment,
+      alignment: alignSegment(segment.transcript, words, Number(segment.startTime), Number(segment.endTime)),
+    }));
+
+    const selected = chunked ? selectTopCandidates(aligned, maxSegments) : aligned.slice(0, maxSegments);
+    if ((settings.order || 'chronological') === 'chronological') {
+      selected.sort((a, b) => a.alignment.startTime - b.alignment.startTime);
+    } else {
+      // Both modes ask the model for a score; unscored segments keep the model's order
+      selected.sort((a, b) => (b.segment.score ?? 0) - (a.segment.score ?? 0));
+    }
+
+    const speakerContext = await speakerService.getContext(uploadId, transcript);
+
     // Convert to database format
-    const segmentsToInsert = segmentResults.map((segment, idx) => ({
+    const segmentsToInsert = selected.map(({ segment, alignment }, idx) => ({
       uploadId,
       title: segment.title,
       summary: segment.summary,
-      startTime: Number(segment.startTime),
-      endTime: Number(segment.endTime),
+      startTime: alignment.startTime,
+      endTime: alignment.endTime,
       transcript: segment.transcript,
+      speakerId: speakerService.getDominantSpeaker(speakerContext, alignment.startTime, alignment.endTime)?.id ?? null,
+      alignmentConfidence: words.length > 0 ? alignment.confidence : null,
       order: idx,
     }));
 
     // Save segments to database
     const segments = await storage.createSegments(segmentsToInsert);
-    
+
     console.log(`Segmentation completed for upload ${uploadId}, created ${segments.length} segments`);
     return segments;
-    
+
   } catch (error) {
     const err = error as any;
     console.error(`Segmentation failed for upload ${uploadId}:`, err);
     throw new Error(`Segmentation failed: ${err.message}`);
   }
 }
+
+function useChunkedMode(settings: SegmentationSettings, words: TranscriptWord[]): boolean {
+  const mode = settings.mode || 'auto';
+  if (mode === 'single') return false;
+  if (words.length === 0) {
+    // Windows need word timestamps to carry absolute times
+    if (mode === 'chunked') {
+      console.warn('Chunked segmentation requested but transcript has no word timestamps; using a single prompt');
+    }
+    return false;
+  }
+  return mode === 'chunked' || words.length > CHUNKED_THRESHOLD_WORDS;
+}
+
+/**
+ * Map step: asks for scored candidates in overlapping transcript windows so no
+ * single prompt has to hold a multi-hour transcript.
+ */
+async function generateChunkedSegments(
+  uploadId: string,
+  words: TranscriptWord[],
+  maxSegments: number
+): Promise<SegmentResult[]> {
+  const windows = buildWindows(words);
+  const candidatesPerWindow = Math.max(3, Math.ceil((maxSegments * 2) / windows.length));
+  console.log(`Chunked segmentation for upload ${uploadId}: ${windows.length} windows, up to ${candidatesPerWindow} candidates each`);
+
+  const candidates: SegmentResult[] = [];
+  for (let i = 0; i < windows.length; i++) {
+    const window = windows[i];
+    const results = await generateCandidateSegments(
+      window.text,
+      { start: window.start, end: window.end, index: i, total: windows.length },
+      candidatesPerWindow
+    );
+    candidates.push(...results.filter(candidate => candidate.transcript && candidate.endTime > candidate.startTime));
+  }
+
+  return candidates;
+}
+
+function buildWindows(words: TranscriptWord[]): Array<{ text: string; start: number; end: number }> {
+  const windows = [];
+  const step = WINDOW_WORDS - WINDOW_OVERLAP_WORDS;
+
+  for (let offset = 0; offset < words.length; offset += step) {
+    const slice = words.slice(offset, offset + WINDOW_WORDS);
+    const text = slice
+      .map((word, i) => (i % MARKER_INTERVAL_WORDS === 0 ? `[${word.start.toFixed(1)}] ${word.word}` : word.word))
+      .join(' ');
+    windows.push({ text, start: slice[0].start, end: slice[slice.length - 1].end });
+
+    if (offset + WINDOW_WORDS >= words.length) break;
+  }
+
+  return windows;
+}
+
+/**
+ * Reduce step: ranks candidates from every window by score and drops the ones
+ * that overlap a better candidate (windows overlap, so the same moment is
+ * often proposed twice).
+ */
+function selectTopCandidates(candidates: AlignedCandidate[], maxSegments: number): AlignedCandidate[] {
+  const ranked = [...candidates].sort((a, b) => (b.segment.score ?? 0) - (a.segment.score ?? 0));
+  const selected: AlignedCandidate[] = [];
+
+  for (const candidate of ranked) {
+    if (selected.length >= maxSegments) break;
+    const duplicate = selected.some(existing => overlapRatio(existing.alignment, candidate.alignment) > MAX_OVERLAP_RATIO);
+    if (!duplicate) {
+      selected.push(candidate);
+    }
+  }
+
+  return selected;
+}
+
+function overlapRatio(a: SegmentAlignment, b: SegmentAlignment): number {
+  const overlap = Math.min(a.endTime, b.endTime) - Math.max(a.startTime, b.startTime);
+  const shorter = Math.min(a.endTime - a.startTime, b.endTime - b.startTime);
+  return overlap > 0 && shorter > 0 ? overlap / shorter : 0;
+}
@@ -1,23 +1,35 @@
 import { storage } from "../storage";
 import { generateSocialContent, generateQuoteGraphic } from "../openai";
-import type { Segment } from "@shared/schema";
+import { speakerService, type SpeakerContext } from "../speakerService";
+import { viralityScorer } from "../viralityScorer";
+import { postingService } from "../postingService";
+import type { Clip, PostMedia, Segment, SocialPost } from "@shared/schema";
+import { threadPartsFor } from "@shared/thread";
+
+const PLATFORMS = ['tiktok', 'instagram', 'linkedin', 'twitter'];
 
 export async function processSocialContent(uploadId: string) {
   try {
     console.log(`Starting social content generation for upload ${uploadId}`);
     
-    const segments = await storage.getSegmentsByUploadId(uploadId);
-    if (!segments.length) {
+    const allSegments = await storage.getSegmentsByUploadId(uploadId);
+    if (!allSegments.length) {
       throw new Error('No segments found for upload');
     }
 
+    // Posts only go to the segments clip generation picked
+    const segments = viralityScorer.getSelectedSegments(allSegments);
+
+    const speakerContext = await speakerService.getContext(uploadId);
+    const upload = await storage.getUpload(uploadId);
+    const attachClips = await attachesClips(upload?.workspaceId ?? null);
+
     // Generate content for each platform and segment
-    const platforms = ['tiktok', 'instagram', 'linkedin', 'twitter'];
     const contentPromises = [];
 
     for (const segment of segments) {
-      for (const platform of platforms) {
-        contentPromises.push(generateContentForSegment(segment, platform));
+      for (const platform of PLATFORMS) {
+        contentPromises.push(generateContentForSegment(segment, platform, speakerContext, attachClips));
       }
     }
 
@@ -31,8 +43,48 @@ export async function processSocialContent(uploadId: string) {
   }
 }
 
-async function generateContentForSegment(segment: Segment, platform: string) {
+/**
+ * Replaces a segment's posts after its text or timing changed. Posts that are
+ * scheduled or already posted are never touched; with `keepManualEdits`,
+ * drafts whose caption a user rewrote are kept too. A platform with any kept
+ * post (or its quote graphic) is left as it is.
+ */
+export async function regenerateSocialPosts(
+  segment: Segment,
+  speakerContext: SpeakerContext,
+  options: { keepManualEdits: boolean }
+): Promise<{ regenerated: string[]; kept: string[] }> {
+  const posts = await storage.getSocialPostsBySegmentId(segment.id);
+  const isKept = (post: SocialPost) =>
+    post.status === 'scheduled' || post.status === 'posted' || (options.keepManualEdits && !!post.contentEditedAt);
+  const kept = PLATFORMS.filter(platform =>
+    posts.some(post => post.platform.replace(/_graphic$/, '') === platform && isKept(post))
+  );
+  const regenerated = PLATFORMS.filter(platform => !kept.includes(platform));
+
+  for (const post of posts) {
+    if (regenerated.includes(post.platform.replace(/_graphic$/, ''))) {
+      await storage.deleteSocialPost(post.id);
+    }
+  }
+  const upload = await storage.getUpload(segment.uploadId);
+  const attachClips = await attachesClips(upload?.workspaceId ?? null);
+  for (const platform of regenerated) {
+    await generateContentForSegment(segment, platform, speakerContext, attachClips);
+  }
+
+  return { regenerated, kept };
+}
+
+async function generateContentForSegment(
+  segment: Segment,
+  platform: string,
+  speakerContext: SpeakerContext,
+  attachClips: boolean
+) {
   try {
+    const attribution = speakerService.attributeSegment(speakerContext, segment);
+
     // Convert segment to SegmentResult format for OpenAI functions
     const segmentResult = {
       title: segment.title,
@@ -40,10 +92,13 @@ async function generateContentForSegment(segment: Segment, platform: string) {
       startTime: parseInt(segment.startTime),
       endTime: parseInt(segment.endTime),
       transcript: segment.transcript || '',
+      speaker: attribution.speaker?.name,
+      attributedTranscript: attribution.attributedTranscript,
     };
 
     // Generate text content
     const content = await generateSocialContent(segmentResult, platform);
+    const clips = attachClips ? await storage.getClipsBySegmentId(segment.id) : [];
     
     // Create social post record
     await storage.createSocialPost({
@@ -52,6 +107,8 @@ async function generateContentForSegment(segment: Segment, platform: string) {
       content,
       status: 'draft',
       scheduledFor: undefined,
+      media: defaultMedia(clips, platform, false),
+      threadParts: threadPartsFor(platform, content),
     });
 
     // Generate quote graphic for visual platforms
@@ -65,6 +122,7 @@ async function generateContentForSegment(segment: Segment, platform: string) {
           content: quoteGraphic,
           status: 'draft',
           scheduledFor: undefined,
+          media: defaultMedia(clips, platform, true),
         });
       } catch (graphicError) {
         const gErr = graphicError as any;
@@ -76,3 +134,28 @@ async function generateContentForSegment(segment: Segment, platform: string) {
     console.error(`Content generation failed for segment ${segment.id} on ${platform}:`, error.message);
   }
 }
+
+// Drafts only start with clips attached when the workspace turns on
+// `settings.posts.attachClips`; otherwise users pick media per post
+async function attachesClips(workspaceId: string | null): Promise<boolean> {
+  const workspace = workspaceId ? await storage.getWorkspace(workspaceId) : undefined;
+  return workspace?.settings?.posts?.attachClips === true;
+}
+
+/**
+ * Media a new draft starts with when clips are attached: the segment's
+ * rendered short for the platform's post, its quote graphics for the
+ * `_graphic` post. Users can change it before publishing.
+ */
+function defaultMedia(clips: Clip[], platform: string, graphic: boolean): PostMedia[] {
+  const limit = postingService.getMediaLimit(platform);
+  const media = clips
+    .filter(clip => graphic
+      ? clip.type === 'quote_graphic'
+      : clip.type === 'vertical_short' || clip.type === 'audiogram')
+    .map(clip => postingService.mediaFromClip(clip))
+    .filter((item): item is PostMedia => item !== null);
+
+  // A plain post gets one video, not every aspect ratio of it
+  return media.slice(0, graphic ? limit : Math.min(limit, 1));
+}
@@ -1,12 +1,12 @@
-import { transcribeAudio } from "../openai";
 import { storage } from "../storage";
-import type { Upload } from "@shared/schema";
-import path from "path";
+import { getTranscriptionSettings, createTranscriptionProvider } from "../transcriptionProviders";
+import { speakerService } from "../speakerService";
+import type { Upload, Transcript, TranscriptWord } from "@shared/schema";
 
 export async function processTranscription(upload: Upload) {
   try {
     console.log(`Starting transcription for upload ${upload.id}`);
-    
+
     // Check if transcript already exists
     const existingTranscript = await storage.getTranscriptByUploadId(upload.id);
     if (existingTranscript) {
@@ -14,28 +14,64 @@ export async function processTranscription(upload: Upload) {
       return existingTranscript;
     }
 
-    // Perform transcription
-    const transcriptionResult = await transcribeAudio(upload.filePath);
-    
+    // Perform transcription with the provider configured for the upload's workspace
+    const settings = await getTranscriptionSettings(upload);
+    const provider = createTranscriptionProvider(settings);
+    console.log(`Transcribing upload ${upload.id} with ${provider.name} provider`);
+
+    const { transcriptEditorService } = await import("../transcriptEditor");
+    const vocabulary = await transcriptEditorService.getVocabulary(upload.workspaceId);
+
+    // Prefer the output of the audio clean-up stage when it ran
+    const transcriptionResult = await provider.transcribe(upload.processedFilePath || upload.filePath, {
+      language: settings.language,
+      vocabulary: vocabulary.map(entry => entry.term),
+    });
+
     // Save transcript to database
     const transcript = await storage.createTranscript({
       uploadId: upload.id,
       text: transcriptionResult.text,
-      wordTimestamps: transcriptionResult.words ? 
-        transcriptionResult.words.reduce((acc: Record<string, number>, word: any) => {
-          acc[word.word] = word.start;
-          return acc;
-        }, {}) : undefined,
+      wordTimestamps: transcriptionResult.words,
       language: transcriptionResult.language,
-              confidence: transcriptionResult.duration ? Number(transcriptionResult.duration) : undefined,
+      confidence: transcriptionResult.confidence,
+      provider: provider.name,
     });
 
+    // Providers with diarization label each word with a speaker
+    await speakerService.syncSpeakers(upload.id, transcriptionResult.words || []);
+
+    // Correct known mis-hearings straight away; recorded as a revision so it can be reverted
+    if (vocabulary.length > 0) {
+      const result = await transcriptEditorService.applyVocabulary(upload, transcript, vocabulary, null);
+      console.log(`Transcription completed for upload ${upload.id} (${result.replacements} vocabulary corrections)`);
+      return result.transcript;
+    }
+
     console.log(`Transcription completed for upload ${upload.id}`);
     return transcript;
-    
+
   } catch (error) {
     const err = error as Error;
     console.error(`Transcription failed for upload ${upload.id}:`, err);
     throw new Error(`Transcription failed: ${err.message}`);
   }
 }
+
+/**
+ * Word timings for a transcript. Older transcripts stored a word -> start map,
+ * which loses repeated words and end times; those are converted best-effort.
+ */
+export function getTranscriptWords(transcript: Transcript): TranscriptWord[] {
+  const stored = transcript.wordTimestamps as unknown;
+  if (Array.isArray(stored)) return stored as TranscriptWord[];
+  if (!stored || typeof stored !== 'object') return [];
+
+  const entries = Object.entries(stored as Record<string, number>)
+    .sort(([, a], [, b]) => a - b);
+  return entries.map(([word, start], i) => ({
+    word,
+    start,
+    end: i + 1 < entries.length ? entries[i + 1][1] : start,
+  }));
+}
@@ -77,13 +77,21 @@ export class ProgressTracker {
         estimatedDuration: 30,
         weight: 5
       },
+      {
+        id: 'audio_cleanup',
+        name: 'cleaning_audio',
+        displayName: 'Cleaning Up Audio',
+        description: 'Measuring audio quality, reducing noise and normalizing loudness',
+        estimatedDuration: 30,
+        weight: 5
+      },
       {
         id: 'transcription',
         name: 'transcribing',
         displayName: 'Transcribing Audio',
         description: 'Converting speech to text with AI',
         estimatedDuration: 120,
-        weight: 30
+        weight: 25
       },
       {
         id: 'segmentation',
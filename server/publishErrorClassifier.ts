@@ -0,0 +1,155 @@
+import { ErrorRegistry, type ErrorInfo } from './errorTypes';
+
+/**
+ * Publish Error Classifier
+ *
+ * Maps a failed publish to an ErrorRegistry code and decides whether the
+ * scheduler should try again. Platform API errors carry the HTTP status,
+ * body message and response headers; the registry entry says whether the
+ * class is retryable and how often. Rate-limited posts wait for the time the
+ * platform asked for (`Retry-After` or its own rate-limit headers) instead of
+ * the regular backoff.
+ */
+
+export interface PublishErrorClassification {
+  code: string;
+  errorInfo: ErrorInfo;
+  retryable: boolean;
+  // Retries allowed for this class of error, from the registry
+  maxRetries: number;
+  // How long the platform asked us to wait, when it said
+  retryAfterMs?: number;
+}
+
+// What platform API errors carry; see `platformError` in postingService
+interface PublishFailure {
+  message?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  retryable?: boolean;
+  code?: string;
+}
+
+// Duplicate content errors as each platform words them
+const DUPLICATE_PATTERNS: Record<string, RegExp> = {
+  twitter: /duplicate content/i,
+  linkedin: /duplicate|already exists/i,
+  youtube: /duplicate/i,
+  instagram: /duplicate/i,
+};
+
+// 4xx responses that are really rate limits or quotas
+const RATE_LIMIT_PATTERNS: Record<string, RegExp> = {
+  youtube: /quotaExceeded|rateLimitExceeded|userRateLimitExceeded/i,
+  instagram: /request limit|too many calls|application request limit/i,
+};
+
+// 4xx responses that clear up on their own, such as a container still processing
+const TRANSIENT_PATTERNS: Record<string, RegExp> = {
+  instagram: /not ready|not available|being processed/i,
+};
+
+const TOKEN_PATTERN = /invalid[_ ]token|token (has )?expired|expired token|invalid access token|unauthorized/i;
+const NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_SOCKET']);
+
+// Rate limit waits past this are capped; the post is retried and may wait again
+const MAX_RETRY_AFTER_MS = 6 * 60 * 60 * 1000;
+
+export class PublishErrorClassifier {
+  /**
+   * Classifies a publish error for `platform` ('instagram_graphic' counts as
+   * Instagram). Errors from several target accounts are classified one by
+   * one: the post is retried if any of them can be, after the longest wait
+   * any platform asked for.
+   */
+  classify(platform: string, error: unknown): PublishErrorClassification {
+    const failures: PublishFailure[] = (error as any)?.targetErrors?.length
+      ? (error as any).targetErrors
+      : [error as PublishFailure];
+    const classified = failures.map(failure => this.classifyFailure(platform.replace(/_graphic$/, ''), failure || {}));
+
+    const retryable = classified.filter(classification => classification.retryable);
+    if (retryable.length === 0) {
+      return classified[0];
+    }
+
+    const waits = retryable.map(classification => classification.retryAfterMs).filter((ms): ms is number => ms !== undefined);
+    return {
+      ...retryable[0],
+      maxRetries: Math.max(...retryable.map(classification => classification.maxRetries)),
+      retryAfterMs: waits.length > 0 ? Math.max(...waits) : undefined,
+    };
+  }
+
+  /** Milliseconds until the platform accepts requests again, from `Retry-After` or its rate-limit headers */
+  retryAfter(platform: string, headers: Record<string, string> = {}, now: number = Date.now()): number | undefined {
+    const header = (name: string) => headers[name] ?? headers[name.toLowerCase()];
+    let wait: number | undefined;
+
+    const retryAfter = header('retry-after');
+    if (retryAfter) {
+      wait = /^\d+$/.test(retryAfter.trim())
+        ? parseInt(retryAfter, 10) * 1000
+        : new Date(retryAfter).getTime() - now;
+    } else if (platform === 'twitter' && header('x-rate-limit-reset')) {
+      // Epoch seconds when the window resets
+      wait = parseInt(header('x-rate-limit-reset'), 10) * 1000 - now;
+    } else if (platform === 'instagram' && header('x-business-use-case-usage')) {
+      // {"<id>": [{"estimated_time_to_regain_access": <minutes>, ...}]}
+      try {
+        const usage = JSON.parse(header('x-business-use-case-usage')) as Record<string, Array<{ estimated_time_to_regain_access?: number }>>;
+        const minutes = Object.values(usage).flat().map(entry => entry.estimated_time_to_regain_access || 0);
+        if (minutes.length > 0) wait = Math.max(...minutes) * 60 * 1000;
+      } catch {
+        wait = undefined;
+      }
+    }
+
+    if (wait === undefined || isNaN(wait)) return undefined;
+    return Math.min(MAX_RETRY_AFTER_MS, Math.max(0, wait));
+  }
+
+  private classifyFailure(platform: string, failure: PublishFailure): PublishErrorClassification {
+    const message = failure.message || '';
+    const status = failure.status;
+
+    if (failure.retryable === false) {
+      return this.result(failure.code || 'PLATFORM_CONTENT_REJECTED', false);
+    }
+    if (status === undefined) {
+      // No HTTP response: the request never reached the platform or the connection dropped
+      const network = NETWORK_CODES.has((failure as any).code) || (failure as any).name === 'TypeError' || /network|socket|timed? ?out/i.test(message);
+      return this.result(network ? 'UPLOAD_NETWORK_ERROR' : 'UNKNOWN_ERROR');
+    }
+
+    if (status === 429 || RATE_LIMIT_PATTERNS[platform]?.test(message)) {
+      return this.result('PLATFORM_RATE_LIMIT', undefined, this.retryAfter(platform, failure.headers));
+    }
+    if (status >= 500 || status === 408) {
+      return this.result('SERVER_ERROR', undefined, this.retryAfter(platform, failure.headers));
+    }
+    if (status === 401 || TOKEN_PATTERN.test(message)) {
+      return this.result('PLATFORM_TOKEN_EXPIRED');
+    }
+    if (DUPLICATE_PATTERNS[platform]?.test(message)) {
+      return this.result('PLATFORM_DUPLICATE_POST');
+    }
+    if (TRANSIENT_PATTERNS[platform]?.test(message)) {
+      return this.result('SERVER_ERROR');
+    }
+    return this.result('PLATFORM_CONTENT_REJECTED');
+  }
+
+  private result(code: string, retryable?: boolean, retryAfterMs?: number): PublishErrorClassification {
+    const errorInfo = ErrorRegistry.get(code) || ErrorRegistry.get('UNKNOWN_ERROR')!;
+    return {
+      code: errorInfo.code,
+      errorInfo,
+      retryable: retryable ?? errorInfo.isRetryable,
+      maxRetries: errorInfo.maxRetries ?? 0,
+      retryAfterMs,
+    };
+  }
+}
+
+export const publishErrorClassifier = new PublishErrorClassifier();
@@ -1,10 +1,12 @@
 import { Request, Response } from 'express';
 import type { IStorage } from './storage';
 import type { postingService } from './postingService';
+import type { queueManager } from './queueSystem';
 
 export interface PublishDeps {
   storage: IStorage;
   postingService: typeof postingService;
+  queueManager: Pick<typeof queueManager, 'cancelPost'>;
 }
 
 export function createPublishNowHandler(deps: PublishDeps) {
@@ -18,6 +20,8 @@ export function createPublishNowHandler(deps: PublishDeps) {
       if (!post) {
         return res.status(404).json({ message: 'Post not found' });
       }
+      // Drop the scheduled job so the post isn't published twice
+      await deps.queueManager.cancelPost(post);
       await deps.storage.updateSocialPost(postId, { scheduledFor: null });
       const result = await deps.postingService.publishPostById(postId);
       res.json({ success: true, result });
@@ -1,25 +1,43 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, UnrecoverableError } from 'bullmq';
 import IORedis from 'ioredis';
+import { storage } from './storage';
+import { publishErrorClassifier } from './publishErrorClassifier';
 import { SocialPost } from '@shared/schema';
 
 if (!process.env.REDIS_HOST || !process.env.REDIS_PORT) {
   throw new Error('REDIS_HOST and REDIS_PORT must be provided');
 }
 
-// Redis connection
-const redis = new IORedis({
+/**
+ * Post Scheduler
+ *
+ * The one place scheduled social posts are published from. Scheduling a post
+ * adds a delayed job to its platform's queue; rescheduling replaces the job
+ * and cancelling removes it. Jobs live in Redis so they survive restarts, and
+ * on start any scheduled post without a job is queued again. A failed publish
+ * is only retried when publishErrorClassifier says a later attempt can
+ * succeed, waiting as long as the platform asked. Posts that ran out of
+ * attempts stay as failed jobs: the dead-letter list users retry from.
+ */
+
+const redisOptions = {
   host: process.env.REDIS_HOST || 'localhost',
   port: parseInt(process.env.REDIS_PORT || '6379'),
-  maxRetriesPerRequest: 3,
-});
+};
+
+// Queue calls made while handling requests give up after one reconnect
+// attempt, so scheduling fails fast instead of hanging when Redis is down
+const queueRedis = new IORedis({ ...redisOptions, maxRetriesPerRequest: 1 });
+// BullMQ workers need blocking commands without a retry limit
+const workerRedis = new IORedis({ ...redisOptions, maxRetriesPerRequest: null });
 
-interface PlatformJobData {
+interface PostJobData {
   postId: string;
   platform: string;
-  content: SocialPost;
-  mediaUrls?: string[];
-  scheduledTime?: Date;
-  retryCount?: number;
+  // The schedule the job was queued for; a job whose post moved since is skipped
+  scheduledFor: string;
+  // ErrorRegistry code of the failure that ended the job
+  errorCode?: string;
 }
 
 interface QueueMetrics {
@@ -30,18 +48,41 @@ interface QueueMetrics {
   delayed: number;
 }
 
-// Platform-specific queue configuration
+export interface DeadLetterEntry {
+  jobId: string;
+  postId: string;
+  platform: string;
+  scheduledFor: string;
+  errorCode: string | null;
+  error: string;
+  attempts: number;
+  failedAt: string | null;
+}
+
+interface RetryPolicy {
+  // Upper bound; the error class's ErrorRegistry `maxRetries` usually stops
+  // sooner, except for rate limits
+  attempts: number;
+  // First backoff; doubles with each attempt unless the platform said how long to wait
+  backoffMs: number;
+}
+
+// X and Instagram rate-limit aggressively, so they wait longer between attempts
+const retryPolicies: Record<string, RetryPolicy> = {
+  youtube: { attempts: 5, backoffMs: 60 * 1000 },
+  tiktok: { attempts: 3, backoffMs: 60 * 1000 },
+  twitter: { attempts: 4, backoffMs: 5 * 60 * 1000 },
+  instagram: { attempts: 4, backoffMs: 5 * 60 * 1000 },
+  linkedin: { attempts: 3, backoffMs: 2 * 60 * 1000 },
+  facebook: { attempts: 3, backoffMs: 2 * 60 * 1000 },
+};
+
 const queueConfig = {
   defaultJobOptions: {
     removeOnComplete: 50,
-    removeOnFail: 20,
-    attempts: 3,
-    backoff: {
-      type: 'exponential',
-      delay: 2000,
-    },
+    removeOnFail: 100,
   },
-  connection: redis,
+  connection: queueRedis,
 };
 
 // Create platform-specific queues
@@ -54,150 +95,179 @@ export const platformQueues = {
   facebook: new Queue('post_facebook', queueConfig),
 };
 
+type QueuePlatform = keyof typeof platformQueues;
+
 export class QueueManager {
   private workers: Map<string, Worker> = new Map();
 
-  constructor() {
-    this.initializeWorkers();
-  }
+  /** Starts a worker per platform and queues scheduled posts that have no job */
+  async start(): Promise<void> {
+    for (const [platform, queue] of Object.entries(platformQueues)) {
+      const worker = new Worker(queue.name, async (job: Job<PostJobData>) => {
+        return this.processPost(job);
+      }, {
+        connection: workerRedis,
+        settings: {
+          // Wait as long as the platform asked, otherwise back off exponentially
+          backoffStrategy: (attemptsMade: number, _type?: string, err?: Error) =>
+            (err as any)?.retryAfterMs ?? retryPolicies[platform].backoffMs * 2 ** Math.max(0, attemptsMade - 1),
+        },
+      });
 
-  private initializeWorkers(): void {
-    // YouTube worker
-    const youtubeWorker = new Worker('post_youtube', async (job: Job<PlatformJobData>) => {
-      return this.processYouTubePost(job.data);
-    }, { connection: redis });
-
-    // TikTok worker
-    const tiktokWorker = new Worker('post_tiktok', async (job: Job<PlatformJobData>) => {
-      return this.processTikTokPost(job.data);
-    }, { connection: redis });
-
-    // Twitter/X worker
-    const twitterWorker = new Worker('post_x', async (job: Job<PlatformJobData>) => {
-      return this.processTwitterPost(job.data);
-    }, { connection: redis });
-
-    // Instagram worker
-    const instagramWorker = new Worker('post_instagram', async (job: Job<PlatformJobData>) => {
-      return this.processInstagramPost(job.data);
-    }, { connection: redis });
-
-    // LinkedIn worker
-    const linkedinWorker = new Worker('post_linkedin', async (job: Job<PlatformJobData>) => {
-      return this.processLinkedInPost(job.data);
-    }, { connection: redis });
-
-    // Facebook worker
-    const facebookWorker = new Worker('post_facebook', async (job: Job<PlatformJobData>) => {
-      return this.processFacebookPost(job.data);
-    }, { connection: redis });
-
-    // Store workers for cleanup
-    this.workers.set('youtube', youtubeWorker);
-    this.workers.set('tiktok', tiktokWorker);
-    this.workers.set('twitter', twitterWorker);
-    this.workers.set('instagram', instagramWorker);
-    this.workers.set('linkedin', linkedinWorker);
-    this.workers.set('facebook', facebookWorker);
-
-    // Set up error handling for all workers
-    this.workers.forEach((worker, platform) => {
       worker.on('completed', (job) => {
         console.log(`[QueueManager] ${platform} job ${job.id} completed successfully`);
       });
 
       worker.on('failed', (job, err) => {
-        console.error(`[QueueManager] ${platform} job ${job?.id} failed:`, err);
+        if (job) this.handleFailedJob(job, err);
       });
 
       worker.on('error', (err) => {
         console.error(`[QueueManager] ${platform} worker error:`, err);
       });
-    });
 
+      this.workers.set(platform, worker);
+    }
     console.log('[QueueManager] All platform workers initialized');
+
+    await this.restoreScheduledPosts();
   }
 
-  async schedulePost(
-    platform: string,
-    postData: PlatformJobData,
-    scheduledTime?: Date
-  ): Promise<string> {
-    const queue = platformQueues[platform as keyof typeof platformQueues];
-    if (!queue) {
-      throw new Error(`Unknown platform: ${platform}`);
+  /**
+   * Queues the post for its `scheduledFor` time, replacing a finished job for
+   * the same schedule. Overdue posts are published right away.
+   */
+  async schedulePost(post: SocialPost): Promise<string> {
+    if (!post.scheduledFor) {
+      throw new Error(`Post ${post.id} has no scheduled time`);
     }
 
-    const jobOptions: any = {
-      removeOnComplete: 10,
-      removeOnFail: 5,
-      attempts: 3,
-    };
+    const platform = queuePlatform(post.platform);
+    const queue = platformQueues[platform];
+    const jobId = postJobId(post);
 
-    // Schedule for future if scheduledTime provided
-    if (scheduledTime) {
-      const delay = scheduledTime.getTime() - Date.now();
-      if (delay > 0) {
-        jobOptions.delay = delay;
+    // Re-adding an existing job ID is a no-op, so a finished job must go first
+    const existing = await queue.getJob(jobId);
+    if (existing) {
+      const state = await existing.getState();
+      if (state !== 'completed' && state !== 'failed') {
+        return jobId;
       }
+      await existing.remove();
     }
 
-    const job = await queue.add(`${platform}_post`, postData, jobOptions);
-    
-    console.log(`[QueueManager] Scheduled ${platform} post with job ID: ${job.id}`);
-    return job.id!;
+    const policy = retryPolicies[platform];
+    const scheduledFor = new Date(post.scheduledFor);
+    await queue.add('publish_post', {
+      postId: post.id,
+      platform: post.platform,
+      scheduledFor: scheduledFor.toISOString(),
+    }, {
+      jobId,
+      delay: Math.max(0, scheduledFor.getTime() - Date.now()),
+      attempts: policy.attempts,
+      backoff: { type: 'publish' },
+    });
+
+    console.log(`[QueueManager] Scheduled ${post.platform} post ${post.id} for ${scheduledFor.toISOString()} (job ${jobId})`);
+    return jobId;
   }
 
-  async publishNow(platform: string, postData: PlatformJobData): Promise<string> {
-    const queue = platformQueues[platform as keyof typeof platformQueues];
-    if (!queue) {
-      throw new Error(`Unknown platform: ${platform}`);
+  /**
+   * Removes the job queued for the post's current schedule. A job that is
+   * already running can't be removed; it skips the post once it sees the
+   * post was cancelled or moved.
+   */
+  async cancelPost(post: SocialPost): Promise<boolean> {
+    if (!post.scheduledFor) return false;
+
+    const jobId = postJobId(post);
+    const job = await platformQueues[queuePlatform(post.platform)].getJob(jobId);
+    if (!job) return false;
+
+    try {
+      await job.remove();
+      console.log(`[QueueManager] Cancelled job ${jobId} for post ${post.id}`);
+      return true;
+    } catch (error) {
+      console.warn(`[QueueManager] Could not remove job ${jobId}, it will skip post ${post.id}:`, (error as Error).message);
+      return false;
     }
+  }
+
+  /**
+   * Brings the queue in line with a post whose status or schedule changed:
+   * `previous` is the post before the change. A scheduled post gets a job for
+   * its new time; any other post loses the job it had. Returns the job ID.
+   */
+  async syncPost(previous: SocialPost, post: SocialPost): Promise<string | null> {
+    await this.cancelPost(previous);
+    return post.status === 'scheduled' && post.scheduledFor ? await this.schedulePost(post) : null;
+  }
 
-    const job = await queue.add(`${platform}_post`, postData, { priority: 1 });
-    console.log(`[QueueManager] Immediately publishing ${platform} post with job ID: ${job.id}`);
-    return job.id!;
+  async getJob(platform: string, jobId: string): Promise<Job<PostJobData> | undefined> {
+    const queue = platformQueues[platform as QueuePlatform];
+    return queue ? await queue.getJob(jobId) : undefined;
   }
 
   async getQueueMetrics(platform: string): Promise<QueueMetrics> {
-    const queue = platformQueues[platform as keyof typeof platformQueues];
+    const queue = platformQueues[platform as QueuePlatform];
     if (!queue) {
       throw new Error(`Unknown platform: ${platform}`);
     }
 
-    const waiting = await queue.getWaiting();
-    const active = await queue.getActive();
-    const completed = await queue.getCompleted();
-    const failed = await queue.getFailed();
-    const delayed = await queue.getDelayed();
-
+    const counts = await queue.getJobCounts('waiting', 'active', 'completed', 'failed', 'delayed');
     return {
-      waiting: waiting.length,
-      active: active.length,
-      completed: completed.length,
-      failed: failed.length,
-      delayed: delayed.length,
+      waiting: counts.waiting || 0,
+      active: counts.active || 0,
+      completed: counts.completed || 0,
+      failed: counts.failed || 0,
+      delayed: counts.delayed || 0,
     };
   }
 
   async getAllQueueMetrics(): Promise<Record<string, QueueMetrics>> {
     const metrics: Record<string, QueueMetrics> = {};
-    
+
     for (const platform of Object.keys(platformQueues)) {
       metrics[platform] = await this.getQueueMetrics(platform);
     }
-    
+
     return metrics;
   }
 
-  async cancelJob(platform: string, jobId: string): Promise<boolean> {
-    const queue = platformQueues[platform as keyof typeof platformQueues];
-    if (!queue) {
-      return false;
+  /**
+   * Jobs that ran out of attempts or hit an error a retry can't fix, newest
+   * first. `postIds` limits the list to one user's posts.
+   */
+  async getDeadLetters(postIds?: Set<string>, limit: number = 50): Promise<DeadLetterEntry[]> {
+    const entries: DeadLetterEntry[] = [];
+
+    for (const queue of Object.values(platformQueues)) {
+      const jobs: Job<PostJobData>[] = await queue.getFailed(0, 99);
+      for (const job of jobs) {
+        if (postIds && !postIds.has(job.data.postId)) continue;
+        entries.push({
+          jobId: job.id!,
+          postId: job.data.postId,
+          platform: job.data.platform,
+          scheduledFor: job.data.scheduledFor,
+          errorCode: job.data.errorCode || null,
+          error: job.failedReason,
+          attempts: job.attemptsMade,
+          failedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+        });
+      }
     }
 
+    return entries
+      .sort((a, b) => (b.failedAt || '').localeCompare(a.failedAt || ''))
+      .slice(0, limit);
+  }
+
+  async cancelJob(platform: string, jobId: string): Promise<boolean> {
     try {
-      const job = await queue.getJob(jobId);
+      const job = await this.getJob(platform, jobId);
       if (job) {
         await job.remove();
         return true;
@@ -210,13 +280,8 @@ export class QueueManager {
   }
 
   async retryFailedJob(platform: string, jobId: string): Promise<boolean> {
-    const queue = platformQueues[platform as keyof typeof platformQueues];
-    if (!queue) {
-      return false;
-    }
-
     try {
-      const job = await queue.getJob(jobId);
+      const job = await this.getJob(platform, jobId);
       if (job && (await job.getState()) === 'failed') {
         await job.retry();
         return true;
@@ -228,152 +293,81 @@ export class QueueManager {
     }
   }
 
-  // Platform-specific posting implementations
-  private async processYouTubePost(data: PlatformJobData): Promise<any> {
-    console.log(`[QueueManager] Processing YouTube post: ${data.postId}`);
-    
-    try {
-      // Implement YouTube Resumable Upload
-      const uploadResult = await this.youtubeResumableUpload(data);
-      
-      // Update post status in database
-      await this.updatePostStatus(data.postId, 'published', uploadResult);
-      
-      return uploadResult;
-    } catch (error) {
-      console.error('[QueueManager] YouTube post failed:', error);
-      await this.updatePostStatus(data.postId, 'failed', { error: (error as Error).message });
-      throw error;
+  private async processPost(job: Job<PostJobData>): Promise<any> {
+    const post = await storage.getSocialPost(job.data.postId);
+    // Deleted, cancelled or moved since the job was queued
+    if (!post || !['scheduled', 'posting'].includes(post.status) ||
+        !post.scheduledFor || new Date(post.scheduledFor).toISOString() !== job.data.scheduledFor) {
+      console.log(`[QueueManager] Post ${job.data.postId} is no longer scheduled for ${job.data.scheduledFor}, skipping job ${job.id}`);
+      return { skipped: true };
     }
-  }
 
-  private async processTikTokPost(data: PlatformJobData): Promise<any> {
-    console.log(`[QueueManager] Processing TikTok post: ${data.postId}`);
-    
+    console.log(`[QueueManager] Publishing ${post.platform} post ${post.id} (attempt ${job.attemptsMade + 1})`);
+    const { postingService } = await import('./postingService');
     try {
-      // Implement TikTok multipart upload
-      const uploadResult = await this.tiktokMultipartUpload(data);
-      
-      await this.updatePostStatus(data.postId, 'published', uploadResult);
-      return uploadResult;
+      return await postingService.publishPostById(post.id);
     } catch (error) {
-      console.error('[QueueManager] TikTok post failed:', error);
-      await this.updatePostStatus(data.postId, 'failed', { error: (error as Error).message });
-      throw error;
-    }
-  }
+      const classification = publishErrorClassifier.classify(post.platform, error);
+      await job.updateData({ ...job.data, errorCode: classification.code });
 
-  private async processTwitterPost(data: PlatformJobData): Promise<any> {
-    console.log(`[QueueManager] Processing Twitter/X post: ${data.postId}`);
-    
-    try {
-      // Implement Twitter v2 API with chunked media upload
-      const uploadResult = await this.twitterChunkedUpload(data);
-      
-      await this.updatePostStatus(data.postId, 'published', uploadResult);
-      return uploadResult;
-    } catch (error) {
-      console.error('[QueueManager] Twitter post failed:', error);
-      await this.updatePostStatus(data.postId, 'failed', { error: (error as Error).message });
-      throw error;
-    }
-  }
-
-  private async processInstagramPost(data: PlatformJobData): Promise<any> {
-    console.log(`[QueueManager] Processing Instagram post: ${data.postId}`);
-    
-    try {
-      // Implement Instagram Graph API
-      const uploadResult = await this.instagramGraphUpload(data);
-      
-      await this.updatePostStatus(data.postId, 'published', uploadResult);
-      return uploadResult;
-    } catch (error) {
-      console.error('[QueueManager] Instagram post failed:', error);
-      await this.updatePostStatus(data.postId, 'failed', { error: (error as Error).message });
-      throw error;
+      // Rate limits clear with time, so only the platform's attempt limit applies to them
+      const retriesLeft = classification.code === 'PLATFORM_RATE_LIMIT' || job.attemptsMade < classification.maxRetries;
+      if (!classification.retryable || !retriesLeft) {
+        throw new UnrecoverableError((error as Error).message);
+      }
+      console.warn(`[QueueManager] ${classification.code} publishing post ${post.id}, will retry` +
+        (classification.retryAfterMs !== undefined ? ` in ${Math.ceil(classification.retryAfterMs / 1000)}s` : ''));
+      throw Object.assign(error as Error, { retryAfterMs: classification.retryAfterMs });
     }
   }
 
-  private async processLinkedInPost(data: PlatformJobData): Promise<any> {
-    console.log(`[QueueManager] Processing LinkedIn post: ${data.postId}`);
-    
-    try {
-      // Implement LinkedIn API v2
-      const uploadResult = await this.linkedinApiUpload(data);
-      
-      await this.updatePostStatus(data.postId, 'published', uploadResult);
-      return uploadResult;
-    } catch (error) {
-      console.error('[QueueManager] LinkedIn post failed:', error);
-      await this.updatePostStatus(data.postId, 'failed', { error: (error as Error).message });
-      throw error;
-    }
-  }
+  /**
+   * Puts a post that will be retried back to `scheduled`; once no attempts
+   * are left, or the error isn't retryable, the post is marked failed.
+   */
+  private async handleFailedJob(job: Job<PostJobData>, error: Error): Promise<void> {
+    const finalAttempt = error instanceof UnrecoverableError || job.attemptsMade >= (job.opts.attempts || 1);
 
-  private async processFacebookPost(data: PlatformJobData): Promise<any> {
-    console.log(`[QueueManager] Processing Facebook post: ${data.postId}`);
-    
     try {
-      // Implement Facebook Graph API
-      const uploadResult = await this.facebookGraphUpload(data);
-      
-      await this.updatePostStatus(data.postId, 'published', uploadResult);
-      return uploadResult;
-    } catch (error) {
-      console.error('[QueueManager] Facebook post failed:', error);
-      await this.updatePostStatus(data.postId, 'failed', { error: (error as Error).message });
-      throw error;
+      const post = await storage.getSocialPost(job.data.postId);
+      if (!post) return;
+
+      if (finalAttempt) {
+        console.error(`[QueueManager] ${post.platform} post ${post.id} failed after ${job.attemptsMade} attempts:`, error.message);
+        const { postingService } = await import('./postingService');
+        await postingService.handlePublishingError(post, error, job.data.errorCode);
+      } else {
+        console.warn(`[QueueManager] ${post.platform} post ${post.id} failed, retrying:`, error.message);
+        await storage.updateSocialPostStatus(post.id, 'scheduled');
+      }
+    } catch (updateError) {
+      console.error(`[QueueManager] Error recording failure of job ${job.id}:`, updateError);
     }
   }
 
-  // Chunked upload implementations
-  private async youtubeResumableUpload(data: PlatformJobData): Promise<any> {
-    // Implement YouTube Resumable Upload protocol
-    // This would use the YouTube Data API v3 with resumable upload
-    console.log('[QueueManager] YouTube resumable upload simulation');
-    return { videoId: `yt_${Date.now()}`, platform: 'youtube' };
-  }
-
-  private async tiktokMultipartUpload(data: PlatformJobData): Promise<any> {
-    // Implement TikTok multipart upload
-    console.log('[QueueManager] TikTok multipart upload simulation');
-    return { videoId: `tt_${Date.now()}`, platform: 'tiktok' };
-  }
+  /** Queues scheduled posts whose job is missing, e.g. scheduled while Redis was unavailable */
+  private async restoreScheduledPosts(): Promise<void> {
+    const posts = await storage.getScheduledSocialPosts();
+    let restored = 0;
 
-  private async twitterChunkedUpload(data: PlatformJobData): Promise<any> {
-    // Implement Twitter INIT/APPEND/FINALIZE upload flow
-    console.log('[QueueManager] Twitter chunked upload simulation');
-    return { tweetId: `tw_${Date.now()}`, platform: 'twitter' };
-  }
-
-  private async instagramGraphUpload(data: PlatformJobData): Promise<any> {
-    // Implement Instagram Graph API upload
-    console.log('[QueueManager] Instagram Graph API upload simulation');
-    return { mediaId: `ig_${Date.now()}`, platform: 'instagram' };
-  }
-
-  private async linkedinApiUpload(data: PlatformJobData): Promise<any> {
-    // Implement LinkedIn API v2 upload
-    console.log('[QueueManager] LinkedIn API upload simulation');
-    return { postId: `li_${Date.now()}`, platform: 'linkedin' };
-  }
-
-  private async facebookGraphUpload(data: PlatformJobData): Promise<any> {
-    // Implement Facebook Graph API upload
-    console.log('[QueueManager] Facebook Graph API upload simulation');
-    return { postId: `fb_${Date.now()}`, platform: 'facebook' };
-  }
+    for (const post of posts) {
+      try {
+        const job = await platformQueues[queuePlatform(post.platform)].getJob(postJobId(post));
+        if (!job) {
+          await this.schedulePost(post);
+          restored++;
+        }
+      } catch (error) {
+        console.error(`[QueueManager] Failed to restore job for post ${post.id}:`, error);
+      }
+    }
 
-  private async updatePostStatus(postId: string, status: string, result?: any): Promise<void> {
-    // Update post status in database
-    console.log(`[QueueManager] Updating post ${postId} status to ${status}`);
-    // This would integrate with your storage system
+    console.log(`[QueueManager] ${posts.length} scheduled posts, ${restored} queued on start`);
   }
 
   async cleanup(): Promise<void> {
     console.log('[QueueManager] Shutting down workers...');
-    
+
     for (const [platform, worker] of this.workers) {
       try {
         await worker.close();
@@ -382,10 +376,24 @@ export class QueueManager {
         console.error(`[QueueManager] Error shutting down ${platform} worker:`, error);
       }
     }
-    
-    await redis.quit();
+
+    await Promise.all([queueRedis.quit(), workerRedis.quit()]);
     console.log('[QueueManager] Queue system cleanup complete');
   }
 }
 
-export const queueManager = new QueueManager();
\ No newline at end of file
+// Job IDs include the schedule so a job still running for an old time never blocks the new one
+function postJobId(post: SocialPost): string {
+  return `post-${post.id}-${new Date(post.scheduledFor!).getTime()}`;
+}
+
+// 'instagram_graphic' posts go through the Instagram queue
+function queuePlatform(platform: string): QueuePlatform {
+  const base = platform.replace(/_graphic$/, '');
+  if (!(base in platformQueues)) {
+    throw new Error(`Unknown platform: ${platform}`);
+  }
+  return base as QueuePlatform;
+}
+
+export const queueManager = new QueueManager();
@@ -0,0 +1,251 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+/**
+ * Reframing Service
+ *
+ * Finds where the subject sits in a landscape clip so vertical shorts can
+ * follow them instead of taking a fixed centre crop. Detection is CPU-only:
+ * frames are sampled at low resolution and scored per column by skin tone
+ * (YCbCr range) and frame-to-frame motion, which together pick out faces and
+ * whoever is talking or gesturing. The per-sample positions are smoothed into
+ * a crop path that FFmpeg follows through `sendcmd`.
+ */
+
+export interface SubjectTrack {
+  sampleWidth: number;
+  sampleHeight: number;
+  sampleFps: number;
+  // Activity per column / row for each sampled frame
+  columns: Float32Array[];
+  rows: Float32Array[];
+}
+
+export interface CropKeyframe {
+  time: number; // seconds from clip start
+  center: number; // 0-1 horizontal centre of the crop window
+}
+
+export interface SplitScreenLayout {
+  // 0-1 horizontal centres of the two subjects (left panel on top)
+  top: number;
+  bottom: number;
+  // 0-1 vertical centre of the subjects, shared by both panels
+  verticalCenter: number;
+}
+
+const SAMPLE_WIDTH = 192;
+const SAMPLE_FPS = 2;
+const SKIN_WEIGHT = 1;
+const MOTION_WEIGHT = 3;
+// Luma change (0-1) below this is sensor noise rather than movement
+const MOTION_THRESHOLD = 0.06;
+// Minimum share of the crop window that must be "active" to trust a sample
+const MIN_ACTIVITY = 0.02;
+// Crop only moves once the subject drifts this far (fraction of frame width)
+const DEAD_ZONE = 0.04;
+// Fastest the crop may pan, in frame widths per second
+const MAX_PAN_SPEED = 0.25;
+const MEDIAN_RADIUS = 2;
+const COMMAND_RATE = 10;
+
+export class ReframingService {
+  /** Samples frames of the clip and scores where subjects are */
+  async analyze(
+    videoPath: string,
+    startTime: number,
+    duration: number,
+    source: { width: number; height: number }
+  ): Promise<SubjectTrack> {
+    const sampleWidth = SAMPLE_WIDTH;
+    const sampleHeight = Math.max(2, Math.round((SAMPLE_WIDTH * source.height) / source.width / 2) * 2);
+    const frameSize = sampleWidth * sampleHeight * 3;
+
+    const raw = await new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const stream = ffmpeg(videoPath)
+        .seekInput(startTime)
+        .duration(duration)
+        .noAudio()
+        .outputOptions([
+          '-vf', `fps=${SAMPLE_FPS},scale=${sampleWidth}:${sampleHeight}`,
+          '-pix_fmt', 'rgb24',
+          '-f', 'rawvideo',
+        ])
+        .on('error', err => reject(err))
+        .pipe();
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+      stream.on('error', reject);
+    });
+
+    const track: SubjectTrack = { sampleWidth, sampleHeight, sampleFps: SAMPLE_FPS, columns: [], rows: [] };
+    let previousLuma: Float32Array | null = null;
+
+    for (let offset = 0; offset + frameSize <= raw.length; offset += frameSize) {
+      const columns = new Float32Array(sampleWidth);
+      const rows = new Float32Array(sampleHeight);
+      const luma = new Float32Array(sampleWidth * sampleHeight);
+
+      for (let y = 0; y < sampleHeight; y++) {
+        for (let x = 0; x < sampleWidth; x++) {
+          const i = y * sampleWidth + x;
+          const r = raw[offset + i * 3];
+          const g = raw[offset + i * 3 + 1];
+          const b = raw[offset + i * 3 + 2];
+
+          const lum = 0.299 * r + 0.587 * g + 0.114 * b;
+          const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+          const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+          luma[i] = lum;
+
+          const skin = cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173 ? SKIN_WEIGHT : 0;
+          const change = previousLuma ? Math.abs(lum - previousLuma[i]) / 255 : 0;
+          const motion = change > MOTION_THRESHOLD ? change * MOTION_WEIGHT : 0;
+
+          const score = skin + motion;
+          columns[x] += score;
+          rows[y] += score;
+        }
+      }
+
+      track.columns.push(columns);
+      track.rows.push(rows);
+      previousLuma = luma;
+    }
+
+    console.log(`[ReframingService] Analyzed ${track.columns.length} frames of ${videoPath}`);
+    return track;
+  }
+
+  /**
+   * Smoothed horizontal crop path for a window covering `cropRatio` of the
+   * frame width: strongest window per sample, median-filtered, then panned
+   * with a dead zone and a speed limit so the camera does not jitter.
+   */
+  computeCropPath(track: SubjectTrack, cropRatio: number): CropKeyframe[] {
+    const windowPx = Math.max(1, Math.round(cropRatio * track.sampleWidth));
+    const raw = track.columns.map(columns => this.bestWindowCenter(columns, windowPx, track.sampleHeight));
+
+    // Hold the last confident position through quiet samples
+    const firstKnown = raw.find(center => center !== null) ?? 0.5;
+    let last = firstKnown;
+    const filled = raw.map(center => (center === null ? last : (last = center)));
+
+    const filtered = filled.map((_, i) => {
+      const window = filled.slice(Math.max(0, i - MEDIAN_RADIUS), i + MEDIAN_RADIUS + 1).sort((a, b) => a - b);
+      return window[Math.floor(window.length / 2)];
+    });
+
+    const step = 1 / track.sampleFps;
+    const maxMove = MAX_PAN_SPEED * step;
+    const half = cropRatio / 2;
+    let position = filtered[0] ?? 0.5;
+
+    return filtered.map((target, i) => {
+      const distance = target - position;
+      if (Math.abs(distance) > DEAD_ZONE) {
+        position += Math.sign(distance) * Math.min(Math.abs(distance), maxMove);
+      }
+      position = Math.min(1 - half, Math.max(half, position));
+      return { time: i * step, center: position };
+    });
+  }
+
+  /**
+   * Two subjects for split-screen: the strongest region in each half of the
+   * frame (interview layouts rarely move, so one position per clip).
+   */
+  findSplitSubjects(track: SubjectTrack, panelRatio: number): SplitScreenLayout {
+    const width = track.sampleWidth;
+    const totals = new Float32Array(width);
+    const rowTotals = new Float32Array(track.sampleHeight);
+    track.columns.forEach(columns => columns.forEach((value, x) => { totals[x] += value; }));
+    track.rows.forEach(rows => rows.forEach((value, y) => { rowTotals[y] += value; }));
+
+    const half = Math.floor(width / 2);
+    const centroid = (from: number, to: number, fallback: number) => {
+      let sum = 0;
+      let weighted = 0;
+      for (let x = from; x < to; x++) {
+        sum += totals[x];
+        weighted += totals[x] * x;
+      }
+      return sum > 0 ? (weighted / sum + 0.5) / width : fallback;
+    };
+
+    let rowSum = 0;
+    let rowWeighted = 0;
+    rowTotals.forEach((value, y) => {
+      rowSum += value;
+      rowWeighted += value * y;
+    });
+
+    const clampCenter = (center: number) => Math.min(1 - panelRatio / 2, Math.max(panelRatio / 2, center));
+    return {
+      top: clampCenter(centroid(0, half, 0.25)),
+      bottom: clampCenter(centroid(half, width, 0.75)),
+      verticalCenter: rowSum > 0 ? (rowWeighted / rowSum + 0.5) / track.sampleHeight : 0.5,
+    };
+  }
+
+  /**
+   * FFmpeg `sendcmd` script driving the `x` of the crop filter. Positions are
+   * interpolated between keyframes so pans are smooth rather than stepped.
+   */
+  buildSendCmd(path: CropKeyframe[], scaledWidth: number, cropWidth: number): string {
+    const toX = (center: number) =>
+      Math.min(scaledWidth - cropWidth, Math.max(0, Math.round(center * scaledWidth - cropWidth / 2)));
+
+    const lines: string[] = [];
+    let previousX: number | null = null;
+
+    for (let i = 0; i < path.length; i++) {
+      const current = path[i];
+      const next = path[i + 1] || current;
+      const span = next.time - current.time;
+      const steps = span > 0 ? Math.max(1, Math.round(span * COMMAND_RATE)) : 1;
+
+      for (let s = 0; s < steps; s++) {
+        const fraction = s / steps;
+        const x = toX(current.center + (next.center - current.center) * fraction);
+        if (x !== previousX) {
+          lines.push(`${(current.time + span * fraction).toFixed(2)} crop x ${x};`);
+          previousX = x;
+        }
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  getInitialX(path: CropKeyframe[], scaledWidth: number, cropWidth: number): number {
+    const center = path[0]?.center ?? 0.5;
+    return Math.min(scaledWidth - cropWidth, Math.max(0, Math.round(center * scaledWidth - cropWidth / 2)));
+  }
+
+  private bestWindowCenter(columns: Float32Array, windowPx: number, height: number): number | null {
+    const width = columns.length;
+    if (windowPx >= width) return 0.5;
+
+    let sum = 0;
+    for (let x = 0; x < windowPx; x++) sum += columns[x];
+
+    let best = sum;
+    let bestStart = 0;
+    for (let start = 1; start + windowPx <= width; start++) {
+      sum += columns[start + windowPx - 1] - columns[start - 1];
+      if (sum > best) {
+        best = sum;
+        bestStart = start;
+      }
+    }
+
+    if (best < MIN_ACTIVITY * windowPx * height) return null;
+    return (bestStart + windowPx / 2) / width;
+  }
+}
+
+export const reframingService = new ReframingService();
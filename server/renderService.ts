@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+// @ts-ignore optional dependency
+import type { Browser } from 'playwright';
+
+/**
+ * Render Service
+ *
+ * Renders HTML (quote graphics, thumbnails) to images with a headless
+ * Chromium that is launched once and reused across renders, and persists the
+ * result to Supabase Storage when it is configured or to local disk
+ * (`generated/`, served to the owner at `/generated`) otherwise.
+ */
+
+export type ImageFormat = 'png' | 'webp';
+
+export interface RenderOptions {
+  width: number;
+  height: number;
+  format?: ImageFormat;
+  quality?: number; // 0-100, WebP only
+}
+
+export interface PersistedImage {
+  url: string;
+  // Local file path when stored on disk
+  filePath: string | null;
+  storage: 'supabase' | 'local';
+  size: number;
+  contentType: string;
+}
+
+export const GENERATED_DIR = path.join(process.cwd(), 'generated');
+
+// Fonts loaded from the web get this long before the screenshot is taken anyway
+const FONT_LOAD_TIMEOUT_MS = 5000;
+
+export class RenderService {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.isConnected()) {
+      return this.browser;
+    }
+
+    // Concurrent renders share a single launch
+    if (!this.launching) {
+      this.launching = (async () => {
+        let chromium;
+        try {
+          // @ts-ignore optional dependency
+          ({ chromium } = await import('playwright'));
+        } catch {
+          throw new Error('Image rendering requires the optional "playwright" package (npm install playwright && npx playwright install chromium)');
+        }
+
+        const browser: Browser = await chromium.launch({ args: ['--no-sandbox', '--disable-dev-shm-usage'] });
+        browser.on('disconnected', () => {
+          this.browser = null;
+        });
+        console.log('[RenderService] Launched headless browser');
+        return browser;
+      })();
+    }
+
+    try {
+      this.browser = await this.launching;
+      return this.browser;
+    } finally {
+      this.launching = null;
+    }
+  }
+
+  /** Screenshot of `html` at exactly width x height */
+  async renderHtml(html: string, options: RenderOptions): Promise<Buffer> {
+    const browser = await this.getBrowser();
+    const page = await browser.newPage({
+      viewport: { width: options.width, height: options.height },
+    });
+
+    try {
+      await page.setContent(html, { waitUntil: 'load' });
+      await Promise.race([
+        page.evaluate(() => (document as any).fonts?.ready),
+        new Promise(resolve => setTimeout(resolve, FONT_LOAD_TIMEOUT_MS)),
+      ]);
+
+      const clip = { x: 0, y: 0, width: options.width, height: options.height };
+      if (options.format === 'webp') {
+        // Playwright only exposes PNG/JPEG; Chromium captures WebP directly
+        const session = await page.context().newCDPSession(page);
+        const { data } = await session.send('Page.captureScreenshot', {
+          format: 'webp',
+          quality: options.quality ?? 90,
+          clip: { ...clip, scale: 1 },
+        });
+        return Buffer.from(data, 'base64');
+      }
+
+      return await page.screenshot({ type: 'png', clip });
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Stores a rendered image under `folder`, in a folder of the user it
+   * belongs to. Falls back to local disk when Supabase is not configured or
+   * the upload fails; local images are only served to their owner.
+   */
+  async persist(buffer: Buffer, fileName: string, folder: string, ownerId: string): Promise<PersistedImage> {
+    const contentType = fileName.endsWith('.webp') ? 'image/webp' : 'image/png';
+
+    if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      try {
+        const { storageService } = await import('./supabaseStorage');
+        const file = await storageService.uploadFile(buffer, fileName, {
+          path: `generated/${folder}/${ownerId}`,
+          contentType,
+          upsert: true,
+        });
+        return { url: file.url, filePath: null, storage: 'supabase', size: buffer.length, contentType };
+      } catch (error) {
+        console.error('[RenderService] Supabase upload failed, saving to disk instead:', error);
+      }
+    }
+
+    const dir = path.join(GENERATED_DIR, folder, ownerId);
+    await fs.mkdir(dir, { recursive: true });
+    const filePath = path.join(dir, fileName);
+    await fs.writeFile(filePath, buffer);
+
+    return { url: `/generated/${folder}/${ownerId}/${fileName}`, filePath, storage: 'local', size: buffer.length, contentType };
+  }
+
+  async close(): Promise<void> {
+    if (this.browser) {
+      await this.browser.close();
+      this.browser = null;
+    }
+  }
+}
+
+export const renderService = new RenderService();
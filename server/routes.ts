@@ -1,13 +1,34 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { isAuthenticated } from "./supabaseAuth";
 import { fileUpload, processFile } from "./fileHandler";
 // import { insertUploadSchema } from "@shared/schema";
+import { threadPartsFor } from "@shared/thread";
+import {
+  audioSettingsSchema,
+  audiogramSettingsSchema,
+  brollTimelineSchema,
+  graphicTemplateDefinitionSchema,
+  insertGraphicTemplateSchema,
+  postTargetsSchema,
+  postMediaSchema,
+  segmentationSettingsSchema,
+  shortsConfigSchema,
+  socialPostStatusSchema,
+  transcriptionSettingsSchema,
+  updateBrollAssetSchema,
+  viralitySettingsSchema,
+  vocabularySchema,
+  type Clip,
+  type Segment,
+} from "@shared/schema";
 import { featureFlagService } from "./featureFlagService";
 import { errorHandler, createErrorResponse } from "./errorHandler";
 import { progressTracker } from "./progressTracker";
 import previewRoutes from "./previewRoutes";
+import { GENERATED_DIR } from "./renderService";
+import { signedUrls } from "./signedUrls";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -41,9 +62,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ message: 'API is working', timestamp: new Date().toISOString() });
   });
 
-  // Preview routes
+  // Preview routes; the streaming routes check upload ownership or a signed URL themselves
   app.use('/api/preview', previewRoutes);
 
+  // Rendered graphics stored on local disk (when Supabase Storage is not configured),
+  // one folder per owner. Platforms fetching post media get a signed URL instead.
+  app.get('/generated/:folder/:ownerId/:fileName', (req: any, res, next) => {
+    if (signedUrls.verify(req)) return next();
+    isAuthenticated(req, res, () => {
+      if (req.user.id !== req.params.ownerId) {
+        return res.status(404).json({ message: 'Not found' });
+      }
+      next();
+    });
+  }, (req, res) => {
+    const { folder, ownerId, fileName } = req.params;
+    if (![folder, ownerId, fileName].every(part => /^[\w-][\w.-]*$/.test(part))) {
+      return res.status(404).json({ message: 'Not found' });
+    }
+    res.sendFile(path.join(folder, ownerId, fileName), { root: GENERATED_DIR }, error => {
+      if (error && !res.headersSent) res.status(404).json({ message: 'Not found' });
+    });
+  });
+
   // Auth routes (handled by supabaseAuth.ts)
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -160,6 +201,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Uploads made into a workspace pick up its settings (e.g. transcription provider)
+      const workspaceId = req.body.workspaceId || null;
+      if (workspaceId) {
+        const { userManagementService } = await import('./userManagementService');
+        const canUpload = await userManagementService.checkPermission(userId, workspaceId, 'content.create');
+        if (!canUpload) {
+          return res.status(403).json({
+            success: false,
+            error: {
+              code: 'WORKSPACE_ACCESS_DENIED',
+              message: 'You do not have permission to upload to this workspace.',
+              recoverySteps: ['Ask a workspace admin for content permissions', 'Upload without selecting a workspace'],
+              isRetryable: false
+            }
+          });
+        }
+      }
+
+      // Optional segmentation settings sent as multipart form fields
+      const segmentationSettings = segmentationSettingsSchema.safeParse({
+        mode: req.body.segmentationMode || undefined,
+        maxSegments: req.body.maxSegments ? Number(req.body.maxSegments) : undefined,
+        order: req.body.segmentOrder || undefined,
+      });
+      if (!segmentationSettings.success) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_SEGMENTATION_SETTINGS',
+            message: 'Invalid segmentation settings: ' + segmentationSettings.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+            recoverySteps: ['Use segmentationMode auto, single or chunked', 'Use maxSegments between 3 and 50', 'Use segmentOrder chronological or score'],
+            isRetryable: false
+          }
+        });
+      }
+
       // Create upload record
       const uploadData = {
         userId,
@@ -168,6 +245,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         filePath: file.path,
         fileSize: file.size,
         mimeType: file.mimetype,
+        workspaceId,
+        segmentationSettings: segmentationSettings.data,
         status: 'uploaded',
       };
 
@@ -229,6 +308,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const segments = await storage.getSegmentsByUploadId(upload.id);
       const clips = await storage.getClipsByUploadId(upload.id);
       const socialPosts = await storage.getSocialPostsByUploadId(upload.id);
+      const checkpoints = await storage.getProcessingCheckpoints(upload.id);
+      const speakers = await storage.getSpeakersByUploadId(upload.id);
 
       res.json({
         ...upload,
@@ -236,6 +317,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         segments,
         clips,
         socialPosts,
+        checkpoints,
+        speakers,
       });
     } catch (error) {
       console.error('Error fetching upload:', error);
@@ -262,6 +345,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download the rendered file of a clip (e.g. the MP4 of a vertical short).
+  // Platforms fetching post media get a signed URL instead.
+  app.get('/api/clips/:id/file', (req: any, res, next) => {
+    if (signedUrls.verify(req)) return next();
+    isAuthenticated(req, res, next);
+  }, async (req: any, res) => {
+    try {
+      const signed = signedUrls.verify(req);
+      const clip = await storage.getClip(req.params.id);
+      const segment = clip ? await storage.getSegment(clip.segmentId) : null;
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+      if (!clip || !upload || (!signed && upload.userId !== req.user.id)) {
+        return res.status(404).json({ message: 'Clip not found' });
+      }
+
+      if (!clip.filePath || !fs.existsSync(clip.filePath)) {
+        return res.status(404).json({ message: 'Clip has no rendered file', status: clip.status });
+      }
+
+      res.download(clip.filePath, path.basename(clip.filePath));
+    } catch (error) {
+      console.error('Error downloading clip:', error);
+      res.status(500).json({ message: 'Failed to download clip' });
+    }
+  });
+
+  // Retry rendering a single vertical short or audiogram without re-running the whole stage
+  app.post('/api/clips/:id/render', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const clip = await storage.getClip(req.params.id);
+      const segment = clip ? await storage.getSegment(clip.segmentId) : null;
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+      if (!clip || !segment || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Clip not found' });
+      }
+
+      const { renderVerticalShort, renderAudiogram, isVideoUpload, isAudioUpload } = await import('./processors/clipGeneration');
+      const isShort = clip.type === 'vertical_short' && isVideoUpload(upload);
+      const isAudiogram = clip.type === 'audiogram' && isAudioUpload(upload);
+      if (!isShort && !isAudiogram) {
+        return res.status(400).json({ message: 'Only vertical shorts of video uploads and audiograms of audio uploads can be rendered' });
+      }
+      if (clip.status === 'processing') {
+        return res.status(409).json({ message: 'Clip is already rendering' });
+      }
+
+      (isShort ? renderVerticalShort(clip, segment, upload) : renderAudiogram(clip, segment, upload)).catch(error => {
+        console.error(`Clip render error for ${clip.id}:`, error);
+      });
+
+      res.json({ message: 'Rendering started', clipId: clip.id });
+    } catch (error) {
+      console.error('Error starting clip render:', error);
+      res.status(500).json({ message: 'Failed to start clip render' });
+    }
+  });
+
   // Analytics routes
   app.get('/api/analytics/stats', isAuthenticated, async (req: any, res) => {
     try {
@@ -620,10 +761,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/graphics/quotes/:segmentId', isAuthenticated, async (req: any, res) => {
     try {
       const { segmentId } = req.params;
-      const { branding } = req.body;
+      const { branding, format, templateId, platform } = req.body;
+      const userId = req.user.id;
+
+      const segment = await storage.getSegment(segmentId);
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+      if (!segment || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+      if (format !== undefined && format !== 'png' && format !== 'webp') {
+        return res.status(400).json({ message: 'Format must be png or webp' });
+      }
       
+      // Fall back to the workspace brand kit so graphics match the video branding
+      const { brandKitService } = await import('./brandKitService');
+      const brandKit = branding ? null : await brandKitService.getRenderBrandKit(upload.workspaceId);
+      const kitBranding = brandKit ? await brandKitService.getGraphicsBranding(brandKit) : undefined;
+
       const { graphicsService } = await import('./graphicsService');
-      const result = await graphicsService.processSegmentForGraphics(segmentId, branding);
+      const result = await graphicsService.processSegmentForGraphics(segmentId, branding || kitBranding, { format, templateId, platform, userId });
       
       res.json(result);
     } catch (error) {
@@ -634,8 +790,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/graphics/templates', isAuthenticated, async (req: any, res) => {
     try {
-      const { graphicsService } = await import('./graphicsService');
-      const templates = await graphicsService.getAvailableTemplates();
+      const userId = req.user.id;
+      const kind = req.query.kind;
+      if (kind !== undefined && kind !== 'quote' && kind !== 'thumbnail') {
+        return res.status(400).json({ message: 'Kind must be quote or thumbnail' });
+      }
+
+      const { graphicTemplateService } = await import('./graphicTemplates');
+      const templates = await graphicTemplateService.listTemplates(userId, kind);
       
       res.json(templates);
     } catch (error) {
@@ -646,18 +808,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/graphics/templates', isAuthenticated, async (req: any, res) => {
     try {
-      const templateData = req.body;
+      const userId = req.user.id;
+      const parsed = insertGraphicTemplateSchema.safeParse({ ...req.body, userId });
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid template', errors: parsed.error.errors });
+      }
       
-      const { graphicsService } = await import('./graphicsService');
-      const templateId = await graphicsService.createCustomTemplate(templateData);
+      const { graphicTemplateService } = await import('./graphicTemplates');
+      const template = await graphicTemplateService.createTemplate(userId, parsed.data);
       
-      res.json({ templateId });
+      res.status(201).json(template);
     } catch (error) {
       console.error('Error creating template:', error);
       res.status(500).json({ message: 'Failed to create template' });
     }
   });
 
+  // Renders an unsaved definition with sample data, for the template editor
+  app.post('/api/graphics/templates/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const { kind = 'quote', definition, variables, platform, format = 'png' } = req.body;
+      if (kind !== 'quote' && kind !== 'thumbnail') {
+        return res.status(400).json({ message: 'Kind must be quote or thumbnail' });
+      }
+      if (format !== 'png' && format !== 'webp') {
+        return res.status(400).json({ message: 'Format must be png or webp' });
+      }
+      const parsed = graphicTemplateDefinitionSchema.safeParse(definition);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid template definition', errors: parsed.error.errors });
+      }
+
+      const { graphicTemplateService } = await import('./graphicTemplates');
+      const preview = await graphicTemplateService.renderPreview(parsed.data, kind, variables, { platform, format });
+
+      res.setHeader('Content-Type', `image/${preview.format}`);
+      res.send(preview.buffer);
+    } catch (error) {
+      console.error('Error rendering template preview:', error);
+      res.status(500).json({ message: 'Failed to render template preview' });
+    }
+  });
+
+  app.get('/api/graphics/templates/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { graphicTemplateService } = await import('./graphicTemplates');
+      const template = await graphicTemplateService.getTemplate(req.params.id, userId, req.query.kind);
+
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+
+      res.json(template);
+    } catch (error) {
+      console.error('Error fetching template:', error);
+      res.status(500).json({ message: 'Failed to fetch template' });
+    }
+  });
+
+  app.post('/api/graphics/templates/:id/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { kind, variables, platform, format = 'png' } = req.body;
+      if (format !== 'png' && format !== 'webp') {
+        return res.status(400).json({ message: 'Format must be png or webp' });
+      }
+
+      const { graphicTemplateService } = await import('./graphicTemplates');
+      const template = await graphicTemplateService.getTemplate(req.params.id, userId, kind);
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+
+      const preview = await graphicTemplateService.renderPreview(template.definition, template.kind, variables, { platform, format });
+
+      res.setHeader('Content-Type', `image/${preview.format}`);
+      res.send(preview.buffer);
+    } catch (error) {
+      console.error('Error rendering template preview:', error);
+      res.status(500).json({ message: 'Failed to render template preview' });
+    }
+  });
+
+  app.put('/api/graphics/templates/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { graphicTemplateService } = await import('./graphicTemplates');
+      const template = await graphicTemplateService.getTemplate(req.params.id, userId);
+
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (template.builtIn) {
+        return res.status(403).json({ message: 'Built-in templates cannot be modified' });
+      }
+
+      const parsed = insertGraphicTemplateSchema.pick({ name: true, definition: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid template', errors: parsed.error.errors });
+      }
+
+      const updated = await graphicTemplateService.updateTemplate(template.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating template:', error);
+      res.status(500).json({ message: 'Failed to update template' });
+    }
+  });
+
+  app.delete('/api/graphics/templates/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { graphicTemplateService } = await import('./graphicTemplates');
+      const template = await graphicTemplateService.getTemplate(req.params.id, userId);
+
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      if (template.builtIn) {
+        return res.status(403).json({ message: 'Built-in templates cannot be deleted' });
+      }
+
+      await graphicTemplateService.deleteTemplate(template.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      res.status(500).json({ message: 'Failed to delete template' });
+    }
+  });
+
   // User management routes
   app.get('/api/workspaces', isAuthenticated, async (req: any, res) => {
     try {
@@ -718,6 +998,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!hasPermission) {
         return res.status(403).json({ message: 'Insufficient permissions' });
       }
+
+      // Transcription settings end up in the arguments of the local Whisper
+      // process, so only validated values are stored
+      if (updates.settings?.transcription !== undefined) {
+        const parsed = transcriptionSettingsSchema.safeParse(updates.settings.transcription);
+        if (!parsed.success) {
+          return res.status(400).json({ message: 'Invalid transcription settings', errors: parsed.error.errors });
+        }
+        updates.settings = { ...updates.settings, transcription: parsed.data };
+      }
       
       await userManagementService.updateWorkspace(id, updates);
       res.json({ success: true });
@@ -926,17 +1216,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/content/thumbnail/:segmentId', isAuthenticated, async (req: any, res) => {
     try {
       const { segmentId } = req.params;
-      const { templateId } = req.body;
+      const { templateId, platform } = req.body;
+      const userId = req.user.id;
       
       const { contentGenerators } = await import('./contentGenerators');
-      const segments = await storage.getSegmentsByUploadId(segmentId);
-      const segment = segments.find(s => s.id === segmentId) || segments[0];
+      const segment = await storage.getSegment(segmentId);
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
       
-      if (!segment) {
+      if (!segment || !upload || upload.userId !== userId) {
         return res.status(404).json({ message: 'Segment not found' });
       }
       
-      const thumbnail = await contentGenerators.generateThumbnail(segment, templateId);
+      const thumbnail = await contentGenerators.generateThumbnail(segment, templateId, userId, platform);
       res.json(thumbnail);
     } catch (error) {
       console.error('Error generating thumbnail:', error);
@@ -947,7 +1238,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/content/thumbnail/templates', isAuthenticated, async (req: any, res) => {
     try {
       const { contentGenerators } = await import('./contentGenerators');
-      const templates = await contentGenerators.getThumbnailTemplates();
+      const templates = await contentGenerators.getThumbnailTemplates(req.user.id);
       
       res.json(templates);
     } catch (error) {
@@ -961,7 +1252,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { uploadId } = req.params;
       
       const { contentGenerators } = await import('./contentGenerators');
-      const content = await contentGenerators.processSegmentsForContent(uploadId);
+      const content = await contentGenerators.processSegmentsForContent(uploadId, req.user.id);
       
       res.json(content);
     } catch (error) {
@@ -1071,41 +1362,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Vertical shorts generation routes
+  app.get('/api/shorts/caption-presets', isAuthenticated, async (req: any, res) => {
+    try {
+      const { CAPTION_PRESETS, PLATFORM_SAFE_AREAS } = await import('./captionGenerator');
+      res.json({
+        presets: Object.values(CAPTION_PRESETS),
+        platforms: Object.keys(PLATFORM_SAFE_AREAS),
+      });
+    } catch (error) {
+      console.error('Error fetching caption presets:', error);
+      res.status(500).json({ message: 'Failed to fetch caption presets' });
+    }
+  });
+
   app.post('/api/shorts/generate/:uploadId', isAuthenticated, async (req: any, res) => {
     try {
       const { uploadId } = req.params;
-      const { config } = req.body;
+      const userId = req.user.id;
       
       const upload = await storage.getUpload(uploadId);
-      if (!upload) {
+      if (!upload || upload.userId !== userId) {
         return res.status(404).json({ message: 'Upload not found' });
       }
+
+      const parsed = shortsConfigSchema.safeParse(req.body.config || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid shorts settings', errors: parsed.error.errors });
+      }
+      const config = parsed.data;
       
       const segments = await storage.getSegmentsByUploadId(uploadId);
       if (segments.length === 0) {
         return res.status(400).json({ message: 'No segments found for upload' });
       }
-      
-      const { shortsGenerator } = await import('./shortsGenerator');
-      const outputDir = `./uploads/shorts/${uploadId}`;
-      
-      // For demo purposes, simulate shorts generation
-      const results = await Promise.all(
-        segments.map(async (segment) => ({
+
+      const { renderVerticalShort, isVideoUpload } = await import('./processors/clipGeneration');
+      if (!isVideoUpload(upload)) {
+        return res.status(400).json({ message: 'Vertical shorts require a video upload' });
+      }
+
+      // Re-render each segment's vertical short with the requested settings
+      const clips = await storage.getClipsByUploadId(uploadId);
+      const jobs: Array<{ clip: Clip; segment: Segment }> = [];
+      const results = [];
+      for (const segment of segments) {
+        let clip = clips.find(c => c.segmentId === segment.id && c.type === 'vertical_short');
+        if (clip?.status === 'processing') continue;
+        if (!clip) {
+          clip = await storage.createClip({
+            segmentId: segment.id,
+            type: 'vertical_short',
+            metadata: { platform: 'tiktok', start: parseFloat(segment.startTime), end: parseFloat(segment.endTime) },
+            status: 'pending',
+          });
+        }
+
+        jobs.push({ clip, segment });
+        results.push({
           segmentId: segment.id,
-          outputPath: `${outputDir}/short_${segment.id}.mp4`,
+          clipId: clip.id,
           duration: parseFloat(segment.endTime) - parseFloat(segment.startTime),
-          size: Math.floor(Math.random() * 50000000) + 10000000, // 10-60MB
           format: 'mp4',
-          resolution: '1080x1920'
-        }))
-      );
+          resolution: `${config.width || 1080}x${config.height || 1920}`,
+          status: 'processing',
+        });
+      }
+
+      // Render one at a time in the background; each FFmpeg run is CPU-heavy
+      (async () => {
+        for (const job of jobs) {
+          await renderVerticalShort(job.clip, job.segment, upload, config);
+        }
+      })().catch(error => {
+        console.error(`Shorts render error for upload ${uploadId}:`, error);
+      });
       
       res.json({
         uploadId,
         totalShorts: results.length,
         results,
-        status: 'completed'
+        status: 'processing'
       });
     } catch (error) {
       console.error('Error generating vertical shorts:', error);
@@ -1113,18 +1449,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audiograms: waveform videos for audio-only uploads, one clip per segment and aspect ratio
+  app.post('/api/audiograms/:uploadId/generate', isAuthenticated, async (req: any, res) => {
+    try {
+      const { uploadId } = req.params;
+      const { aspects } = req.body;
+      const userId = req.user.id;
+
+      const upload = await storage.getUpload(uploadId);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const parsed = audiogramSettingsSchema.safeParse(req.body.config || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid audiogram settings', errors: parsed.error.errors });
+      }
+      const config = parsed.data;
+
+      const { renderAudiogram, isAudioUpload } = await import('./processors/clipGeneration');
+      const { AUDIOGRAM_ASPECTS } = await import('./audiogramGenerator');
+      if (!isAudioUpload(upload)) {
+        return res.status(400).json({ message: 'Audiograms require an audio upload' });
+      }
+      if (aspects !== undefined && (!Array.isArray(aspects) || aspects.some((a: any) => !AUDIOGRAM_ASPECTS.includes(a)))) {
+        return res.status(400).json({ message: `Aspects must be any of ${AUDIOGRAM_ASPECTS.join(', ')}` });
+      }
+      if (config.coverArt) {
+        const { brollService } = await import('./brollService');
+        if (!await brollService.resolveAssetFile(config.coverArt, upload.workspaceId, 'image')) {
+          return res.status(400).json({ message: "Cover art must be an image from the workspace's asset library" });
+        }
+      }
+
+      const segments = await storage.getSegmentsByUploadId(uploadId);
+      if (segments.length === 0) {
+        return res.status(400).json({ message: 'No segments found for upload' });
+      }
+
+      const clips = await storage.getClipsByUploadId(uploadId);
+      const jobs: Array<{ clip: Clip; segment: Segment }> = [];
+      for (const segment of segments) {
+        for (const aspect of (aspects || AUDIOGRAM_ASPECTS) as string[]) {
+          let clip = clips.find(c => c.segmentId === segment.id && c.type === 'audiogram' && (c.metadata as any)?.aspect === aspect);
+          if (clip?.status === 'processing') continue;
+          if (!clip) {
+            clip = await storage.createClip({
+              segmentId: segment.id,
+              type: 'audiogram',
+              content: segment.title,
+              metadata: { aspect, start: parseFloat(segment.startTime), end: parseFloat(segment.endTime) },
+              status: 'pending',
+            });
+          }
+          jobs.push({ clip, segment });
+        }
+      }
+
+      // Render one at a time in the background; each FFmpeg run is CPU-heavy
+      (async () => {
+        for (const job of jobs) {
+          await renderAudiogram(job.clip, job.segment, upload, config);
+        }
+      })().catch(error => {
+        console.error(`Audiogram render error for upload ${uploadId}:`, error);
+      });
+
+      res.json({
+        uploadId,
+        totalAudiograms: jobs.length,
+        results: jobs.map(job => ({
+          segmentId: job.segment.id,
+          clipId: job.clip.id,
+          aspect: (job.clip.metadata as any)?.aspect,
+          status: 'processing',
+        })),
+        status: 'processing',
+      });
+    } catch (error) {
+      console.error('Error generating audiograms:', error);
+      res.status(500).json({ message: 'Failed to generate audiograms' });
+    }
+  });
+
   app.get('/api/shorts/:uploadId/status', isAuthenticated, async (req: any, res) => {
     try {
       const { uploadId } = req.params;
-      
-      // Simulate shorts generation status
+      const userId = req.user.id;
+
+      const upload = await storage.getUpload(uploadId);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const shorts = (await storage.getClipsByUploadId(uploadId)).filter(clip => clip.type === 'vertical_short');
+      const completedShorts = shorts.filter(clip => clip.status === 'completed').length;
+      const failedShorts = shorts.filter(clip => clip.status === 'failed').length;
+      const pending = shorts.some(clip => clip.status === 'pending' || clip.status === 'processing');
+
       res.json({
         uploadId,
-        status: 'completed',
-        progress: 100,
-        totalShorts: 3,
-        completedShorts: 3,
-        estimatedTimeRemaining: 0
+        status: pending ? 'processing' : failedShorts > 0 ? 'partial' : 'completed',
+        progress: shorts.length > 0 ? Math.round(((completedShorts + failedShorts) / shorts.length) * 100) : 0,
+        totalShorts: shorts.length,
+        completedShorts,
+        failedShorts,
+        shorts: shorts.map(clip => ({
+          clipId: clip.id,
+          segmentId: clip.segmentId,
+          status: clip.status,
+          downloadUrl: clip.status === 'completed' && clip.filePath ? `/api/clips/${clip.id}/file` : null,
+          render: (clip.metadata as any)?.render || null,
+        })),
       });
     } catch (error) {
       console.error('Error fetching shorts status:', error);
@@ -1135,17 +1571,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Queue management routes
   app.get('/api/queues/metrics', isAuthenticated, async (req: any, res) => {
     try {
-      // Return simulated queue metrics
-      const metrics = {
-        youtube: { waiting: 2, active: 1, completed: 15, failed: 0, delayed: 3 },
-        tiktok: { waiting: 5, active: 2, completed: 28, failed: 1, delayed: 1 },
-        twitter: { waiting: 8, active: 1, completed: 45, failed: 2, delayed: 0 },
-        instagram: { waiting: 3, active: 1, completed: 22, failed: 0, delayed: 2 },
-        linkedin: { waiting: 1, active: 0, completed: 8, failed: 0, delayed: 4 },
-        facebook: { waiting: 2, active: 1, completed: 12, failed: 1, delayed: 1 }
-      };
+      const userId = req.user.id;
+      const { queueManager } = await import('./queueSystem');
+      const queues = await queueManager.getAllQueueMetrics();
+      // Only the user's own posts are listed
+      const posts = await storage.getScheduledPostsByUserId(userId);
+      const deadLetter = await queueManager.getDeadLetters(new Set(posts.map((post: any) => post.id)));
       
-      res.json(metrics);
+      res.json({ queues, deadLetter });
     } catch (error) {
       console.error('Error fetching queue metrics:', error);
       res.status(500).json({ message: 'Failed to fetch queue metrics' });
@@ -1154,23 +1587,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/queues/schedule', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.id;
       const { platform, postId, scheduledTime } = req.body;
       
       if (!platform || !postId) {
         return res.status(400).json({ message: 'Platform and postId are required' });
       }
-      
-      // Simulate scheduling a post in the queue
-      const jobId = `job_${platform}_${Date.now()}`;
-      
-      console.log(`[QueueManager] Scheduled ${platform} post ${postId} for ${scheduledTime || 'immediate posting'}`);
+      const scheduledFor = scheduledTime ? new Date(scheduledTime) : new Date();
+      if (isNaN(scheduledFor.getTime())) {
+        return res.status(400).json({ message: 'Invalid scheduled time' });
+      }
+
+      const post = await storage.getSocialPost(postId);
+      if (!post) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+      const { postingService } = await import('./postingService');
+      const upload = await postingService.getPostUpload(post);
+      if (upload.userId !== userId) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
+      await storage.updateSocialPostSchedule(post.id, scheduledFor.toISOString());
+      const { queueManager } = await import('./queueSystem');
+      const jobId = await queueManager.syncPost(post, (await storage.getSocialPost(post.id))!);
       
       res.json({
         success: true,
         jobId,
-        platform,
+        platform: post.platform,
         postId,
-        scheduledTime: scheduledTime || new Date().toISOString(),
+        scheduledTime: scheduledFor.toISOString(),
         status: 'queued'
       });
     } catch (error) {
@@ -1181,9 +1628,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete('/api/queues/:platform/:jobId', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.id;
       const { platform, jobId } = req.params;
-      
-      console.log(`[QueueManager] Cancelled ${platform} job ${jobId}`);
+
+      const { queueManager } = await import('./queueSystem');
+      const job = await queueManager.getJob(platform, jobId);
+      const post = job ? await storage.getSocialPost(job.data.postId) : undefined;
+      const { postingService } = await import('./postingService');
+      if (!job || (post && (await postingService.getPostUpload(post)).userId !== userId)) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+
+      if (!await queueManager.cancelJob(platform, jobId)) {
+        return res.status(409).json({ message: 'Job is already running and cannot be cancelled' });
+      }
+      // The post stays as a draft rather than looking scheduled without a job
+      if (post?.status === 'scheduled') {
+        await storage.updateSocialPostStatus(post.id, 'draft');
+      }
       
       res.json({
         success: true,
@@ -1376,115 +1838,972 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(digest);
     } catch (error) {
-      console.error('Error generating engagement digest:', error);
-      res.status(500).json({ message: 'Failed to generate engagement digest' });
+      console.error('Error generating engagement digest:', error);
+      res.status(500).json({ message: 'Failed to generate engagement digest' });
+    }
+  });
+
+  app.get('/api/engagement/breakouts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { days } = req.query;
+      
+      // Get posts with breakout performance (top 10%)
+      const posts = await storage.getSocialPostsByUserId(userId);
+      const recentPosts = posts.filter(post => {
+        const daysAgo = days ? parseInt(days as string) : 7;
+        const cutoff = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+        return post.createdAt && new Date(post.createdAt) > cutoff;
+      });
+      
+      // Calculate engagement scores and find top 10%
+      const postsWithScores = recentPosts.map(post => {
+        const engagement = (post.engagement as any) || {};
+        const metrics = engagement.metrics || {};
+        const totalEngagement = (metrics.likes || 0) + (metrics.comments || 0) + (metrics.shares || 0);
+        const views = metrics.views || 1;
+        const engagementRate = (totalEngagement / views) * 100;
+        
+        return {
+          ...post,
+          engagementScore: engagementRate,
+          totalEngagement,
+          isBreakout: false
+        };
+      });
+      
+      // Sort by engagement score and mark top 10%
+      postsWithScores.sort((a, b) => b.engagementScore - a.engagementScore);
+      const top10PercentCount = Math.ceil(postsWithScores.length * 0.1);
+      
+      for (let i = 0; i < top10PercentCount; i++) {
+        postsWithScores[i].isBreakout = true;
+      }
+      
+      const breakoutPosts = postsWithScores.filter(post => post.isBreakout);
+      
+      res.json({
+        breakoutPosts,
+        totalPosts: recentPosts.length,
+        breakoutCount: breakoutPosts.length,
+        averageEngagement: postsWithScores.reduce((sum, post) => sum + post.engagementScore, 0) / postsWithScores.length || 0
+      });
+    } catch (error) {
+      console.error('Error fetching breakout content:', error);
+      res.status(500).json({ message: 'Failed to fetch breakout content' });
+    }
+  });
+
+  app.post('/api/engagement/boost/:postId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { postId } = req.params;
+      const { budget, platforms } = req.body;
+      
+      if (!budget || !platforms) {
+        return res.status(400).json({ message: 'Budget and platforms are required' });
+      }
+      
+      // Simulate ad boost creation
+      const boostCampaign = {
+        id: `boost_${Date.now()}`,
+        postId,
+        budget,
+        platforms,
+        status: 'active',
+        startDate: new Date().toISOString(),
+        estimatedReach: budget * 100, // Rough estimate
+        createdAt: new Date().toISOString()
+      };
+      
+      console.log(`[EngagementService] Created ad boost campaign:`, boostCampaign);
+      
+      res.json({
+        success: true,
+        campaign: boostCampaign,
+        message: `Ad boost campaign created with $${budget} budget`
+      });
+    } catch (error) {
+      console.error('Error creating ad boost:', error);
+      res.status(500).json({ message: 'Failed to create ad boost' });
+    }
+  });
+
+  // Enhanced Upload System Routes
+  app.post('/api/uploads/initialize', isAuthenticated, async (req: any, res) => {
+    const { uploadService } = await import('./uploadService');
+    await uploadService.initializeUpload(req, res);
+  });
+
+  app.post('/api/uploads/:uploadId/chunk', isAuthenticated, async (req: any, res) => {
+    const { uploadService, uploadChunkMiddleware } = await import('./uploadService');
+    uploadChunkMiddleware(req, res, async (error) => {
+      if (error) {
+        return res.status(400).json({ error: 'Invalid chunk data' });
+      }
+      await uploadService.uploadChunk(req, res);
+    });
+  });
+
+  app.get('/api/uploads/:uploadId/progress', isAuthenticated, async (req: any, res) => {
+    const { uploadService } = await import('./uploadService');
+    await uploadService.getUploadProgress(req, res);
+  });
+
+  app.patch('/api/uploads/:id/segmentation-settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const parsed = segmentationSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid segmentation settings', errors: parsed.error.errors });
+      }
+
+      // Takes effect the next time segmentation runs (POST /api/uploads/:id/stages/segmentation/rerun)
+      const updated = await storage.updateUploadSegmentationSettings(upload.id, {
+        ...upload.segmentationSettings,
+        ...parsed.data,
+      });
+      res.json(updated.segmentationSettings);
+    } catch (error) {
+      console.error('Error updating segmentation settings:', error);
+      res.status(500).json({ message: 'Failed to update segmentation settings' });
+    }
+  });
+
+  // Speaker routes
+  app.get('/api/uploads/:id/speakers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const speakers = await storage.getSpeakersByUploadId(upload.id);
+      res.json(speakers);
+    } catch (error) {
+      console.error('Error fetching speakers:', error);
+      res.status(500).json({ message: 'Failed to fetch speakers' });
+    }
+  });
+
+  app.patch('/api/speakers/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+      if (!name || name.length > 100) {
+        return res.status(400).json({ message: 'Speaker name must be between 1 and 100 characters' });
+      }
+
+      const speaker = await storage.getSpeaker(req.params.id);
+      const upload = speaker ? await storage.getUpload(speaker.uploadId) : undefined;
+      if (!speaker || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Speaker not found' });
+      }
+
+      const { speakerService } = await import('./speakerService');
+      const updated = await speakerService.renameSpeaker(speaker.id, name);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error renaming speaker:', error);
+      res.status(500).json({ message: 'Failed to rename speaker' });
+    }
+  });
+
+  // Caption export routes
+  app.get('/api/uploads/:id/captions.:format(srt|vtt|ass|txt)', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { captionExportOptionsSchema, exportCaptions } = await import('./captionGenerator');
+      const options = captionExportOptionsSchema.safeParse(req.query);
+      if (!options.success) {
+        return res.status(400).json({ message: 'Invalid caption options', errors: options.error.errors });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        return res.status(404).json({ message: 'Transcript not found' });
+      }
+
+      const { getTranscriptWords } = await import('./processors/transcription');
+      const words = getTranscriptWords(transcript);
+      const format = req.params.format;
+      if (words.length === 0 && format !== 'txt') {
+        return res.status(422).json({ message: 'Transcript has no word timestamps' });
+      }
+
+      const speakers = await storage.getSpeakersByUploadId(upload.id);
+      const speakerNames = Object.fromEntries(speakers.map(speaker => [speaker.label, speaker.name]));
+      const captions = words.length > 0
+        ? exportCaptions(words, format, options.data, speakerNames)
+        : { data: `${transcript.text}\n`, contentType: 'text/plain; charset=utf-8' };
+
+      const baseName = path.parse(upload.originalName).name.replace(/[^\w.-]+/g, '_');
+      res.setHeader('Content-Type', captions.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}.${format}"`);
+      res.send(captions.data);
+    } catch (error) {
+      console.error('Error exporting upload captions:', error);
+      res.status(500).json({ message: 'Failed to export captions' });
+    }
+  });
+
+  // Segment captions start at zero unless ?relative=false; offset shifts either way
+  app.get('/api/segments/:id/captions.:format(srt|vtt|ass|txt)', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const segment = await storage.getSegment(req.params.id);
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+      if (!segment || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const { captionExportOptionsSchema, exportCaptions, sliceWordsForClip } = await import('./captionGenerator');
+      const options = captionExportOptionsSchema.safeParse(req.query);
+      if (!options.success) {
+        return res.status(400).json({ message: 'Invalid caption options', errors: options.error.errors });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      const { getTranscriptWords } = await import('./processors/transcription');
+      const start = parseFloat(segment.startTime);
+      const words = transcript ? sliceWordsForClip(getTranscriptWords(transcript), start, parseFloat(segment.endTime)) : [];
+      const format = req.params.format;
+      if (words.length === 0 && format !== 'txt') {
+        return res.status(422).json({ message: 'Transcript has no word timestamps' });
+      }
+
+      const relative = req.query.relative !== 'false';
+      const speakers = await storage.getSpeakersByUploadId(upload.id);
+      const speakerNames = Object.fromEntries(speakers.map(speaker => [speaker.label, speaker.name]));
+      const captions = words.length > 0
+        ? exportCaptions(words, format, { ...options.data, offset: options.data.offset + (relative ? 0 : start) }, speakerNames)
+        : { data: `${segment.transcript || ''}\n`, contentType: 'text/plain; charset=utf-8' };
+
+      res.setHeader('Content-Type', captions.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="segment-${segment.order + 1}.${format}"`);
+      res.send(captions.data);
+    } catch (error) {
+      console.error('Error exporting segment captions:', error);
+      res.status(500).json({ message: 'Failed to export captions' });
+    }
+  });
+
+  // Transcript editing routes
+  app.get('/api/uploads/:id/transcript/revisions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        return res.status(404).json({ message: 'Transcript not found' });
+      }
+
+      // Snapshots are only needed for reverting; keep the listing light
+      const revisions = await storage.getTranscriptRevisions(transcript.id);
+      res.json(revisions.map(({ previousText, previousWords, ...revision }) => revision));
+    } catch (error) {
+      console.error('Error fetching transcript revisions:', error);
+      res.status(500).json({ message: 'Failed to fetch transcript revisions' });
+    }
+  });
+
+  app.patch('/api/uploads/:id/transcript/words/:index', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const index = parseInt(req.params.index, 10);
+      const word = typeof req.body.word === 'string' ? req.body.word.trim() : '';
+      if (!word || word.length > 200) {
+        return res.status(400).json({ message: 'Word must be between 1 and 200 characters' });
+      }
+
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        return res.status(404).json({ message: 'Transcript not found' });
+      }
+
+      const { getTranscriptWords } = await import('./processors/transcription');
+      const words = getTranscriptWords(transcript);
+      if (words.length === 0) {
+        return res.status(422).json({ message: 'Transcript has no word timestamps; use find and replace instead' });
+      }
+      if (isNaN(index) || index < 0 || index >= words.length) {
+        return res.status(400).json({ message: `Word index must be between 0 and ${words.length - 1}` });
+      }
+
+      const { transcriptEditorService } = await import('./transcriptEditor');
+      const result = await transcriptEditorService.replaceWord(upload, transcript, index, word, userId);
+      res.json(result);
+    } catch (error) {
+      console.error('Error replacing transcript word:', error);
+      res.status(500).json({ message: 'Failed to replace word' });
+    }
+  });
+
+  app.post('/api/uploads/:id/transcript/replace', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { find, replace, caseSensitive } = req.body;
+      if (typeof find !== 'string' || !find.trim() || find.length > 200) {
+        return res.status(400).json({ message: 'Search text must be between 1 and 200 characters' });
+      }
+      if (typeof replace !== 'string' || replace.length > 200) {
+        return res.status(400).json({ message: 'Replacement must be at most 200 characters' });
+      }
+
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        return res.status(404).json({ message: 'Transcript not found' });
+      }
+
+      const { transcriptEditorService } = await import('./transcriptEditor');
+      const result = await transcriptEditorService.findAndReplace(
+        upload,
+        transcript,
+        find,
+        replace,
+        { caseSensitive: caseSensitive === true },
+        userId
+      );
+      res.json(result);
+    } catch (error) {
+      console.error('Error replacing transcript text:', error);
+      res.status(500).json({ message: 'Failed to replace transcript text' });
+    }
+  });
+
+  app.post('/api/uploads/:id/transcript/apply-vocabulary', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      if (!transcript) {
+        return res.status(404).json({ message: 'Transcript not found' });
+      }
+
+      const { transcriptEditorService } = await import('./transcriptEditor');
+      const vocabulary = await transcriptEditorService.getVocabulary(upload.workspaceId);
+      if (vocabulary.length === 0) {
+        return res.status(400).json({ message: 'Upload has no workspace vocabulary' });
+      }
+
+      const result = await transcriptEditorService.applyVocabulary(upload, transcript, vocabulary, userId);
+      res.json(result);
+    } catch (error) {
+      console.error('Error applying vocabulary:', error);
+      res.status(500).json({ message: 'Failed to apply vocabulary' });
+    }
+  });
+
+  app.post('/api/uploads/:id/transcript/revisions/:revisionId/revert', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      const revision = await storage.getTranscriptRevision(req.params.revisionId);
+      if (!transcript || !revision || revision.transcriptId !== transcript.id) {
+        return res.status(404).json({ message: 'Revision not found' });
+      }
+
+      const { transcriptEditorService } = await import('./transcriptEditor');
+      const result = await transcriptEditorService.revert(upload, transcript, revision, userId);
+      res.json(result);
+    } catch (error) {
+      console.error('Error reverting transcript:', error);
+      res.status(500).json({ message: 'Failed to revert transcript' });
+    }
+  });
+
+  // Segment editing routes
+  const sendSegmentEditError = (res: any, error: any, fallback: string) => {
+    if (error.code === 'INVALID_SEGMENT_EDIT') {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error.code === 'SEGMENT_EDIT_CONFLICT') {
+      return res.status(409).json({ message: error.message });
+    }
+    res.status(500).json({ message: fallback });
+  };
+
+  app.patch('/api/segments/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { segmentEditorService, trimSegmentSchema } = await import('./segmentEditor');
+      const parsed = trimSegmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid trim', errors: parsed.error.errors });
+      }
+
+      const segment = await storage.getSegment(req.params.id);
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+      if (!segment || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const { startTime, endTime, ...options } = parsed.data;
+      const result = await segmentEditorService.trim(upload, segment, startTime, endTime, userId, options);
+      res.json(result);
+    } catch (error) {
+      console.error('Error trimming segment:', error);
+      sendSegmentEditError(res, error, 'Failed to trim segment');
+    }
+  });
+
+  app.post('/api/segments/:id/split', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { segmentEditorService, splitSegmentSchema } = await import('./segmentEditor');
+      const parsed = splitSegmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid split', errors: parsed.error.errors });
+      }
+
+      const segment = await storage.getSegment(req.params.id);
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+      if (!segment || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+
+      const { at, ...options } = parsed.data;
+      const result = await segmentEditorService.split(upload, segment, at, userId, options);
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Error splitting segment:', error);
+      sendSegmentEditError(res, error, 'Failed to split segment');
+    }
+  });
+
+  app.post('/api/segments/merge', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { segmentEditorService, mergeSegmentsSchema } = await import('./segmentEditor');
+      const parsed = mergeSegmentsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid merge', errors: parsed.error.errors });
+      }
+
+      const { segmentIds, ...options } = parsed.data;
+      const [a, b] = await Promise.all(segmentIds.map(id => storage.getSegment(id)));
+      const upload = a ? await storage.getUpload(a.uploadId) : undefined;
+      if (!a || !b || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Segment not found' });
+      }
+      if (a.id === b.id || a.uploadId !== b.uploadId) {
+        return res.status(400).json({ message: 'Only two different segments of the same upload can be merged' });
+      }
+
+      const result = await segmentEditorService.merge(upload, a, b, userId, options);
+      res.json(result);
+    } catch (error) {
+      console.error('Error merging segments:', error);
+      sendSegmentEditError(res, error, 'Failed to merge segments');
+    }
+  });
+
+  app.get('/api/uploads/:id/segments/history', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { segmentEditorService } = await import('./segmentEditor');
+      res.json(await segmentEditorService.getHistory(upload.id));
+    } catch (error) {
+      console.error('Error fetching segment history:', error);
+      res.status(500).json({ message: 'Failed to fetch segment history' });
+    }
+  });
+
+  app.post('/api/uploads/:id/segments/undo', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { segmentEditorService, editOptionsSchema } = await import('./segmentEditor');
+      const parsed = editOptionsSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid options', errors: parsed.error.errors });
+      }
+
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const result = await segmentEditorService.undo(upload, userId, parsed.data);
+      res.json(result);
+    } catch (error) {
+      console.error('Error undoing segment edit:', error);
+      sendSegmentEditError(res, error, 'Failed to undo segment edit');
+    }
+  });
+
+  // Custom vocabulary applied to every transcript in the workspace
+  app.get('/api/workspaces/:id/vocabulary', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      if (!members.some(member => member.userId === userId)) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+
+      const { transcriptEditorService } = await import('./transcriptEditor');
+      res.json(await transcriptEditorService.getVocabulary(req.params.id));
+    } catch (error) {
+      console.error('Error fetching vocabulary:', error);
+      res.status(500).json({ message: 'Failed to fetch vocabulary' });
+    }
+  });
+
+  app.put('/api/workspaces/:id/vocabulary', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, req.params.id, 'content.edit');
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const parsed = vocabularySchema.safeParse(req.body.vocabulary);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid vocabulary', errors: parsed.error.errors });
+      }
+
+      const { transcriptEditorService } = await import('./transcriptEditor');
+      res.json(await transcriptEditorService.setVocabulary(req.params.id, parsed.data));
+    } catch (error) {
+      console.error('Error updating vocabulary:', error);
+      res.status(500).json({ message: 'Failed to update vocabulary' });
+    }
+  });
+
+  // Audio clean-up and quality gate applied before transcription
+  app.get('/api/workspaces/:id/audio-settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      if (!members.some(member => member.userId === userId)) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+
+      const { getAudioSettings } = await import('./processors/audioCleanup');
+      res.json(await getAudioSettings(req.params.id));
+    } catch (error) {
+      console.error('Error fetching audio settings:', error);
+      res.status(500).json({ message: 'Failed to fetch audio settings' });
+    }
+  });
+
+  app.put('/api/workspaces/:id/audio-settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, req.params.id, 'settings.manage');
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const parsed = audioSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid audio settings', errors: parsed.error.errors });
+      }
+
+      const { saveAudioSettings } = await import('./processors/audioCleanup');
+      res.json(await saveAudioSettings(req.params.id, parsed.data));
+    } catch (error) {
+      console.error('Error updating audio settings:', error);
+      res.status(500).json({ message: 'Failed to update audio settings' });
+    }
+  });
+
+  // Virality scoring: how segments are ranked and how many get clips and posts
+  app.get('/api/workspaces/:id/virality-settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      if (!members.some(member => member.userId === userId)) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+
+      const { viralityScorer } = await import('./viralityScorer');
+      res.json(await viralityScorer.getSettings(req.params.id));
+    } catch (error) {
+      console.error('Error fetching virality settings:', error);
+      res.status(500).json({ message: 'Failed to fetch virality settings' });
+    }
+  });
+
+  app.put('/api/workspaces/:id/virality-settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, req.params.id, 'settings.manage');
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const parsed = viralitySettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid virality settings', errors: parsed.error.errors });
+      }
+
+      const { viralityScorer } = await import('./viralityScorer');
+      res.json(await viralityScorer.saveSettings(req.params.id, parsed.data));
+    } catch (error) {
+      console.error('Error updating virality settings:', error);
+      res.status(500).json({ message: 'Failed to update virality settings' });
+    }
+  });
+
+  // Segments of an upload ranked by virality score, with the breakdown and whether each was selected
+  app.get('/api/uploads/:id/virality', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { viralityScorer } = await import('./viralityScorer');
+      const settings = await viralityScorer.getSettings(upload.workspaceId);
+      const segments = await storage.getSegmentsByUploadId(upload.id);
+      const selected = new Set(viralityScorer.getSelectedSegments(segments).map(segment => segment.id));
+
+      res.json({
+        settings,
+        segments: segments
+          .map(segment => ({
+            id: segment.id,
+            title: segment.title,
+            startTime: segment.startTime,
+            endTime: segment.endTime,
+            score: segment.viralityBreakdown,
+            selected: selected.has(segment.id),
+          }))
+          .sort((a, b) => (a.score?.rank ?? Infinity) - (b.score?.rank ?? Infinity)),
+      });
+    } catch (error) {
+      console.error('Error fetching virality scores:', error);
+      res.status(500).json({ message: 'Failed to fetch virality scores' });
+    }
+  });
+
+  // Re-scores the segments (e.g. after new breakouts or a settings change); does not re-render
+  app.post('/api/uploads/:id/virality/rescore', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const segments = await storage.getSegmentsByUploadId(upload.id);
+      if (segments.length === 0) {
+        return res.status(400).json({ message: 'Upload has no segments yet' });
+      }
+
+      const { viralityScorer } = await import('./viralityScorer');
+      const { getTranscriptWords } = await import('./processors/transcription');
+      const transcript = await storage.getTranscriptByUploadId(upload.id);
+      const scored = await viralityScorer.scoreSegments(segments, {
+        userId,
+        settings: await viralityScorer.getSettings(upload.workspaceId),
+        words: transcript ? getTranscriptWords(transcript) : [],
+      });
+
+      res.json(scored.map(segment => ({ id: segment.id, title: segment.title, score: segment.viralityBreakdown })));
+    } catch (error) {
+      console.error('Error scoring segments:', error);
+      res.status(500).json({ message: 'Failed to score segments' });
+    }
+  });
+
+  // Brand kit shared by graphics, shorts and previews
+  app.get('/api/workspaces/:id/brand-kit', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      if (!members.some(member => member.userId === userId)) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+
+      const { brandKitService } = await import('./brandKitService');
+      res.json({ brandKit: await brandKitService.getBrandKit(req.params.id) });
+    } catch (error) {
+      console.error('Error fetching brand kit:', error);
+      res.status(500).json({ message: 'Failed to fetch brand kit' });
+    }
+  });
+
+  app.put('/api/workspaces/:id/brand-kit', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, req.params.id, 'settings.manage');
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const { brandKitService, brandKitSchema } = await import('./brandKitService');
+      const parsed = brandKitSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid brand kit', errors: parsed.error.errors });
+      }
+      const invalidAssets = await brandKitService.findInvalidAssets(req.params.id, parsed.data);
+      if (invalidAssets.length > 0) {
+        return res.status(400).json({ message: `Not assets in this workspace's library: ${invalidAssets.join(', ')}` });
+      }
+
+      res.json({ brandKit: await brandKitService.saveBrandKit(req.params.id, parsed.data) });
+    } catch (error) {
+      console.error('Error updating brand kit:', error);
+      res.status(500).json({ message: 'Failed to update brand kit' });
+    }
+  });
+
+  app.delete('/api/workspaces/:id/brand-kit', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, req.params.id, 'settings.manage');
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const { brandKitService } = await import('./brandKitService');
+      await brandKitService.deleteBrandKit(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting brand kit:', error);
+      res.status(500).json({ message: 'Failed to delete brand kit' });
+    }
+  });
+
+  // B-roll library: tagged clips and images matched against segment transcripts
+  app.get('/api/workspaces/:id/broll', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      if (!members.some(member => member.userId === userId)) {
+        return res.status(404).json({ message: 'Workspace not found' });
+      }
+
+      const { brollService } = await import('./brollService');
+      res.json(await brollService.listAssets(req.params.id));
+    } catch (error) {
+      console.error('Error fetching B-roll library:', error);
+      res.status(500).json({ message: 'Failed to fetch B-roll library' });
+    }
+  });
+
+  app.post('/api/workspaces/:id/broll', isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, req.params.id, 'content.edit');
+      if (!hasPermission) {
+        if (req.file) fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+      if (!/^(video|image)\//.test(req.file.mimetype)) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ message: 'B-roll must be a video or an image' });
+      }
+
+      // Multipart forms send tags as a comma-separated string
+      const tags = typeof req.body.tags === 'string' ? req.body.tags.split(',') : req.body.tags || [];
+      const parsed = updateBrollAssetSchema.safeParse({ name: req.body.name || undefined, tags });
+      if (!parsed.success) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ message: 'Invalid B-roll details', errors: parsed.error.errors });
+      }
+
+      const { brollService } = await import('./brollService');
+      const asset = await brollService.addAsset(req.params.id, userId, req.file, {
+        name: parsed.data.name,
+        tags: parsed.data.tags || [],
+      });
+      res.status(201).json(asset);
+    } catch (error) {
+      console.error('Error adding B-roll:', error);
+      res.status(500).json({ message: 'Failed to add B-roll' });
+    }
+  });
+
+  app.patch('/api/workspaces/:id/broll/:assetId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, req.params.id, 'content.edit');
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const asset = await storage.getBrollAsset(req.params.assetId);
+      if (!asset || asset.workspaceId !== req.params.id) {
+        return res.status(404).json({ message: 'B-roll not found' });
+      }
+
+      const parsed = updateBrollAssetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid B-roll details', errors: parsed.error.errors });
+      }
+
+      const { brollService } = await import('./brollService');
+      res.json(await brollService.updateAsset(asset.id, parsed.data));
+    } catch (error) {
+      console.error('Error updating B-roll:', error);
+      res.status(500).json({ message: 'Failed to update B-roll' });
+    }
+  });
+
+  app.delete('/api/workspaces/:id/broll/:assetId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { userManagementService } = await import('./userManagementService');
+      const hasPermission = await userManagementService.checkPermission(userId, req.params.id, 'content.edit');
+      if (!hasPermission) {
+        return res.status(403).json({ message: 'Insufficient permissions' });
+      }
+
+      const asset = await storage.getBrollAsset(req.params.assetId);
+      if (!asset || asset.workspaceId !== req.params.id) {
+        return res.status(404).json({ message: 'B-roll not found' });
+      }
+
+      const { brollService } = await import('./brollService');
+      await brollService.deleteAsset(asset);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting B-roll:', error);
+      res.status(500).json({ message: 'Failed to delete B-roll' });
     }
   });
 
-  app.get('/api/engagement/breakouts', isAuthenticated, async (req: any, res) => {
+  // B-roll timeline of a vertical short, stored in the clip's metadata
+  app.get('/api/clips/:id/broll', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { days } = req.query;
-      
-      // Get posts with breakout performance (top 10%)
-      const posts = await storage.getSocialPostsByUserId(userId);
-      const recentPosts = posts.filter(post => {
-        const daysAgo = days ? parseInt(days as string) : 7;
-        const cutoff = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
-        return post.createdAt && new Date(post.createdAt) > cutoff;
-      });
-      
-      // Calculate engagement scores and find top 10%
-      const postsWithScores = recentPosts.map(post => {
-        const engagement = (post.engagement as any) || {};
-        const metrics = engagement.metrics || {};
-        const totalEngagement = (metrics.likes || 0) + (metrics.comments || 0) + (metrics.shares || 0);
-        const views = metrics.views || 1;
-        const engagementRate = (totalEngagement / views) * 100;
-        
-        return {
-          ...post,
-          engagementScore: engagementRate,
-          totalEngagement,
-          isBreakout: false
-        };
-      });
-      
-      // Sort by engagement score and mark top 10%
-      postsWithScores.sort((a, b) => b.engagementScore - a.engagementScore);
-      const top10PercentCount = Math.ceil(postsWithScores.length * 0.1);
-      
-      for (let i = 0; i < top10PercentCount; i++) {
-        postsWithScores[i].isBreakout = true;
+      const clip = await storage.getClip(req.params.id);
+      const segment = clip ? await storage.getSegment(clip.segmentId) : null;
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+      if (!clip || !segment || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Clip not found' });
       }
-      
-      const breakoutPosts = postsWithScores.filter(post => post.isBreakout);
-      
+
+      const { brollService } = await import('./brollService');
       res.json({
-        breakoutPosts,
-        totalPosts: recentPosts.length,
-        breakoutCount: breakoutPosts.length,
-        averageEngagement: postsWithScores.reduce((sum, post) => sum + post.engagementScore, 0) / postsWithScores.length || 0
+        timeline: brollService.getTimeline(clip.metadata),
+        keywords: brollService.extractKeywords(segment.transcript || ''),
       });
     } catch (error) {
-      console.error('Error fetching breakout content:', error);
-      res.status(500).json({ message: 'Failed to fetch breakout content' });
+      console.error('Error fetching B-roll timeline:', error);
+      res.status(500).json({ message: 'Failed to fetch B-roll timeline' });
     }
   });
 
-  app.post('/api/engagement/boost/:postId', isAuthenticated, async (req: any, res) => {
+  // Replaces the timeline; edited timelines are kept on later renders. `render: true` re-renders the short
+  app.put('/api/clips/:id/broll', isAuthenticated, async (req: any, res) => {
     try {
-      const { postId } = req.params;
-      const { budget, platforms } = req.body;
-      
-      if (!budget || !platforms) {
-        return res.status(400).json({ message: 'Budget and platforms are required' });
+      const userId = req.user.id;
+      const clip = await storage.getClip(req.params.id);
+      const segment = clip ? await storage.getSegment(clip.segmentId) : null;
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+      if (!clip || !segment || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Clip not found' });
       }
-      
-      // Simulate ad boost creation
-      const boostCampaign = {
-        id: `boost_${Date.now()}`,
-        postId,
-        budget,
-        platforms,
-        status: 'active',
-        startDate: new Date().toISOString(),
-        estimatedReach: budget * 100, // Rough estimate
-        createdAt: new Date().toISOString()
-      };
-      
-      console.log(`[EngagementService] Created ad boost campaign:`, boostCampaign);
-      
-      res.json({
-        success: true,
-        campaign: boostCampaign,
-        message: `Ad boost campaign created with $${budget} budget`
+      if (clip.type !== 'vertical_short') {
+        return res.status(400).json({ message: 'B-roll can only be added to vertical shorts' });
+      }
+
+      const parsed = brollTimelineSchema.safeParse(req.body.placements);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid B-roll timeline', errors: parsed.error.errors });
+      }
+
+      const { brollService } = await import('./brollService');
+      const assets = upload.workspaceId ? await brollService.listAssets(upload.workspaceId) : [];
+      const duration = parseFloat(segment.endTime) - parseFloat(segment.startTime);
+      const problems = brollService.validateTimeline(parsed.data, duration, assets);
+      if (problems.length > 0) {
+        return res.status(400).json({ message: 'Invalid B-roll timeline', errors: problems });
+      }
+      if (req.body.render && clip.status === 'processing') {
+        return res.status(409).json({ message: 'Clip is already rendering' });
+      }
+
+      const timeline = { placements: parsed.data, edited: true, updatedAt: new Date().toISOString() };
+      const updated = await storage.updateClip(clip.id, {
+        metadata: { ...(clip.metadata as Record<string, any> || {}), broll: timeline },
       });
+
+      if (req.body.render) {
+        const { renderVerticalShort } = await import('./processors/clipGeneration');
+        renderVerticalShort(updated, segment, upload).catch(error => {
+          console.error(`Clip render error for ${clip.id}:`, error);
+        });
+      }
+
+      res.json({ timeline, rendering: !!req.body.render });
     } catch (error) {
-      console.error('Error creating ad boost:', error);
-      res.status(500).json({ message: 'Failed to create ad boost' });
+      console.error('Error updating B-roll timeline:', error);
+      res.status(500).json({ message: 'Failed to update B-roll timeline' });
     }
   });
 
-  // Enhanced Upload System Routes
-  app.post('/api/uploads/initialize', isAuthenticated, async (req: any, res) => {
-    const { uploadService } = await import('./uploadService');
-    await uploadService.initializeUpload(req, res);
-  });
-
-  app.post('/api/uploads/:uploadId/chunk', isAuthenticated, async (req: any, res) => {
-    const { uploadService, uploadChunkMiddleware } = await import('./uploadService');
-    uploadChunkMiddleware(req, res, async (error) => {
-      if (error) {
-        return res.status(400).json({ error: 'Invalid chunk data' });
+  // Suggests a fresh timeline from the library without saving it
+  app.post('/api/clips/:id/broll/suggest', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const clip = await storage.getClip(req.params.id);
+      const segment = clip ? await storage.getSegment(clip.segmentId) : null;
+      const upload = segment ? await storage.getUpload(segment.uploadId) : undefined;
+      if (!clip || !segment || !upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Clip not found' });
       }
-      await uploadService.uploadChunk(req, res);
-    });
-  });
 
-  app.get('/api/uploads/:uploadId/progress', isAuthenticated, async (req: any, res) => {
-    const { uploadService } = await import('./uploadService');
-    await uploadService.getUploadProgress(req, res);
+      const mode = ['cutaway', 'pip'].includes(req.body.mode) ? req.body.mode : undefined;
+      const { suggestBroll } = await import('./processors/clipGeneration');
+      res.json({ timeline: await suggestBroll(clip, segment, upload, undefined, mode) });
+    } catch (error) {
+      console.error('Error suggesting B-roll:', error);
+      res.status(500).json({ message: 'Failed to suggest B-roll' });
+    }
   });
 
   app.post('/api/uploads/:uploadId/cancel', isAuthenticated, async (req: any, res) => {
@@ -1508,15 +2827,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Upload not found' });
       }
 
-      // Only allow retry for failed uploads
-      if (upload.status !== 'failed') {
+      // Only allow retry for failed or partially processed uploads
+      if (upload.status !== 'failed' && upload.status !== 'incomplete') {
         return res.status(400).json({ message: 'Only failed uploads can be retried' });
       }
 
       // Reset upload status and restart processing
       await storage.updateUploadStatus(uploadId, 'uploaded');
       
-      // Restart processing asynchronously
+      // Restart processing asynchronously; completed stages are skipped via their checkpoints
       const { processFile } = await import('./fileHandler');
       processFile(uploadId).catch(error => {
         console.error('File processing retry error:', error);
@@ -1533,6 +2852,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Processing checkpoint routes
+  app.get('/api/uploads/:id/checkpoints', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { getPipelineStages } = await import('./fileHandler');
+      const checkpoints = await storage.getProcessingCheckpoints(upload.id);
+
+      res.json({
+        uploadId: upload.id,
+        stages: getPipelineStages().map(stage => ({
+          stage: stage.id,
+          displayName: stage.displayName,
+          checkpoint: checkpoints.find(checkpoint => checkpoint.stage === stage.id) || null,
+        })),
+      });
+    } catch (error) {
+      console.error('Error fetching checkpoints:', error);
+      res.status(500).json({ message: 'Failed to fetch processing checkpoints' });
+    }
+  });
+
+  app.post('/api/uploads/:id/stages/:stage/:mode(resume|rerun)', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const { stage, mode } = req.params;
+      const upload = await storage.getUpload(req.params.id);
+      if (!upload || upload.userId !== userId) {
+        return res.status(404).json({ message: 'Upload not found' });
+      }
+
+      const { processFile, validateStageRequest, getPipelineStages } = await import('./fileHandler');
+      if (getPipelineStages().some(pipelineStage => pipelineStage.name === upload.status)) {
+        return res.status(409).json({ message: 'Upload is already being processed' });
+      }
+
+      const options = mode === 'rerun' ? { onlyStage: stage } : { fromStage: stage };
+      const validationError = await validateStageRequest(upload.id, options);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      processFile(upload.id, options).catch(error => {
+        console.error(`File processing ${mode} error:`, error);
+        storage.updateUploadStatus(upload.id, 'failed');
+      });
+
+      res.json({
+        message: mode === 'rerun'
+          ? `Re-running stage ${stage}`
+          : `Resuming processing from stage ${stage}`,
+        uploadId: upload.id,
+        stage,
+        mode,
+      });
+    } catch (error) {
+      console.error('Error restarting processing stage:', error);
+      res.status(500).json({ message: 'Failed to restart processing stage' });
+    }
+  });
+
   app.post('/api/uploads/:uploadId/cancel', isAuthenticated, async (req: any, res) => {
     try {
       const { uploadId } = req.params;
@@ -2767,9 +4151,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/social-posts/:id', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
-      
-      await storage.updateSocialPostStatus(id, status);
+      const userId = req.user.id;
+      const { status, content } = req.body;
+      if (content !== undefined && (typeof content !== 'string' || !content.trim())) {
+        return res.status(400).json({ message: 'Content must be a non-empty string' });
+      }
+      if (status !== undefined) {
+        const parsed = socialPostStatusSchema.safeParse({ status });
+        if (!parsed.success) {
+          return res.status(400).json({ message: 'Invalid status', errors: parsed.error.errors });
+        }
+      }
+
+      const existing = await storage.getSocialPost(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+      const { postingService } = await import('./postingService');
+      if ((await postingService.getPostUpload(existing)).userId !== userId) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
+      // Hand-edited captions are kept when a segment edit regenerates posts
+      if (content !== undefined) {
+        // A retry continues a partly published thread, which only works while its parts stay the same
+        const targets = await storage.getSocialPostTargets(id);
+        if (targets.some(target => target.threadPostIds?.length)) {
+          return res.status(409).json({ message: 'Content cannot be changed after part of the thread was published' });
+        }
+        await storage.updateSocialPost(id, {
+          content,
+          contentEditedAt: new Date(),
+          threadParts: threadPartsFor(existing.platform, content),
+        });
+      }
+      if (status !== undefined) {
+        const previous = await storage.getSocialPost(id);
+        await storage.updateSocialPostStatus(id, status);
+        const post = await storage.getSocialPost(id);
+        if (previous && post) {
+          const { queueManager } = await import('./queueSystem');
+          await queueManager.syncPost(previous, post);
+        }
+      }
       res.json({ success: true });
     } catch (error) {
       console.error('Error updating social post:', error);
@@ -2793,8 +4217,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const { scheduledFor } = req.body;
-      
+      if (!scheduledFor || isNaN(new Date(scheduledFor).getTime())) {
+        return res.status(400).json({ message: 'A valid scheduled time is required' });
+      }
+
+      const previous = await storage.getSocialPost(id);
+      if (!previous) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+      const { postingService } = await import('./postingService');
+      if ((await postingService.getPostUpload(previous)).userId !== req.user.id) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
       await storage.updateSocialPostSchedule(id, scheduledFor);
+      // Moves the queued job to the new time
+      const { queueManager } = await import('./queueSystem');
+      await queueManager.syncPost(previous, (await storage.getSocialPost(id))!);
       res.json({ success: true });
     } catch (error) {
       console.error("Error scheduling post:", error);
@@ -2817,9 +4256,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/social-accounts/:id', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { isActive } = req.body;
-      
-      await storage.updateSocialAccountStatus(id, isActive);
+      const userId = req.user.id;
+      const { isActive, workspaceId } = req.body;
+
+      const account = await storage.getSocialAccount(id);
+      if (!account || account.userId !== userId) {
+        return res.status(404).json({ message: 'Social account not found' });
+      }
+
+      // Assigning an account to a workspace lets that workspace's posts publish to it
+      if (workspaceId !== undefined) {
+        if (workspaceId !== null) {
+          const { userManagementService } = await import('./userManagementService');
+          const canManage = await userManagementService.checkPermission(userId, workspaceId, 'settings.manage');
+          if (!canManage) {
+            return res.status(403).json({ message: 'Insufficient permissions' });
+          }
+        }
+        await storage.updateSocialAccount(id, { workspaceId });
+      }
+      if (isActive !== undefined) {
+        await storage.updateSocialAccountStatus(id, isActive);
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating social account:", error);
@@ -2932,7 +4390,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/social-posts', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const { segmentId, platform, content, scheduledFor } = req.body;
+      const { segmentId, platform, content, scheduledFor, accountIds } = req.body;
       
       // Validation: Require content for posting
       if (!content || content.trim().length === 0) {
@@ -2964,16 +4422,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      if (accountIds !== undefined && (!Array.isArray(accountIds) || accountIds.some((id: unknown) => typeof id !== 'string'))) {
+        return res.status(400).json({ message: 'accountIds must be an array of account IDs' });
+      }
+
       const postData = { 
         userId, 
         segmentId, 
         platform, 
         content: content.trim(), 
+        threadParts: threadPartsFor(platform, content),
         scheduledFor,
         status: scheduledFor ? 'scheduled' : 'draft'
       };
       
       const post = await storage.createSocialPost(postData);
+      if (accountIds?.length) {
+        const { postingService } = await import('./postingService');
+        try {
+          await postingService.setTargets(post, accountIds);
+        } catch (error: any) {
+          await storage.deleteSocialPost(post.id);
+          if (error.code === 'INVALID_TARGET_ACCOUNTS') {
+            return res.status(400).json({ message: error.message });
+          }
+          throw error;
+        }
+      }
+      if (post.scheduledFor) {
+        const { queueManager } = await import('./queueSystem');
+        await queueManager.schedulePost(post);
+      }
       res.json(post);
     } catch (error) {
       console.error("Error creating social post:", error);
@@ -2981,6 +4460,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Target accounts a post is published to
+  app.get('/api/social-posts/:id/targets', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const post = await storage.getSocialPost(req.params.id);
+      if (!post) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
+      const { postingService } = await import('./postingService');
+      const upload = await postingService.getPostUpload(post);
+      if (upload.userId !== userId) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
+      const targets = await storage.getSocialPostTargets(post.id);
+      const accounts = await postingService.getEligibleAccounts(post);
+      res.json({
+        targets,
+        // Tokens stay on the server
+        accounts: accounts.map(({ accessToken, refreshToken, ...account }) => account),
+      });
+    } catch (error) {
+      console.error('Error fetching post targets:', error);
+      res.status(500).json({ message: 'Failed to fetch post targets' });
+    }
+  });
+
+  app.put('/api/social-posts/:id/targets', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const parsed = postTargetsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid target accounts', errors: parsed.error.errors });
+      }
+
+      const post = await storage.getSocialPost(req.params.id);
+      if (!post) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
+      const { postingService } = await import('./postingService');
+      const upload = await postingService.getPostUpload(post);
+      if (upload.userId !== userId) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
+      const targets = await postingService.setTargets(post, Array.from(new Set(parsed.data.accountIds)));
+      res.json(targets);
+    } catch (error: any) {
+      console.error('Error updating post targets:', error);
+      if (error.code === 'INVALID_TARGET_ACCOUNTS') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.code === 'TARGET_ALREADY_PUBLISHED') {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to update post targets' });
+    }
+  });
+
+  app.put('/api/social-posts/:id/media', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const parsed = postMediaSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid post media', errors: parsed.error.errors });
+      }
+
+      const post = await storage.getSocialPost(req.params.id);
+      if (!post) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
+      const { postingService } = await import('./postingService');
+      const upload = await postingService.getPostUpload(post);
+      if (upload.userId !== userId) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
+      const media = await postingService.setMedia(post, Array.from(new Set(parsed.data.clipIds)));
+      res.json({ media, limit: postingService.getMediaLimit(post.platform) });
+    } catch (error: any) {
+      console.error('Error updating post media:', error);
+      if (error.code === 'INVALID_POST_MEDIA') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.code === 'TARGET_ALREADY_PUBLISHED') {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to update post media' });
+    }
+  });
+
+  // Publishes a failed post again right away
+  app.post('/api/social-posts/:id/retry', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const post = await storage.getSocialPost(req.params.id);
+      if (!post) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
+      const { postingService } = await import('./postingService');
+      const upload = await postingService.getPostUpload(post);
+      if (upload.userId !== userId) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+      if (post.status !== 'failed') {
+        return res.status(409).json({ message: 'Only failed posts can be retried' });
+      }
+
+      // Accounts already published to are skipped, so only the failed ones are retried
+      await storage.updateSocialPostSchedule(post.id, new Date().toISOString());
+      const { queueManager } = await import('./queueSystem');
+      const jobId = await queueManager.syncPost(post, (await storage.getSocialPost(post.id))!);
+      res.json({ success: true, jobId });
+    } catch (error) {
+      console.error('Error retrying post:', error);
+      res.status(500).json({ message: 'Failed to retry post' });
+    }
+  });
+
   // Manual posting routes
   app.post('/api/social-posts/:id/publish', isAuthenticated, async (req: any, res) => {
     try {
@@ -3012,7 +4614,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post(
     '/api/publish/now',
     isAuthenticated,
-    createPublishNowHandler({ storage, postingService: (await import('./postingService')).postingService })
+    createPublishNowHandler({
+      storage,
+      postingService: (await import('./postingService')).postingService,
+      queueManager: (await import('./queueSystem')).queueManager,
+    })
   );
 
   app.get('/api/posting/status', isAuthenticated, async (req: any, res) => {
@@ -3044,9 +4650,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/social-posts/:id/status', isAuthenticated, async (req: any, res) => {
     try {
       const postId = req.params.id;
-      const { status, scheduledFor } = req.body;
-      
+      const parsed = socialPostStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid status', errors: parsed.error.errors });
+      }
+      const { status } = parsed.data;
+
+      const previous = await storage.getSocialPost(postId);
+      if (!previous) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+      const { postingService } = await import('./postingService');
+      if ((await postingService.getPostUpload(previous)).userId !== req.user.id) {
+        return res.status(404).json({ message: 'Post not found' });
+      }
+
       await storage.updateSocialPostStatus(postId, status);
+      const post = await storage.getSocialPost(postId);
+      if (post) {
+        const { queueManager } = await import('./queueSystem');
+        await queueManager.syncPost(previous, post);
+      }
       
       res.json({ message: 'Social post updated successfully' });
     } catch (error) {
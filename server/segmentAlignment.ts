@@ -0,0 +1,234 @@
+import type { TranscriptWord } from '@shared/schema';
+
+/**
+ * Segment Alignment
+ *
+ * GPT only estimates segment times from word position, so cuts land mid-word.
+ * These helpers locate the segment text in the transcript's word timestamps
+ * (fuzzy, to tolerate paraphrasing and punctuation differences) and snap the
+ * boundaries to the nearest sentence end or pause.
+ */
+
+export interface SegmentAlignment {
+  startTime: number;
+  endTime: number;
+  /** 0-1: how well the segment text matched the transcript words */
+  confidence: number;
+}
+
+// Number of leading/trailing segment tokens used to anchor the match
+const ANCHOR_TOKENS = 8;
+// Extra transcript words allowed inside an anchor for filler words the model dropped
+const ANCHOR_SLACK = 4;
+// Below this the text match is ignored and only the estimated times are snapped
+const MIN_CONFIDENCE = 0.5;
+// Gap between words (seconds) treated as a pause worth cutting on
+const PAUSE_SECONDS = 0.35;
+// How many words a boundary may move when looking for a sentence end or pause
+const SNAP_WINDOW = 6;
+// Never pad a cut by more than this into the surrounding silence (seconds)
+const MAX_PADDING = 0.2;
+
+// Common words that say little about what a passage is about
+export const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+  'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'dont', 'down', 'even',
+  'every', 'for', 'from', 'get', 'gets', 'go', 'going', 'got', 'had', 'has', 'have', 'he', 'her', 'here', 'him',
+  'his', 'how', 'i', 'if', 'im', 'in', 'into', 'is', 'it', 'its', 'just', 'know', 'like', 'lot', 'make', 'me',
+  'more', 'most', 'my', 'no', 'not', 'now', 'of', 'off', 'on', 'one', 'only', 'or', 'other', 'our', 'out', 'over',
+  'really', 'right', 'said', 'say', 'see', 'she', 'so', 'some', 'something', 'than', 'that', 'thats', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'thing', 'things', 'think', 'this', 'those', 'through', 'to',
+  'too', 'up', 'us', 'very', 'was', 'way', 'we', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who',
+  'why', 'will', 'with', 'would', 'yeah', 'you', 'your', 'youre',
+]);
+
+export function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '').replace(/'/g, '');
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).map(normalizeToken).filter(Boolean);
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 4) return false;
+  // Allow one edit per five characters, e.g. "colour"/"color", "gonna"/"gona"
+  return editDistance(a, b) <= Math.floor(Math.max(a.length, b.length) / 5);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Matches `anchor` in order against `tokens` starting at `from` (or ending at
+ * `from` when reversed) and returns the fraction of anchor tokens found.
+ */
+function scoreAnchor(anchor: string[], tokens: string[], from: number, reverse: boolean): number {
+  const step = reverse ? -1 : 1;
+  const limit = anchor.length + ANCHOR_SLACK;
+  let matched = 0;
+  let position = from;
+
+  for (const token of anchor) {
+    for (let k = position; Math.abs(k - from) < limit && k >= 0 && k < tokens.length; k += step) {
+      if (tokensMatch(token, tokens[k])) {
+        matched++;
+        position = k + step;
+        break;
+      }
+    }
+  }
+
+  return matched / anchor.length;
+}
+
+/**
+ * Finds the best anchor position, preferring positions near the model's
+ * estimate when several places in the transcript match equally well.
+ */
+function findAnchor(
+  anchor: string[],
+  tokens: string[],
+  words: TranscriptWord[],
+  estimate: number,
+  reverse: boolean,
+  bounds: { min: number; max: number }
+): { index: number; score: number } | null {
+  let best: { index: number; score: number; rank: number } | null = null;
+  const duration = words[words.length - 1].end || 1;
+
+  for (let i = bounds.min; i <= bounds.max; i++) {
+    // Anchors must begin (or end) on the first (or last) segment token
+    if (!tokensMatch(anchor[0], tokens[i])) continue;
+    const score = scoreAnchor(anchor, tokens, i, reverse);
+    const distancePenalty = Math.min(1, Math.abs(words[i].start - estimate) / duration) * 0.1;
+    const rank = score - distancePenalty;
+    if (!best || rank > best.rank) {
+      best = { index: i, score, rank };
+    }
+  }
+
+  return best ? { index: best.index, score: best.score } : null;
+}
+
+function endsSentence(word: TranscriptWord): boolean {
+  return /[.!?]["')\]]?$/.test(word.word.trim());
+}
+
+function isStartBoundary(words: TranscriptWord[], i: number): boolean {
+  if (i === 0) return true;
+  const previous = words[i - 1];
+  return endsSentence(previous) || words[i].start - previous.end >= PAUSE_SECONDS;
+}
+
+function isEndBoundary(words: TranscriptWord[], i: number): boolean {
+  if (i === words.length - 1) return true;
+  return endsSentence(words[i]) || words[i + 1].start - words[i].end >= PAUSE_SECONDS;
+}
+
+function snapIndex(
+  words: TranscriptWord[],
+  index: number,
+  isBoundary: (i: number) => boolean,
+  preferLater: boolean
+): number {
+  for (let offset = 0; offset <= SNAP_WINDOW; offset++) {
+    // On ties prefer widening the clip over cutting words off it
+    const candidates = preferLater ? [index + offset, index - offset] : [index - offset, index + offset];
+    for (const candidate of candidates) {
+      if (candidate >= 0 && candidate < words.length && isBoundary(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return index;
+}
+
+function nearestWordIndex(words: TranscriptWord[], time: number): number {
+  let nearest = 0;
+  for (let i = 0; i < words.length; i++) {
+    if (Math.abs(words[i].start - time) < Math.abs(words[nearest].start - time)) {
+      nearest = i;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Realigns a model-produced segment against transcript word timestamps and
+ * snaps it to sentence or pause boundaries.
+ */
+export function alignSegment(
+  segmentText: string,
+  words: TranscriptWord[],
+  estimatedStart: number,
+  estimatedEnd: number
+): SegmentAlignment {
+  if (words.length === 0) {
+    return { startTime: estimatedStart, endTime: estimatedEnd, confidence: 0 };
+  }
+
+  const tokens = words.map(word => normalizeToken(word.word));
+  const segmentTokens = tokenize(segmentText);
+
+  let startIndex = -1;
+  let endIndex = -1;
+  let confidence = 0;
+
+  if (segmentTokens.length > 0) {
+    const headAnchor = segmentTokens.slice(0, ANCHOR_TOKENS);
+    const tailAnchor = segmentTokens.slice(-ANCHOR_TOKENS).reverse();
+
+    const head = findAnchor(headAnchor, tokens, words, estimatedStart, false, { min: 0, max: words.length - 1 });
+    const tail = head
+      ? findAnchor(tailAnchor, tokens, words, estimatedEnd, true, { min: head.index, max: words.length - 1 })
+      : null;
+
+    if (head && tail) {
+      // Penalise spans whose length disagrees with the segment text (wrong repetition matched)
+      const spanLength = tail.index - head.index + 1;
+      const lengthFit = Math.min(spanLength, segmentTokens.length) / Math.max(spanLength, segmentTokens.length);
+      confidence = ((head.score + tail.score) / 2) * Math.sqrt(lengthFit);
+      startIndex = head.index;
+      endIndex = tail.index;
+    }
+  }
+
+  if (confidence < MIN_CONFIDENCE) {
+    // Text could not be located reliably; still avoid cutting mid-word
+    startIndex = nearestWordIndex(words, estimatedStart);
+    endIndex = Math.max(startIndex, nearestWordIndex(words, estimatedEnd) - 1);
+  }
+
+  startIndex = snapIndex(words, startIndex, i => isStartBoundary(words, i), false);
+  endIndex = Math.max(startIndex, snapIndex(words, endIndex, i => isEndBoundary(words, i), true));
+
+  const previousEnd = startIndex > 0 ? words[startIndex - 1].end : 0;
+  const nextStart = endIndex < words.length - 1 ? words[endIndex + 1].start : words[endIndex].end + MAX_PADDING;
+  const leadIn = Math.min(MAX_PADDING, Math.max(0, words[startIndex].start - previousEnd) / 2);
+  const tailOut = Math.min(MAX_PADDING, Math.max(0, nextStart - words[endIndex].end) / 2);
+
+  return {
+    startTime: round(Math.max(0, words[startIndex].start - leadIn)),
+    endTime: round(words[endIndex].end + tailOut),
+    confidence: round(confidence),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,440 @@
+import { z } from 'zod';
+import { storage } from './storage';
+import { getTranscriptWords } from './processors/transcription';
+import type { SpeakerContext } from './speakerService';
+import type {
+  Clip,
+  Segment,
+  SegmentRevision,
+  SegmentSnapshot,
+  TranscriptWord,
+  Upload,
+} from '@shared/schema';
+
+/**
+ * Segment Editor
+ *
+ * Lets users fix what segmentation picked: trim a segment's boundaries, split
+ * it in two or merge two neighbouring segments into one. Boundaries are
+ * checked against the upload's duration. Every edit stores the affected
+ * segments as they were so the latest edit can be undone (one step at a time,
+ * newest first).
+ *
+ * Segment transcripts are rebuilt from the transcript's word timestamps.
+ * Afterwards the segments are re-scored, dependent clips are re-rendered or
+ * rewritten and social posts regenerated in the background. Scheduled and
+ * published posts are never replaced; with `keepManualEdits` neither are
+ * drafts whose caption a user rewrote.
+ */
+
+export const editOptionsSchema = z.object({
+  keepManualEdits: z.boolean().default(true),
+});
+
+export const trimSegmentSchema = editOptionsSchema.extend({
+  startTime: z.number().min(0),
+  endTime: z.number().positive(),
+}).refine(body => body.endTime > body.startTime, { message: 'endTime must be after startTime' });
+
+export const splitSegmentSchema = editOptionsSchema.extend({
+  // Absolute seconds in the upload
+  at: z.number().positive(),
+});
+
+export const mergeSegmentsSchema = editOptionsSchema.extend({
+  segmentIds: z.array(z.string().uuid()).length(2),
+});
+
+export type EditOptions = z.infer<typeof editOptionsSchema>;
+
+export interface SegmentEditResult {
+  revision: SegmentRevision;
+  // All of the upload's segments after the edit
+  segments: Segment[];
+  changedSegments: string[];
+  createdSegments: string[];
+  removedSegments: string[];
+}
+
+type RevisionOperation = 'trim' | 'split' | 'merge';
+
+// Segments shorter than this make no sense as a short or a post
+const MIN_SEGMENT_SECONDS = 3;
+// Rounding slack when comparing boundaries to the upload duration
+const DURATION_TOLERANCE = 0.05;
+
+export class SegmentEditorService {
+  async trim(
+    upload: Upload,
+    segment: Segment,
+    startTime: number,
+    endTime: number,
+    userId: string,
+    options: EditOptions
+  ): Promise<SegmentEditResult> {
+    await this.checkRange(upload, startTime, endTime);
+    await this.assertEditable([segment]);
+
+    const words = await this.getWords(upload.id);
+    await storage.updateSegment(segment.id, {
+      startTime,
+      endTime,
+      transcript: this.textForRange(segment, words, startTime, endTime),
+    });
+
+    return await this.commit(upload, userId, 'trim', {
+      segmentId: segment.id,
+      from: { startTime: parseFloat(segment.startTime), endTime: parseFloat(segment.endTime) },
+      to: { startTime, endTime },
+    }, [segment], [], [], options);
+  }
+
+  /** Splits at `at` (absolute seconds); the first part keeps the segment's id and clips */
+  async split(upload: Upload, segment: Segment, at: number, userId: string, options: EditOptions): Promise<SegmentEditResult> {
+    const start = parseFloat(segment.startTime);
+    const end = parseFloat(segment.endTime);
+    if (at - start < MIN_SEGMENT_SECONDS || end - at < MIN_SEGMENT_SECONDS) {
+      throw invalidEdit(`Split point must leave at least ${MIN_SEGMENT_SECONDS}s on each side (segment runs ${start}s-${end}s)`);
+    }
+    await this.assertEditable([segment]);
+
+    const words = await this.getWords(upload.id);
+    const fraction = (at - start) / (end - start);
+
+    // Later segments move down one place to make room for the second part
+    const segments = await storage.getSegmentsByUploadId(upload.id);
+    for (const later of segments.filter(other => other.order > segment.order)) {
+      await storage.updateSegment(later.id, { order: later.order + 1 });
+    }
+
+    await storage.updateSegment(segment.id, {
+      endTime: at,
+      transcript: words.length > 0 ? wordsInRange(words, start, at) : sliceText(segment.transcript, 0, fraction),
+    });
+    const [second] = await storage.createSegments([{
+      uploadId: upload.id,
+      title: `${segment.title} (part 2)`,
+      summary: segment.summary ?? undefined,
+      startTime: at,
+      endTime: end,
+      transcript: words.length > 0 ? wordsInRange(words, at, end) : sliceText(segment.transcript, fraction, 1),
+      speakerId: segment.speakerId,
+      order: segment.order + 1,
+    }]);
+
+    return await this.commit(upload, userId, 'split', {
+      segmentId: segment.id,
+      at,
+      newSegmentId: second.id,
+    }, [segment], [second.id], [], options);
+  }
+
+  /**
+   * Merges two neighbouring segments of an upload; the earlier one is kept and
+   * extended, the other deleted
+   */
+  async merge(upload: Upload, a: Segment, b: Segment, userId: string, options: EditOptions): Promise<SegmentEditResult> {
+    const [first, second] = [a, b].sort((x, y) => x.order - y.order);
+    const segments = await storage.getSegmentsByUploadId(upload.id);
+    const firstIndex = segments.findIndex(segment => segment.id === first.id);
+    if (segments[firstIndex + 1]?.id !== second.id) {
+      throw invalidEdit('Only a segment and the one directly after it can be merged');
+    }
+    const startTime = parseFloat(first.startTime);
+    const endTime = Math.max(parseFloat(first.endTime), parseFloat(second.endTime));
+    await this.checkRange(upload, startTime, endTime);
+    await this.assertEditable([first, second]);
+    await this.assertNoPublishedPosts([second]);
+
+    const words = await this.getWords(upload.id);
+    await storage.updateSegment(first.id, {
+      startTime,
+      endTime,
+      transcript: words.length > 0
+        ? wordsInRange(words, startTime, endTime)
+        : [first.transcript, second.transcript].filter(Boolean).join(' '),
+    });
+    // Clips and posts of the second segment go with it
+    await storage.deleteSegment(second.id);
+    await this.renumber(upload.id);
+
+    return await this.commit(upload, userId, 'merge', {
+      segmentIds: [first.id, second.id],
+      keptSegmentId: first.id,
+    }, [first, second], [], [second.id], options);
+  }
+
+  /** Reverts the latest edit that hasn't been undone yet */
+  async undo(upload: Upload, userId: string, options: EditOptions): Promise<SegmentEditResult> {
+    const revisions = await storage.getSegmentRevisions(upload.id);
+    const revision = revisions.find(candidate => !candidate.undoneAt);
+    if (!revision) {
+      throw editConflict('Nothing to undo');
+    }
+
+    const current = await storage.getSegmentsByUploadId(upload.id);
+    const created = current.filter(segment => revision.createdSegmentIds.includes(segment.id));
+    const restored = current.filter(segment => revision.previousSegments.some(snapshot => snapshot.id === segment.id));
+    await this.assertEditable([...created, ...restored]);
+    await this.assertNoPublishedPosts(created);
+
+    for (const segment of created) {
+      await storage.deleteSegment(segment.id);
+    }
+    for (const snapshot of revision.previousSegments) {
+      await storage.restoreSegment(snapshot);
+    }
+    await this.renumber(upload.id);
+    const undone = await storage.markSegmentRevisionUndone(revision.id);
+
+    const existing = new Set(current.map(segment => segment.id));
+    const changed = restored.map(segment => ({ id: segment.id, previousStart: parseFloat(segment.startTime) }));
+    const recreated = revision.previousSegments.filter(snapshot => !existing.has(snapshot.id)).map(snapshot => snapshot.id);
+    console.log(`[SegmentEditor] Undid ${revision.operation} on upload ${upload.id}`);
+
+    return await this.finish(upload, undone, changed, recreated, created.map(segment => segment.id), options);
+  }
+
+  /** Edits newest first, without the stored snapshots */
+  async getHistory(uploadId: string): Promise<Array<Omit<SegmentRevision, 'previousSegments'>>> {
+    const revisions = await storage.getSegmentRevisions(uploadId);
+    return revisions.map(({ previousSegments, ...revision }) => revision);
+  }
+
+  /**
+   * Numbers the upload's segments 0, 1, 2… again after one was removed or
+   * restored. A restored segment can share its old number with the segment
+   * that moved up into it, so ties go by start time.
+   */
+  private async renumber(uploadId: string): Promise<void> {
+    const segments = await storage.getSegmentsByUploadId(uploadId);
+    segments.sort((a, b) => a.order - b.order || parseFloat(a.startTime) - parseFloat(b.startTime));
+    for (const [index, segment] of segments.entries()) {
+      if (segment.order !== index) {
+        await storage.updateSegment(segment.id, { order: index });
+      }
+    }
+  }
+
+  private async commit(
+    upload: Upload,
+    userId: string,
+    operation: RevisionOperation,
+    details: Record<string, any>,
+    previous: Segment[],
+    createdIds: string[],
+    removedIds: string[],
+    options: EditOptions
+  ): Promise<SegmentEditResult> {
+    const revision = await storage.createSegmentRevision({
+      uploadId: upload.id,
+      userId,
+      operation,
+      details,
+      previousSegments: previous.map(toSnapshot),
+      createdSegmentIds: createdIds,
+    });
+    console.log(`[SegmentEditor] ${operation} on upload ${upload.id}`);
+
+    const changed = previous
+      .filter(segment => !removedIds.includes(segment.id))
+      .map(segment => ({ id: segment.id, previousStart: parseFloat(segment.startTime) }));
+    return await this.finish(upload, revision, changed, createdIds, removedIds, options);
+  }
+
+  private async finish(
+    upload: Upload,
+    revision: SegmentRevision,
+    changed: Array<{ id: string; previousStart: number }>,
+    createdIds: string[],
+    removedIds: string[],
+    options: EditOptions
+  ): Promise<SegmentEditResult> {
+    const segments = await storage.getSegmentsByUploadId(upload.id);
+
+    this.regenerateDependents(upload, segments, changed, createdIds, options).catch(error => {
+      console.error(`[SegmentEditor] Failed to regenerate content for upload ${upload.id}:`, error);
+    });
+
+    return {
+      revision,
+      segments,
+      changedSegments: changed.map(segment => segment.id),
+      createdSegments: createdIds,
+      removedSegments: removedIds,
+    };
+  }
+
+  /**
+   * Re-scores the upload's segments, then for edited segments re-renders
+   * shorts and audiograms and rewrites text clips; new segments get a full
+   * set of clips. Posts are regenerated for both. Runs one segment at a time.
+   */
+  private async regenerateDependents(
+    upload: Upload,
+    segments: Segment[],
+    changed: Array<{ id: string; previousStart: number }>,
+    createdIds: string[],
+    options: EditOptions
+  ): Promise<void> {
+    const { viralityScorer } = await import('./viralityScorer');
+    const { speakerService } = await import('./speakerService');
+    const { graphicsService } = await import('./graphicsService');
+    const { generateClipsForSegment } = await import('./processors/clipGeneration');
+    const { regenerateSocialPosts } = await import('./processors/socialContent');
+
+    const transcript = await storage.getTranscriptByUploadId(upload.id);
+    const scored = await viralityScorer.scoreSegments(segments, {
+      userId: upload.userId,
+      settings: await viralityScorer.getSettings(upload.workspaceId),
+      words: transcript ? getTranscriptWords(transcript) : [],
+    });
+    const speakerContext = await speakerService.getContext(upload.id);
+
+    for (const { id, previousStart } of changed) {
+      const segment = scored.find(candidate => candidate.id === id);
+      if (!segment) continue;
+
+      await graphicsService.refreshQuoteGraphics(segment, upload.userId);
+      for (const clip of await storage.getClipsBySegmentId(segment.id)) {
+        await this.updateClip(upload, segment, clip, previousStart, speakerContext);
+      }
+      await regenerateSocialPosts(segment, speakerContext, options);
+    }
+
+    for (const id of createdIds) {
+      const segment = scored.find(candidate => candidate.id === id);
+      if (!segment) continue;
+
+      await generateClipsForSegment(upload, segment, speakerContext);
+      await regenerateSocialPosts(segment, speakerContext, options);
+    }
+
+    console.log(`[SegmentEditor] Regenerated content for ${changed.length + createdIds.length} segment(s) of upload ${upload.id}`);
+  }
+
+  /** Moves a clip onto the segment's new boundaries and re-renders or rewrites it */
+  private async updateClip(
+    upload: Upload,
+    segment: Segment,
+    clip: Clip,
+    previousStart: number,
+    speakerContext: SpeakerContext
+  ): Promise<void> {
+    const { brollService } = await import('./brollService');
+    const { speakerService } = await import('./speakerService');
+    const { isRenderedQuoteGraphic } = await import('./graphicsService');
+    const { generateSocialContent, generateQuoteGraphic } = await import('./openai');
+    const { renderVerticalShort, renderAudiogram, isVideoUpload, isAudioUpload } = await import('./processors/clipGeneration');
+
+    const start = parseFloat(segment.startTime);
+    const end = parseFloat(segment.endTime);
+    const { broll, ...metadata } = (clip.metadata || {}) as Record<string, any>;
+    const timeline = brollService.retimeTimeline(brollService.getTimeline(clip.metadata), start - previousStart, end - start);
+    const updated = await storage.updateClip(clip.id, {
+      metadata: { ...metadata, ...(timeline ? { broll: timeline } : {}), start, end, duration: end - start },
+    });
+
+    const attribution = speakerService.attributeSegment(speakerContext, segment);
+    const segmentData = {
+      title: segment.title,
+      summary: segment.summary || '',
+      startTime: start,
+      endTime: end,
+      transcript: segment.transcript || '',
+      speaker: attribution.speaker?.name,
+      attributedTranscript: attribution.attributedTranscript,
+    };
+
+    if (clip.type === 'vertical_short' && isVideoUpload(upload) && clip.status !== 'processing') {
+      await renderVerticalShort(updated, segment, upload);
+    } else if (clip.type === 'audiogram' && isAudioUpload(upload) && clip.status !== 'processing') {
+      await renderAudiogram(updated, segment, upload);
+    } else if (clip.type === 'quote_graphic' && !isRenderedQuoteGraphic(clip)) {
+      await storage.updateClip(clip.id, { content: await generateQuoteGraphic(segmentData), status: 'completed' });
+    } else if (clip.type === 'social_post' && typeof metadata.platform === 'string') {
+      await storage.updateClip(clip.id, { content: await generateSocialContent(segmentData, metadata.platform), status: 'completed' });
+    }
+  }
+
+  private async checkRange(upload: Upload, startTime: number, endTime: number): Promise<void> {
+    if (startTime < 0) {
+      throw invalidEdit('Segments cannot start before the upload');
+    }
+    if (endTime - startTime < MIN_SEGMENT_SECONDS) {
+      throw invalidEdit(`Segments must be at least ${MIN_SEGMENT_SECONDS}s long`);
+    }
+
+    const duration = await this.getUploadDuration(upload);
+    if (duration !== null && endTime > duration + DURATION_TOLERANCE) {
+      throw invalidEdit(`Segments cannot end after the upload (${Math.round(duration * 100) / 100}s)`);
+    }
+  }
+
+  /** The upload's duration, or the end of its last transcribed word when it wasn't probed */
+  private async getUploadDuration(upload: Upload): Promise<number | null> {
+    const duration = upload.duration ? parseFloat(upload.duration) : NaN;
+    if (duration > 0) return duration;
+
+    const words = await this.getWords(upload.id);
+    return words.length > 0 ? words[words.length - 1].end : null;
+  }
+
+  private async getWords(uploadId: string): Promise<TranscriptWord[]> {
+    const transcript = await storage.getTranscriptByUploadId(uploadId);
+    return transcript ? getTranscriptWords(transcript) : [];
+  }
+
+  private textForRange(segment: Segment, words: TranscriptWord[], start: number, end: number): string | undefined {
+    // Without word timings the text can't follow the new boundaries; keep it
+    return words.length > 0 ? wordsInRange(words, start, end) : segment.transcript ?? undefined;
+  }
+
+  private async assertEditable(segments: Segment[]): Promise<void> {
+    for (const segment of segments) {
+      const clips = await storage.getClipsBySegmentId(segment.id);
+      if (clips.some(clip => clip.status === 'processing')) {
+        throw editConflict(`Clips of "${segment.title}" are still rendering`);
+      }
+    }
+  }
+
+  /** Deleting a segment deletes its posts, so scheduled and published ones block it */
+  private async assertNoPublishedPosts(segments: Segment[]): Promise<void> {
+    for (const segment of segments) {
+      const posts = await storage.getSocialPostsBySegmentId(segment.id);
+      if (posts.some(post => post.status === 'scheduled' || post.status === 'posted')) {
+        throw editConflict(`"${segment.title}" has scheduled or published posts`);
+      }
+    }
+  }
+}
+
+function toSnapshot({ createdAt, viralityScore, viralityBreakdown, ...snapshot }: Segment): SegmentSnapshot {
+  return snapshot;
+}
+
+// Words whose midpoint falls inside the range
+function wordsInRange(words: TranscriptWord[], start: number, end: number): string {
+  return words
+    .filter(word => (word.start + word.end) / 2 >= start && (word.start + word.end) / 2 < end)
+    .map(word => word.word.trim())
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Legacy transcripts have no word timings; split their text by time instead
+function sliceText(text: string | null, from: number, to: number): string {
+  const words = (text || '').split(/\s+/).filter(Boolean);
+  return words.slice(Math.round(words.length * from), Math.round(words.length * to)).join(' ');
+}
+
+function invalidEdit(message: string): Error {
+  return Object.assign(new Error(message), { code: 'INVALID_SEGMENT_EDIT' });
+}
+
+function editConflict(message: string): Error {
+  return Object.assign(new Error(message), { code: 'SEGMENT_EDIT_CONFLICT' });
+}
+
+export const segmentEditorService = new SegmentEditorService();
@@ -2,21 +2,58 @@ import ffmpeg from 'fluent-ffmpeg';
 import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import path from 'path';
 import fs from 'fs/promises';
-import { Segment } from '@shared/schema';
+import { Segment, TranscriptWord } from '@shared/schema';
+import { reframingService } from './reframingService';
+import {
+  jumpCutService,
+  DEFAULT_JUMP_CUT_CONFIG,
+  type EditDecisionList,
+  type JumpCutConfig,
+} from './jumpCutService';
+import { brandKitService, type BrandKit } from './brandKitService';
+import type { BrollInsert } from './brollService';
+import {
+  buildAssSubtitles,
+  resolveCaptionStyle,
+  sliceWordsForClip,
+  type CaptionPlatform,
+  type CaptionPosition,
+  type CaptionPresetName,
+} from './captionGenerator';
 
 // Set FFmpeg path
 ffmpeg.setFfmpegPath(ffmpegInstaller.path);
 
-interface ShortsConfig {
+// center: fixed centre crop; subject: crop follows the detected speaker;
+// split-screen: two subjects stacked top/bottom (interviews)
+type ReframeMode = 'center' | 'subject' | 'split-screen';
+
+export interface ShortsConfig {
   width: number;
   height: number;
+  reframe: ReframeMode;
   subtitleStyle: {
     fontsize: number;
     fontcolor: string;
     fontfamily: string;
     boxcolor: string;
     boxborderw: number;
+    // Word-timed ASS captions, used when transcript word timestamps are available
+    preset?: CaptionPresetName;
+    highlightColor?: string;
+    position?: CaptionPosition;
+    maxWordsPerLine?: number;
+    emoji?: boolean;
+    platform?: CaptionPlatform;
   };
+  // Filler-word and silence removal; the EDL of what was cut is returned with the result
+  jumpCut?: Partial<JumpCutConfig>;
+  // Workspace brand kit: watermark, speaker lower-third and intro/outro videos
+  brandKit?: BrandKit | null;
+  // Name shown in the lower-third
+  speakerName?: string;
+  // B-roll cutaways and picture-in-picture inserts, timed from the segment start
+  broll?: BrollInsert[];
   introOutroConfig?: {
     intro?: {
       duration: number;
@@ -31,18 +68,25 @@ interface ShortsConfig {
   };
 }
 
+// Caller-supplied overrides; subtitleStyle is merged field by field with the defaults
+export type ShortsConfigInput = Partial<Omit<ShortsConfig, 'subtitleStyle'>> & {
+  subtitleStyle?: Partial<ShortsConfig['subtitleStyle']>;
+};
+
 interface ShortsResult {
   outputPath: string;
   duration: number;
   size: number;
   format: string;
   resolution: string;
+  edl?: EditDecisionList;
 }
 
 export class ShortsGenerator {
   private defaultConfig: ShortsConfig = {
     width: 1080,
     height: 1920, // 9:16 aspect ratio
+    reframe: 'center',
     subtitleStyle: {
       fontsize: 48,
       fontcolor: 'white',
@@ -52,39 +96,116 @@ export class ShortsGenerator {
     }
   };
 
+  /**
+   * Renders a 9:16 short for the segment. When `words` (transcript word
+   * timestamps, absolute seconds) are given, captions are word-timed ASS in
+   * the configured preset; otherwise an evenly spread SRT is burned in.
+   * In jump-cut mode the clip is cut to the planned EDL first and captions
+   * follow the edited timeline.
+   */
   async generateVerticalShort(
     originalVideoPath: string,
     segment: Segment,
     outputDir: string,
-    config?: Partial<ShortsConfig>
+    config?: ShortsConfigInput,
+    words?: TranscriptWord[]
   ): Promise<ShortsResult> {
-    const finalConfig = { ...this.defaultConfig, ...config };
+    const finalConfig: ShortsConfig = {
+      ...this.defaultConfig,
+      ...config,
+      subtitleStyle: { ...this.defaultConfig.subtitleStyle, ...config?.subtitleStyle },
+    };
     const outputPath = path.join(outputDir, `short_${segment.id}.mp4`);
 
     try {
       // Ensure output directory exists
       await fs.mkdir(outputDir, { recursive: true });
 
-      // Generate SRT subtitle file
-      const srtPath = await this.generateSRTFile(segment, outputDir);
-
       // Calculate start and end times
       const startTime = parseFloat(segment.startTime);
       const endTime = parseFloat(segment.endTime);
       const duration = endTime - startTime;
 
+      let clipWords = words ? sliceWordsForClip(words, startTime, endTime) : [];
+
+      const jumpCut: JumpCutConfig = { ...DEFAULT_JUMP_CUT_CONFIG, ...finalConfig.jumpCut };
+      let edl: EditDecisionList | undefined;
+      let hasAudio = true;
+      if (jumpCut.enabled) {
+        hasAudio = await this.getVideoInfo(originalVideoPath).then(info => info.hasAudio, () => true);
+        edl = await jumpCutService.planCuts(originalVideoPath, startTime, endTime, words || [], jumpCut, hasAudio);
+        console.log(`[ShortsGenerator] Jump cut for segment ${segment.id}: ${edl.cuts.length} cuts, ${edl.originalDuration}s -> ${edl.editedDuration}s`);
+      }
+      const cutting = !!edl && edl.cuts.length > 0;
+      if (cutting) {
+        clipWords = jumpCutService.retimeWords(clipWords, edl!);
+      }
+      const outputDuration = edl ? edl.editedDuration : duration;
+
+      const { subtitlePath, filter: subtitles } = clipWords.length > 0
+        ? await this.generateASSFile(segment, clipWords, finalConfig, outputDir)
+        : await this.generateSRTFile(segment, finalConfig, outputDir, outputDuration);
+
       const tempMain = path.join(outputDir, `main_${segment.id}.mp4`);
 
+      const reframe = await this.buildReframeFilter(originalVideoPath, segment.id, startTime, duration, finalConfig, outputDir);
+
+      const filterGraph = [cutting
+        ? jumpCutService.buildConcatFilter(edl!, reframe.filter, hasAudio)
+        : `[0:v]${reframe.filter}[vcut]`];
+      const extraInputs: Array<{ path: string; options?: string[] }> = [];
+
+      // B-roll goes under the captions; placement times follow the jump-cut edit
+      let videoLabel = 'vcut';
+      for (const [index, insert] of (finalConfig.broll || []).entries()) {
+        const range = cutting ? jumpCutService.mapRange(insert.start, insert.end, edl!) : insert;
+        if (!range || range.start >= outputDuration) continue;
+
+        // Stills are looped so they last the whole placement
+        extraInputs.push(insert.mediaType === 'image'
+          ? { path: insert.filePath, options: ['-loop', '1', '-t', `${range.end - range.start}`] }
+          : { path: insert.filePath });
+        filterGraph.push(this.buildBrollOverlay(insert, range, finalConfig, extraInputs.length, videoLabel, `vbroll${index}`));
+        videoLabel = `vbroll${index}`;
+      }
+
+      filterGraph.push(`[${videoLabel}]${subtitles}[vsub]`);
+      videoLabel = 'vsub';
+
+      const { brandKit } = finalConfig;
+      const lowerThirdPath = await brandKitService.writeLowerThird(brandKit, finalConfig.speakerName, {
+        width: finalConfig.width,
+        height: finalConfig.height,
+        duration: outputDuration,
+        outputDir,
+        id: segment.id,
+      });
+      if (lowerThirdPath) {
+        filterGraph.push(`[${videoLabel}]ass=${lowerThirdPath}[vlower]`);
+        videoLabel = 'vlower';
+      }
+      const watermark = brandKitService.getWatermarkImage(brandKit);
+      if (brandKit && watermark) {
+        extraInputs.push({ path: watermark });
+        filterGraph.push(brandKitService.buildWatermarkFilter(brandKit, finalConfig.width, videoLabel, extraInputs.length, 'vbrand'));
+        videoLabel = 'vbrand';
+      }
+
+      const audioMap = cutting ? (hasAudio ? ['-map', '[acut]'] : []) : ['-map', '0:a?'];
+
       // First generate the processed clip
       await new Promise<void>((resolve, reject) => {
-        ffmpeg(originalVideoPath)
+        const command = ffmpeg(originalVideoPath)
           .seekInput(startTime)
-          .duration(duration)
-          .videoFilters([
-            `scale=${finalConfig.width}:${finalConfig.height}:force_original_aspect_ratio=increase`,
-            `crop=${finalConfig.width}:${finalConfig.height}`,
-            `subtitles=${srtPath}:force_style='FontSize=${finalConfig.subtitleStyle.fontsize},FontName=${finalConfig.subtitleStyle.fontfamily},PrimaryColour=${this.convertColorToASS(finalConfig.subtitleStyle.fontcolor)},OutlineColour=${this.convertColorToASS(finalConfig.subtitleStyle.boxcolor)},BorderStyle=3,Outline=${finalConfig.subtitleStyle.boxborderw}'`
-          ])
+          .duration(duration);
+        extraInputs.forEach(input => {
+          command.input(input.path);
+          if (input.options) command.inputOptions(input.options);
+        });
+
+        command
+          .complexFilter(filterGraph.join(';'))
+          .outputOptions(['-map', `[${videoLabel}]`, ...audioMap])
           .videoCodec('libx264')
           .audioCodec('aac')
           .audioBitrate('128k')
@@ -98,12 +219,13 @@ export class ShortsGenerator {
           .run();
       });
 
-      // Cleanup SRT
-      await fs.unlink(srtPath).catch(() => {});
+      // Cleanup subtitles and crop commands
+      await Promise.all([subtitlePath, lowerThirdPath, ...reframe.tempFiles].filter((file): file is string => !!file).map(file => fs.unlink(file).catch(() => {})));
 
       let finalPath = tempMain;
 
-      if (finalConfig.introOutroConfig?.intro || finalConfig.introOutroConfig?.outro) {
+      if (finalConfig.introOutroConfig?.intro || finalConfig.introOutroConfig?.outro ||
+          brandKit?.introVideo || brandKit?.outroVideo) {
         finalPath = await this.addIntroOutro(tempMain, finalConfig, outputDir);
       }
 
@@ -114,10 +236,11 @@ export class ShortsGenerator {
       const stats = await fs.stat(outputPath);
       const result: ShortsResult = {
         outputPath,
-        duration,
+        duration: outputDuration,
         size: stats.size,
         format: 'mp4',
-        resolution: `${finalConfig.width}x${finalConfig.height}`
+        resolution: `${finalConfig.width}x${finalConfig.height}`,
+        edl
       };
 
       // Cleanup temp files
@@ -130,14 +253,148 @@ export class ShortsGenerator {
     }
   }
 
-  private async generateSRTFile(segment: Segment, outputDir: string): Promise<string> {
+  /**
+   * Overlays one B-roll insert (FFmpeg input `input`) on `[videoLabel]` for
+   * `range` seconds of the short: scaled and cropped to fill the frame as a
+   * cutaway, or as an inset in a corner for picture-in-picture. B-roll audio
+   * is not used.
+   */
+  private buildBrollOverlay(
+    insert: BrollInsert,
+    range: { start: number; end: number },
+    config: ShortsConfig,
+    input: number,
+    videoLabel: string,
+    outputLabel: string
+  ): string {
+    const { width, height } = config;
+    const length = range.end - range.start;
+    const margin = Math.round(width * 0.05);
+    const label = `broll_${outputLabel}`;
+
+    const fit = insert.mode === 'pip'
+      ? `scale=${Math.round((width * insert.scale) / 2) * 2}:-2`
+      : `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+    // Shift the insert so its first frame lands at the placement start
+    const timing = `trim=duration=${length},setpts=PTS-STARTPTS+${range.start}/TB`;
+
+    const x = insert.mode === 'pip' ? (insert.position.endsWith('left') ? `${margin}` : `W-w-${margin}`) : '0';
+    const y = insert.mode === 'pip' ? (insert.position.startsWith('top') ? `${margin}` : `H-h-${margin}`) : '0';
+
+    return `[${input}:v]${fit},setsar=1,fps=30,format=yuva420p,${timing}[${label}];` +
+      `[${videoLabel}][${label}]overlay=${x}:${y}:eof_action=pass:enable='between(t,${range.start},${range.end})'[${outputLabel}]`;
+  }
+
+  /**
+   * Filter chain turning the source frame into width x height. Falls back to
+   * the centre crop when the source is already vertical or detection fails.
+   */
+  private async buildReframeFilter(
+    videoPath: string,
+    segmentId: string,
+    startTime: number,
+    duration: number,
+    config: ShortsConfig,
+    outputDir: string
+  ): Promise<{ filter: string; tempFiles: string[] }> {
+    const { width, height } = config;
+    const centerCrop = {
+      filter: `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`,
+      tempFiles: [] as string[],
+    };
+    if (config.reframe === 'center') return centerCrop;
+
+    try {
+      const info = await this.getVideoInfo(videoPath);
+      if (!info.width || !info.height || info.width / info.height <= width / height) {
+        return centerCrop;
+      }
+
+      const track = await reframingService.analyze(videoPath, startTime, duration, info);
+      if (track.columns.length === 0) return centerCrop;
+
+      const clamp = (value: number, max: number) => Math.min(max, Math.max(0, Math.round(value)));
+
+      if (config.reframe === 'split-screen') {
+        // Scale so each half of the frame is at least as wide as a panel
+        const panelHeight = Math.floor(height / 4) * 2;
+        const scaledHeight = Math.max(panelHeight, Math.ceil((2 * width * info.height) / info.width / 2) * 2);
+        const scaledWidth = Math.round((info.width * scaledHeight) / info.height / 2) * 2;
+        const layout = reframingService.findSplitSubjects(track, width / scaledWidth);
+        const y = clamp(layout.verticalCenter * scaledHeight - panelHeight / 2, scaledHeight - panelHeight);
+        const topX = clamp(layout.top * scaledWidth - width / 2, scaledWidth - width);
+        const bottomX = clamp(layout.bottom * scaledWidth - width / 2, scaledWidth - width);
+
+        return {
+          filter: `scale=${scaledWidth}:${scaledHeight},split[top_src][bottom_src];` +
+            `[top_src]crop=${width}:${panelHeight}:${topX}:${y}[top];` +
+            `[bottom_src]crop=${width}:${panelHeight}:${bottomX}:${y}[bottom];` +
+            `[top][bottom]vstack`,
+          tempFiles: [],
+        };
+      }
+
+      // Subject tracking: full-height frame, crop window panned by sendcmd
+      const scaledWidth = Math.round((info.width * height) / info.height / 2) * 2;
+      const cropPath = reframingService.computeCropPath(track, width / scaledWidth);
+      const commandsPath = path.join(outputDir, `crop_${segmentId}.cmd`);
+      await fs.writeFile(commandsPath, reframingService.buildSendCmd(cropPath, scaledWidth, width), 'utf-8');
+
+      return {
+        filter: `scale=${scaledWidth}:${height},sendcmd=f='${commandsPath}',` +
+          `crop=${width}:${height}:${reframingService.getInitialX(cropPath, scaledWidth, width)}:0`,
+        tempFiles: [commandsPath],
+      };
+    } catch (error) {
+      console.warn(`[ShortsGenerator] ${config.reframe} reframing failed for segment ${segmentId}, using centre crop:`, error);
+      return centerCrop;
+    }
+  }
+
+  private async generateASSFile(
+    segment: Segment,
+    words: TranscriptWord[],
+    config: ShortsConfig,
+    outputDir: string
+  ): Promise<{ subtitlePath: string; filter: string }> {
+    const { subtitleStyle } = config;
+    const assPath = path.join(outputDir, `subtitle_${segment.id}.ass`);
+
+    // Without a preset the legacy font settings still apply on top of the classic look
+    const style = resolveCaptionStyle(subtitleStyle.preset, {
+      ...(subtitleStyle.preset ? {} : {
+        fontFamily: subtitleStyle.fontfamily,
+        fontSize: subtitleStyle.fontsize,
+        primaryColor: subtitleStyle.fontcolor,
+      }),
+      highlightColor: subtitleStyle.highlightColor,
+      position: subtitleStyle.position,
+      maxWordsPerLine: subtitleStyle.maxWordsPerLine,
+      emoji: subtitleStyle.emoji,
+    });
+
+    const content = buildAssSubtitles(words, style, {
+      width: config.width,
+      height: config.height,
+      platform: subtitleStyle.platform,
+    });
+    await fs.writeFile(assPath, content, 'utf-8');
+
+    return { subtitlePath: assPath, filter: `ass=${assPath}` };
+  }
+
+  private async generateSRTFile(
+    segment: Segment,
+    config: ShortsConfig,
+    outputDir: string,
+    duration: number
+  ): Promise<{ subtitlePath: string; filter: string }> {
     const srtPath = path.join(outputDir, `subtitle_${segment.id}.srt`);
     
     // Generate simple SRT content based on segment transcript
     const transcript = segment.transcript || segment.summary || '';
     const words = transcript.split(' ');
     const wordsPerSubtitle = 8;
-    const duration = parseFloat(segment.endTime) - parseFloat(segment.startTime);
     const subtitleDuration = duration / Math.ceil(words.length / wordsPerSubtitle);
     
     let srtContent = '';
@@ -156,7 +413,12 @@ export class ShortsGenerator {
     }
     
     await fs.writeFile(srtPath, srtContent, 'utf-8');
-    return srtPath;
+
+    const style = config.subtitleStyle;
+    return {
+      subtitlePath: srtPath,
+      filter: `subtitles=${srtPath}:force_style='FontSize=${style.fontsize},FontName=${style.fontfamily},PrimaryColour=${this.convertColorToASS(style.fontcolor)},OutlineColour=${this.convertColorToASS(style.boxcolor)},BorderStyle=3,Outline=${style.boxborderw}'`,
+    };
   }
 
   private formatSRTTime(seconds: number): string {
@@ -182,12 +444,18 @@ export class ShortsGenerator {
     return colorMap[color.toLowerCase()] || '&HFFFFFF';
   }
 
+  /**
+   * Joins intro and outro onto the short. Text cards from introOutroConfig take
+   * precedence over the brand kit's intro/outro videos, which are letterboxed
+   * to the short's size.
+   */
   private async addIntroOutro(
     mainVideoPath: string,
     config: ShortsConfig,
     outputDir: string
   ): Promise<string> {
-    const inputs: string[] = [];
+    const inputs: Array<{ path: string; temporary: boolean }> = [];
+    const { width, height } = config;
 
     const makeClip = async (
       text: string,
@@ -198,7 +466,7 @@ export class ShortsGenerator {
       const outPath = path.join(outputDir, filename);
       await new Promise<void>((resolve, reject) => {
         ffmpeg()
-          .input(`color=c=${background}:s=${config.width}x${config.height}:d=${duration}`)
+          .input(`color=c=${background}:s=${width}x${height}:d=${duration}`)
           .inputFormat('lavfi')
           .input('anullsrc=r=44100:cl=stereo')
           .inputFormat('lavfi')
@@ -225,10 +493,12 @@ export class ShortsGenerator {
         intro.backgroundColor || 'black',
         `intro_${Date.now()}.mp4`
       );
-      inputs.push(clip);
+      inputs.push({ path: clip, temporary: true });
+    } else if (config.brandKit?.introVideo) {
+      inputs.push({ path: config.brandKit.introVideo, temporary: false });
     }
 
-    inputs.push(mainVideoPath);
+    inputs.push({ path: mainVideoPath, temporary: false });
 
     if (config.introOutroConfig?.outro) {
       const outro = config.introOutroConfig.outro;
@@ -238,20 +508,36 @@ export class ShortsGenerator {
         outro.backgroundColor || 'black',
         `outro_${Date.now()}.mp4`
       );
-      inputs.push(clip);
+      inputs.push({ path: clip, temporary: true });
+    } else if (config.brandKit?.outroVideo) {
+      inputs.push({ path: config.brandKit.outroVideo, temporary: false });
     }
 
     if (inputs.length === 1) return mainVideoPath;
 
+    // Without ffprobe, assume every input has audio
+    const infos = await Promise.all(inputs.map(input => this.getVideoInfo(input.path).catch(() => null)));
     const concatPath = path.join(outputDir, `concat_${Date.now()}.mp4`);
 
     await new Promise<void>((resolve, reject) => {
       const cmd = ffmpeg();
-      inputs.forEach(i => cmd.input(i));
-      const concatInputs = inputs.map((_, idx) => `[${idx}:v:0][${idx}:a:0]`).join('');
-      const filter = `${concatInputs}concat=n=${inputs.length}:v=1:a=1[v][a]`;
+      inputs.forEach(input => cmd.input(input.path));
+
+      // concat needs identical size, SAR, frame rate and audio layout on every input
+      const filters = inputs.flatMap((_, idx) => {
+        const info = infos[idx];
+        return [
+          `[${idx}:v:0]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+            `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=30,format=yuv420p[v${idx}]`,
+          info && !info.hasAudio
+            ? `anullsrc=r=44100:cl=stereo,atrim=duration=${info.duration}[a${idx}]`
+            : `[${idx}:a:0]aformat=sample_rates=44100:channel_layouts=stereo[a${idx}]`,
+        ];
+      });
+      const concatInputs = inputs.map((_, idx) => `[v${idx}][a${idx}]`).join('');
+      filters.push(`${concatInputs}concat=n=${inputs.length}:v=1:a=1[v][a]`);
       cmd
-        .complexFilter([filter])
+        .complexFilter(filters)
         .outputOptions(['-map', '[v]', '-map', '[a]', '-c:v', 'libx264', '-c:a', 'aac', '-preset', 'fast', '-crf', '23', '-movflags', '+faststart'])
         .output(concatPath)
         .on('end', () => resolve())
@@ -260,7 +546,7 @@ export class ShortsGenerator {
     });
 
     // cleanup
-    await Promise.all(inputs.filter(p => p !== mainVideoPath).map(p => fs.unlink(p).catch(() => {})));
+    await Promise.all(inputs.filter(input => input.temporary).map(input => fs.unlink(input.path).catch(() => {})));
     return concatPath;
   }
 
@@ -268,7 +554,8 @@ export class ShortsGenerator {
     originalVideoPath: string,
     segments: Segment[],
     outputDir: string,
-    config?: Partial<ShortsConfig>
+    config?: ShortsConfigInput,
+    words?: TranscriptWord[]
   ): Promise<ShortsResult[]> {
     const results: ShortsResult[] = [];
     
@@ -276,7 +563,7 @@ export class ShortsGenerator {
     
     for (const segment of segments) {
       try {
-        const result = await this.generateVerticalShort(originalVideoPath, segment, outputDir, config);
+        const result = await this.generateVerticalShort(originalVideoPath, segment, outputDir, config, words);
         results.push(result);
         console.log(`[ShortsGenerator] Generated short for segment ${segment.id}: ${result.outputPath}`);
       } catch (error) {
@@ -292,6 +579,7 @@ export class ShortsGenerator {
     width: number;
     height: number;
     format: string;
+    hasAudio: boolean;
   }> {
     return new Promise((resolve, reject) => {
       ffmpeg.ffprobe(videoPath, (err: any, metadata: any) => {
@@ -310,7 +598,8 @@ export class ShortsGenerator {
           duration: metadata.format.duration || 0,
           width: videoStream.width || 0,
           height: videoStream.height || 0,
-          format: metadata.format.format_name || 'unknown'
+          format: metadata.format.format_name || 'unknown',
+          hasAudio: metadata.streams.some((stream: any) => stream.codec_type === 'audio')
         });
       });
     });
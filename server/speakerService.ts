@@ -0,0 +1,136 @@
+import { storage } from './storage';
+import { getTranscriptWords } from './processors/transcription';
+import type { Segment, Speaker, Transcript, TranscriptWord } from '@shared/schema';
+
+/** Diarized words and the upload's speakers, loaded once per processing run */
+export interface SpeakerContext {
+  words: TranscriptWord[];
+  speakers: Speaker[];
+}
+
+export interface SegmentAttribution {
+  speaker?: Speaker;
+  /** Segment transcript with "Name: ..." turns, or undefined without diarization */
+  attributedTranscript?: string;
+}
+
+export class SpeakerService {
+  /**
+   * Creates or refreshes the speaker rows for an upload from its diarized
+   * words. Existing rows keep their (possibly renamed) display name.
+   */
+  async syncSpeakers(uploadId: string, words: TranscriptWord[]): Promise<Speaker[]> {
+    const stats = new Map<string, { wordCount: number; speakingTime: number }>();
+    for (const word of words) {
+      if (!word.speaker) continue;
+      const entry = stats.get(word.speaker) || { wordCount: 0, speakingTime: 0 };
+      entry.wordCount++;
+      entry.speakingTime += Math.max(0, word.end - word.start);
+      stats.set(word.speaker, entry);
+    }
+
+    const existing = await storage.getSpeakersByUploadId(uploadId);
+    const byLabel = new Map(existing.map(speaker => [speaker.label, speaker]));
+    const result: Speaker[] = [];
+
+    // Labels are numbered in order of first appearance: "Speaker 1", "Speaker 2", ...
+    // New ones continue after the highest number in use rather than the count,
+    // which falls behind once speakers are merged or removed
+    const highest = existing.reduce((max, speaker) => {
+      const match = /^Speaker (\d+)$/.exec(speaker.name);
+      return match ? Math.max(max, parseInt(match[1])) : max;
+    }, existing.length);
+    let nextNumber = highest + 1;
+    for (const [label, { wordCount, speakingTime }] of Array.from(stats.entries())) {
+      const speakingSeconds = Math.round(speakingTime * 100) / 100;
+      const current = byLabel.get(label);
+      if (current) {
+        result.push(await storage.updateSpeaker(current.id, { wordCount, speakingTime: speakingSeconds }));
+      } else {
+        result.push(await storage.createSpeaker({
+          uploadId,
+          label,
+          name: `Speaker ${nextNumber++}`,
+          wordCount,
+          speakingTime: speakingSeconds,
+        }));
+      }
+    }
+
+    const stale = existing.filter(speaker => !stats.has(speaker.label)).map(speaker => speaker.id);
+    await storage.deleteSpeakers(stale);
+
+    if (result.length > 0) {
+      console.log(`[SpeakerService] ${result.length} speakers detected for upload ${uploadId}`);
+    }
+    return result;
+  }
+
+  async getContext(uploadId: string, transcript?: Transcript): Promise<SpeakerContext> {
+    const source = transcript || await storage.getTranscriptByUploadId(uploadId);
+    const speakers = await storage.getSpeakersByUploadId(uploadId);
+    return {
+      words: source && speakers.length > 0 ? getTranscriptWords(source) : [],
+      speakers,
+    };
+  }
+
+  /** Speaker with the most speaking time between start and end (seconds) */
+  getDominantSpeaker(context: SpeakerContext, start: number, end: number): Speaker | undefined {
+    const totals = new Map<string, number>();
+    for (const word of this.wordsInRange(context, start, end)) {
+      if (!word.speaker) continue;
+      totals.set(word.speaker, (totals.get(word.speaker) || 0) + Math.max(0.01, word.end - word.start));
+    }
+
+    let dominant: string | undefined;
+    let best = 0;
+    totals.forEach((time, label) => {
+      if (time > best) {
+        best = time;
+        dominant = label;
+      }
+    });
+    return context.speakers.find(speaker => speaker.label === dominant);
+  }
+
+  /** Dominant speaker plus a speaker-labelled transcript for content generation */
+  attributeSegment(context: SpeakerContext, segment: Segment): SegmentAttribution {
+    const start = parseFloat(segment.startTime);
+    const end = parseFloat(segment.endTime);
+    const names = new Map(context.speakers.map(speaker => [speaker.label, speaker.name]));
+
+    const speaker = (segment.speakerId && context.speakers.find(s => s.id === segment.speakerId))
+      || this.getDominantSpeaker(context, start, end);
+
+    const turns: Array<{ label: string; words: string[] }> = [];
+    for (const word of this.wordsInRange(context, start, end)) {
+      if (!word.speaker) continue;
+      const last = turns[turns.length - 1];
+      if (last && last.label === word.speaker) {
+        last.words.push(word.word);
+      } else {
+        turns.push({ label: word.speaker, words: [word.word] });
+      }
+    }
+
+    return {
+      speaker,
+      attributedTranscript: turns.length > 0
+        ? turns.map(turn => `${names.get(turn.label) || turn.label}: ${turn.words.join(' ')}`).join('\n')
+        : undefined,
+    };
+  }
+
+  async renameSpeaker(speakerId: string, name: string): Promise<Speaker> {
+    const speaker = await storage.updateSpeaker(speakerId, { name: name.trim() });
+    console.log(`[SpeakerService] Renamed speaker ${speaker.label} on upload ${speaker.uploadId} to "${speaker.name}"`);
+    return speaker;
+  }
+
+  private wordsInRange(context: SpeakerContext, start: number, end: number): TranscriptWord[] {
+    return context.words.filter(word => word.start >= start && word.start < end);
+  }
+}
+
+export const speakerService = new SpeakerService();
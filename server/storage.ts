@@ -2,10 +2,17 @@ import {
   users,
   uploads,
   transcripts,
+  transcriptRevisions,
   segments,
+  segmentRevisions,
+  speakers,
   clips,
+  processingCheckpoints,
+  graphicTemplates,
+  brollAssets,
   socialAccounts,
   socialPosts,
+  socialPostTargets,
   scheduledPosts,
   subscriptions,
   invoices,
@@ -25,13 +32,31 @@ import {
   type InsertUpload,
   type Transcript,
   type InsertTranscript,
+  type TranscriptRevision,
+  type InsertTranscriptRevision,
+  type SegmentationSettings,
+  type AudioMetrics,
   type Segment,
   type InsertSegment,
+  type ViralityScore,
+  type SegmentSnapshot,
+  type SegmentRevision,
+  type InsertSegmentRevision,
+  type Speaker,
+  type InsertSpeaker,
   type Clip,
   type InsertClip,
+  type ProcessingCheckpoint,
+  type InsertProcessingCheckpoint,
+  type GraphicTemplateRecord,
+  type BrollAsset,
+  type InsertBrollAsset,
+  type InsertGraphicTemplate,
   type SocialAccount,
   type SocialPost,
   type InsertSocialPost,
+  type SocialPostTarget,
+  type InsertSocialPostTarget,
   type ScheduledPost,
   type RevenueRecord,
   type InsertRevenueRecord,
@@ -52,7 +77,7 @@ import {
   type UploadSession,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, inArray } from "drizzle-orm";
+import { eq, desc, and, sql, inArray, isNotNull } from "drizzle-orm";
 import fs from "fs";
 
 export interface IStorage {
@@ -65,20 +90,65 @@ export interface IStorage {
   getUpload(id: string): Promise<Upload | undefined>;
   getUserUploads(userId: string): Promise<Upload[]>;
   updateUploadStatus(id: string, status: string): Promise<void>;
+  updateUploadSegmentationSettings(id: string, settings: SegmentationSettings): Promise<Upload>;
+  updateUploadAudio(id: string, updates: { processedFilePath: string | null; audioMetrics: AudioMetrics | null }): Promise<Upload>;
   
   // Transcript operations
   createTranscript(transcript: InsertTranscript): Promise<Transcript>;
   getTranscriptByUploadId(uploadId: string): Promise<Transcript | undefined>;
+  deleteTranscriptByUploadId(uploadId: string): Promise<void>;
+  updateTranscript(id: string, updates: Partial<InsertTranscript>): Promise<Transcript>;
+  createTranscriptRevision(revision: InsertTranscriptRevision): Promise<TranscriptRevision>;
+  getTranscriptRevisions(transcriptId: string): Promise<TranscriptRevision[]>;
+  getTranscriptRevision(id: string): Promise<TranscriptRevision | undefined>;
   
   // Segment operations
   createSegments(segments: InsertSegment[]): Promise<Segment[]>;
   getSegmentsByUploadId(uploadId: string): Promise<Segment[]>;
+  updateSegment(id: string, updates: Partial<InsertSegment>): Promise<Segment>;
+  updateSegmentVirality(id: string, virality: ViralityScore): Promise<Segment>;
+  deleteSegmentsByUploadId(uploadId: string): Promise<void>;
+  deleteSegment(id: string): Promise<void>;
+  restoreSegment(snapshot: SegmentSnapshot): Promise<Segment>;
+  createSegmentRevision(revision: InsertSegmentRevision): Promise<SegmentRevision>;
+  getSegmentRevisions(uploadId: string): Promise<SegmentRevision[]>;
+  markSegmentRevisionUndone(id: string): Promise<SegmentRevision>;
+  deleteSegmentRevisions(uploadId: string): Promise<void>;
+
+  // Speaker operations
+  getSpeakersByUploadId(uploadId: string): Promise<Speaker[]>;
+  getSpeaker(id: string): Promise<Speaker | undefined>;
+  createSpeaker(speaker: InsertSpeaker): Promise<Speaker>;
+  updateSpeaker(id: string, updates: Partial<InsertSpeaker>): Promise<Speaker>;
+  deleteSpeakers(ids: string[]): Promise<void>;
   
   // Clip operations
   createClip(clip: InsertClip): Promise<Clip>;
+  getClip(id: string): Promise<Clip | undefined>;
   getClipsBySegmentId(segmentId: string): Promise<Clip[]>;
   getClipsByUploadId(uploadId: string): Promise<Clip[]>;
   updateClipStatus(id: string, status: string): Promise<void>;
+  updateClip(id: string, updates: Partial<InsertClip>): Promise<Clip>;
+  deleteClipsByUploadId(uploadId: string): Promise<void>;
+
+  // Processing checkpoint operations
+  getProcessingCheckpoints(uploadId: string): Promise<ProcessingCheckpoint[]>;
+  upsertProcessingCheckpoint(checkpoint: InsertProcessingCheckpoint): Promise<ProcessingCheckpoint>;
+  deleteProcessingCheckpoints(uploadId: string, stages: string[]): Promise<void>;
+
+  // Graphic template operations
+  getGraphicTemplates(userId: string, kind?: string): Promise<GraphicTemplateRecord[]>;
+  getGraphicTemplate(id: string): Promise<GraphicTemplateRecord | undefined>;
+  createGraphicTemplate(template: InsertGraphicTemplate): Promise<GraphicTemplateRecord>;
+  updateGraphicTemplate(id: string, updates: Partial<InsertGraphicTemplate>): Promise<GraphicTemplateRecord>;
+  deleteGraphicTemplate(id: string): Promise<void>;
+
+  // B-roll library operations
+  getBrollAssets(workspaceId: string): Promise<BrollAsset[]>;
+  getBrollAsset(id: string): Promise<BrollAsset | undefined>;
+  createBrollAsset(asset: InsertBrollAsset): Promise<BrollAsset>;
+  updateBrollAsset(id: string, updates: Partial<InsertBrollAsset>): Promise<BrollAsset>;
+  deleteBrollAsset(id: string): Promise<void>;
   
   // Social account operations
   getUserSocialAccounts(userId: string): Promise<SocialAccount[]>;
@@ -101,9 +171,19 @@ export interface IStorage {
   getSocialPost(id: string): Promise<SocialPost | undefined>;
   getSocialPostsBySegmentId(segmentId: string): Promise<SocialPost[]>;
   getSocialPostsByUploadId(uploadId: string): Promise<SocialPost[]>;
+  deleteSocialPostsByUploadId(uploadId: string): Promise<void>;
   getSocialPostsByUserId(userId: string, status?: string): Promise<SocialPost[]>;
+  getScheduledSocialPosts(): Promise<SocialPost[]>;
   updateSocialPostStatus(id: string, status: string): Promise<void>;
   updateSocialPost(id: string, data: any): Promise<void>;
+  deleteSocialPost(id: string): Promise<void>;
+
+  // Social post target operations
+  getSocialPostTargets(postId: string): Promise<SocialPostTarget[]>;
+  createSocialPostTargets(targets: InsertSocialPostTarget[]): Promise<SocialPostTarget[]>;
+  updateSocialPostTarget(id: string, updates: Partial<SocialPostTarget>): Promise<SocialPostTarget>;
+  deleteSocialPostTargets(ids: string[]): Promise<void>;
+  getWorkspaceSocialAccounts(workspaceId: string): Promise<SocialAccount[]>;
   updateSocialPostSchedule(id: string, scheduledFor: string): Promise<void>;
 
   // Revenue records
@@ -214,6 +294,27 @@ export class DatabaseStorage implements IStorage {
       .where(eq(uploads.id, id));
   }
 
+  async updateUploadSegmentationSettings(id: string, settings: SegmentationSettings): Promise<Upload> {
+    const [upload] = await db
+      .update(uploads)
+      .set({ segmentationSettings: settings, updatedAt: new Date() })
+      .where(eq(uploads.id, id))
+      .returning();
+    return upload;
+  }
+  async updateUploadAudio(
+    id: string,
+    updates: { processedFilePath: string | null; audioMetrics: AudioMetrics | null }
+  ): Promise<Upload> {
+    const [upload] = await db
+      .update(uploads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(uploads.id, id))
+      .returning();
+    return upload;
+  }
+
+
   // Transcript operations
   async createTranscript(transcript: InsertTranscript): Promise<Transcript> {
     const [newTranscript] = await db.insert(transcripts).values(transcript).returning();
@@ -228,6 +329,37 @@ export class DatabaseStorage implements IStorage {
     return transcript;
   }
 
+  async deleteTranscriptByUploadId(uploadId: string): Promise<void> {
+    await db.delete(transcripts).where(eq(transcripts.uploadId, uploadId));
+  }
+
+  async updateTranscript(id: string, updates: Partial<InsertTranscript>): Promise<Transcript> {
+    const [transcript] = await db
+      .update(transcripts)
+      .set({ ...updates, confidence: updates.confidence?.toString(), updatedAt: new Date() })
+      .where(eq(transcripts.id, id))
+      .returning();
+    return transcript;
+  }
+
+  async createTranscriptRevision(revision: InsertTranscriptRevision): Promise<TranscriptRevision> {
+    const [newRevision] = await db.insert(transcriptRevisions).values(revision).returning();
+    return newRevision;
+  }
+
+  async getTranscriptRevisions(transcriptId: string): Promise<TranscriptRevision[]> {
+    return await db
+      .select()
+      .from(transcriptRevisions)
+      .where(eq(transcriptRevisions.transcriptId, transcriptId))
+      .orderBy(desc(transcriptRevisions.createdAt));
+  }
+
+  async getTranscriptRevision(id: string): Promise<TranscriptRevision | undefined> {
+    const [revision] = await db.select().from(transcriptRevisions).where(eq(transcriptRevisions.id, id));
+    return revision;
+  }
+
   // Segment operations
   async createSegments(segmentList: InsertSegment[]): Promise<Segment[]> {
     return await db.insert(segments).values(segmentList).returning();
@@ -241,6 +373,75 @@ export class DatabaseStorage implements IStorage {
       .orderBy(segments.order);
   }
 
+  async updateSegment(id: string, updates: Partial<InsertSegment>): Promise<Segment> {
+    const [segment] = await db
+      .update(segments)
+      .set({
+        ...updates,
+        startTime: updates.startTime?.toString(),
+        endTime: updates.endTime?.toString(),
+        // null clears the confidence; undefined leaves it as it is
+        alignmentConfidence: updates.alignmentConfidence === null ? null : updates.alignmentConfidence?.toString(),
+      })
+      .where(eq(segments.id, id))
+      .returning();
+    return segment;
+  }
+
+  async updateSegmentVirality(id: string, virality: ViralityScore): Promise<Segment> {
+    const [segment] = await db
+      .update(segments)
+      .set({ viralityScore: virality.total.toString(), viralityBreakdown: virality })
+      .where(eq(segments.id, id))
+      .returning();
+    return segment;
+  }
+
+  async deleteSegmentsByUploadId(uploadId: string): Promise<void> {
+    await db.delete(segments).where(eq(segments.uploadId, uploadId));
+  }
+
+  async deleteSegment(id: string): Promise<void> {
+    await db.delete(segments).where(eq(segments.id, id));
+  }
+
+  /** Writes a segment back as it was in a revision, re-creating it with the same id if it was deleted */
+  async restoreSegment(snapshot: SegmentSnapshot): Promise<Segment> {
+    const { id, ...fields } = snapshot;
+    const [segment] = await db
+      .insert(segments)
+      .values(snapshot)
+      .onConflictDoUpdate({ target: segments.id, set: fields })
+      .returning();
+    return segment;
+  }
+
+  async createSegmentRevision(revision: InsertSegmentRevision): Promise<SegmentRevision> {
+    const [newRevision] = await db.insert(segmentRevisions).values(revision).returning();
+    return newRevision;
+  }
+
+  async getSegmentRevisions(uploadId: string): Promise<SegmentRevision[]> {
+    return await db
+      .select()
+      .from(segmentRevisions)
+      .where(eq(segmentRevisions.uploadId, uploadId))
+      .orderBy(desc(segmentRevisions.createdAt));
+  }
+
+  async markSegmentRevisionUndone(id: string): Promise<SegmentRevision> {
+    const [revision] = await db
+      .update(segmentRevisions)
+      .set({ undoneAt: new Date() })
+      .where(eq(segmentRevisions.id, id))
+      .returning();
+    return revision;
+  }
+
+  async deleteSegmentRevisions(uploadId: string): Promise<void> {
+    await db.delete(segmentRevisions).where(eq(segmentRevisions.uploadId, uploadId));
+  }
+
   async getSegment(segmentId: string): Promise<Segment | null> {
     const [segment] = await db
       .select()
@@ -249,12 +450,53 @@ export class DatabaseStorage implements IStorage {
     return segment || null;
   }
 
+  // Speaker operations
+  async getSpeakersByUploadId(uploadId: string): Promise<Speaker[]> {
+    return await db
+      .select()
+      .from(speakers)
+      .where(eq(speakers.uploadId, uploadId))
+      .orderBy(speakers.createdAt);
+  }
+
+  async getSpeaker(id: string): Promise<Speaker | undefined> {
+    const [speaker] = await db.select().from(speakers).where(eq(speakers.id, id));
+    return speaker;
+  }
+
+  async createSpeaker(speaker: InsertSpeaker): Promise<Speaker> {
+    const [newSpeaker] = await db
+      .insert(speakers)
+      .values({ ...speaker, speakingTime: speaker.speakingTime?.toString() })
+      .returning();
+    return newSpeaker;
+  }
+
+  async updateSpeaker(id: string, updates: Partial<InsertSpeaker>): Promise<Speaker> {
+    const [speaker] = await db
+      .update(speakers)
+      .set({ ...updates, speakingTime: updates.speakingTime?.toString(), updatedAt: new Date() })
+      .where(eq(speakers.id, id))
+      .returning();
+    return speaker;
+  }
+
+  async deleteSpeakers(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(speakers).where(inArray(speakers.id, ids));
+  }
+
   // Clip operations
   async createClip(clip: InsertClip): Promise<Clip> {
     const [newClip] = await db.insert(clips).values(clip).returning();
     return newClip;
   }
 
+  async getClip(id: string): Promise<Clip | undefined> {
+    const [clip] = await db.select().from(clips).where(eq(clips.id, id));
+    return clip;
+  }
+
   async getClipsBySegmentId(segmentId: string): Promise<Clip[]> {
     return await db.select().from(clips).where(eq(clips.segmentId, segmentId));
   }
@@ -280,6 +522,115 @@ export class DatabaseStorage implements IStorage {
     await db.update(clips).set({ status }).where(eq(clips.id, id));
   }
 
+  async updateClip(id: string, updates: Partial<InsertClip>): Promise<Clip> {
+    const [clip] = await db.update(clips).set(updates).where(eq(clips.id, id)).returning();
+    return clip;
+  }
+
+  async deleteClipsByUploadId(uploadId: string): Promise<void> {
+    const segmentIds = db
+      .select({ id: segments.id })
+      .from(segments)
+      .where(eq(segments.uploadId, uploadId));
+    await db.delete(clips).where(inArray(clips.segmentId, segmentIds));
+  }
+
+  // Processing checkpoint operations
+  async getProcessingCheckpoints(uploadId: string): Promise<ProcessingCheckpoint[]> {
+    return await db
+      .select()
+      .from(processingCheckpoints)
+      .where(eq(processingCheckpoints.uploadId, uploadId));
+  }
+
+  async upsertProcessingCheckpoint(checkpoint: InsertProcessingCheckpoint): Promise<ProcessingCheckpoint> {
+    const [saved] = await db
+      .insert(processingCheckpoints)
+      .values(checkpoint)
+      .onConflictDoUpdate({
+        target: [processingCheckpoints.uploadId, processingCheckpoints.stage],
+        set: {
+          ...checkpoint,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteProcessingCheckpoints(uploadId: string, stages: string[]): Promise<void> {
+    if (stages.length === 0) return;
+    await db
+      .delete(processingCheckpoints)
+      .where(and(eq(processingCheckpoints.uploadId, uploadId), inArray(processingCheckpoints.stage, stages)));
+  }
+
+  // Graphic template operations
+  async getGraphicTemplates(userId: string, kind?: string): Promise<GraphicTemplateRecord[]> {
+    return await db
+      .select()
+      .from(graphicTemplates)
+      .where(kind
+        ? and(eq(graphicTemplates.userId, userId), eq(graphicTemplates.kind, kind))
+        : eq(graphicTemplates.userId, userId))
+      .orderBy(desc(graphicTemplates.updatedAt));
+  }
+
+  async getGraphicTemplate(id: string): Promise<GraphicTemplateRecord | undefined> {
+    const [template] = await db.select().from(graphicTemplates).where(eq(graphicTemplates.id, id));
+    return template;
+  }
+
+  async createGraphicTemplate(template: InsertGraphicTemplate): Promise<GraphicTemplateRecord> {
+    const [newTemplate] = await db.insert(graphicTemplates).values(template).returning();
+    return newTemplate;
+  }
+
+  async updateGraphicTemplate(id: string, updates: Partial<InsertGraphicTemplate>): Promise<GraphicTemplateRecord> {
+    const [template] = await db
+      .update(graphicTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(graphicTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteGraphicTemplate(id: string): Promise<void> {
+    await db.delete(graphicTemplates).where(eq(graphicTemplates.id, id));
+  }
+
+  // B-roll library operations
+  async getBrollAssets(workspaceId: string): Promise<BrollAsset[]> {
+    return await db
+      .select()
+      .from(brollAssets)
+      .where(eq(brollAssets.workspaceId, workspaceId))
+      .orderBy(desc(brollAssets.createdAt));
+  }
+
+  async getBrollAsset(id: string): Promise<BrollAsset | undefined> {
+    const [asset] = await db.select().from(brollAssets).where(eq(brollAssets.id, id));
+    return asset;
+  }
+
+  async createBrollAsset(asset: InsertBrollAsset): Promise<BrollAsset> {
+    const [newAsset] = await db.insert(brollAssets).values(asset).returning();
+    return newAsset;
+  }
+
+  async updateBrollAsset(id: string, updates: Partial<InsertBrollAsset>): Promise<BrollAsset> {
+    const [asset] = await db
+      .update(brollAssets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(brollAssets.id, id))
+      .returning();
+    return asset;
+  }
+
+  async deleteBrollAsset(id: string): Promise<void> {
+    await db.delete(brollAssets).where(eq(brollAssets.id, id));
+  }
+
   // Social account operations
   async getUserSocialAccounts(userId: string): Promise<SocialAccount[]> {
     return await db
@@ -362,6 +713,9 @@ export class DatabaseStorage implements IStorage {
         postedAt: socialPosts.postedAt,
         status: socialPosts.status,
         engagement: socialPosts.engagement,
+        contentEditedAt: socialPosts.contentEditedAt,
+        media: socialPosts.media,
+        threadParts: socialPosts.threadParts,
         createdAt: socialPosts.createdAt,
         updatedAt: socialPosts.updatedAt,
       })
@@ -373,6 +727,14 @@ export class DatabaseStorage implements IStorage {
     return results;
   }
 
+  async deleteSocialPostsByUploadId(uploadId: string): Promise<void> {
+    const segmentIds = db
+      .select({ id: segments.id })
+      .from(segments)
+      .where(eq(segments.uploadId, uploadId));
+    await db.delete(socialPosts).where(inArray(socialPosts.segmentId, segmentIds));
+  }
+
   async updateSocialPostStatus(id: string, status: string): Promise<void> {
     await db
       .update(socialPosts)
@@ -391,6 +753,14 @@ export class DatabaseStorage implements IStorage {
       .where(eq(socialPosts.id, id));
   }
 
+  async getScheduledSocialPosts(): Promise<SocialPost[]> {
+    return await db
+      .select()
+      .from(socialPosts)
+      .where(and(eq(socialPosts.status, 'scheduled'), isNotNull(socialPosts.scheduledFor)))
+      .orderBy(socialPosts.scheduledFor);
+  }
+
   async getSocialPostsByUserId(userId: string, status?: string): Promise<SocialPost[]> {
     const uploads = await this.getUserUploads(userId);
     
@@ -422,17 +792,18 @@ export class DatabaseStorage implements IStorage {
       const segments = await this.getSegmentsByUploadId(upload.id);
       for (const segment of segments) {
         const posts = await this.getSocialPostsBySegmentId(segment.id);
-        const scheduledPosts = posts
-          .filter(post => post.scheduledFor)
-          .map(post => ({
+        for (const post of posts.filter(post => post.scheduledFor)) {
+          allScheduledPosts.push({
             id: post.id,
             content: post.content,
             platform: post.platform,
             scheduledFor: post.scheduledFor,
             status: post.status,
+            threadParts: post.threadParts,
             segmentTitle: segment.title,
-          }));
-        allScheduledPosts.push(...scheduledPosts);
+            targets: await this.getSocialPostTargets(post.id),
+          });
+        }
       }
     }
     
@@ -519,6 +890,49 @@ export class DatabaseStorage implements IStorage {
       .where(eq(socialPosts.id, id));
   }
 
+  async deleteSocialPost(id: string): Promise<void> {
+    await db.delete(socialPosts).where(eq(socialPosts.id, id));
+  }
+
+  // Social post target operations
+  async getSocialPostTargets(postId: string): Promise<SocialPostTarget[]> {
+    return await db
+      .select()
+      .from(socialPostTargets)
+      .where(eq(socialPostTargets.postId, postId))
+      .orderBy(socialPostTargets.createdAt);
+  }
+
+  async createSocialPostTargets(targets: InsertSocialPostTarget[]): Promise<SocialPostTarget[]> {
+    if (targets.length === 0) return [];
+    return await db
+      .insert(socialPostTargets)
+      .values(targets)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async updateSocialPostTarget(id: string, updates: Partial<SocialPostTarget>): Promise<SocialPostTarget> {
+    const [target] = await db
+      .update(socialPostTargets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(socialPostTargets.id, id))
+      .returning();
+    return target;
+  }
+
+  async deleteSocialPostTargets(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(socialPostTargets).where(inArray(socialPostTargets.id, ids));
+  }
+
+  async getWorkspaceSocialAccounts(workspaceId: string): Promise<SocialAccount[]> {
+    return await db
+      .select()
+      .from(socialAccounts)
+      .where(and(eq(socialAccounts.workspaceId, workspaceId), eq(socialAccounts.isActive, true)));
+  }
+
   async createRevenueRecord(record: InsertRevenueRecord): Promise<RevenueRecord> {
     const [r] = await db.insert(revenueRecords).values(record).returning();
     return r;
@@ -1,7 +1,7 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-// @ts-ignore optional dependency
-import { chromium, Browser } from 'playwright';
+import { renderService } from './renderService';
+import { escapeHtml } from './graphicTemplates';
 
 interface ThumbnailOptions {
   width: number;
@@ -12,33 +12,16 @@ interface ThumbnailOptions {
 }
 
 export class ThumbnailGenerator {
-  private browser: Browser | null = null;
-
-  private async getBrowser(): Promise<Browser> {
-    if (!this.browser) {
-      this.browser = await chromium.launch();
-    }
-    return this.browser;
-  }
-
   async generateThumbnail(title: string, options: ThumbnailOptions): Promise<Buffer> {
-    const browser = await this.getBrowser();
-    const page = await browser.newPage({
-      viewport: { width: options.width, height: options.height }
-    });
-
     const html = `<!DOCTYPE html>
       <html>
-      <body style="margin:0;display:flex;align-items:center;justify-content:center;background:${options.brandColor};color:${options.textColor};font-family:Arial;font-size:64px;position:relative;">
+      <body style="margin:0;width:${options.width}px;height:${options.height}px;display:flex;align-items:center;justify-content:center;background:${options.brandColor};color:${options.textColor};font-family:Arial;font-size:64px;position:relative;">
         ${options.logo ? `<img src="${options.logo}" style="position:absolute;top:40px;left:40px;width:150px" />` : ''}
-        <div style="text-align:center;padding:40px;">${title}</div>
+        <div style="text-align:center;padding:40px;">${escapeHtml(title)}</div>
       </body>
       </html>`;
 
-    await page.setContent(html, { waitUntil: 'domcontentloaded' });
-    const buffer = await page.screenshot({ type: 'png' });
-    await page.close();
-    return buffer;
+    return await renderService.renderHtml(html, { width: options.width, height: options.height });
   }
 
   async saveThumbnail(buffer: Buffer, outputDir: string): Promise<string> {
@@ -49,12 +32,8 @@ export class ThumbnailGenerator {
     return filePath;
   }
 
-  async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
-  }
+  // Each render closes its own page; the browser is shared with other renders and stays open
+  async close(): Promise<void> {}
 }
 
 export const thumbnailGenerator = new ThumbnailGenerator();
@@ -0,0 +1,381 @@
+import { storage } from './storage';
+import { normalizeToken } from './segmentAlignment';
+import { getTranscriptWords } from './processors/transcription';
+import type {
+  Segment,
+  Transcript,
+  TranscriptRevision,
+  TranscriptWord,
+  Upload,
+  VocabularyEntry,
+} from '@shared/schema';
+
+/**
+ * Transcript Editor
+ *
+ * Manual corrections for transcripts (mis-heard brand and guest names) without
+ * re-uploading. Every edit records the previous transcript as a revision so it
+ * can be reverted. Word edits keep the original timings; when a phrase is
+ * replaced by a different number of words the span is divided evenly.
+ *
+ * After an edit, segments whose words changed get their transcript rebuilt
+ * from the corrected words, and the content derived from them (burned-in
+ * captions of vertical shorts, quote graphics and extracted quotes) is
+ * regenerated in the background.
+ */
+
+export interface FindReplaceOptions {
+  caseSensitive?: boolean;
+}
+
+export interface TranscriptEditResult {
+  transcript: Transcript;
+  revision: TranscriptRevision | null;
+  replacements: number;
+  affectedSegments: string[];
+}
+
+type EditOperation = 'replace_word' | 'find_replace' | 'vocabulary' | 'revert';
+
+interface PendingEdit {
+  text: string;
+  words: TranscriptWord[];
+  replacements: number;
+}
+
+// Punctuation kept around a replaced word, e.g. `"acme,"` -> `"Acme,"`
+const LEADING_PUNCTUATION = /^[^\p{L}\p{N}]+/u;
+const TRAILING_PUNCTUATION = /[^\p{L}\p{N}]+$/u;
+
+export class TranscriptEditorService {
+  async replaceWord(
+    upload: Upload,
+    transcript: Transcript,
+    index: number,
+    replacement: string,
+    userId: string
+  ): Promise<TranscriptEditResult> {
+    const words = getTranscriptWords(transcript);
+    const original = words[index];
+    const newWords = this.spliceWords(words, index, 1, splitWords(replacement), original, original);
+
+    return await this.commit(upload, transcript, 'replace_word', {
+      text: joinWords(newWords),
+      words: newWords,
+      replacements: 1,
+    }, { index, from: original.word, to: replacement }, userId);
+  }
+
+  async findAndReplace(
+    upload: Upload,
+    transcript: Transcript,
+    find: string,
+    replace: string,
+    options: FindReplaceOptions,
+    userId: string
+  ): Promise<TranscriptEditResult> {
+    const edit = this.applyReplacement(transcript, find, replace, options);
+    return await this.commit(upload, transcript, 'find_replace', edit, {
+      find,
+      replace,
+      caseSensitive: !!options.caseSensitive,
+      replacements: edit.replacements,
+    }, userId, { find, replace, options });
+  }
+
+  /** Applies the upload's workspace vocabulary as a single revision */
+  async applyVocabulary(
+    upload: Upload,
+    transcript: Transcript,
+    vocabulary: VocabularyEntry[],
+    userId: string | null
+  ): Promise<TranscriptEditResult> {
+    let current: Transcript = transcript;
+    let replacements = 0;
+    const rules = vocabularyRules(vocabulary);
+
+    for (const rule of rules) {
+      const edit = this.applyReplacement(current, rule.find, rule.replace, {});
+      replacements += edit.replacements;
+      current = { ...current, text: edit.text, wordTimestamps: edit.words.length > 0 ? edit.words : current.wordTimestamps };
+    }
+
+    return await this.commit(upload, transcript, 'vocabulary', {
+      text: current.text,
+      words: getTranscriptWords(current),
+      replacements,
+    }, { terms: vocabulary.map(entry => entry.term), replacements }, userId, {
+      rules,
+    });
+  }
+
+  /** Restores the transcript as it was before `revision`, recorded as a new revision */
+  async revert(
+    upload: Upload,
+    transcript: Transcript,
+    revision: TranscriptRevision,
+    userId: string
+  ): Promise<TranscriptEditResult> {
+    const words = revision.previousWords || [];
+    return await this.commit(upload, transcript, 'revert', {
+      text: revision.previousText,
+      words,
+      replacements: 1,
+    }, { revisionId: revision.id, revertedOperation: revision.operation }, userId);
+  }
+
+  async getVocabulary(workspaceId: string | null): Promise<VocabularyEntry[]> {
+    if (!workspaceId) return [];
+    const workspace = await storage.getWorkspace(workspaceId);
+    const vocabulary = workspace?.settings?.transcription?.vocabulary;
+    return Array.isArray(vocabulary) ? vocabulary : [];
+  }
+
+  async setVocabulary(workspaceId: string, vocabulary: VocabularyEntry[]): Promise<VocabularyEntry[]> {
+    const workspace = await storage.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+
+    const settings = workspace.settings || {};
+    await storage.updateWorkspace(workspaceId, {
+      settings: { ...settings, transcription: { ...settings.transcription, vocabulary } },
+    });
+    console.log(`[TranscriptEditor] Saved ${vocabulary.length} vocabulary terms for workspace ${workspaceId}`);
+    return vocabulary;
+  }
+
+  private applyReplacement(
+    transcript: Transcript,
+    find: string,
+    replace: string,
+    options: FindReplaceOptions
+  ): PendingEdit {
+    const words = getTranscriptWords(transcript);
+    if (words.length === 0) {
+      // Legacy transcripts without word timings are edited as plain text
+      const pattern = textPattern(find, options);
+      const replacements = (transcript.text.match(pattern) || []).filter(match => match !== replace).length;
+      return { text: transcript.text.replace(pattern, replace), words: [], replacements };
+    }
+
+    const findTokens = splitWords(find).map(token => matchKey(token, options));
+    const replacementWords = splitWords(replace);
+    let result = words;
+    let replacements = 0;
+
+    for (let i = 0; i + findTokens.length <= result.length; i++) {
+      const matches = findTokens.every((token, k) => matchKey(result[i + k].word, options) === token);
+      if (!matches) continue;
+
+      const first = result[i];
+      const last = result[i + findTokens.length - 1];
+      const updated = this.spliceWords(result, i, findTokens.length, replacementWords, first, last);
+
+      // Case-only vocabulary fixes match words that are already correct
+      const changed = updated.length !== result.length ||
+        updated.slice(i, i + replacementWords.length).some((word, k) => word.word !== result[i + k].word);
+      if (changed) {
+        result = updated;
+        replacements++;
+        i += replacementWords.length - 1;
+      } else {
+        i += findTokens.length - 1;
+      }
+    }
+
+    return { text: joinWords(result), words: result, replacements };
+  }
+
+  /**
+   * Replaces `count` words at `index` with `replacement`, keeping punctuation
+   * around the span and dividing its time evenly between the new words.
+   */
+  private spliceWords(
+    words: TranscriptWord[],
+    index: number,
+    count: number,
+    replacement: string[],
+    first: TranscriptWord,
+    last: TranscriptWord
+  ): TranscriptWord[] {
+    const prefix = first.word.trim().match(LEADING_PUNCTUATION)?.[0] || '';
+    const suffix = last.word.trim().match(TRAILING_PUNCTUATION)?.[0] || '';
+    const span = Math.max(0, last.end - first.start);
+
+    const newWords = replacement.map((text, k) => {
+      const sameCount = replacement.length === count;
+      const timing = sameCount ? words[index + k] : first;
+      return {
+        word: `${k === 0 ? prefix : ''}${text}${k === replacement.length - 1 ? suffix : ''}`,
+        start: sameCount ? timing.start : round(first.start + (span * k) / replacement.length),
+        end: sameCount ? timing.end : round(first.start + (span * (k + 1)) / replacement.length),
+        ...(timing.speaker !== undefined ? { speaker: timing.speaker } : {}),
+      };
+    });
+
+    return [...words.slice(0, index), ...newWords, ...words.slice(index + count)];
+  }
+
+  private async commit(
+    upload: Upload,
+    transcript: Transcript,
+    operation: EditOperation,
+    edit: PendingEdit,
+    details: Record<string, any>,
+    userId: string | null,
+    textEdit?: { find?: string; replace?: string; options?: FindReplaceOptions; rules?: VocabularyRule[] }
+  ): Promise<TranscriptEditResult> {
+    if (edit.replacements === 0 || (edit.text === transcript.text && operation !== 'revert')) {
+      return { transcript, revision: null, replacements: 0, affectedSegments: [] };
+    }
+
+    const previousWords = getTranscriptWords(transcript);
+    const revision = await storage.createTranscriptRevision({
+      transcriptId: transcript.id,
+      userId,
+      operation,
+      details,
+      previousText: transcript.text,
+      previousWords: previousWords.length > 0 ? previousWords : null,
+    });
+
+    const updated = await storage.updateTranscript(transcript.id, {
+      text: edit.text,
+      ...(edit.words.length > 0 ? { wordTimestamps: edit.words } : {}),
+    });
+
+    const affected = await this.updateSegments(upload.id, previousWords, edit.words, textEdit);
+    console.log(`[TranscriptEditor] ${operation} on upload ${upload.id}: ${edit.replacements} change(s), ${affected.length} segment(s) affected`);
+
+    if (affected.length > 0) {
+      this.regenerateDependents(upload, affected).catch(error => {
+        console.error(`[TranscriptEditor] Failed to regenerate content for upload ${upload.id}:`, error);
+      });
+    }
+
+    return {
+      transcript: updated,
+      revision,
+      replacements: edit.replacements,
+      affectedSegments: affected.map(segment => segment.id),
+    };
+  }
+
+  /** Rebuilds the transcript of every segment whose words changed */
+  private async updateSegments(
+    uploadId: string,
+    previousWords: TranscriptWord[],
+    words: TranscriptWord[],
+    textEdit?: { find?: string; replace?: string; options?: FindReplaceOptions; rules?: VocabularyRule[] }
+  ): Promise<Segment[]> {
+    const segments = await storage.getSegmentsByUploadId(uploadId);
+    const affected: Segment[] = [];
+
+    for (const segment of segments) {
+      const start = parseFloat(segment.startTime);
+      const end = parseFloat(segment.endTime);
+      let transcript: string | null = null;
+
+      if (words.length > 0) {
+        const text = wordsInRange(words, start, end);
+        if (text !== wordsInRange(previousWords, start, end)) transcript = text;
+      } else if (segment.transcript && textEdit) {
+        // Without word timings the same text replacement is applied to the segment
+        const rules = textEdit.rules || [{ find: textEdit.find!, replace: textEdit.replace! }];
+        const text = rules.reduce(
+          (current, rule) => current.replace(textPattern(rule.find, textEdit.options || {}), rule.replace),
+          segment.transcript
+        );
+        if (text !== segment.transcript) transcript = text;
+      }
+
+      if (transcript !== null) {
+        affected.push(await storage.updateSegment(segment.id, { transcript }));
+      }
+    }
+
+    return affected;
+  }
+
+  /**
+   * Re-extracts quotes, rewrites quote graphics and re-renders vertical shorts
+   * and audiograms (whose captions are burned in) for the edited segments, one
+   * at a time.
+   */
+  private async regenerateDependents(upload: Upload, segments: Segment[]): Promise<void> {
+    const { graphicsService, isRenderedQuoteGraphic } = await import('./graphicsService');
+    const { generateQuoteGraphic } = await import('./openai');
+    const { renderVerticalShort, renderAudiogram, isVideoUpload, isAudioUpload } = await import('./processors/clipGeneration');
+    const { speakerService } = await import('./speakerService');
+    const speakerContext = await speakerService.getContext(upload.id);
+
+    for (const segment of segments) {
+      await graphicsService.refreshQuoteGraphics(segment, upload.userId);
+
+      const clips = await storage.getClipsBySegmentId(segment.id);
+      for (const clip of clips) {
+        if (clip.type === 'quote_graphic' && !isRenderedQuoteGraphic(clip)) {
+          const attribution = speakerService.attributeSegment(speakerContext, segment);
+          const content = await generateQuoteGraphic({
+            title: segment.title,
+            summary: segment.summary || '',
+            startTime: parseFloat(segment.startTime),
+            endTime: parseFloat(segment.endTime),
+            transcript: segment.transcript || '',
+            speaker: attribution.speaker?.name,
+            attributedTranscript: attribution.attributedTranscript,
+          });
+          await storage.updateClip(clip.id, { content, status: 'completed' });
+        } else if (clip.type === 'vertical_short' && isVideoUpload(upload) && clip.status !== 'processing') {
+          await renderVerticalShort(clip, segment, upload);
+        } else if (clip.type === 'audiogram' && isAudioUpload(upload) && clip.status !== 'processing') {
+          await renderAudiogram(clip, segment, upload);
+        }
+      }
+    }
+
+    console.log(`[TranscriptEditor] Regenerated content for ${segments.length} segment(s) of upload ${upload.id}`);
+  }
+}
+
+interface VocabularyRule {
+  find: string;
+  replace: string;
+}
+
+/** Each alias maps to its term; the term itself fixes capitalisation */
+function vocabularyRules(vocabulary: VocabularyEntry[]): VocabularyRule[] {
+  return vocabulary.flatMap(entry => [
+    ...entry.aliases.map(alias => ({ find: alias, replace: entry.term })),
+    { find: entry.term, replace: entry.term },
+  ]);
+}
+
+function splitWords(text: string): string[] {
+  return text.trim().split(/\s+/).filter(Boolean);
+}
+
+function joinWords(words: TranscriptWord[]): string {
+  return words.map(word => word.word.trim()).filter(Boolean).join(' ');
+}
+
+function matchKey(token: string, options: FindReplaceOptions): string {
+  if (!options.caseSensitive) return normalizeToken(token);
+  return token.replace(LEADING_PUNCTUATION, '').replace(TRAILING_PUNCTUATION, '');
+}
+
+function wordsInRange(words: TranscriptWord[], start: number, end: number): string {
+  return joinWords(words.filter(word => word.start >= start && word.end <= end));
+}
+
+function textPattern(find: string, options: FindReplaceOptions): RegExp {
+  const escaped = find.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, options.caseSensitive ? 'gu' : 'giu');
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export const transcriptEditorService = new TranscriptEditorService();
@@ -0,0 +1,345 @@
+/**
+ * Transcription Providers
+ *
+ * Every provider returns the same TranscriptionResult shape (seconds-based word
+ * timestamps) so the rest of the pipeline does not care where a transcript came
+ * from. The provider is chosen per workspace via `settings.transcription`:
+ *
+ *   {
+ *     provider: 'openai' | 'assemblyai' | 'local',
+ *     language?: 'en',
+ *     local?: { model?: one of WHISPER_MODELS, threads? }
+ *   }
+ *
+ * Uploads without a workspace fall back to TRANSCRIPTION_PROVIDER (default: openai).
+ * The local provider shells out to whisper.cpp or faster-whisper (whisper-ctranslate2)
+ * so recordings never leave the machine. Which engine runs, its binary and
+ * where models live are server configuration only (WHISPER_ENGINE,
+ * WHISPER_BINARY, WHISPER_MODEL, WHISPER_MODEL_DIR); workspaces can't point
+ * them at other files.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import { transcriptionSettingsSchema, type Upload, type TranscriptWord } from '@shared/schema';
+import type { TranscriptionResult } from './openai';
+import { storage } from './storage';
+
+const execFileAsync = promisify(execFile);
+
+export type TranscriptionProviderName = 'openai' | 'assemblyai' | 'local';
+export type LocalWhisperEngine = 'whisper.cpp' | 'faster-whisper';
+
+export interface TranscriptionOptions {
+  language?: string;
+  vocabulary?: string[]; // Workspace terms the provider should favour
+}
+
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  transcribe(filePath: string, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+export interface LocalWhisperConfig {
+  engine: LocalWhisperEngine;
+  binaryPath: string;
+  // whisper.cpp: path of a ggml model file; faster-whisper: a model name
+  model?: string;
+  // Where faster-whisper looks for and downloads models
+  modelDir?: string;
+  threads?: number;
+  timeoutMs: number;
+}
+
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderName;
+  language?: string;
+  local: LocalWhisperConfig;
+}
+
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai' as const;
+
+  async transcribe(filePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const { transcribeAudio } = await import('./openai');
+    // Whisper picks up spellings of names and brands from the prompt
+    const result = await transcribeAudio(filePath, options.vocabulary?.join(', '));
+    return { ...result, provider: this.name };
+  }
+}
+
+export class AssemblyAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'assemblyai' as const;
+
+  async transcribe(filePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const apiKey = process.env.ASSEMBLY_AI_API_KEY || process.env.ASSEMBLYAI_API_KEY;
+    if (!apiKey) {
+      throw new Error('ASSEMBLYAI_API_KEY environment variable is required for AssemblyAI transcription');
+    }
+
+    const { AssemblyAI } = await import('assemblyai');
+    const client = new AssemblyAI({ apiKey });
+
+    const transcript = await client.transcripts.transcribe({
+      audio: filePath,
+      speaker_labels: true,
+      ...(options.vocabulary?.length ? { word_boost: options.vocabulary } : {}),
+      ...(options.language ? { language_code: options.language } : { language_detection: true }),
+    });
+
+    if (transcript.status === 'error') {
+      throw new Error(`AssemblyAI transcription failed: ${transcript.error}`);
+    }
+
+    // AssemblyAI reports word offsets in milliseconds
+    const words: TranscriptWord[] = (transcript.words || []).map(word => ({
+      word: word.text,
+      start: word.start / 1000,
+      end: word.end / 1000,
+      confidence: word.confidence,
+      speaker: word.speaker ?? undefined,
+    }));
+
+    return {
+      text: transcript.text || '',
+      words,
+      language: transcript.language_code || options.language,
+      duration: transcript.audio_duration ?? undefined,
+      confidence: transcript.confidence ?? averageConfidence(words),
+      provider: this.name,
+    };
+  }
+}
+
+export class LocalWhisperTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local' as const;
+
+  constructor(private config: LocalWhisperConfig) {}
+
+  async transcribe(filePath: string, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+
+    try {
+      // Both engines are happiest with 16kHz mono PCM; this also handles video input
+      const wavPath = path.join(workDir, 'audio.wav');
+      await extractWav(filePath, wavPath);
+
+      const result = this.config.engine === 'whisper.cpp'
+        ? await this.runWhisperCpp(wavPath, workDir, options)
+        : await this.runFasterWhisper(wavPath, workDir, options);
+
+      return { ...result, provider: this.name };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  private async runWhisperCpp(
+    wavPath: string,
+    workDir: string,
+    options: TranscriptionOptions
+  ): Promise<TranscriptionResult> {
+    if (!this.config.model) {
+      throw new Error('whisper.cpp requires a model (set WHISPER_MODEL, or WHISPER_MODEL_DIR and transcription.local.model)');
+    }
+
+    const outputBase = path.join(workDir, 'transcript');
+    const args = [
+      '-m', this.config.model,
+      '-f', wavPath,
+      '-l', options.language || 'auto',
+      '-ojf',
+      '-of', outputBase,
+    ];
+    if (this.config.threads) args.push('-t', String(this.config.threads));
+
+    await this.run(args);
+
+    const output = JSON.parse(await fs.readFile(`${outputBase}.json`, 'utf-8'));
+    return parseWhisperCppOutput(output, options.language);
+  }
+
+  private async runFasterWhisper(
+    wavPath: string,
+    workDir: string,
+    options: TranscriptionOptions
+  ): Promise<TranscriptionResult> {
+    const args = [
+      wavPath,
+      '--model', this.config.model || 'small',
+      '--output_format', 'json',
+      '--output_dir', workDir,
+      '--word_timestamps', 'True',
+      '--verbose', 'False',
+    ];
+    if (this.config.modelDir) args.push('--model_dir', this.config.modelDir);
+    if (options.language) args.push('--language', options.language);
+    if (this.config.threads) args.push('--threads', String(this.config.threads));
+
+    await this.run(args);
+
+    const output = JSON.parse(await fs.readFile(path.join(workDir, 'audio.json'), 'utf-8'));
+    return parseOpenAIWhisperOutput(output, options.language);
+  }
+
+  private async run(args: string[]): Promise<void> {
+    console.log(`[LocalWhisper] Running ${this.config.engine}: ${this.config.binaryPath} ${args.join(' ')}`);
+    try {
+      await execFileAsync(this.config.binaryPath, args, {
+        timeout: this.config.timeoutMs,
+        maxBuffer: 50 * 1024 * 1024,
+      });
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException & { stderr?: string };
+      if (err.code === 'ENOENT') {
+        throw new Error(`${this.config.engine} binary not found at "${this.config.binaryPath}"`);
+      }
+      const detail = err.stderr?.trim().split('\n').slice(-3).join(' ') || err.message;
+      throw new Error(`${this.config.engine} failed: ${detail}`);
+    }
+  }
+}
+
+/**
+ * whisper.cpp `-ojf` output: transcription[].tokens[] with millisecond offsets.
+ * Tokens are sub-word pieces; a leading space marks the start of a new word.
+ */
+export function parseWhisperCppOutput(output: any, language?: string): TranscriptionResult {
+  const words: TranscriptWord[] = [];
+  const segments: any[] = output.transcription || [];
+
+  for (const segment of segments) {
+    for (const token of segment.tokens || []) {
+      const text: string = token.text || '';
+      // Skip special tokens such as [_BEG_] and [_TT_150]
+      if (!text.trim() || /^\[_.*\]$/.test(text.trim())) continue;
+
+      const start = (token.offsets?.from ?? 0) / 1000;
+      const end = (token.offsets?.to ?? 0) / 1000;
+      const current = words[words.length - 1];
+
+      if (current && !text.startsWith(' ')) {
+        current.word += text;
+        current.end = end;
+        current.confidence = Math.min(current.confidence ?? 1, token.p ?? 1);
+      } else {
+        words.push({ word: text.trim(), start, end, confidence: token.p });
+      }
+    }
+  }
+
+  const lastSegment = segments[segments.length - 1];
+  return {
+    text: segments.map(s => (s.text || '').trim()).join(' ').trim(),
+    words,
+    language: output.result?.language || language,
+    duration: lastSegment ? (lastSegment.offsets?.to ?? 0) / 1000 : undefined,
+    confidence: averageConfidence(words),
+  };
+}
+
+/**
+ * openai-whisper style JSON (as written by faster-whisper / whisper-ctranslate2):
+ * segments[].words[] with second offsets and a per-word probability.
+ */
+export function parseOpenAIWhisperOutput(output: any, language?: string): TranscriptionResult {
+  const segments: any[] = output.segments || [];
+  const words: TranscriptWord[] = segments.flatMap(segment =>
+    (segment.words || []).map((w: any) => ({
+      word: String(w.word).trim(),
+      start: Number(w.start),
+      end: Number(w.end),
+      confidence: w.probability,
+    }))
+  ).filter(w => w.word.length > 0);
+
+  const lastSegment = segments[segments.length - 1];
+  return {
+    text: (output.text || segments.map(s => s.text).join(' ')).trim(),
+    words,
+    language: output.language || language,
+    duration: lastSegment ? Number(lastSegment.end) : undefined,
+    confidence: averageConfidence(words),
+  };
+}
+
+function averageConfidence(words: TranscriptWord[]): number | undefined {
+  const scored = words.filter(w => typeof w.confidence === 'number');
+  if (scored.length === 0) return undefined;
+  return scored.reduce((sum, w) => sum + (w.confidence as number), 0) / scored.length;
+}
+
+function extractWav(inputPath: string, outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioCodec('pcm_s16le')
+      .audioChannels(1)
+      .audioFrequency(16000)
+      .on('end', () => resolve())
+      .on('error', reject)
+      .save(outputPath);
+  });
+}
+
+function defaultLocalConfig(): LocalWhisperConfig {
+  const engine = (process.env.WHISPER_ENGINE as LocalWhisperEngine) || 'whisper.cpp';
+  return {
+    engine,
+    binaryPath: process.env.WHISPER_BINARY || (engine === 'whisper.cpp' ? 'whisper-cli' : 'whisper-ctranslate2'),
+    model: process.env.WHISPER_MODEL,
+    modelDir: process.env.WHISPER_MODEL_DIR,
+    threads: process.env.WHISPER_THREADS ? parseInt(process.env.WHISPER_THREADS) : undefined,
+    timeoutMs: parseInt(process.env.WHISPER_TIMEOUT_MS || String(2 * 60 * 60 * 1000)),
+  };
+}
+
+/**
+ * Model a workspace picked from WHISPER_MODELS, in the form the engine takes:
+ * a file in WHISPER_MODEL_DIR for whisper.cpp, the name for faster-whisper.
+ */
+function resolveWhisperModel(local: LocalWhisperConfig, model: string): string {
+  if (local.engine === 'faster-whisper') return model;
+  if (!local.modelDir) {
+    throw new Error('WHISPER_MODEL_DIR must be set for workspaces to choose a whisper.cpp model');
+  }
+  return path.join(local.modelDir, `ggml-${model}.bin`);
+}
+
+export async function getTranscriptionSettings(upload: Upload): Promise<TranscriptionSettings> {
+  const workspace = upload.workspaceId ? await storage.getWorkspace(upload.workspaceId) : undefined;
+  // The vocabulary is read separately by the transcript editor
+  const parsed = transcriptionSettingsSchema.omit({ vocabulary: true }).safeParse(workspace?.settings?.transcription || {});
+  if (!parsed.success) {
+    console.warn(`[Transcription] Ignoring invalid transcription settings for workspace ${upload.workspaceId}`);
+  }
+  const configured = parsed.success ? parsed.data : {};
+
+  const provider = configured.provider || process.env.TRANSCRIPTION_PROVIDER || 'openai';
+  if (!transcriptionSettingsSchema.shape.provider.safeParse(provider).success) {
+    throw new Error(`Unknown transcription provider "${provider}"`);
+  }
+
+  const local = defaultLocalConfig();
+  if (configured.local?.model) local.model = resolveWhisperModel(local, configured.local.model);
+  if (configured.local?.threads) local.threads = configured.local.threads;
+
+  return { provider: provider as TranscriptionProviderName, language: configured.language, local };
+}
+
+export function createTranscriptionProvider(settings: TranscriptionSettings): TranscriptionProvider {
+  switch (settings.provider) {
+    case 'assemblyai':
+      return new AssemblyAITranscriptionProvider();
+    case 'local':
+      return new LocalWhisperTranscriptionProvider(settings.local);
+    case 'openai':
+    default:
+      return new OpenAITranscriptionProvider();
+  }
+}
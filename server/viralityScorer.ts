@@ -0,0 +1,356 @@
+import { storage } from './storage';
+import { normalizeToken, STOP_WORDS } from './segmentAlignment';
+import { sliceWordsForClip } from './captionGenerator';
+import {
+  viralitySettingsSchema,
+  type Segment,
+  type TranscriptWord,
+  type ViralityScore,
+  type ViralitySettings,
+} from '@shared/schema';
+
+/**
+ * Virality Scorer
+ *
+ * Rates segments before anything is rendered so render and posting slots go
+ * to the strongest moments. Each segment gets five 0-100 factors: hook
+ * strength (first 3 seconds), emotional intensity, standalone coherence,
+ * length fit for the target platforms and similarity to the user's breakout
+ * posts. The weighted total and the breakdown are stored on the segment.
+ * Scoring is heuristic and runs without API calls.
+ */
+
+export interface BreakoutExample {
+  postId: string;
+  platform: string;
+  content: string;
+  transcript: string | null;
+}
+
+type Factors = ViralityScore['factors'];
+
+const HOOK_SECONDS = 3;
+// Used to find the hook when there are no word timestamps
+const WORDS_PER_SECOND = 2.5;
+
+// Seconds: [ideal min, ideal max, longest the platform accepts]
+const PLATFORM_LENGTHS: Record<string, [number, number, number]> = {
+  tiktok: [15, 45, 180],
+  instagram: [15, 30, 90],
+  youtube: [20, 50, 60],
+  twitter: [15, 45, 140],
+  linkedin: [30, 90, 600],
+};
+
+const HOOK_PHRASES = [
+  'heres', 'secret', 'nobody', 'no one', 'never', 'stop', 'biggest', 'mistake', 'truth', 'most people',
+  'the reason', 'imagine', 'what if', 'the problem', 'you need', 'dont', 'wrong', 'how to', 'why',
+];
+const QUESTION_OPENERS = new Set(['why', 'how', 'what', 'who', 'when', 'did', 'do', 'does', 'have', 'ever', 'is', 'are', 'can']);
+const NUMBER_WORDS = new Set(['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'hundred', 'thousand', 'million', 'billion']);
+const OPENING_FILLERS = new Set(['um', 'uh', 'so', 'well', 'like', 'okay', 'ok', 'yeah', 'anyway']);
+// Openers that lean on something said before the segment
+const CONJUNCTIONS = new Set(['and', 'but', 'or', 'so', 'because', 'also', 'then', 'which']);
+const DANGLING_REFERENCES = new Set(['this', 'that', 'it', 'he', 'she', 'they', 'these', 'those', 'him', 'her', 'them']);
+
+const EMOTION_WORDS = new Set([
+  'amazing', 'awesome', 'incredible', 'insane', 'crazy', 'unbelievable', 'shocking', 'shocked', 'love', 'loved',
+  'hate', 'hated', 'angry', 'furious', 'terrified', 'scared', 'afraid', 'fear', 'worst', 'best', 'beautiful',
+  'brutal', 'devastated', 'heartbreaking', 'painful', 'proud', 'excited', 'obsessed', 'ridiculous', 'wild',
+  'massive', 'huge', 'disaster', 'nightmare', 'dream', 'failed', 'failure', 'broke', 'quit', 'fired', 'cried',
+  'lost', 'won', 'winning', 'secret', 'lie', 'lied', 'truth', 'wrong', 'stupid', 'genius', 'dangerous', 'risk',
+  'changed', 'everything', 'never', 'always', 'impossible', 'finally', 'honestly', 'seriously', 'wow',
+]);
+const INTENSIFIERS = new Set(['absolutely', 'completely', 'totally', 'literally', 'extremely', 'incredibly', 'insanely', 'super']);
+
+// Cosine similarity at which a segment counts as a full match to a breakout
+const FULL_SIMILARITY = 0.35;
+
+export class ViralityScorer {
+  /** Workspace `settings.virality` with defaults filled in; invalid stored values fall back to defaults */
+  async getSettings(workspaceId: string | null): Promise<ViralitySettings> {
+    const workspace = workspaceId ? await storage.getWorkspace(workspaceId) : undefined;
+    const parsed = viralitySettingsSchema.safeParse(workspace?.settings?.virality || {});
+    return parsed.success ? parsed.data : viralitySettingsSchema.parse({});
+  }
+
+  async saveSettings(workspaceId: string, virality: ViralitySettings): Promise<ViralitySettings> {
+    const workspace = await storage.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+
+    await storage.updateWorkspace(workspaceId, { settings: { ...workspace.settings, virality } });
+    return virality;
+  }
+
+  /**
+   * Scores every segment of an upload, ranks them and stores the breakdowns.
+   * Returns the updated segments, best first.
+   */
+  async scoreSegments(
+    segments: Segment[],
+    options: { userId: string; settings: ViralitySettings; words?: TranscriptWord[] }
+  ): Promise<Segment[]> {
+    const { breakoutDetectorService } = await import('./breakoutDetector');
+    const breakouts = await breakoutDetectorService.getBreakoutExamples(options.userId);
+
+    const scored = segments.map(segment => ({
+      segment,
+      score: this.scoreSegment(segment, options.words || [], breakouts, options.settings),
+    }));
+    scored.sort((a, b) => b.score.total - a.score.total);
+
+    const updated: Segment[] = [];
+    for (const [index, { segment, score }] of scored.entries()) {
+      const selected = segment.viralityBreakdown?.selected;
+      updated.push(await storage.updateSegmentVirality(segment.id, { ...score, rank: index + 1, selected }));
+    }
+
+    console.log(`[ViralityScorer] Scored ${segments.length} segments against ${breakouts.length} breakout posts`);
+    return updated;
+  }
+
+  /**
+   * Picks the segments to render with `selectTopSegments` and stores the
+   * choice on their scores. Returns the picked segments.
+   */
+  async storeSelection(segments: Segment[], settings: ViralitySettings): Promise<Segment[]> {
+    const selected = new Set(this.selectTopSegments(segments, settings).map(segment => segment.id));
+
+    const updated: Segment[] = [];
+    for (const segment of segments) {
+      updated.push(segment.viralityBreakdown
+        ? await storage.updateSegmentVirality(segment.id, { ...segment.viralityBreakdown, selected: selected.has(segment.id) })
+        : segment);
+    }
+    return updated.filter(segment => selected.has(segment.id));
+  }
+
+  /**
+   * Segments clip generation picked, for posting. Segments it hasn't decided
+   * on (including ones added by editing since) are kept.
+   */
+  getSelectedSegments(segments: Segment[]): Segment[] {
+    return segments.filter(segment => segment.viralityBreakdown?.selected !== false);
+  }
+
+  /**
+   * Best segments to render: the top K by score (all of them when
+   * topK isn't set) that clear the minimum, in their original order.
+   * Unscored segments are all kept.
+   */
+  selectTopSegments(segments: Segment[], settings: ViralitySettings): Segment[] {
+    if (segments.some(segment => !segment.viralityBreakdown)) return segments;
+
+    const selected = new Set(
+      [...segments]
+        .sort((a, b) => a.viralityBreakdown!.rank - b.viralityBreakdown!.rank)
+        .filter(segment => segment.viralityBreakdown!.total >= settings.minScore)
+        .slice(0, settings.topK)
+        .map(segment => segment.id)
+    );
+    return segments.filter(segment => selected.has(segment.id));
+  }
+
+  /** Breakdown for one segment; `words` are absolute transcript word timestamps. Rank is filled in by scoreSegments */
+  scoreSegment(
+    segment: Segment,
+    words: TranscriptWord[],
+    breakouts: BreakoutExample[],
+    settings: ViralitySettings
+  ): ViralityScore {
+    const start = parseFloat(segment.startTime);
+    const end = parseFloat(segment.endTime);
+    const text = segment.transcript || '';
+    const clipWords = sliceWordsForClip(words, start, end);
+    const signals: string[] = [];
+
+    const hook = this.scoreHook(text, clipWords, signals);
+    const emotion = this.scoreEmotion(text, signals);
+    const coherence = this.scoreCoherence(segment, text, signals);
+
+    const lengthFitByPlatform = Object.fromEntries(
+      settings.platforms.map(platform => [platform, this.scoreLengthFit(end - start, platform)])
+    );
+    const lengthFit = Math.round(
+      Object.values(lengthFitByPlatform).reduce((sum, value) => sum + value, 0) / settings.platforms.length
+    );
+
+    const similarTo = this.findSimilarBreakouts(text, breakouts);
+    const similarity = breakouts.length > 0
+      ? Math.round(Math.min(1, (similarTo[0]?.similarity || 0) / FULL_SIMILARITY) * 100)
+      : null;
+    if (similarTo.length > 0 && similarity !== null && similarity >= 50) {
+      signals.push(`Reads like a breakout ${similarTo[0].platform} post`);
+    }
+
+    const factors: Factors = { hook, emotion, coherence, lengthFit, similarity };
+    return {
+      total: this.weightedTotal(factors, settings.weights),
+      factors,
+      lengthFitByPlatform,
+      similarTo,
+      signals,
+      rank: 0,
+      scoredAt: new Date().toISOString(),
+    };
+  }
+
+  private scoreHook(text: string, clipWords: TranscriptWord[], signals: string[]): number {
+    const timed = clipWords.filter(word => word.start < HOOK_SECONDS);
+    const hookWords = timed.length > 0
+      ? timed.map(word => word.word)
+      : text.split(/\s+/).filter(Boolean).slice(0, Math.round(HOOK_SECONDS * WORDS_PER_SECOND));
+    const hookText = hookWords.join(' ');
+    const tokens = hookWords.map(normalizeToken).filter(Boolean);
+    const joined = ` ${tokens.join(' ')} `;
+    let score = 30;
+
+    if (hookText.includes('?') || QUESTION_OPENERS.has(tokens[0])) {
+      score += 20;
+      signals.push('Opens with a question');
+    }
+    if (tokens.some(token => token === 'you' || token === 'your' || token === 'youre')) {
+      score += 15;
+      signals.push('Speaks to the viewer in the first 3 seconds');
+    }
+    if (tokens.some(token => /^\d/.test(token) || NUMBER_WORDS.has(token))) {
+      score += 10;
+      signals.push('Hook includes a number');
+    }
+    if (HOOK_PHRASES.some(phrase => joined.includes(` ${phrase} `))) {
+      score += 20;
+      signals.push('Hook uses a pattern-interrupt phrase');
+    }
+    if (tokens.some(token => EMOTION_WORDS.has(token))) {
+      score += 10;
+    }
+    if (OPENING_FILLERS.has(tokens[0])) {
+      score -= 15;
+      signals.push('Opens with a filler word');
+    }
+
+    if (timed.length > 0) {
+      const pace = timed.length / HOOK_SECONDS;
+      if (pace >= WORDS_PER_SECOND) score += 10;
+      if (pace < 1.5) score -= 10;
+      if (timed[0].start > 1) {
+        score -= 10;
+        signals.push('Starts with a pause');
+      }
+    }
+
+    return clamp(score);
+  }
+
+  private scoreEmotion(text: string, signals: string[]): number {
+    const words = text.split(/\s+/).filter(Boolean);
+    if (words.length === 0) return 0;
+
+    const tokens = words.map(normalizeToken);
+    const emotional = tokens.filter(token => EMOTION_WORDS.has(token)).length;
+    const intensifiers = tokens.filter(token => INTENSIFIERS.has(token)).length;
+    const exclamations = (text.match(/!/g) || []).length;
+    const shouted = words.filter(word => word.length > 2 && /^[A-Z]+[!?.,]*$/.test(word)).length;
+
+    // Per 100 words, so long segments aren't favoured just for being long
+    const density = ((emotional + intensifiers * 0.5 + shouted) / words.length) * 100;
+    const score = clamp(20 + density * 12 + Math.min(exclamations, 5) * 4);
+    if (score >= 70) signals.push('Emotionally charged language');
+    return score;
+  }
+
+  private scoreCoherence(segment: Segment, text: string, signals: string[]): number {
+    const tokens = text.split(/\s+/).map(normalizeToken).filter(Boolean);
+    if (tokens.length === 0) return 0;
+    let score = 100;
+
+    if (CONJUNCTIONS.has(tokens[0])) {
+      score -= 20;
+      signals.push(`Starts mid-thought ("${tokens[0]}")`);
+    } else if (DANGLING_REFERENCES.has(tokens[0])) {
+      score -= 15;
+      signals.push(`Opens with "${tokens[0]}" that may refer to earlier context`);
+    }
+    if (!/[.!?]["')\]]?\s*$/.test(text.trim())) {
+      score -= 15;
+      signals.push('Ends mid-sentence');
+    } else if (text.trim().endsWith('?')) {
+      score -= 10;
+      signals.push('Ends on an unanswered question');
+    }
+    if (tokens.length < 15) {
+      score -= 20;
+    }
+    if (segment.alignmentConfidence !== null && parseFloat(segment.alignmentConfidence) < 0.6) {
+      // The boundaries may not line up with what was actually said
+      score -= 15;
+    }
+
+    return clamp(score);
+  }
+
+  private scoreLengthFit(duration: number, platform: string): number {
+    const [idealMin, idealMax, limit] = PLATFORM_LENGTHS[platform] || PLATFORM_LENGTHS.tiktok;
+    if (duration > limit) return 0;
+    if (duration < idealMin) return Math.round((duration / idealMin) * 100);
+    if (duration <= idealMax) return 100;
+    // Falls from 100 at the ideal maximum to 40 at the platform limit
+    return Math.round(100 - ((duration - idealMax) / Math.max(1, limit - idealMax)) * 60);
+  }
+
+  /** Breakout posts by cosine similarity of content words, best three */
+  private findSimilarBreakouts(text: string, breakouts: BreakoutExample[]): ViralityScore['similarTo'] {
+    const vector = termFrequencies(text);
+    if (vector.size === 0) return [];
+
+    return breakouts
+      .map(breakout => ({
+        postId: breakout.postId,
+        platform: breakout.platform,
+        similarity: Math.round(cosine(vector, termFrequencies(breakout.transcript || breakout.content)) * 1000) / 1000,
+      }))
+      .filter(match => match.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, 3);
+  }
+
+  /** Weighted mean of the factors; similarity's weight is dropped when there are no breakouts */
+  private weightedTotal(factors: Factors, weights: ViralitySettings['weights']): number {
+    let total = 0;
+    let weightSum = 0;
+    for (const [factor, weight] of Object.entries(weights) as Array<[keyof Factors, number]>) {
+      const value = factors[factor];
+      if (value === null) continue;
+      total += value * weight;
+      weightSum += weight;
+    }
+    return weightSum > 0 ? Math.round((total / weightSum) * 10) / 10 : 0;
+  }
+}
+
+function termFrequencies(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of text.split(/\s+/).map(normalizeToken)) {
+    if (token.length < 3 || STOP_WORDS.has(token)) continue;
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [token, count] of a) {
+    dot += count * (b.get(token) || 0);
+  }
+  const norm = (vector: Map<string, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, v) => sum + v * v, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+function clamp(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+export const viralityScorer = new ViralityScorer();
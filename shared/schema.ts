@@ -5,6 +5,7 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   uuid,
   numeric,
   integer,
@@ -39,6 +40,57 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Per-upload segmentation options; unset fields fall back to defaults in processSegmentation
+export interface SegmentationSettings {
+  mode?: 'auto' | 'single' | 'chunked'; // auto switches to chunked for long transcripts
+  maxSegments?: number;
+  order?: 'chronological' | 'score'; // how the segments.order column is assigned
+}
+
+// Loudness and noise measurements taken by the audio clean-up stage
+export interface AudioLevels {
+  integratedLoudness: number | null; // LUFS
+  truePeak: number | null; // dBTP
+  loudnessRange: number | null; // LU
+  noiseFloor: number | null; // dBFS, quietest 10% of 50ms frames
+  snr: number | null; // dB between speech level and noise floor
+}
+
+export interface AudioMetrics {
+  original: AudioLevels;
+  // Present when clean-up ran; transcription uses the processed audio
+  processed?: AudioLevels;
+  cleanup?: { noiseReduction: string; loudnessTarget: number };
+  gate: {
+    status: 'passed' | 'warned' | 'blocked' | 'off';
+    issues: Array<{ code: string; message: string }>;
+  };
+  measuredAt: string;
+}
+
+// Virality score of a segment; every factor is 0-100
+export interface ViralityScore {
+  total: number;
+  factors: {
+    hook: number; // first 3 seconds
+    emotion: number;
+    coherence: number; // makes sense without the rest of the video
+    lengthFit: number; // average over the target platforms
+    similarity: number | null; // to breakout posts; null when there are none yet
+  };
+  lengthFitByPlatform: Record<string, number>;
+  // Breakout posts the segment reads most like
+  similarTo: Array<{ postId: string; platform: string; similarity: number }>;
+  // Why the factors scored as they did, for display
+  signals: string[];
+  // 1 = best segment of the upload
+  rank: number;
+  // Whether clip generation picked the segment; unset until it has run. Kept
+  // when re-scoring, so posts keep going to the segments that have clips
+  selected?: boolean;
+  scoredAt: string;
+}
+
 // Core AutoStage tables
 export const uploads = pgTable("uploads", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -49,21 +101,82 @@ export const uploads = pgTable("uploads", {
   fileSize: integer("file_size").notNull(),
   mimeType: varchar("mime_type").notNull(),
   duration: numeric("duration"),
-  status: varchar("status").default("uploaded").notNull(), // uploaded, transcribing, segmenting, processing, completed, failed
+  workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
+  segmentationSettings: jsonb("segmentation_settings").$type<SegmentationSettings>(),
+  processedFilePath: varchar("processed_file_path"), // cleaned-up audio used for transcription
+  audioMetrics: jsonb("audio_metrics").$type<AudioMetrics>(),
+  status: varchar("status").default("uploaded").notNull(), // uploaded, cleaning_audio, transcribing, segmenting, processing, completed, failed
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Word-level timing shared by every transcription provider (seconds)
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  speaker?: string; // Diarization label from the provider, e.g. "A"
+}
+
 export const transcripts = pgTable("transcripts", {
   id: uuid("id").primaryKey().defaultRandom(),
   uploadId: uuid("upload_id").references(() => uploads.id, { onDelete: "cascade" }).notNull(),
   text: text("text").notNull(),
-  wordTimestamps: jsonb("word_timestamps"), // Whisper word-level timestamps
+  wordTimestamps: jsonb("word_timestamps").$type<TranscriptWord[]>(), // Word-level timestamps from the transcription provider
   language: varchar("language"),
   confidence: numeric("confidence"),
+  provider: varchar("provider"), // openai, assemblyai, local
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(), // Last manual correction
 });
 
+// One row per transcript edit, holding the transcript as it was before the edit
+export const transcriptRevisions = pgTable("transcript_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  transcriptId: uuid("transcript_id").references(() => transcripts.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id),
+  operation: varchar("operation").notNull(), // replace_word, find_replace, vocabulary, revert
+  details: jsonb("details").$type<Record<string, any>>(), // e.g. { find, replace, replacements }
+  previousText: text("previous_text").notNull(),
+  previousWords: jsonb("previous_words").$type<TranscriptWord[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Manual segment edits (trim, split, merge); each keeps the segments as they
+// were before so the latest edit can be undone
+export const segmentRevisions = pgTable(
+  "segment_revisions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    uploadId: uuid("upload_id").references(() => uploads.id, { onDelete: "cascade" }).notNull(),
+    userId: varchar("user_id").references(() => users.id),
+    operation: varchar("operation").notNull(), // trim, split, merge
+    details: jsonb("details").$type<Record<string, any>>(), // e.g. { segmentId, from, to }
+    previousSegments: jsonb("previous_segments").$type<SegmentSnapshot[]>().notNull(),
+    createdSegmentIds: text("created_segment_ids").array().notNull(), // removed again on undo
+    undoneAt: timestamp("undone_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_segment_revisions_upload").on(table.uploadId)],
+);
+
+// Speakers detected by diarization; one row per provider label per upload
+export const speakers = pgTable(
+  "speakers",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    uploadId: uuid("upload_id").references(() => uploads.id, { onDelete: "cascade" }).notNull(),
+    label: varchar("label").notNull(), // Provider label, e.g. "A"
+    name: varchar("name").notNull(), // Display name, "Speaker 1" until renamed
+    wordCount: integer("word_count").default(0).notNull(),
+    speakingTime: numeric("speaking_time"), // seconds
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_speaker_upload_label").on(table.uploadId, table.label)],
+);
+
 export const segments = pgTable("segments", {
   id: uuid("id").primaryKey().defaultRandom(),
   uploadId: uuid("upload_id").references(() => uploads.id, { onDelete: "cascade" }).notNull(),
@@ -72,6 +185,10 @@ export const segments = pgTable("segments", {
   startTime: numeric("start_time").notNull(),
   endTime: numeric("end_time").notNull(),
   transcript: text("transcript"),
+  speakerId: uuid("speaker_id").references(() => speakers.id, { onDelete: "set null" }), // Dominant speaker
+  alignmentConfidence: numeric("alignment_confidence"), // 0-1 match of segment text against word timestamps
+  viralityScore: numeric("virality_score"), // 0-100, see viralityBreakdown
+  viralityBreakdown: jsonb("virality_breakdown").$type<ViralityScore>(),
   order: integer("order").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -87,11 +204,62 @@ export const clips = pgTable("clips", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One row per upload and pipeline stage so processing can resume after a failure
+export const processingCheckpoints = pgTable(
+  "processing_checkpoints",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    uploadId: uuid("upload_id").references(() => uploads.id, { onDelete: "cascade" }).notNull(),
+    stage: varchar("stage").notNull(), // transcription, segmentation, clip_generation, content_generation
+    status: varchar("status").default("pending").notNull(), // pending, running, completed, failed
+    attempts: integer("attempts").default(0).notNull(),
+    output: jsonb("output"), // Stage result summary (ids, counts)
+    error: text("error"),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_checkpoint_upload_stage").on(table.uploadId, table.stage)],
+);
+
+// User-defined graphic templates (built-in templates live in server/graphicTemplates.ts)
+export const graphicTemplates = pgTable("graphic_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name").notNull(),
+  kind: varchar("kind").notNull(), // quote, thumbnail
+  definition: jsonb("definition").$type<GraphicTemplateDefinition>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Workspace B-roll library: tagged clips and images cut into shorts by transcript keyword
+export const brollAssets = pgTable(
+  "broll_assets",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }).notNull(),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+    name: varchar("name").notNull(),
+    mediaType: varchar("media_type").notNull(), // video, image
+    mimeType: varchar("mime_type").notNull(),
+    filePath: text("file_path").notNull(),
+    fileSize: integer("file_size").notNull(),
+    duration: numeric("duration"), // seconds, videos only
+    tags: text("tags").array().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_broll_assets_workspace").on(table.workspaceId)],
+);
+
 export const socialAccounts = pgTable("social_accounts", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
   platform: varchar("platform").notNull(), // twitter, linkedin, youtube, tiktok, instagram
   accountId: varchar("account_id").notNull(),
+  // Workspace whose posts may publish to this account; null for any of the owner's uploads
+  workspaceId: uuid("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
   accessToken: text("access_token"),
   refreshToken: text("refresh_token"),
   expiresAt: timestamp("expires_at"),
@@ -99,6 +267,28 @@ export const socialAccounts = pgTable("social_accounts", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A file attached to a social post: a rendered clip or quote graphic. Several images make a carousel.
+export interface PostMedia {
+  type: 'video' | 'image';
+  clipId?: string;
+  // Local file; absent for graphics kept in remote storage
+  filePath?: string;
+  url?: string;
+}
+
+// One step of publishing a post to an account, in the order they run
+export interface PublishStep {
+  step: 'upload_media' | 'create_post';
+  status: 'running' | 'completed' | 'failed';
+  // Position in the post's media, for upload steps
+  mediaIndex?: number;
+  // Position in the thread, for create steps of X threads
+  partIndex?: number;
+  mediaId?: string;
+  error?: string;
+  updatedAt: string;
+}
+
 export const socialPosts = pgTable("social_posts", {
   id: uuid("id").primaryKey().defaultRandom(),
   segmentId: uuid("segment_id").references(() => segments.id, { onDelete: "cascade" }).notNull(),
@@ -108,10 +298,35 @@ export const socialPosts = pgTable("social_posts", {
   postedAt: timestamp("posted_at"),
   status: varchar("status").notNull().default('draft'), // 'draft', 'scheduled', 'posted', 'failed'
   engagement: jsonb("engagement"), // likes, shares, comments, etc.
+  contentEditedAt: timestamp("content_edited_at"), // set when a user rewrites the generated caption
+  media: jsonb("media").$type<PostMedia[]>(), // uploaded with the post, in order
+  threadParts: text("thread_parts").array(), // tweets of an X thread, in order; null for single posts
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Accounts a social post is published to; one row per account, each with its own outcome
+export const socialPostTargets = pgTable(
+  "social_post_targets",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    postId: uuid("post_id").references(() => socialPosts.id, { onDelete: "cascade" }).notNull(),
+    socialAccountId: uuid("social_account_id").references(() => socialAccounts.id, { onDelete: "cascade" }).notNull(),
+    status: varchar("status").notNull().default('pending'), // 'pending', 'posting', 'posted', 'failed'
+    platformPostId: varchar("platform_post_id"),
+    error: text("error"),
+    steps: jsonb("steps").$type<PublishStep[]>(),
+    // Media IDs returned by the platform's upload, reused when only creating the post failed
+    mediaIds: text("media_ids").array(),
+    // Tweet IDs of the thread parts already published, so a retry continues the reply chain
+    threadPostIds: text("thread_post_ids").array(),
+    postedAt: timestamp("posted_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_social_post_targets_post_account").on(table.postId, table.socialAccountId)],
+);
+
 export const scheduledPosts = pgTable("scheduled_posts", {
   id: uuid("id").primaryKey().defaultRandom(),
   clipId: uuid("clip_id").references(() => clips.id, { onDelete: "cascade" }).notNull(),
@@ -236,6 +451,12 @@ export const insertUserSchema = z.object({
   updatedAt: z.date().optional(),
 });
 
+export const segmentationSettingsSchema = z.object({
+  mode: z.enum(['auto', 'single', 'chunked']).optional(),
+  maxSegments: z.number().int().min(3).max(50).optional(),
+  order: z.enum(['chronological', 'score']).optional(),
+});
+
 export const insertUploadSchema = z.object({
   userId: z.string().uuid(),
   filename: z.string(),
@@ -244,15 +465,164 @@ export const insertUploadSchema = z.object({
   fileSize: z.number(),
   mimeType: z.string(),
   duration: z.number().nullable().optional(),
+  workspaceId: z.string().uuid().nullable().optional(),
+  segmentationSettings: segmentationSettingsSchema.nullable().optional(),
   status: z.string().optional(),
 });
 
+export const transcriptWordSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+  confidence: z.number().optional(),
+  speaker: z.string().optional(),
+});
+
 export const insertTranscriptSchema = z.object({
   uploadId: z.string().uuid(),
   text: z.string(),
-  wordTimestamps: z.record(z.string(), z.number()).optional(),
+  wordTimestamps: z.array(transcriptWordSchema).optional(),
   language: z.string().optional(),
   confidence: z.number().optional(),
+  provider: z.string().optional(),
+});
+
+export const insertTranscriptRevisionSchema = z.object({
+  transcriptId: z.string().uuid(),
+  userId: z.string().nullable().optional(),
+  operation: z.enum(['replace_word', 'find_replace', 'vocabulary', 'revert']),
+  details: z.record(z.string(), z.any()).optional(),
+  previousText: z.string(),
+  previousWords: z.array(transcriptWordSchema).nullable().optional(),
+});
+
+export const insertSegmentRevisionSchema = z.object({
+  uploadId: z.string().uuid(),
+  userId: z.string().nullable().optional(),
+  operation: z.enum(['trim', 'split', 'merge']),
+  details: z.record(z.string(), z.any()).optional(),
+  previousSegments: z.array(z.custom<SegmentSnapshot>()),
+  createdSegmentIds: z.array(z.string().uuid()),
+});
+
+// Workspace custom vocabulary (settings.transcription.vocabulary): each term
+// replaces its known mis-hearings and fixes its capitalisation
+export const vocabularyEntrySchema = z.object({
+  term: z.string().trim().min(1).max(100),
+  aliases: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+});
+
+export const vocabularySchema = z.array(vocabularyEntrySchema).max(500);
+
+// Whisper models a workspace may pick for local transcription
+export const WHISPER_MODELS = [
+  'tiny', 'tiny.en', 'base', 'base.en', 'small', 'small.en', 'medium', 'medium.en',
+  'large-v1', 'large-v2', 'large-v3', 'large-v3-turbo',
+] as const;
+
+// Workspace transcription settings (settings.transcription). Workspaces only
+// choose the provider, a model from WHISPER_MODELS, the language and the
+// thread count; the local engine, its binary and the model directory come
+// from the server's WHISPER_* environment. Unknown keys are dropped.
+export const transcriptionSettingsSchema = z.object({
+  provider: z.enum(['openai', 'assemblyai', 'local']).optional(),
+  language: z.string().regex(/^[a-z]{2,3}$/, 'Language must be an ISO 639 code').optional(),
+  vocabulary: vocabularySchema.optional(),
+  local: z.object({
+    model: z.enum(WHISPER_MODELS).optional(),
+    threads: z.number().int().min(1).max(64).optional(),
+  }).optional(),
+});
+
+export type TranscriptionSettingsInput = z.infer<typeof transcriptionSettingsSchema>;
+
+// Workspace audio clean-up settings (settings.audio). The clean-up stage runs
+// before transcription when `cleanup` is on; the quality gate, when turned on,
+// warns or stops processing when the SNR or loudness is below the thresholds.
+// Both are off by default since each one decodes the whole file again.
+export const audioSettingsSchema = z.object({
+  cleanup: z.boolean().default(false),
+  noiseReduction: z.enum(['off', 'low', 'medium', 'high']).default('medium'),
+  loudnessTarget: z.number().min(-40).max(-5).default(-16), // LUFS
+  qualityGate: z.enum(['off', 'warn', 'block']).default('off'),
+  minSnr: z.number().min(0).max(60).default(10), // dB
+  minLoudness: z.number().min(-70).max(-5).default(-40), // LUFS
+});
+
+// Jump-cut overrides for shorts (request `config.jumpCut` and workspace
+// `settings.shorts.jumpCut`), merged over the service defaults. The silence
+// values end up in an FFmpeg filter, so they are bounded numbers.
+export const jumpCutSettingsSchema = z.object({
+  enabled: z.boolean(),
+  fillerWords: z.array(z.string().trim().min(1).max(40)).max(50),
+  removeFillers: z.boolean(),
+  removeSilences: z.boolean(),
+  minSilenceMs: z.number().int().min(100).max(10000),
+  silenceThresholdDb: z.number().min(-90).max(-10),
+  paddingMs: z.number().int().min(0).max(1000),
+}).partial();
+
+// Colour names or #RRGGBB, with an optional FFmpeg-style "@opacity"
+const renderColorSchema = z.string().regex(/^(?:[a-zA-Z]{3,20}|#[0-9a-fA-F]{6})(?:@(?:0(?:\.\d{1,3})?|1(?:\.0{1,3})?))?$/);
+
+// Fonts installed for caption rendering
+export const CAPTION_FONTS = ['Arial', 'Arial Black', 'Helvetica', 'Verdana', 'Georgia', 'Impact', 'Trebuchet MS', 'Courier New'] as const;
+
+// Caption style for shorts (request `config.subtitleStyle` and workspace
+// `settings.shorts.subtitleStyle`); every value is written into FFmpeg filters
+export const shortsSubtitleStyleSchema = z.object({
+  fontsize: z.number().int().min(12).max(200),
+  fontcolor: renderColorSchema,
+  fontfamily: z.enum(CAPTION_FONTS),
+  boxcolor: renderColorSchema,
+  boxborderw: z.number().int().min(0).max(50),
+  preset: z.enum(['classic', 'bold-pop', 'karaoke', 'minimal']),
+  highlightColor: renderColorSchema,
+  position: z.enum(['top', 'middle', 'bottom']),
+  maxWordsPerLine: z.number().int().min(1).max(12),
+  emoji: z.boolean(),
+  platform: z.enum(['tiktok', 'instagram', 'youtube', 'generic']),
+}).partial();
+
+// Render settings a user may pass when generating shorts; brand kit, B-roll
+// and intro/outro always come from the workspace
+export const shortsConfigSchema = z.object({
+  width: z.number().int().min(240).max(2160).optional(),
+  height: z.number().int().min(240).max(3840).optional(),
+  reframe: z.enum(['center', 'subject', 'split-screen']).optional(),
+  subtitleStyle: shortsSubtitleStyleSchema.optional(),
+  jumpCut: jumpCutSettingsSchema.optional(),
+});
+
+// Audiogram look (request `config` and workspace `settings.audiogram`). Cover
+// art is an image from the workspace's asset library, by ID; the aspect ratio
+// belongs to each clip and isn't part of the look.
+export const audiogramSettingsSchema = z.object({
+  style: z.enum(['waves', 'spectrum']),
+  waveColor: renderColorSchema,
+  backgroundColor: renderColorSchema,
+  titleColor: renderColorSchema,
+  coverArt: z.string().uuid(),
+  title: z.string().max(200),
+  captionPreset: z.enum(['classic', 'bold-pop', 'karaoke', 'minimal']),
+  captions: z.boolean(),
+}).partial();
+
+// Workspace `settings.virality`. When topK is set, only the topK highest-scoring
+// segments of an upload get clips and social posts; weights are relative.
+export const viralitySettingsSchema = z.object({
+  topK: z.number().int().min(1).max(50).optional(),
+  // Segments below this score are skipped even if they are in the top K
+  minScore: z.number().min(0).max(100).default(0),
+  platforms: z.array(z.enum(['tiktok', 'instagram', 'youtube', 'twitter', 'linkedin'])).min(1)
+    .default(['tiktok', 'instagram', 'youtube']),
+  weights: z.object({
+    hook: z.number().min(0).max(10).default(3),
+    emotion: z.number().min(0).max(10).default(2),
+    coherence: z.number().min(0).max(10).default(2),
+    lengthFit: z.number().min(0).max(10).default(1),
+    similarity: z.number().min(0).max(10).default(2),
+  }).default({}),
 });
 
 export const insertSegmentSchema = z.object({
@@ -262,9 +632,172 @@ export const insertSegmentSchema = z.object({
   startTime: z.number(),
   endTime: z.number(),
   transcript: z.string().optional(),
+  speakerId: z.string().uuid().nullable().optional(),
+  alignmentConfidence: z.number().min(0).max(1).nullable().optional(),
   order: z.number(),
 });
 
+export const insertSpeakerSchema = z.object({
+  uploadId: z.string().uuid(),
+  label: z.string(),
+  name: z.string().min(1).max(100),
+  wordCount: z.number().optional(),
+  speakingTime: z.number().optional(),
+});
+
+// Graphic templates: layers are positioned in percent of the canvas so the same
+// layout works for every size variant; font sizes are pixels at the base width.
+// String properties may contain {{variable}} bindings.
+
+// Style values are rendered by the server's browser, so they may not load anything
+const templateCssSchema = (max: number) => z.string().max(max)
+  .refine(value => !/url\s*\(|image-set\s*\(|@import/i.test(value), 'Must not load external resources');
+
+// Image sources: https, data: images or a {{variable}} binding
+const templateImageSourceSchema = z.string().max(2000)
+  .refine(value => /^(?:https:\/\/|data:image\/|\s*\{\{\s*\w+\s*\}\}\s*$)/i.test(value) || value === '', 'Must be an https or data: image URL');
+
+const templateLayerBaseSchema = z.object({
+  id: z.string().min(1).max(50),
+  x: z.number().min(-100).max(200),
+  y: z.number().min(-100).max(200),
+  width: z.number().min(0).max(300),
+  height: z.number().min(0).max(300),
+  opacity: z.number().min(0).max(1).optional(),
+  rotation: z.number().min(-360).max(360).optional(),
+  hidden: z.boolean().optional(),
+});
+
+export const templateLayerSchema = z.discriminatedUnion('type', [
+  templateLayerBaseSchema.extend({
+    type: z.literal('text'),
+    text: z.string().max(2000),
+    fontFamily: templateCssSchema(200).optional(),
+    fontSize: z.number().min(4).max(400),
+    fontWeight: z.union([z.number().int().min(100).max(900), z.enum(['normal', 'bold'])]).optional(),
+    color: templateCssSchema(100),
+    align: z.enum(['left', 'center', 'right']).optional(),
+    verticalAlign: z.enum(['top', 'middle', 'bottom']).optional(),
+    lineHeight: z.number().min(0.5).max(3).optional(),
+    letterSpacing: z.number().min(-10).max(50).optional(),
+    uppercase: z.boolean().optional(),
+    maxLines: z.number().int().min(1).max(20).optional(),
+  }),
+  templateLayerBaseSchema.extend({
+    type: z.literal('image'),
+    src: templateImageSourceSchema,
+    fit: z.enum(['cover', 'contain']).optional(),
+    borderRadius: z.number().min(0).max(1000).optional(),
+  }),
+  templateLayerBaseSchema.extend({
+    type: z.literal('shape'),
+    shape: z.enum(['rect', 'ellipse', 'line']),
+    fill: templateCssSchema(300).optional(), // colour or CSS gradient
+    stroke: templateCssSchema(100).optional(),
+    strokeWidth: z.number().min(0).max(100).optional(),
+    borderRadius: z.number().min(0).max(1000).optional(),
+  }),
+  templateLayerBaseSchema.extend({
+    type: z.literal('logo'),
+    src: templateImageSourceSchema.optional(), // defaults to {{logo}}
+  }),
+  templateLayerBaseSchema.extend({
+    type: z.literal('waveform'),
+    color: templateCssSchema(100),
+    bars: z.number().int().min(4).max(256).optional(),
+    gap: z.number().min(0).max(0.9).optional(), // fraction of each bar slot left empty
+    style: z.enum(['bars', 'mirror']).optional(),
+  }),
+]);
+
+// What a size variant may change on a layer: any layer property except its id and type
+export const templateLayerOverrideSchema = templateLayerBaseSchema.omit({ id: true }).extend({
+  text: z.string().max(2000),
+  fontFamily: templateCssSchema(200),
+  fontSize: z.number().min(4).max(400),
+  fontWeight: z.union([z.number().int().min(100).max(900), z.enum(['normal', 'bold'])]),
+  color: templateCssSchema(100),
+  align: z.enum(['left', 'center', 'right']),
+  verticalAlign: z.enum(['top', 'middle', 'bottom']),
+  lineHeight: z.number().min(0.5).max(3),
+  letterSpacing: z.number().min(-10).max(50),
+  uppercase: z.boolean(),
+  maxLines: z.number().int().min(1).max(20),
+  src: templateImageSourceSchema,
+  fit: z.enum(['cover', 'contain']),
+  borderRadius: z.number().min(0).max(1000),
+  shape: z.enum(['rect', 'ellipse', 'line']),
+  fill: templateCssSchema(300),
+  stroke: templateCssSchema(100),
+  strokeWidth: z.number().min(0).max(100),
+  bars: z.number().int().min(4).max(256),
+  gap: z.number().min(0).max(0.9),
+  style: z.enum(['bars', 'mirror']),
+}).partial().strict();
+
+export const templateVariantSchema = z.object({
+  platform: z.string().min(1).max(50),
+  width: z.number().int().min(16).max(4096),
+  height: z.number().int().min(16).max(4096),
+  // Per-layer property overrides keyed by layer id
+  overrides: z.record(z.string(), templateLayerOverrideSchema).optional(),
+});
+
+export const graphicTemplateDefinitionSchema = z.object({
+  width: z.number().int().min(16).max(4096),
+  height: z.number().int().min(16).max(4096),
+  background: templateCssSchema(300),
+  variables: z.array(z.object({
+    name: z.string().regex(/^\w+$/),
+    label: z.string().max(100).optional(),
+    default: z.string().max(2000).optional(),
+  })).max(50).default([]),
+  layers: z.array(templateLayerSchema).min(1).max(50),
+  variants: z.array(templateVariantSchema).max(20).default([]),
+});
+
+export const insertGraphicTemplateSchema = z.object({
+  userId: z.string(),
+  name: z.string().trim().min(1).max(100),
+  kind: z.enum(['quote', 'thumbnail']),
+  definition: graphicTemplateDefinitionSchema,
+});
+
+const brollTagsSchema = z.array(z.string().trim().toLowerCase().min(1).max(50)).max(30);
+
+export const insertBrollAssetSchema = z.object({
+  workspaceId: z.string().uuid(),
+  userId: z.string().nullable(),
+  name: z.string().trim().min(1).max(200),
+  mediaType: z.enum(['video', 'image']),
+  mimeType: z.string(),
+  filePath: z.string(),
+  fileSize: z.number().int().nonnegative(),
+  duration: z.string().nullable().optional(),
+  tags: brollTagsSchema,
+});
+
+export const updateBrollAssetSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  tags: brollTagsSchema.optional(),
+});
+
+// One B-roll insert on a short's timeline; times are seconds from the segment start
+export const brollPlacementSchema = z.object({
+  id: z.string().min(1).max(64),
+  assetId: z.string().uuid(),
+  start: z.number().min(0),
+  end: z.number().positive(),
+  // cutaway: full frame over the speaker; pip: inset picture-in-picture
+  mode: z.enum(['cutaway', 'pip']).default('cutaway'),
+  position: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']).default('top-right'),
+  scale: z.number().min(0.2).max(0.6).default(0.4), // pip width as a fraction of the frame
+  keyword: z.string().max(100).optional(),
+  source: z.enum(['auto', 'manual']).default('manual'),
+}).refine(placement => placement.end > placement.start, { message: 'end must be after start' });
+
+export const brollTimelineSchema = z.array(brollPlacementSchema).max(50);
+
 export const insertClipSchema = z.object({
   segmentId: z.string().uuid(),
   type: z.string(),
@@ -281,6 +814,27 @@ export const insertSocialPostSchema = z.object({
   scheduledFor: z.date().optional(),
   status: z.string(),
   engagement: z.record(z.string(), z.number()).optional(),
+  media: z.array(z.custom<PostMedia>()).optional(),
+  threadParts: z.array(z.string()).nullable().optional(),
+});
+
+export const insertSocialPostTargetSchema = z.object({
+  postId: z.string().uuid(),
+  socialAccountId: z.string().uuid(),
+  status: z.enum(['pending', 'posting', 'posted', 'failed']).default('pending'),
+});
+
+// Statuses a user may set on a post; 'posting' is only set while publishing
+export const socialPostStatusSchema = z.object({
+  status: z.enum(['draft', 'scheduled', 'posted', 'failed']),
+});
+
+export const postMediaSchema = z.object({
+  clipIds: z.array(z.string().uuid()).max(10),
+});
+
+export const postTargetsSchema = z.object({
+  accountIds: z.array(z.string().uuid()).min(1),
 });
 
 export const insertRevenueRecordSchema = z.object({
@@ -357,12 +911,36 @@ export type Upload = typeof uploads.$inferSelect;
 export type InsertUpload = typeof uploads.$inferInsert;
 export type Transcript = typeof transcripts.$inferSelect;
 export type InsertTranscript = z.infer<typeof insertTranscriptSchema>;
+export type TranscriptRevision = typeof transcriptRevisions.$inferSelect;
+export type InsertTranscriptRevision = z.infer<typeof insertTranscriptRevisionSchema>;
+export type VocabularyEntry = z.infer<typeof vocabularyEntrySchema>;
+export type AudioSettings = z.infer<typeof audioSettingsSchema>;
+export type ViralitySettings = z.infer<typeof viralitySettingsSchema>;
 export type Segment = typeof segments.$inferSelect;
+// A segment row as stored in a revision; scores are recomputed after undo
+export type SegmentSnapshot = Omit<Segment, 'createdAt' | 'viralityScore' | 'viralityBreakdown'>;
+export type SegmentRevision = typeof segmentRevisions.$inferSelect;
+export type InsertSegmentRevision = z.infer<typeof insertSegmentRevisionSchema>;
 export type InsertSegment = z.infer<typeof insertSegmentSchema>;
+export type Speaker = typeof speakers.$inferSelect;
+export type InsertSpeaker = z.infer<typeof insertSpeakerSchema>;
 export type Clip = typeof clips.$inferSelect;
 export type InsertClip = z.infer<typeof insertClipSchema>;
+export type BrollAsset = typeof brollAssets.$inferSelect;
+export type InsertBrollAsset = z.infer<typeof insertBrollAssetSchema>;
+export type BrollPlacement = z.infer<typeof brollPlacementSchema>;
+export type GraphicTemplateRecord = typeof graphicTemplates.$inferSelect;
+export type InsertGraphicTemplate = z.infer<typeof insertGraphicTemplateSchema>;
+export type GraphicTemplateDefinition = z.infer<typeof graphicTemplateDefinitionSchema>;
+export type TemplateLayer = z.infer<typeof templateLayerSchema>;
+export type AudiogramSettings = z.infer<typeof audiogramSettingsSchema>;
+export type TemplateVariant = z.infer<typeof templateVariantSchema>;
+export type ProcessingCheckpoint = typeof processingCheckpoints.$inferSelect;
+export type InsertProcessingCheckpoint = typeof processingCheckpoints.$inferInsert;
 export type SocialPost = typeof socialPosts.$inferSelect;
 export type InsertSocialPost = z.infer<typeof insertSocialPostSchema>;
+export type SocialPostTarget = typeof socialPostTargets.$inferSelect;
+export type InsertSocialPostTarget = z.infer<typeof insertSocialPostTargetSchema>;
 export type RevenueRecord = typeof revenueRecords.$inferSelect;
 export type InsertRevenueRecord = z.infer<typeof insertRevenueRecordSchema>;
 export type BreakoutAlert = typeof breakoutAlerts.$inferSelect;
@@ -0,0 +1,153 @@
+/**
+ * X (Twitter) thread splitting, shared by the publisher and the post editor's
+ * preview so both split a post the same way.
+ *
+ * Lengths are weighted the way X counts them: most Latin, Greek, Cyrillic
+ * and punctuation characters count 1, other characters (CJK, most symbols)
+ * count 2, every emoji counts 2 however many code points it has, and every
+ * link counts 23 whatever its length.
+ */
+
+export const TWEET_MAX_LENGTH = 280;
+const URL_LENGTH = 23;
+const EMOJI_LENGTH = 2;
+
+// Code point ranges that count 1; everything else counts 2
+const LIGHT_RANGES: Array<[number, number]> = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s]+/gi;
+// Flags, keycaps and (ZWJ sequences of) pictographs with their modifiers
+const EMOJI_PATTERN = /\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]*(?:\u200D\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]*)*/gu;
+
+// A line that starts a new tweet: "2/", "2/5" or a "Tweet 2:" label
+const PART_MARKER = /^\s*(?:(\d+)\s*\/\s*\d*|tweet\s*(\d+)\s*[:.)-])/i;
+const TWEET_LABEL = /^\s*tweet\s*\d+\s*[:.)-]\s*/i;
+
+// How text is broken up when a part is too long: paragraphs, then sentences, then words
+const SPLITTERS: Array<{ pattern: RegExp; separator: string }> = [
+  { pattern: /\n\s*\n/, separator: '\n\n' },
+  { pattern: /(?<=[.!?…])\s+/, separator: ' ' },
+  { pattern: /\s+/, separator: ' ' },
+];
+
+export function tweetLength(text: string): number {
+  let length = 0;
+  const rest = text.normalize('NFC')
+    .replace(URL_PATTERN, () => {
+      length += URL_LENGTH;
+      return '';
+    })
+    .replace(EMOJI_PATTERN, () => {
+      length += EMOJI_LENGTH;
+      return '';
+    });
+
+  for (const char of rest) {
+    const codePoint = char.codePointAt(0)!;
+    length += LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+  }
+  return length;
+}
+
+/**
+ * Splits a post into tweets of at most `maxLength`. Parts the text already
+ * marks ("1/", "Tweet 2:") are kept as written, minus "Tweet N:" labels; a
+ * part that is too long is split at paragraphs, then sentences, then words.
+ */
+export function splitThread(content: string, maxLength: number = TWEET_MAX_LENGTH): string[] {
+  const text = content.trim();
+  if (!text) return [];
+
+  return markedParts(text).flatMap(part =>
+    tweetLength(part) <= maxLength ? [part] : pack(units(part, maxLength), maxLength)
+  );
+}
+
+/** The thread parts stored for a post: only X posts that need more than one tweet have any */
+export function threadPartsFor(platform: string, content: string): string[] | null {
+  if (platform !== 'twitter') return null;
+  const parts = splitThread(content);
+  return parts.length > 1 ? parts : null;
+}
+
+function markedParts(text: string): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+
+  for (const line of text.split('\n')) {
+    // Only the next number starts a part, so a line opening with "24/7" doesn't
+    const marker = line.match(PART_MARKER);
+    const number = marker ? parseInt(marker[1] || marker[2], 10) : null;
+    if (number === parts.length + 2 && current.some(existing => existing.trim())) {
+      parts.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line.replace(TWEET_LABEL, ''));
+  }
+  parts.push(current.join('\n'));
+
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+interface Unit {
+  text: string;
+  // What joined the unit to the one before it in the original text
+  separator: string;
+}
+
+// Pieces of `text` no longer than `maxLength`, breaking at the coarsest boundary that works
+function units(text: string, maxLength: number, level: number = 0): Unit[] {
+  if (tweetLength(text) <= maxLength) {
+    return [{ text, separator: '' }];
+  }
+  if (level >= SPLITTERS.length) {
+    return hardCut(text, maxLength);
+  }
+
+  const { pattern, separator } = SPLITTERS[level];
+  const pieces = text.split(pattern).map(piece => piece.trim()).filter(Boolean);
+  return pieces.flatMap((piece, index) =>
+    units(piece, maxLength, level + 1).map((unit, offset) => offset === 0
+      ? { text: unit.text, separator: index === 0 ? '' : separator }
+      : unit)
+  );
+}
+
+// Last resort for a single word longer than a tweet
+function hardCut(text: string, maxLength: number): Unit[] {
+  const cuts: Unit[] = [];
+  let current = '';
+  for (const char of Array.from(text)) {
+    if (current && tweetLength(current + char) > maxLength) {
+      cuts.push({ text: current, separator: cuts.length === 0 ? '' : ' ' });
+      current = '';
+    }
+    current += char;
+  }
+  if (current) cuts.push({ text: current, separator: cuts.length === 0 ? '' : ' ' });
+  return cuts;
+}
+
+// Fills each tweet with as many consecutive units as fit
+function pack(pieces: Unit[], maxLength: number): string[] {
+  const tweets: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    const candidate = current ? current + (piece.separator || ' ') + piece.text : piece.text;
+    if (current && tweetLength(candidate) > maxLength) {
+      tweets.push(current);
+      current = piece.text;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) tweets.push(current);
+
+  return tweets;
+}
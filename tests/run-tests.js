@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/**
+ * Runs the test suites once with Node's built-in test runner, loading
+ * TypeScript through tsx.
+ *
+ *   node tests/run-tests.js [simple|unit|integration|e2e] [--reporter=spec]
+ *
+ * Without a suite every suite runs; `simple` runs the unit tests, which need
+ * no database, Redis or FFmpeg.
+ */
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const testsDir = path.dirname(fileURLToPath(import.meta.url));
+const rootDir = path.dirname(testsDir);
+
+const SUITES = {
+  simple: ['unit'],
+  unit: ['unit'],
+  integration: ['integration'],
+  e2e: ['e2e'],
+};
+
+const args = process.argv.slice(2);
+const suite = args.find(arg => !arg.startsWith('-'));
+if (suite && !SUITES[suite]) {
+  console.error(`Unknown test suite "${suite}" (expected one of ${Object.keys(SUITES).join(', ')})`);
+  process.exit(1);
+}
+
+// `--reporter=spec` is accepted for the CI script and passed on as Node's own flag
+const nodeFlags = args
+  .filter(arg => arg.startsWith('-'))
+  .map(arg => arg.replace(/^--reporter=/, '--test-reporter='));
+
+function findTests(dir) {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findTests(fullPath);
+    return /\.test\.[jt]s$/.test(entry.name) ? [fullPath] : [];
+  });
+}
+
+const dirs = suite ? SUITES[suite] : Array.from(new Set(Object.values(SUITES).flat()));
+const files = dirs.flatMap(dir => findTests(path.join(testsDir, dir))).sort();
+
+if (files.length === 0) {
+  console.log(`No tests found for ${suite || 'any suite'}`);
+  process.exit(0);
+}
+
+const result = spawnSync(
+  process.execPath,
+  ['--import', 'tsx', '--test', ...nodeFlags, ...files.map(file => path.relative(rootDir, file))],
+  { cwd: rootDir, stdio: 'inherit', env: { ...process.env, NODE_ENV: 'test' } }
+);
+
+process.exit(result.status ?? 1);
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TranscriptWord } from '@shared/schema';
+import { jumpCutService, DEFAULT_JUMP_CUT_CONFIG, type EditDecisionList } from '../../server/jumpCutService';
+
+// Source words of the clip [10, 13]
+const words: TranscriptWord[] = [
+  { word: 'So', start: 10.0, end: 10.3 },
+  { word: 'Um,', start: 10.4, end: 10.7 },
+  { word: 'we', start: 10.8, end: 11.0 },
+  { word: 'you', start: 11.1, end: 11.3 },
+  { word: 'know', start: 11.3, end: 11.5 },
+  { word: 'begin.', start: 11.6, end: 12.0 },
+];
+
+// Filler removal only: no silence detection, so FFmpeg never runs
+const config = {
+  ...DEFAULT_JUMP_CUT_CONFIG,
+  enabled: true,
+  removeSilences: false,
+  fillerWords: ['um', 'you know'],
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+describe('jumpCutService.planCuts', () => {
+  it('cuts filler words and phrases in clip-relative time', async () => {
+    const edl = await jumpCutService.planCuts('unused.mp4', 10, 13, words, config, false);
+
+    assert.deepEqual(edl.cuts, [
+      { start: 0.4, end: 0.7, reason: 'filler', text: 'Um,' },
+      { start: 1.1, end: 1.5, reason: 'filler', text: 'you know' },
+    ]);
+    assert.deepEqual(edl.keep, [
+      { start: 0, end: 0.4 },
+      { start: 0.7, end: 1.1 },
+      { start: 1.5, end: 3 },
+    ]);
+    assert.equal(edl.sourceStart, 10);
+    assert.equal(edl.originalDuration, 3);
+    assert.equal(edl.editedDuration, 2.3);
+  });
+
+  it('leaves the clip alone when filler removal is off', async () => {
+    const edl = await jumpCutService.planCuts('unused.mp4', 10, 13, words, { ...config, removeFillers: false }, false);
+
+    assert.deepEqual(edl.cuts, []);
+    assert.deepEqual(edl.keep, [{ start: 0, end: 3 }]);
+  });
+});
+
+describe('jumpCutService.buildEdl', () => {
+  it('merges cuts that nearly touch and drops kept fragments too short to show', () => {
+    const edl = jumpCutService.buildEdl(0, 3, [
+      { start: 0.5, end: 1.0, reason: 'silence' },
+      { start: 1.03, end: 1.5, reason: 'filler', text: 'uh' },
+      { start: 1.6, end: 2.0, reason: 'silence' },
+    ]);
+
+    assert.deepEqual(edl.cuts, [
+      { start: 0.5, end: 1.5, reason: 'filler', text: 'uh' },
+      { start: 1.6, end: 2.0, reason: 'silence' },
+    ]);
+    // The 0.1s between the two cuts is dropped
+    assert.deepEqual(edl.keep, [{ start: 0, end: 0.5 }, { start: 2, end: 3 }]);
+    assert.equal(edl.editedDuration, 1.5);
+  });
+
+  it('never cuts a clip down to nothing', () => {
+    const edl = jumpCutService.buildEdl(0, 2, [{ start: 0, end: 2, reason: 'silence' }]);
+
+    assert.deepEqual(edl.keep, [{ start: 0, end: 2 }]);
+  });
+});
+
+describe('jumpCutService.retimeWords', () => {
+  const edl: EditDecisionList = {
+    sourceStart: 10,
+    sourceEnd: 13,
+    cuts: [],
+    keep: [{ start: 0, end: 0.4 }, { start: 0.7, end: 1.1 }, { start: 1.5, end: 3 }],
+    originalDuration: 3,
+    editedDuration: 2.3,
+  };
+
+  it('moves words onto the edited timeline and drops the ones that were cut', () => {
+    const retimed = jumpCutService.retimeWords([
+      { word: 'So', start: 0, end: 0.3 },
+      { word: 'Um,', start: 0.4, end: 0.7 },
+      { word: 'we', start: 0.8, end: 1.0 },
+      { word: 'begin.', start: 1.6, end: 2.0 },
+    ], edl);
+
+    assert.deepEqual(
+      retimed.map(word => ({ ...word, start: round(word.start), end: round(word.end) })),
+      [
+        { word: 'So', start: 0, end: 0.3 },
+        { word: 'we', start: 0.5, end: 0.7 },
+        { word: 'begin.', start: 0.9, end: 1.3 },
+      ]
+    );
+  });
+
+  it('clamps a word straddling a cut to its kept parts', () => {
+    const [word] = jumpCutService.retimeWords([{ word: 'long', start: 1.0, end: 1.6 }], edl);
+
+    assert.equal(round(word.start), 0.7);
+    assert.equal(round(word.end), 0.9);
+  });
+});
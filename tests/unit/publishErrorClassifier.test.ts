@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { publishErrorClassifier } from '../../server/publishErrorClassifier';
+
+// Shaped like the errors postingService throws for a failed platform API call
+function platformError(message: string, status?: number, headers?: Record<string, string>) {
+  return Object.assign(new Error(message), { status, headers });
+}
+
+describe('publishErrorClassifier.classify', () => {
+  it('waits as long as Retry-After asks on a rate limit', () => {
+    const result = publishErrorClassifier.classify('linkedin', platformError('Too Many Requests', 429, { 'retry-after': '30' }));
+
+    assert.equal(result.code, 'PLATFORM_RATE_LIMIT');
+    assert.equal(result.retryable, true);
+    assert.equal(result.retryAfterMs, 30_000);
+  });
+
+  it('treats quota errors sent as 403 as rate limits', () => {
+    const result = publishErrorClassifier.classify('youtube', platformError('quotaExceeded', 403));
+
+    assert.equal(result.code, 'PLATFORM_RATE_LIMIT');
+    assert.equal(result.retryable, true);
+  });
+
+  it('retries server errors', () => {
+    const result = publishErrorClassifier.classify('twitter', platformError('Service Unavailable', 503));
+
+    assert.equal(result.code, 'SERVER_ERROR');
+    assert.equal(result.retryable, true);
+    assert.equal(result.maxRetries, 3);
+  });
+
+  it('gives up on expired tokens, duplicates and rejected content', () => {
+    const cases: Array<[string, Error, string]> = [
+      ['linkedin', platformError('Unauthorized', 401), 'PLATFORM_TOKEN_EXPIRED'],
+      ['twitter', platformError('Status is a duplicate content', 403), 'PLATFORM_DUPLICATE_POST'],
+      ['twitter', platformError('Text too long', 400), 'PLATFORM_CONTENT_REJECTED'],
+    ];
+
+    for (const [platform, error, code] of cases) {
+      const result = publishErrorClassifier.classify(platform, error);
+      assert.equal(result.code, code);
+      assert.equal(result.retryable, false);
+    }
+  });
+
+  it('retries an Instagram container that is still processing', () => {
+    const result = publishErrorClassifier.classify('instagram_graphic', platformError('Media ID is not available', 400));
+
+    assert.equal(result.code, 'SERVER_ERROR');
+    assert.equal(result.retryable, true);
+  });
+
+  it('retries network failures without a response', () => {
+    const error = Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+
+    assert.equal(publishErrorClassifier.classify('twitter', error).code, 'UPLOAD_NETWORK_ERROR');
+  });
+
+  it('respects errors the publisher already marked as final', () => {
+    const error = Object.assign(new Error('No media to post'), { retryable: false, code: 'MISSING_DATA' });
+    const result = publishErrorClassifier.classify('instagram', error);
+
+    assert.equal(result.retryable, false);
+  });
+
+  it('retries a multi-account failure if any account can be, after the longest wait', () => {
+    const error = Object.assign(new Error('Publishing failed'), {
+      targetErrors: [
+        platformError('Unauthorized', 401),
+        platformError('Too Many Requests', 429, { 'retry-after': '10' }),
+        platformError('Bad Gateway', 502, { 'retry-after': '120' }),
+      ],
+    });
+    const result = publishErrorClassifier.classify('twitter', error);
+
+    assert.equal(result.retryable, true);
+    assert.equal(result.retryAfterMs, 120_000);
+    assert.equal(result.maxRetries, 3);
+  });
+});
+
+describe('publishErrorClassifier.retryAfter', () => {
+  const now = Date.UTC(2026, 0, 1);
+
+  it('reads X rate-limit reset times', () => {
+    const reset = String(now / 1000 + 90);
+
+    assert.equal(publishErrorClassifier.retryAfter('twitter', { 'x-rate-limit-reset': reset }, now), 90_000);
+  });
+
+  it('reads how long Instagram says to wait', () => {
+    const usage = JSON.stringify({ '123': [{ estimated_time_to_regain_access: 5 }] });
+
+    assert.equal(publishErrorClassifier.retryAfter('instagram', { 'x-business-use-case-usage': usage }, now), 300_000);
+  });
+
+  it('caps very long waits at six hours', () => {
+    assert.equal(publishErrorClassifier.retryAfter('linkedin', { 'retry-after': '999999' }, now), 6 * 60 * 60 * 1000);
+  });
+
+  it('is undefined when the platform did not say', () => {
+    assert.equal(publishErrorClassifier.retryAfter('linkedin', {}, now), undefined);
+  });
+});
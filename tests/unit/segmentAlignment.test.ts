@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TranscriptWord } from '@shared/schema';
+import { alignSegment } from '../../server/segmentAlignment';
+
+// One word every half second, each 0.4s long, so no gap is long enough to count as a pause
+function words(text: string): TranscriptWord[] {
+  return text.split(' ').map((word, i) => ({ word, start: i * 0.5, end: i * 0.5 + 0.4 }));
+}
+
+const transcript = words(
+  'Welcome to the show. Today we talk about compost and soil health. It matters a lot for gardens. Thanks for listening.'
+);
+
+describe('alignSegment', () => {
+  it('finds the segment text in the transcript whatever the estimated times', () => {
+    const alignment = alignSegment('Today we talk about compost and soil health.', transcript, 0, 30);
+
+    // "Today" starts at 2.0 and "health." ends at 5.9, padded by half the gap either side
+    assert.deepEqual(alignment, { startTime: 1.95, endTime: 5.95, confidence: 1 });
+  });
+
+  it('ignores case and punctuation differences', () => {
+    const alignment = alignSegment('today, we TALK about compost, and soil health!', transcript, 2, 6);
+
+    assert.equal(alignment.startTime, 1.95);
+    assert.equal(alignment.endTime, 5.95);
+    assert.equal(alignment.confidence, 1);
+  });
+
+  it('snaps a start in mid-sentence back to the sentence start', () => {
+    const alignment = alignSegment('we talk about compost and soil health.', transcript, 2.5, 6);
+
+    assert.equal(alignment.startTime, 1.95);
+    assert.equal(alignment.endTime, 5.95);
+  });
+
+  it('falls back to the estimated times snapped to sentence boundaries when the text is not found', () => {
+    const alignment = alignSegment('completely unrelated words here', transcript, 2.1, 5.6);
+
+    assert.deepEqual(alignment, { startTime: 1.95, endTime: 5.95, confidence: 0 });
+  });
+
+  it('keeps the estimated times when there are no word timestamps', () => {
+    assert.deepEqual(alignSegment('anything', [], 12, 34), { startTime: 12, endTime: 34, confidence: 0 });
+  });
+});
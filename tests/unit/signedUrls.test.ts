@@ -0,0 +1,69 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request } from 'express';
+import { signedUrls } from '../../server/signedUrls';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+// The parts of an Express request `verify` reads, for a request mounted at `baseUrl`
+function request(url: string, baseUrl: string = ''): Request {
+  const parsed = new URL(url, 'http://localhost');
+  return {
+    baseUrl,
+    path: parsed.pathname.slice(baseUrl.length),
+    query: Object.fromEntries(parsed.searchParams),
+  } as unknown as Request;
+}
+
+describe('signedUrls', () => {
+  const previousSecret = process.env.URL_SIGNING_SECRET;
+  before(() => { process.env.URL_SIGNING_SECRET = 'test-secret'; });
+  after(() => {
+    if (previousSecret === undefined) delete process.env.URL_SIGNING_SECRET;
+    else process.env.URL_SIGNING_SECRET = previousSecret;
+  });
+
+  it('accepts a signed link until it expires', () => {
+    const url = signedUrls.sign('/api/clips/abc/file', 60, NOW);
+
+    assert.equal(signedUrls.verify(request(url, '/api/clips'), undefined, NOW + 59_000), true);
+    assert.equal(signedUrls.verify(request(url, '/api/clips'), undefined, NOW + 61_000), false);
+  });
+
+  it('rejects a signature used for another path', () => {
+    const { search } = new URL(signedUrls.sign('/api/clips/abc/file', 60, NOW), 'http://localhost');
+
+    assert.equal(signedUrls.verify(request(`/api/clips/xyz/file${search}`), undefined, NOW), false);
+  });
+
+  it('rejects a link whose expiry was changed', () => {
+    const url = new URL(signedUrls.sign('/api/clips/abc/file', 60, NOW), 'http://localhost');
+    url.searchParams.set('expires', String(Number(url.searchParams.get('expires')) + 3600));
+
+    assert.equal(signedUrls.verify(request(url.pathname + url.search), undefined, NOW), false);
+  });
+
+  it('rejects links without a signature', () => {
+    assert.equal(signedUrls.verify(request('/api/clips/abc/file'), undefined, NOW), false);
+  });
+
+  it('lets a directory signature open files under it when verified against that directory', () => {
+    const query = signedUrls.signQuery('/api/previews/abc/hls', 60, NOW);
+    const segment = request(`/api/previews/abc/hls/720p/segment1.ts?${query}`);
+
+    assert.equal(signedUrls.verify(segment, '/api/previews/abc/hls', NOW), true);
+    assert.equal(signedUrls.verify(segment, undefined, NOW), false);
+  });
+
+  it('refuses to sign without a secret', () => {
+    const sessionSecret = process.env.SESSION_SECRET;
+    delete process.env.URL_SIGNING_SECRET;
+    delete process.env.SESSION_SECRET;
+    try {
+      assert.throws(() => signedUrls.sign('/api/clips/abc/file'), /URL_SIGNING_SECRET or SESSION_SECRET/);
+    } finally {
+      process.env.URL_SIGNING_SECRET = 'test-secret';
+      if (sessionSecret !== undefined) process.env.SESSION_SECRET = sessionSecret;
+    }
+  });
+});
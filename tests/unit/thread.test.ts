@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitThread, threadPartsFor, tweetLength } from '../../shared/thread';
+
+// A 100-character sentence
+const sentence = (n: number) => `${'word '.repeat(19)}end${n}.`;
+
+describe('tweetLength', () => {
+  it('counts links as 23 characters whatever their length', () => {
+    assert.equal(tweetLength('see https://example.com/a/very/long/path/that/goes/on/and/on'), 4 + 23);
+  });
+
+  it('counts emoji and CJK characters as two', () => {
+    assert.equal(tweetLength('👍🏽'), 2);
+    assert.equal(tweetLength('👨‍👩‍👧'), 2);
+    assert.equal(tweetLength('日本'), 4);
+    assert.equal(tweetLength('café'), 4);
+  });
+});
+
+describe('splitThread', () => {
+  it('keeps a post that fits as one tweet', () => {
+    assert.deepEqual(splitThread('  Hello world  '), ['Hello world']);
+    assert.deepEqual(splitThread('   '), []);
+  });
+
+  it('keeps parts the text already numbers', () => {
+    assert.deepEqual(splitThread('1/ First\n2/ Second\n3/ Third'), ['1/ First', '2/ Second', '3/ Third']);
+  });
+
+  it('drops "Tweet N:" labels', () => {
+    assert.deepEqual(splitThread('Tweet 1: Opening\nTweet 2: Follow-up'), ['Opening', 'Follow-up']);
+  });
+
+  it('does not split on numbers that are not the next part', () => {
+    assert.deepEqual(splitThread('We are open\n24/7 for you'), ['We are open\n24/7 for you']);
+  });
+
+  it('splits a long post between sentences, filling each tweet', () => {
+    const text = [1, 2, 3, 4].map(sentence).join(' ');
+    const parts = splitThread(text);
+
+    assert.deepEqual(parts, [`${sentence(1)} ${sentence(2)}`, `${sentence(3)} ${sentence(4)}`]);
+  });
+
+  it('prefers paragraph breaks and keeps them inside a tweet', () => {
+    const text = `${sentence(1)}\n\n${sentence(2)}\n\n${sentence(3)}`;
+
+    assert.deepEqual(splitThread(text), [`${sentence(1)}\n\n${sentence(2)}`, sentence(3)]);
+  });
+
+  it('cuts a word longer than a tweet', () => {
+    assert.deepEqual(splitThread('a'.repeat(300)), ['a'.repeat(280), 'a'.repeat(20)]);
+  });
+
+  it('never produces a tweet over the limit', () => {
+    const text = Array.from({ length: 30 }, (_, i) => `Point ${i} 🚀 https://example.com/${i} 日本語のテキスト.`).join(' ');
+
+    for (const part of splitThread(text)) {
+      assert.ok(tweetLength(part) <= 280, `${tweetLength(part)} > 280`);
+    }
+  });
+});
+
+describe('threadPartsFor', () => {
+  const long = [1, 2, 3, 4].map(sentence).join(' ');
+
+  it('stores parts only for X posts that need more than one tweet', () => {
+    assert.equal(threadPartsFor('twitter', 'Short post'), null);
+    assert.equal(threadPartsFor('linkedin', long), null);
+    assert.equal(threadPartsFor('twitter', long)?.length, 2);
+  });
+});